@@ -0,0 +1,101 @@
+// Local mock courier for exercising shipment tracking without a real courier account.
+//
+//   npm run stub:courier
+//   # and run the app with COURIER_STUB_URL=http://localhost:4020, then ship an order with
+//   # "Stub Courier (local)" and any tracking number
+//
+// GET /v1/track/:awb returns the shipment's tracking events. A tracking number is booked the first
+// time it is asked for, then moves one step along picked up -> in transit -> out for delivery ->
+// delivered every COURIER_STUB_STEP_SECONDS (30 by default). The /__stub helpers drive it by hand:
+// POST /__stub/shipments/:awb/advance moves it one step now, and .../exception reports a failed
+// delivery attempt. Set COURIER_STUB_DOWN=1 to answer every tracking request with a 503.
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.COURIER_STUB_PORT || 4020)
+const STEP_SECONDS = Number(process.env.COURIER_STUB_STEP_SECONDS || 30)
+const DOWN = process.env.COURIER_STUB_DOWN === "1"
+
+const STEPS = [
+  { status: "info_received", description: "Shipment details received", location: "Seller warehouse" },
+  { status: "in_transit", description: "Picked up from the seller", location: "Origin hub" },
+  { status: "in_transit", description: "Arrived at the destination hub", location: "Destination hub" },
+  { status: "out_for_delivery", description: "Out for delivery", location: "Local delivery centre" },
+  { status: "delivered", description: "Delivered", location: "Customer address" },
+]
+
+// awb -> { bookedAt, manualSteps, exceptionAt }
+const shipments = new Map()
+
+function book(awb) {
+  if (!shipments.has(awb)) shipments.set(awb, { bookedAt: Date.now(), manualSteps: 0, exceptionAt: null })
+  return shipments.get(awb)
+}
+
+function tracking(awb) {
+  const shipment = book(awb)
+  const elapsedSteps = Math.floor((Date.now() - shipment.bookedAt) / (STEP_SECONDS * 1000))
+  const reached = Math.min(STEPS.length - 1, elapsedSteps + shipment.manualSteps)
+
+  const events = STEPS.slice(0, reached + 1).map((step, index) => ({
+    ...step,
+    // Steps reached by hand get the current time rather than a time in the future
+    occurred_at: new Date(Math.min(Date.now(), shipment.bookedAt + index * STEP_SECONDS * 1000)).toISOString(),
+  }))
+  const delivered = reached === STEPS.length - 1
+  if (shipment.exceptionAt && !delivered) {
+    events.push({
+      status: "exception",
+      description: "Delivery attempted, customer not available",
+      location: "Local delivery centre",
+      occurred_at: new Date(shipment.exceptionAt).toISOString(),
+    })
+  }
+
+  const expected = new Date(shipment.bookedAt + 3 * 24 * 60 * 60 * 1000)
+  return {
+    awb,
+    status: events[events.length - 1].status,
+    expected_delivery_date: expected.toISOString().slice(0, 10),
+    events,
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+const routes = [
+  ["GET", /^\/v1\/track\/([^/]+)$/, (req, res, [awb]) => {
+    if (DOWN) return send(res, 503, { error: "Tracking is temporarily unavailable" })
+    send(res, 200, tracking(decodeURIComponent(awb)))
+  }],
+  ["POST", /^\/__stub\/shipments\/([^/]+)\/advance$/, (req, res, [awb]) => {
+    const shipment = book(decodeURIComponent(awb))
+    shipment.manualSteps += 1
+    shipment.exceptionAt = null
+    send(res, 200, tracking(decodeURIComponent(awb)))
+  }],
+  ["POST", /^\/__stub\/shipments\/([^/]+)\/exception$/, (req, res, [awb]) => {
+    book(decodeURIComponent(awb)).exceptionAt = Date.now()
+    send(res, 200, tracking(decodeURIComponent(awb)))
+  }],
+]
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = req.method === method && pattern.exec(path)
+      if (match) return handler(req, res, match.slice(1))
+    }
+    send(res, 404, { error: `No stub route for ${req.method} ${path}` })
+  } catch (error) {
+    console.error(error)
+    send(res, 500, { error: String(error) })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Courier stub listening on http://localhost:${PORT} (a step every ${STEP_SECONDS}s)`)
+})
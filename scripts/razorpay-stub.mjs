@@ -0,0 +1,209 @@
+// Minimal in-memory stand-in for the Razorpay REST API, for exercising the payment routes locally.
+//
+//   RAZORPAY_KEY_ID=rzp_test_stub RAZORPAY_KEY_SECRET=stub_secret npm run stub:razorpay
+//   # and run the app with RAZORPAY_API_BASE=http://localhost:4010/v1 and the same key pair
+//
+// Besides the handful of /v1 endpoints the app calls, it exposes /__stub helpers that play the
+// part of the checkout widget: POST /__stub/pay {"order_id": "..."} captures a payment for an order
+// and returns the signed handler payload the browser would post to /api/payments/razorpay/verify.
+// Pass "forge": true to get a payload with a bad signature.
+//
+// With RAZORPAY_WEBHOOK_URL and RAZORPAY_WEBHOOK_SECRET set, payments also fire signed
+// payment.captured / payment.failed webhooks (skip with "webhook": false), refunds fire
+// refund.processed, and POST /__stub/webhooks/replay {"event_id": "..."} redelivers an earlier
+// event unchanged. Refunds are processed instantly, or all declined with
+// RAZORPAY_STUB_DECLINE_REFUNDS=1 to try the failure path.
+import { createServer } from "node:http"
+import { createHmac, randomBytes } from "node:crypto"
+
+const PORT = Number(process.env.RAZORPAY_STUB_PORT || 4010)
+const KEY_ID = process.env.RAZORPAY_KEY_ID || "rzp_test_stub"
+const KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || "stub_secret"
+const WEBHOOK_URL = process.env.RAZORPAY_WEBHOOK_URL
+const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "stub_webhook_secret"
+const DECLINE_REFUNDS = process.env.RAZORPAY_STUB_DECLINE_REFUNDS === "1"
+
+const orders = new Map()
+const payments = new Map()
+const refunds = new Map()
+const deliveredEvents = new Map()
+
+const newId = (prefix) => `${prefix}_${randomBytes(7).toString("hex")}`
+const now = () => Math.floor(Date.now() / 1000)
+const sign = (payload, secret = KEY_SECRET) => createHmac("sha256", secret).update(payload).digest("hex")
+
+async function deliverWebhook(eventId, body) {
+  if (!WEBHOOK_URL) return null
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Razorpay-Event-Id": eventId,
+      "X-Razorpay-Signature": sign(body, WEBHOOK_SECRET),
+    },
+    body,
+  })
+  const result = { event_id: eventId, status: response.status, body: await response.text() }
+  console.log(`webhook ${eventId} -> ${response.status} ${result.body}`)
+  return result
+}
+
+function fireWebhook(event, entities) {
+  const eventId = newId("evt")
+  const body = JSON.stringify({
+    entity: "event",
+    account_id: "acc_stub",
+    event,
+    contains: Object.keys(entities),
+    payload: Object.fromEntries(Object.entries(entities).map(([key, entity]) => [key, { entity }])),
+    created_at: now(),
+  })
+  deliveredEvents.set(eventId, body)
+  return deliverWebhook(eventId, body)
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+function notFound(res, what) {
+  send(res, 400, { error: { code: "BAD_REQUEST_ERROR", description: `The id provided does not exist (${what})` } })
+}
+
+async function readJson(req) {
+  let raw = ""
+  for await (const chunk of req) raw += chunk
+  return raw ? JSON.parse(raw) : {}
+}
+
+function isAuthorized(req) {
+  const expected = `Basic ${Buffer.from(`${KEY_ID}:${KEY_SECRET}`).toString("base64")}`
+  return req.headers.authorization === expected
+}
+
+const routes = [
+  ["POST", /^\/v1\/orders$/, async (req, res) => {
+    const body = await readJson(req)
+    if (!Number.isInteger(body.amount) || body.amount < 100) {
+      return send(res, 400, { error: { code: "BAD_REQUEST_ERROR", description: "The amount must be atleast INR 1.00" } })
+    }
+    const order = {
+      id: newId("order"),
+      entity: "order",
+      amount: body.amount,
+      amount_paid: 0,
+      amount_due: body.amount,
+      currency: body.currency || "INR",
+      receipt: body.receipt ?? null,
+      status: "created",
+      notes: body.notes || {},
+      created_at: now(),
+    }
+    orders.set(order.id, order)
+    send(res, 200, order)
+  }],
+  ["GET", /^\/v1\/orders\/([^/]+)$/, (req, res, [id]) => {
+    const order = orders.get(id)
+    return order ? send(res, 200, order) : notFound(res, id)
+  }],
+  ["GET", /^\/v1\/payments\/([^/]+)$/, (req, res, [id]) => {
+    const payment = payments.get(id)
+    return payment ? send(res, 200, payment) : notFound(res, id)
+  }],
+  ["POST", /^\/v1\/payments\/([^/]+)\/refund$/, async (req, res, [id]) => {
+    const payment = payments.get(id)
+    if (!payment) return notFound(res, id)
+    const body = await readJson(req)
+    const amount = body.amount ?? payment.amount - (payment.amount_refunded || 0)
+    if (payment.status !== "captured" && payment.status !== "refunded") {
+      return send(res, 400, { error: { code: "BAD_REQUEST_ERROR", description: "The payment has not been captured" } })
+    }
+    if (DECLINE_REFUNDS || !Number.isInteger(amount) || amount < 100 || amount > payment.amount - (payment.amount_refunded || 0)) {
+      return send(res, 400, { error: { code: "BAD_REQUEST_ERROR", description: "The refund amount is invalid" } })
+    }
+
+    const refund = {
+      id: newId("rfnd"),
+      entity: "refund",
+      payment_id: payment.id,
+      amount,
+      currency: payment.currency,
+      status: "processed",
+      notes: body.notes || {},
+      created_at: now(),
+    }
+    refunds.set(refund.id, refund)
+    payment.amount_refunded = (payment.amount_refunded || 0) + amount
+    if (payment.amount_refunded === payment.amount) payment.status = "refunded"
+
+    send(res, 200, refund)
+    fireWebhook("refund.processed", { refund, payment })
+  }],
+  ["POST", /^\/__stub\/pay$/, async (req, res) => {
+    const body = await readJson(req)
+    const order = orders.get(body.order_id)
+    if (!order) return notFound(res, body.order_id)
+
+    const payment = {
+      id: newId("pay"),
+      entity: "payment",
+      order_id: order.id,
+      amount: body.amount ?? order.amount,
+      currency: order.currency,
+      status: body.status || "captured",
+      method: "card",
+      email: body.email || "customer@example.com",
+      contact: body.contact || "+919999999999",
+      notes: order.notes,
+      created_at: now(),
+    }
+    payments.set(payment.id, payment)
+    if (payment.status === "captured") {
+      order.status = "paid"
+      order.amount_paid = payment.amount
+      order.amount_due = 0
+    }
+
+    const webhook =
+      body.webhook === false
+        ? null
+        : await fireWebhook(payment.status === "failed" ? "payment.failed" : "payment.captured", { payment })
+
+    const signature = body.forge ? sign(`${order.id}|${payment.id}`, "not-the-secret") : sign(`${order.id}|${payment.id}`)
+    send(res, 200, {
+      razorpay_order_id: order.id,
+      razorpay_payment_id: payment.id,
+      razorpay_signature: signature,
+      webhook,
+    })
+  }],
+  ["POST", /^\/__stub\/webhooks\/replay$/, async (req, res) => {
+    const body = await readJson(req)
+    const payload = deliveredEvents.get(body.event_id)
+    if (!payload) return notFound(res, body.event_id)
+    send(res, 200, await deliverWebhook(body.event_id, payload))
+  }],
+]
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = req.method === method && pattern.exec(path)
+      if (!match) continue
+      if (path.startsWith("/v1/") && !isAuthorized(req)) {
+        return send(res, 401, { error: { code: "BAD_REQUEST_ERROR", description: "Authentication failed" } })
+      }
+      return await handler(req, res, match.slice(1))
+    }
+    send(res, 404, { error: { code: "BAD_REQUEST_ERROR", description: `No stub route for ${req.method} ${path}` } })
+  } catch (error) {
+    console.error(error)
+    send(res, 500, { error: { code: "SERVER_ERROR", description: String(error) } })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Razorpay stub listening on http://localhost:${PORT}/v1 (key ${KEY_ID})`)
+})
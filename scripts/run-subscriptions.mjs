@@ -0,0 +1,49 @@
+// Runs the subscription scheduler against a local dev server, optionally on a fake clock.
+//
+//   CRON_SECRET=... npm run job:subscriptions                    # as of today
+//   CRON_SECRET=... npm run job:subscriptions -- --now=2026-11-01
+//   CRON_SECRET=... npm run job:subscriptions -- --now=2026-11-01 --days=60
+//
+// --now sets the day the run happens on; --days repeats the run for that many consecutive days
+// from it, to watch weekly, fortnightly and monthly subscriptions come due. The fake clock is only
+// honoured when the app isn't running in production. APP_URL defaults to http://localhost:3000 and
+// CRON_SECRET must match the app's.
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "")
+const CRON_SECRET = process.env.CRON_SECRET
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, "").split("=")
+    return [key, value ?? "true"]
+  }),
+)
+
+if (!CRON_SECRET) {
+  console.error("Set CRON_SECRET to the value the app is running with.")
+  process.exit(1)
+}
+
+const start = args.now ? new Date(`${args.now}${args.now.includes("T") ? "" : "T09:00:00Z"}`) : new Date()
+const days = Number(args.days || 1)
+if (Number.isNaN(start.getTime()) || !Number.isInteger(days) || days < 1) {
+  console.error("Usage: run-subscriptions.mjs [--now=YYYY-MM-DD] [--days=N]")
+  process.exit(1)
+}
+
+for (let day = 0; day < days; day++) {
+  const now = new Date(start.getTime() + day * 24 * 60 * 60 * 1000)
+  const response = await fetch(`${APP_URL}/api/cron/subscriptions?now=${encodeURIComponent(now.toISOString())}`, {
+    headers: { Authorization: `Bearer ${CRON_SECRET}` },
+  })
+  const payload = await response.json().catch(() => null)
+  if (!response.ok) {
+    console.error(`${now.toISOString().slice(0, 10)}: ${payload?.error || `HTTP ${response.status}`}`)
+    process.exit(1)
+  }
+
+  const { date, placed, failed } = payload
+  if (placed.length === 0 && failed.length === 0 && days > 1) continue
+  console.log(`${date}: ${placed.length} placed, ${failed.length} failed`)
+  placed.forEach(({ subscriptionId, orderId }) => console.log(`  placed   ${subscriptionId} -> order ${orderId}`))
+  failed.forEach(({ subscriptionId, error }) => console.log(`  failed   ${subscriptionId}: ${error}`))
+}
@@ -9,8 +9,17 @@ import Header from "@/components/Header"
 import Footer from "@/components/Footer"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardTitle } from "@/components/ui/card"
-import { Loader2, HeartCrack, Trash2, ShoppingCart, Check } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, HeartCrack, Trash2, ShoppingCart, Check, Plus, Pencil, Share2, Copy, Link2Off } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { v4 as uuidv4 } from "uuid"
+import { getGuestCartItem, setGuestCartItem } from "@/lib/guest-cart"
+import { DEFAULT_WISHLIST_NAME, sharedWishlistPath, WISHLIST_COLUMNS, type Wishlist } from "@/lib/wishlists"
+import { FAVORITE_ALERT_COLUMNS, type FavoriteAlertType } from "@/lib/notifications"
+import WishlistNameDialog from "@/components/wishlist-name-dialog"
+import { Checkbox } from "@/components/ui/checkbox"
 
 interface FavoriteItem {
   id: string
@@ -20,13 +29,25 @@ interface FavoriteItem {
   originalPrice?: number
   thumbnail: string
   isInCart: boolean
+  stockQuantity: number
+  wishlistId: string | null // null: the default Favorites list
+  priceDropAlerts: boolean
+  backInStockAlerts: boolean
 }
 
+// The Select can't hold a null value
+const DEFAULT_LIST_VALUE = "favorites"
+
 export default function FavoritesPage() {
   const [favorites, setFavorites] = useState<FavoriteItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState<string>("")
+  const [wishlists, setWishlists] = useState<Wishlist[]>([])
+  const [activeListId, setActiveListId] = useState<string | null>(null)
+  const [nameDialog, setNameDialog] = useState<"create" | "rename" | null>(null)
+  const [listToDelete, setListToDelete] = useState<Wishlist | null>(null)
+  const [isDeletingList, setIsDeletingList] = useState(false)
   const router = useRouter()
   const { toast } = useToast()
 
@@ -58,17 +79,28 @@ export default function FavoritesPage() {
 
       const cartProductIds = new Set(cartData?.map((item) => item.product_id) || [])
 
+      const { data: listData } = await supabase
+        .from("wishlists")
+        .select(WISHLIST_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+      setWishlists(listData || [])
+
       const { data, error: favError } = await supabase
         .from("favorites")
         .select(
           `
           id,
           product_id,
+          wishlist_id,
+          price_drop_alerts,
+          back_in_stock_alerts,
           products (
             product_name,
             discount_price,
             original_price,
-            product_photo_urls
+            product_photo_urls,
+            stock_quantity
           )
         `
         )
@@ -92,6 +124,10 @@ export default function FavoritesPage() {
               originalPrice: prod?.original_price,
               thumbnail: prod?.product_photo_urls?.[0] || "/placeholder.svg",
               isInCart: cartProductIds.has(productId),
+              stockQuantity: prod?.stock_quantity ?? 0,
+              wishlistId: fav.wishlist_id ?? null,
+              priceDropAlerts: fav.price_drop_alerts ?? true,
+              backInStockAlerts: fav.back_in_stock_alerts ?? true,
             }
           }) || []
         setFavorites(fetchedFavorites)
@@ -163,11 +199,16 @@ export default function FavoritesPage() {
     } = await supabase.auth.getSession()
     const userId = session?.user?.id
 
+    // The session can lapse while the page is open; keep the item in the guest cart until they log in again
     if (!userId) {
+      if (!getGuestCartItem(productId)) setGuestCartItem(productId, 1, price)
       toast({
-        title: "Please log in to add products to your cart.",
-        variant: "destructive",
+        title: `${productName} has been added to your cart.`,
+        variant: "default",
       })
+      setFavorites((prev) =>
+        prev.map((item) => (item.productId === productId ? { ...item, isInCart: true } : item))
+      )
       return
     }
 
@@ -222,9 +263,130 @@ export default function FavoritesPage() {
     router.push("/cart")
   }
 
-  const filteredFavorites = favorites.filter((item) =>
-    item.productName.toLowerCase().includes(searchTerm.toLowerCase())
+  const activeList = wishlists.find((list) => list.id === activeListId) ?? null
+  const filteredFavorites = favorites.filter(
+    (item) =>
+      item.wishlistId === (activeList?.id ?? null) &&
+      item.productName.toLowerCase().includes(searchTerm.toLowerCase())
   )
+  const countFor = (listId: string | null) => favorites.filter((item) => item.wishlistId === listId).length
+  const shareUrl =
+    activeList?.share_token && typeof window !== "undefined"
+      ? `${window.location.origin}${sharedWishlistPath(activeList.share_token)}`
+      : null
+
+  const handleSaveListName = async (name: string) => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    const userId = session?.user?.id
+    if (!userId) return
+
+    if (nameDialog === "rename" && activeList) {
+      const { error } = await supabase.from("wishlists").update({ name }).eq("id", activeList.id).eq("user_id", userId)
+      if (error) {
+        toast({ title: error.message || "Failed to rename the list.", variant: "destructive" })
+        return
+      }
+      setWishlists((prev) => prev.map((list) => (list.id === activeList.id ? { ...list, name } : list)))
+      return
+    }
+
+    const { data, error } = await supabase
+      .from("wishlists")
+      .insert({ user_id: userId, name })
+      .select(WISHLIST_COLUMNS)
+      .single()
+    if (error) {
+      toast({ title: error.message || "Failed to create the list.", variant: "destructive" })
+      return
+    }
+    setWishlists((prev) => [...prev, data])
+    setActiveListId(data.id)
+    toast({ title: `${name} created.`, description: "Move items into it from your other lists." })
+  }
+
+  // Anyone with the link can view the list; turning sharing off again invalidates the old link
+  const handleToggleSharing = async () => {
+    if (!activeList) return
+    const shareToken = activeList.share_token ? null : uuidv4()
+    const { error } = await supabase.from("wishlists").update({ share_token: shareToken }).eq("id", activeList.id)
+    if (error) {
+      toast({ title: error.message || "Failed to update sharing.", variant: "destructive" })
+      return
+    }
+    setWishlists((prev) => prev.map((list) => (list.id === activeList.id ? { ...list, share_token: shareToken } : list)))
+    toast({
+      title: shareToken ? "Sharing turned on" : "Sharing turned off",
+      description: shareToken ? "Anyone with the link can view this list." : "The old link no longer works.",
+    })
+  }
+
+  const handleCopyShareLink = async () => {
+    if (!shareUrl) return
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      toast({ title: "Link copied" })
+    } catch {
+      toast({ title: "Could not copy the link", description: shareUrl, variant: "destructive" })
+    }
+  }
+
+  // Its items go back to Favorites rather than being deleted with it
+  const handleDeleteList = async () => {
+    if (!listToDelete) return
+    setIsDeletingList(true)
+    try {
+      const { error: moveError } = await supabase
+        .from("favorites")
+        .update({ wishlist_id: null })
+        .eq("wishlist_id", listToDelete.id)
+      if (moveError) throw moveError
+      const { error } = await supabase.from("wishlists").delete().eq("id", listToDelete.id)
+      if (error) throw error
+
+      setFavorites((prev) =>
+        prev.map((item) => (item.wishlistId === listToDelete.id ? { ...item, wishlistId: null } : item))
+      )
+      setWishlists((prev) => prev.filter((list) => list.id !== listToDelete.id))
+      setActiveListId(null)
+      toast({ title: `${listToDelete.name} deleted.`, description: `Its items are back in ${DEFAULT_WISHLIST_NAME}.` })
+      setListToDelete(null)
+    } catch (error: unknown) {
+      toast({
+        title: error instanceof Error ? error.message : "Failed to delete the list.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDeletingList(false)
+    }
+  }
+
+  const handleToggleAlert = async (item: FavoriteItem, type: FavoriteAlertType, enabled: boolean) => {
+    const field = type === "price_drop" ? "priceDropAlerts" : "backInStockAlerts"
+    const { error } = await supabase
+      .from("favorites")
+      .update({ [FAVORITE_ALERT_COLUMNS[type]]: enabled })
+      .eq("id", item.id)
+    if (error) {
+      toast({ title: error.message || "Failed to update the alert.", variant: "destructive" })
+      return
+    }
+    setFavorites((prev) => prev.map((favorite) => (favorite.id === item.id ? { ...favorite, [field]: enabled } : favorite)))
+  }
+
+  const handleMoveItem = async (item: FavoriteItem, value: string) => {
+    const wishlistId = value === DEFAULT_LIST_VALUE ? null : value
+    if (wishlistId === item.wishlistId) return
+    const { error } = await supabase.from("favorites").update({ wishlist_id: wishlistId }).eq("id", item.id)
+    if (error) {
+      toast({ title: error.message || "Failed to move the item.", variant: "destructive" })
+      return
+    }
+    setFavorites((prev) => prev.map((favorite) => (favorite.id === item.id ? { ...favorite, wishlistId } : favorite)))
+    const target = wishlists.find((list) => list.id === wishlistId)?.name ?? DEFAULT_WISHLIST_NAME
+    toast({ title: `${item.productName} moved to ${target}.` })
+  }
 
   if (loading) {
     return (
@@ -263,10 +425,67 @@ export default function FavoritesPage() {
       <main className="flex-grow container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold mb-6 text-gray-900">My Favorites</h1>
 
+        {/* Wishlists */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {[{ id: null, name: DEFAULT_WISHLIST_NAME }, ...wishlists].map((list) => (
+            <Button
+              key={list.id ?? DEFAULT_LIST_VALUE}
+              size="sm"
+              variant={activeListId === list.id ? "default" : "outline"}
+              className={activeListId === list.id ? "bg-green-600 hover:bg-green-700" : ""}
+              onClick={() => setActiveListId(list.id)}
+            >
+              {list.name} ({countFor(list.id)})
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={() => setNameDialog("create")}>
+            <Plus className="w-4 h-4 mr-1" /> New List
+          </Button>
+        </div>
+
+        {activeList && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6 p-3 border rounded-lg bg-gray-50">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => setNameDialog("rename")}>
+                <Pencil className="w-4 h-4 mr-2" /> Rename
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleToggleSharing}>
+                {activeList.share_token ? (
+                  <>
+                    <Link2Off className="w-4 h-4 mr-2" /> Stop Sharing
+                  </>
+                ) : (
+                  <>
+                    <Share2 className="w-4 h-4 mr-2" /> Share
+                  </>
+                )}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                onClick={() => setListToDelete(activeList)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Delete List
+              </Button>
+            </div>
+            {shareUrl && (
+              <div className="flex flex-1 items-center gap-2">
+                <Input value={shareUrl} readOnly className="bg-white text-sm" onFocus={(e) => e.target.select()} />
+                <Button size="sm" variant="outline" onClick={handleCopyShareLink}>
+                  <Copy className="w-4 h-4 mr-2" /> Copy
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
         {filteredFavorites.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-gray-500">
             <HeartCrack className="w-20 h-20 mb-4 text-gray-300" />
-            <p className="text-xl font-medium mb-2">Your wishlist is empty!</p>
+            <p className="text-xl font-medium mb-2">
+              {activeList ? `${activeList.name} is empty!` : "Your wishlist is empty!"}
+            </p>
             <Button asChild>
               <Link href="/shop">Start Shopping</Link>
             </Button>
@@ -314,6 +533,43 @@ export default function FavoritesPage() {
                     )}
                   </div>
 
+                  {/* Alerts for this item, delivered to /notifications and by email */}
+                  <div className="flex flex-col gap-1 mb-3 text-sm text-gray-600">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={item.priceDropAlerts}
+                        onCheckedChange={(checked) => handleToggleAlert(item, "price_drop", checked === true)}
+                      />
+                      Alert me when the price drops
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={item.backInStockAlerts}
+                        onCheckedChange={(checked) => handleToggleAlert(item, "back_in_stock", checked === true)}
+                      />
+                      Alert me when it&apos;s back in stock
+                    </label>
+                  </div>
+
+                  {(wishlists.length > 0 || item.wishlistId) && (
+                    <Select
+                      value={item.wishlistId ?? DEFAULT_LIST_VALUE}
+                      onValueChange={(value) => handleMoveItem(item, value)}
+                    >
+                      <SelectTrigger className="h-8 mb-3 text-sm" aria-label="Move to list">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_LIST_VALUE}>{DEFAULT_WISHLIST_NAME}</SelectItem>
+                        {wishlists.map((list) => (
+                          <SelectItem key={list.id} value={list.id}>
+                            {list.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
                   <div className="mt-auto flex flex-col sm:flex-row gap-2">
                     <Button
                       variant="outline"
@@ -336,6 +592,7 @@ export default function FavoritesPage() {
                       <Button
                         size="sm"
                         className="flex-1 bg-green-600 hover:bg-green-700"
+                        disabled={item.stockQuantity <= 0}
                         onClick={() =>
                           handleAddToCart(
                             item.productId,
@@ -344,7 +601,7 @@ export default function FavoritesPage() {
                           )
                         }
                       >
-                        <ShoppingCart className="w-4 h-4 mr-2" /> Add to Cart
+                        <ShoppingCart className="w-4 h-4 mr-2" /> {item.stockQuantity <= 0 ? "Out of Stock" : "Add to Cart"}
                       </Button>
                     )}
                   </div>
@@ -355,6 +612,35 @@ export default function FavoritesPage() {
         )}
       </main>
       <Footer />
+
+      <WishlistNameDialog
+        open={nameDialog !== null}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+        title={nameDialog === "rename" ? "Rename List" : "New List"}
+        initialName={nameDialog === "rename" ? activeList?.name : ""}
+        submitLabel={nameDialog === "rename" ? "Save" : "Create"}
+        onSubmit={handleSaveListName}
+      />
+
+      <Dialog open={listToDelete !== null} onOpenChange={(open) => !open && setListToDelete(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete {listToDelete?.name}?</DialogTitle>
+            <DialogDescription>
+              Its items move back to {DEFAULT_WISHLIST_NAME}, and its share link stops working.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setListToDelete(null)} disabled={isDeletingList}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteList} disabled={isDeletingList}>
+              {isDeletingList && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
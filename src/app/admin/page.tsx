@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react"
+import Header from "@/components/Header"
+import Footer from "@/components/Footer"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import CompanyReviewQueue from "@/components/admin/company-review-queue"
+import ProductReviewQueue from "@/components/admin/product-review-queue"
+import AuditLogTable from "@/components/admin/audit-log-table"
+import CategoryEditor from "@/components/admin/category-editor"
+import { useToast } from "@/hooks/use-toast"
+import { useIsAdmin } from "@/hooks/use-is-admin"
+import { supabase } from "@/lib/supabase"
+
+// The admin console: company registrations and products to review, the log of decisions, and the
+// category taxonomy.
+export default function AdminPage() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [auditRefreshKey, setAuditRefreshKey] = useState(0)
+  const isAdmin = useIsAdmin(userId)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        toast({
+          title: "Please log in to open the admin console.",
+          variant: "destructive",
+        })
+        router.push("/login")
+        return
+      }
+      setUserId(session.user.id)
+    })
+  }, [router, toast])
+
+  const handleReviewed = () => setAuditRefreshKey((key) => key + 1)
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header showSearchBar={false} />
+      <main className="flex-grow container mx-auto px-4 py-8 max-w-5xl">
+        {!userId || isAdmin === null ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : !isAdmin ? (
+          <div className="text-center py-16 text-gray-600">
+            <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-lg font-medium">This page is for Organixa admins.</p>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-gray-900 mb-6 flex items-center gap-2">
+              <ShieldCheck className="h-8 w-8 text-green-600" /> Admin Console
+            </h1>
+            <Tabs defaultValue="companies">
+              <TabsList className="mb-4">
+                <TabsTrigger value="companies">Companies</TabsTrigger>
+                <TabsTrigger value="products">Products</TabsTrigger>
+                <TabsTrigger value="audit-log">Audit Log</TabsTrigger>
+                <TabsTrigger value="categories">Categories</TabsTrigger>
+              </TabsList>
+              <TabsContent value="companies">
+                <CompanyReviewQueue onReviewed={handleReviewed} />
+              </TabsContent>
+              <TabsContent value="products">
+                <ProductReviewQueue onReviewed={handleReviewed} />
+              </TabsContent>
+              <TabsContent value="audit-log">
+                <AuditLogTable refreshKey={auditRefreshKey} />
+              </TabsContent>
+              <TabsContent value="categories">
+                <CategoryEditor />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin, listAuditLog } from "@/lib/server/admin"
+import type { AdminListResponse, AuditLogEntry } from "@/lib/admin"
+
+// The latest approval decisions, newest first.
+export async function GET(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    return NextResponse.json({ items: await listAuditLog() } satisfies AdminListResponse<AuditLogEntry>)
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error loading the audit log:", error)
+    return NextResponse.json({ error: "Could not load the audit log." }, { status: 500 })
+  }
+}
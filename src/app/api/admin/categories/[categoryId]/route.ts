@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin } from "@/lib/server/admin"
+import { updateCategory } from "@/lib/server/categories"
+import type { CategoryUpdateRequest } from "@/lib/categories"
+
+// Renames a category, changes its icon, or hides or shows it.
+export async function POST(request: Request, { params }: { params: Promise<{ categoryId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const { categoryId } = await params
+    const body = (await request.json().catch(() => null)) as Partial<CategoryUpdateRequest> | null
+    return NextResponse.json(await updateCategory(categoryId, body || {}))
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating category:", error)
+    return NextResponse.json({ error: "Could not save the category. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin } from "@/lib/server/admin"
+import { reorderCategories } from "@/lib/server/categories"
+import type { AdminListResponse } from "@/lib/admin"
+import type { CategoryNode, CategoryReorderRequest } from "@/lib/categories"
+
+// Saves the order of the main categories, or of one main category's sub-categories.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const body = (await request.json().catch(() => null)) as Partial<CategoryReorderRequest> | null
+    return NextResponse.json({ items: await reorderCategories(body?.ids) } satisfies AdminListResponse<CategoryNode>)
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error reordering categories:", error)
+    return NextResponse.json({ error: "Could not save the order. Please try again." }, { status: 500 })
+  }
+}
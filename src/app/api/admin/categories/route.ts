@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin } from "@/lib/server/admin"
+import { createCategory, listCategoryTree } from "@/lib/server/categories"
+import type { AdminListResponse } from "@/lib/admin"
+import type { CategoryCreateRequest, CategoryNode } from "@/lib/categories"
+
+// The whole taxonomy, inactive categories included.
+export async function GET(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    return NextResponse.json({ items: await listCategoryTree() } satisfies AdminListResponse<CategoryNode>)
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error listing categories:", error)
+    return NextResponse.json({ error: "Could not load the categories." }, { status: 500 })
+  }
+}
+
+// Adds a main category, or a sub-category when `parentId` is given.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const body = (await request.json().catch(() => null)) as Partial<CategoryCreateRequest> | null
+    return NextResponse.json(await createCategory(body || {}))
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating category:", error)
+    return NextResponse.json({ error: "Could not add the category. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin, reviewListing } from "@/lib/server/admin"
+import type { ReviewRequest } from "@/lib/admin"
+
+// Approves or rejects a company registration.
+export async function POST(request: Request, { params }: { params: Promise<{ companyId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const { companyId } = await params
+    const body = (await request.json().catch(() => null)) as Partial<ReviewRequest> | null
+    if (body?.decision !== "approve" && body?.decision !== "reject") {
+      throw new AdminError("Choose to approve or reject.")
+    }
+
+    return NextResponse.json(
+      await reviewListing({
+        adminId: user.id,
+        targetType: "company",
+        targetId: companyId,
+        decision: body.decision,
+        reason: body.reason,
+      }),
+    )
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error reviewing company:", error)
+    return NextResponse.json({ error: "Could not save the decision. Please try again." }, { status: 500 })
+  }
+}
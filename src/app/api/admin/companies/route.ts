@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin, listCompaniesForReview } from "@/lib/server/admin"
+import { REVIEW_STATUSES, type AdminCompany, type AdminListResponse, type ReviewStatus } from "@/lib/admin"
+
+// Company registrations by review status (`?status=pending`, the default), with links to their documents.
+export async function GET(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const status = new URL(request.url).searchParams.get("status") || "pending"
+    if (!REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      throw new AdminError("Unknown status.")
+    }
+
+    const items = await listCompaniesForReview(status as ReviewStatus)
+    return NextResponse.json({ items } satisfies AdminListResponse<AdminCompany>)
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error listing companies for review:", error)
+    return NextResponse.json({ error: "Could not load the companies." }, { status: 500 })
+  }
+}
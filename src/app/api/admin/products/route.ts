@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { AdminError, assertAdmin, listProductsForReview } from "@/lib/server/admin"
+import { REVIEW_STATUSES, type AdminListResponse, type AdminProduct, type ReviewStatus } from "@/lib/admin"
+
+// Products by review status (`?status=pending`, the default).
+export async function GET(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    await assertAdmin(user.id)
+    const status = new URL(request.url).searchParams.get("status") || "pending"
+    if (!REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      throw new AdminError("Unknown status.")
+    }
+
+    const items = await listProductsForReview(status as ReviewStatus)
+    return NextResponse.json({ items } satisfies AdminListResponse<AdminProduct>)
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error listing products for review:", error)
+    return NextResponse.json({ error: "Could not load the products." }, { status: 500 })
+  }
+}
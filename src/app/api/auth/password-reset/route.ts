@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { PasswordResetError, requestPasswordReset } from "@/lib/server/password-reset"
+import type { PasswordResetRequest, PasswordResetResponse } from "@/lib/password-reset"
+
+// Sends a password reset link. Answers the same whether or not the address has an account.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<PasswordResetRequest> | null
+    if (typeof body?.email !== "string") {
+      return NextResponse.json({ error: "Enter your email address." }, { status: 400 })
+    }
+
+    // Not the request's own origin: that comes from the Host header, which the caller controls, and
+    // would let someone point the recovery redirect at their own site
+    const appUrl = process.env.APP_URL
+    if (!appUrl) {
+      throw new Error("Missing APP_URL environment variable.")
+    }
+
+    await requestPasswordReset(body.email, appUrl)
+    return NextResponse.json({ ok: true } satisfies PasswordResetResponse)
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error requesting a password reset:", error)
+    return NextResponse.json({ error: "Could not send the reset email. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { assertCartLines, CartError, validateCartLines } from "@/lib/server/cart"
+import type { ValidateCartRequest } from "@/lib/cart"
+
+// Reprices a cart and flags lines that can't be bought. Open to guests too: it only reads what the
+// product pages already show.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<ValidateCartRequest> | null
+    assertCartLines(body?.items)
+
+    return NextResponse.json(await validateCartLines(body.items))
+  } catch (error) {
+    if (error instanceof CartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error validating cart:", error)
+    return NextResponse.json({ error: "Could not check your cart. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { assertCheckoutItems, CheckoutError, priceCheckoutItems } from "@/lib/server/checkout"
+import { applyCoupon } from "@/lib/server/coupons"
+import type { ValidateCouponRequest, ValidateCouponResponse } from "@/lib/checkout"
+
+// Previews a coupon for the checkout modal. Nothing is reserved here; the order routes apply the
+// code again when the order is placed.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to use a coupon." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<ValidateCouponRequest> | null
+    if (typeof body?.code !== "string" || !body.code.trim()) {
+      throw new CheckoutError("Enter a coupon code.")
+    }
+    assertCheckoutItems(body.items)
+
+    const lines = await priceCheckoutItems(body.items)
+    const coupon = await applyCoupon(body.code, user.id, lines)
+
+    const response: ValidateCouponResponse = {
+      code: coupon.code,
+      description: coupon.description,
+      discount: coupon.discount,
+      discounts: Object.fromEntries(coupon.discounts),
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error validating coupon:", error)
+    return NextResponse.json({ error: "Could not check this coupon. Please try again." }, { status: 500 })
+  }
+}
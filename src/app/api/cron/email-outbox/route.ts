@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { isCronRequest } from "@/lib/server/cron"
+import { deliverOutboxEmails } from "@/lib/server/email-outbox"
+
+// Sends the transactional emails waiting in the outbox and retries the ones that failed. Run it
+// every few minutes.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(
+      await deliverOutboxEmails({ appUrl: process.env.APP_URL || new URL(request.url).origin }),
+    )
+  } catch (error) {
+    console.error("Error sending outbox emails:", error)
+    return NextResponse.json({ error: "Could not send outbox emails." }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { isCronRequest } from "@/lib/server/cron"
+import { emailPendingAlerts } from "@/lib/server/product-alerts"
+
+// Emails the price-drop and back-in-stock alerts queued for favorited products. The alerts are
+// already in the customers' notification centers; this only adds the email.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await emailPendingAlerts(process.env.APP_URL || new URL(request.url).origin))
+  } catch (error) {
+    console.error("Error emailing product alerts:", error)
+    return NextResponse.json({ error: "Could not email product alerts." }, { status: 500 })
+  }
+}
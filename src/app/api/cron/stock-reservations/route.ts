@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { isCronRequest } from "@/lib/server/cron"
+import { releaseExpiredStock } from "@/lib/server/stock"
+
+// Puts stock from abandoned, unpaid checkouts back on sale. New checkouts also sweep expired
+// holds first, so this only keeps product pages accurate between orders.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 })
+  }
+
+  try {
+    const restockedProducts = await releaseExpiredStock()
+    return NextResponse.json({ restockedProducts })
+  } catch (error) {
+    console.error("Error releasing expired stock reservations:", error)
+    return NextResponse.json({ error: "Could not release expired reservations." }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { isCronRequest } from "@/lib/server/cron"
+import { runDueSubscriptions } from "@/lib/server/subscriptions"
+
+// Places the day's subscription orders. Outside production `?now=<ISO date>` runs it as of another
+// day; `npm run job:subscriptions` uses that to step through a schedule locally.
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 })
+  }
+
+  const fakeNow = process.env.NODE_ENV !== "production" ? new URL(request.url).searchParams.get("now") : null
+  const now = fakeNow ? new Date(fakeNow) : new Date()
+  if (Number.isNaN(now.getTime())) {
+    return NextResponse.json({ error: `Invalid date: ${fakeNow}` }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await runDueSubscriptions(now))
+  } catch (error) {
+    console.error("Error placing subscription orders:", error)
+    return NextResponse.json({ error: "Could not place the subscription orders." }, { status: 500 })
+  }
+}
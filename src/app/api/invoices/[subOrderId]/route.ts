@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { renderInvoicePdf } from "@/lib/server/invoices"
+import type { GstBreakdown } from "@/lib/gst"
+import { isInvoiceable } from "@/lib/order-lifecycle"
+
+// Tax invoice (PDF) for one company's part of an order. Available to the buyer and to the
+// company that fulfils it; the invoice number is issued on the first download.
+export async function GET(request: Request, { params }: { params: Promise<{ subOrderId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to download invoices." }, { status: 401 })
+  }
+
+  const { subOrderId } = await params
+  const admin = getSupabaseAdmin()
+  const { data: subOrder, error } = await admin
+    .from("sub_orders")
+    .select(
+      `id, status, cancelled_at, total_amount, gst_breakdown, invoiced_at,
+      companies ( company_name, company_address, gst_number, user_id ),
+      orders ( id, user_id, payment_method, customer_name, primary_phone, house_number, street, area, city, state, pincode, country )`,
+    )
+    .eq("id", subOrderId)
+    .maybeSingle()
+
+  const order = subOrder && (Array.isArray(subOrder.orders) ? subOrder.orders[0] : subOrder.orders)
+  const company = subOrder && (Array.isArray(subOrder.companies) ? subOrder.companies[0] : subOrder.companies)
+  if (error || !subOrder || !order || (order.user_id !== user.id && company?.user_id !== user.id)) {
+    return NextResponse.json({ error: "Invoice not found." }, { status: 404 })
+  }
+  if (!isInvoiceable(subOrder)) {
+    return NextResponse.json({ error: "An invoice is issued once the order is confirmed." }, { status: 409 })
+  }
+  // A replacement is sent free against the original sale, which already has its invoice
+  if (order.payment_method === "replacement") {
+    return NextResponse.json({ error: "Replacement orders don't get their own invoice." }, { status: 409 })
+  }
+  if (!subOrder.gst_breakdown) {
+    return NextResponse.json({ error: "No tax details were recorded for this order." }, { status: 409 })
+  }
+
+  try {
+    const { data: invoiceNumber, error: issueError } = await admin.rpc("issue_invoice_number", {
+      p_sub_order_id: subOrder.id,
+    })
+    if (issueError) throw issueError
+
+    const pdf = renderInvoicePdf({
+      invoiceNumber: invoiceNumber as string,
+      invoiceDate: subOrder.invoiced_at ? new Date(subOrder.invoiced_at) : new Date(),
+      orderId: order.id,
+      paymentMethod: order.payment_method,
+      seller: {
+        name: company?.company_name || "Seller",
+        address: company?.company_address ?? null,
+        gstin: company?.gst_number ?? null,
+      },
+      buyer: {
+        name: order.customer_name,
+        addressLines: [
+          [order.house_number, order.street].filter(Boolean).join(", "),
+          [order.area, `${order.city} - ${order.pincode}`].filter(Boolean).join(", "),
+          `${order.state}, ${order.country}`,
+        ],
+        phone: order.primary_phone,
+      },
+      gst: subOrder.gst_breakdown as GstBreakdown,
+      totalAmount: Number(subOrder.total_amount),
+    })
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${invoiceNumber}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error generating invoice:", error)
+    return NextResponse.json({ error: "Could not generate the invoice. Please try again." }, { status: 500 })
+  }
+}
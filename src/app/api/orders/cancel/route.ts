@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { cancelSubOrder, CancellationError } from "@/lib/server/cancellations"
+import { MAX_CANCELLATION_REASON_LENGTH, type CancelOrderRequest } from "@/lib/cancellations"
+
+// Customers cancel, and vendors reject, one company's part of an order before it ships.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to cancel an order." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<CancelOrderRequest> | null
+    if (typeof body?.subOrderId !== "string" || !body.subOrderId) {
+      throw new CancellationError("Missing order.")
+    }
+    const reason = typeof body.reason === "string" ? body.reason.trim() : ""
+    if (!reason) {
+      throw new CancellationError("Please tell us why the order is being cancelled.")
+    }
+    if (reason.length > MAX_CANCELLATION_REASON_LENGTH) {
+      throw new CancellationError(`Keep the reason under ${MAX_CANCELLATION_REASON_LENGTH} characters.`)
+    }
+
+    return NextResponse.json(await cancelSubOrder({ subOrderId: body.subOrderId, userId: user.id, reason }))
+  } catch (error) {
+    if (error instanceof CancellationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error cancelling order:", error)
+    return NextResponse.json({ error: "Could not cancel the order. Please try again." }, { status: 500 })
+  }
+}
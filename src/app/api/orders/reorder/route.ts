@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { reorderItems, ReorderError } from "@/lib/server/reorder"
+import type { ReorderRequest } from "@/lib/reorder"
+
+// Puts the items of one of the customer's past orders back in their cart.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to reorder." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<ReorderRequest> | null
+    if (typeof body?.orderId !== "string" || !body.orderId) {
+      throw new ReorderError("Missing order.")
+    }
+
+    return NextResponse.json(await reorderItems({ orderId: body.orderId, userId: user.id }))
+  } catch (error) {
+    if (error instanceof ReorderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error reordering:", error)
+    return NextResponse.json({ error: "Could not add the items to your cart. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { OrderStatusError, updateSubOrderStatus } from "@/lib/server/order-status"
+import { ShipmentError } from "@/lib/server/shipments"
+import { MAX_STATUS_NOTE_LENGTH } from "@/lib/order-history"
+import type { UpdateOrderStatusRequest } from "@/lib/order-lifecycle"
+
+// Vendors move their part of an order through preparing, shipping and delivery.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to update an order." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<UpdateOrderStatusRequest> | null
+    if (typeof body?.subOrderId !== "string" || !body.subOrderId) {
+      throw new OrderStatusError("Missing order.")
+    }
+    if (typeof body.status !== "string") {
+      throw new OrderStatusError("Missing status.")
+    }
+    const note = typeof body.note === "string" ? body.note.trim() : ""
+    if (note.length > MAX_STATUS_NOTE_LENGTH) {
+      throw new OrderStatusError(`Keep the note under ${MAX_STATUS_NOTE_LENGTH} characters.`)
+    }
+
+    return NextResponse.json(
+      await updateSubOrderStatus({
+        subOrderId: body.subOrderId,
+        userId: user.id,
+        status: body.status,
+        note: note || null,
+        shipment: body.shipment,
+      }),
+    )
+  } catch (error) {
+    if (error instanceof OrderStatusError || error instanceof ShipmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating order status:", error)
+    return NextResponse.json({ error: "Could not update the order status. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import {
+  assertCheckoutItems,
+  assertCodEligible,
+  assertShippingDetails,
+  CheckoutError,
+  priceCheckoutItems,
+} from "@/lib/server/checkout"
+import { discardOrder, placeOrder } from "@/lib/server/orders"
+import { commitStock } from "@/lib/server/stock"
+import { applyCoupon } from "@/lib/server/coupons"
+import type { CreateCheckoutOrderRequest, CreateCodOrderResponse } from "@/lib/checkout"
+
+// Places a Cash on Delivery order. Nothing is collected up front, so the order is final as soon as
+// it is written: it starts in `cod_pending` and its stock is committed straight away.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to place an order." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<CreateCheckoutOrderRequest> | null
+    assertCheckoutItems(body?.items)
+    assertShippingDetails(body?.shipping)
+
+    const lines = await priceCheckoutItems(body.items)
+    const coupon = body.couponCode ? await applyCoupon(body.couponCode, user.id, lines) : null
+    await assertCodEligible(lines, { discounts: coupon?.discounts, pincode: body.shipping.pincode })
+
+    const { orderId } = await placeOrder({
+      userId: user.id,
+      lines,
+      shipping: body.shipping,
+      status: "cod_pending",
+      paymentMethod: "cod",
+      coupon,
+    })
+
+    try {
+      await commitStock(orderId)
+    } catch (error) {
+      await discardOrder(orderId)
+      throw error
+    }
+
+    const response: CreateCodOrderResponse = { orderId, status: "cod_pending" }
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating COD order:", error)
+    return NextResponse.json({ error: "Could not place your order. Please try again." }, { status: 500 })
+  }
+}
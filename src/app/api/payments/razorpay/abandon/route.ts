@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { releaseStock } from "@/lib/server/stock"
+import { isAwaitingPayment } from "@/lib/order-lifecycle"
+
+// Called when the buyer closes the Razorpay widget without paying. The order stays payable; if a
+// payment does arrive later, committing the reservation takes the stock again.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  const body = (await request.json().catch(() => null)) as { orderId?: string } | null
+  if (!body?.orderId) {
+    return NextResponse.json({ error: "Missing order." }, { status: 400 })
+  }
+
+  const { data: order, error: orderError } = await getSupabaseAdmin()
+    .from("orders")
+    .select("id, status")
+    .eq("id", body.orderId)
+    .eq("user_id", user.id)
+    .maybeSingle()
+
+  if (orderError || !order) {
+    return NextResponse.json({ error: "Order not found." }, { status: 404 })
+  }
+  if (!isAwaitingPayment(order.status)) {
+    return NextResponse.json({ released: false })
+  }
+
+  try {
+    await releaseStock(order.id)
+    return NextResponse.json({ released: true })
+  } catch (error) {
+    console.error("Error releasing stock for abandoned checkout:", error)
+    return NextResponse.json({ error: "Could not release the reserved stock." }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { createRazorpayOrder, getRazorpayKeyId, RazorpayError } from "@/lib/server/razorpay"
+import { assertCheckoutItems, assertShippingDetails, CheckoutError, priceCheckoutItems } from "@/lib/server/checkout"
+import { discardOrder, placeOrder } from "@/lib/server/orders"
+import { applyCoupon } from "@/lib/server/coupons"
+import { toPaise } from "@/lib/order-pricing"
+import type { CreateCheckoutOrderRequest, CreateCheckoutOrderResponse } from "@/lib/checkout"
+
+// Creates a `pending` order for the server-computed total, reserves its stock, and opens a Razorpay
+// order for it. Only the verify route or the payment webhook may move it to `confirmed`.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to place an order." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<CreateCheckoutOrderRequest> | null
+    assertCheckoutItems(body?.items)
+    assertShippingDetails(body?.shipping)
+
+    const lines = await priceCheckoutItems(body.items)
+    const coupon = body.couponCode ? await applyCoupon(body.couponCode, user.id, lines) : null
+    const { orderId, totals } = await placeOrder({
+      userId: user.id,
+      lines,
+      shipping: body.shipping,
+      status: "pending",
+      paymentMethod: "razorpay",
+      coupon,
+    })
+
+    try {
+      const razorpayOrder = await createRazorpayOrder({
+        amount: toPaise(totals.totalAmount),
+        receipt: orderId,
+        notes: { order_ref: orderId, user_id: user.id },
+      })
+
+      const { error: updateError } = await getSupabaseAdmin()
+        .from("orders")
+        .update({ order_id: razorpayOrder.id })
+        .eq("id", orderId)
+
+      if (updateError) throw updateError
+
+      const response: CreateCheckoutOrderResponse = {
+        orderId,
+        razorpayOrderId: razorpayOrder.id,
+        keyId: getRazorpayKeyId(),
+        amount: razorpayOrder.amount,
+        currency: razorpayOrder.currency,
+      }
+      return NextResponse.json(response)
+    } catch (error) {
+      await discardOrder(orderId)
+      throw error
+    }
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof RazorpayError) {
+      console.error("Razorpay order creation failed:", error)
+      return NextResponse.json({ error: "Could not start the payment. Please try again." }, { status: 502 })
+    }
+    console.error("Error creating checkout order:", error)
+    return NextResponse.json({ error: "Could not create your order. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { fetchRazorpayPayment, paysOrderTotal, RazorpayError, verifyPaymentSignature } from "@/lib/server/razorpay"
+import { setSubOrderStatuses } from "@/lib/server/sub-orders"
+import { commitStock } from "@/lib/server/stock"
+import { AWAITING_PAYMENT_STATUSES, isAwaitingPayment } from "@/lib/order-lifecycle"
+import type { VerifyPaymentRequest, VerifyPaymentResponse } from "@/lib/checkout"
+
+// Confirms a checkout handler response. The order is only marked paid once the HMAC signature
+// matches AND Razorpay itself reports a payment for this order and amount.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to confirm your payment." }, { status: 401 })
+  }
+
+  const body = (await request.json().catch(() => null)) as Partial<VerifyPaymentRequest> | null
+  const razorpayOrderId = body?.razorpay_order_id
+  const razorpayPaymentId = body?.razorpay_payment_id
+  const razorpaySignature = body?.razorpay_signature
+
+  if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
+    return NextResponse.json({ error: "Incomplete payment response." }, { status: 400 })
+  }
+
+  if (!verifyPaymentSignature({ orderId: razorpayOrderId, paymentId: razorpayPaymentId, signature: razorpaySignature })) {
+    console.warn(`Rejected payment ${razorpayPaymentId}: signature mismatch for order ${razorpayOrderId}`)
+    return NextResponse.json({ error: "Payment verification failed." }, { status: 400 })
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: order, error: orderError } = await admin
+    .from("orders")
+    .select("id, status, total_amount")
+    .eq("order_id", razorpayOrderId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (orderError || !order) {
+    return NextResponse.json({ error: "Order not found for this payment." }, { status: 404 })
+  }
+
+  if (!isAwaitingPayment(order.status)) {
+    // Already reconciled (by a retried request or the webhook); nothing left to do.
+    const response: VerifyPaymentResponse = { orderId: order.id, status: order.status }
+    return NextResponse.json(response)
+  }
+
+  try {
+    const payment = await fetchRazorpayPayment(razorpayPaymentId)
+    const isPaid = payment.status === "captured" || payment.status === "authorized"
+    if (payment.order_id !== razorpayOrderId || !paysOrderTotal(payment, Number(order.total_amount)) || !isPaid) {
+      console.warn(`Rejected payment ${razorpayPaymentId}: does not settle order ${razorpayOrderId}`)
+      return NextResponse.json({ error: "Payment verification failed." }, { status: 400 })
+    }
+  } catch (error) {
+    if (error instanceof RazorpayError && error.status === 400) {
+      return NextResponse.json({ error: "Payment verification failed." }, { status: 400 })
+    }
+    console.error("Error fetching payment from Razorpay:", error)
+    return NextResponse.json({ error: "Could not verify the payment. Please contact support." }, { status: 502 })
+  }
+
+  const { error: updateError } = await admin
+    .from("orders")
+    .update({
+      status: "confirmed",
+      payment_id: razorpayPaymentId,
+      signature: razorpaySignature,
+      purchase_time: new Date().toISOString(),
+    })
+    .eq("id", order.id)
+    .in("status", AWAITING_PAYMENT_STATUSES)
+
+  try {
+    if (updateError) throw updateError
+    await setSubOrderStatuses(order.id, "confirmed", `Payment ${razorpayPaymentId} verified`)
+    await commitStock(order.id)
+  } catch (error) {
+    console.error("Error confirming order:", error)
+    return NextResponse.json({ error: "Payment received but the order could not be updated." }, { status: 500 })
+  }
+
+  const response: VerifyPaymentResponse = { orderId: order.id, status: "confirmed" }
+  return NextResponse.json(response)
+}
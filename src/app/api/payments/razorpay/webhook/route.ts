@@ -0,0 +1,38 @@
+import { createHash } from "crypto"
+import { NextResponse } from "next/server"
+import { verifyWebhookSignature, type RazorpayWebhookEvent } from "@/lib/server/razorpay"
+import { hasPaymentEvent, reconcileWebhookEvent, recordPaymentEvent } from "@/lib/server/payment-reconciliation"
+
+// Razorpay retries any delivery that doesn't get a 2xx, so failures to reconcile return 500 on
+// purpose. Events are logged only after they have been applied.
+export async function POST(request: Request) {
+  const rawBody = await request.text()
+  const signature = request.headers.get("x-razorpay-signature")
+
+  if (!signature || !verifyWebhookSignature(rawBody, signature)) {
+    console.warn("Rejected Razorpay webhook with an invalid signature")
+    return NextResponse.json({ error: "Invalid signature." }, { status: 400 })
+  }
+
+  let event: RazorpayWebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: "Invalid payload." }, { status: 400 })
+  }
+
+  const eventId = request.headers.get("x-razorpay-event-id") || createHash("sha256").update(rawBody).digest("hex")
+
+  try {
+    if (await hasPaymentEvent(eventId)) {
+      return NextResponse.json({ status: "duplicate" })
+    }
+
+    const result = await reconcileWebhookEvent(event)
+    await recordPaymentEvent(eventId, event, result)
+    return NextResponse.json({ status: result.outcome })
+  } catch (error) {
+    console.error(`Error reconciling Razorpay event ${eventId} (${event.event}):`, error)
+    return NextResponse.json({ error: "Could not process event." }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { ReturnError, updateReturnRequest } from "@/lib/server/returns"
+import { RETURN_ACTIONS, type ReturnAction, type UpdateReturnRequest } from "@/lib/returns"
+
+const MAX_NOTE_LENGTH = 500
+
+// Vendor actions on a return request: approve, reject, schedule the pickup, mark it picked up and
+// received (which issues the refund or the replacement), or retry a failed refund.
+export async function POST(request: Request, { params }: { params: Promise<{ returnId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    const { returnId } = await params
+    const body = (await request.json().catch(() => null)) as Partial<UpdateReturnRequest> | null
+    const action = body?.action as ReturnAction | undefined
+    if (!action || (action !== "retry_refund" && !Object.hasOwn(RETURN_ACTIONS, action))) {
+      throw new ReturnError("Unknown action.")
+    }
+    const note = typeof body?.note === "string" ? body.note.trim() : ""
+    if (note.length > MAX_NOTE_LENGTH) {
+      throw new ReturnError(`Keep the note under ${MAX_NOTE_LENGTH} characters.`)
+    }
+    if (action === "reject" && !note) {
+      throw new ReturnError("Tell the customer why the return was rejected.")
+    }
+
+    return NextResponse.json(await updateReturnRequest({ returnId, userId: user.id, action, note: note || null }))
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating return request:", error)
+    return NextResponse.json({ error: "Could not update the return. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { createReturnRequest, ReturnError } from "@/lib/server/returns"
+import { MAX_RETURN_DETAILS_LENGTH, RETURN_REASONS, type ReturnType } from "@/lib/returns"
+
+// Opens a return or replacement request for one delivered item. Sent as multipart form data so
+// the photos come along: subOrderId, orderItemId, quantity, type, reason, details and `photos`.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to request a return." }, { status: 401 })
+  }
+
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) throw new ReturnError("Invalid request.")
+
+    const field = (name: string) => {
+      const value = form.get(name)
+      return typeof value === "string" ? value.trim() : ""
+    }
+    const subOrderId = field("subOrderId")
+    const orderItemId = field("orderItemId")
+    const quantity = Number(field("quantity"))
+    const type = field("type") as ReturnType
+    const reason = field("reason")
+    const details = field("details")
+
+    if (!subOrderId || !orderItemId) throw new ReturnError("Missing order item.")
+    if (!Number.isInteger(quantity) || quantity < 1) throw new ReturnError("Choose how many items to return.")
+    if (type !== "return" && type !== "replacement") throw new ReturnError("Choose a return or a replacement.")
+    if (!RETURN_REASONS.includes(reason)) throw new ReturnError("Choose a reason for the return.")
+    if (reason === "Other" && !details) throw new ReturnError("Please describe the problem.")
+    if (details.length > MAX_RETURN_DETAILS_LENGTH) {
+      throw new ReturnError(`Keep the description under ${MAX_RETURN_DETAILS_LENGTH} characters.`)
+    }
+
+    const photos = form.getAll("photos").filter((value): value is File => value instanceof File && value.size > 0)
+    const returnRequest = await createReturnRequest({
+      userId: user.id,
+      subOrderId,
+      orderItemId,
+      quantity,
+      type,
+      reason,
+      details: details || null,
+      photos,
+    })
+    return NextResponse.json(returnRequest)
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating return request:", error)
+    return NextResponse.json({ error: "Could not submit the return request. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { refreshShipmentTracking, ShipmentError } from "@/lib/server/shipments"
+
+// Latest tracking events for a shipment, fetched from the courier, for its customer or vendor.
+export async function POST(request: Request, { params }: { params: Promise<{ shipmentId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in." }, { status: 401 })
+  }
+
+  try {
+    const { shipmentId } = await params
+    return NextResponse.json(await refreshShipmentTracking({ shipmentId, userId: user.id }))
+  } catch (error) {
+    if (error instanceof ShipmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error refreshing shipment tracking:", error)
+    return NextResponse.json({ error: "Could not load the tracking details. Please try again." }, { status: 500 })
+  }
+}
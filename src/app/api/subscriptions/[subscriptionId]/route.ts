@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { SubscriptionError, updateSubscription } from "@/lib/server/subscriptions"
+import type { SubscriptionAction, UpdateSubscriptionRequest } from "@/lib/subscriptions"
+
+const ACTIONS: SubscriptionAction[] = ["pause", "resume", "skip", "cancel"]
+
+// Pauses, resumes, skips the next delivery of, or cancels one of the customer's subscriptions.
+export async function POST(request: Request, { params }: { params: Promise<{ subscriptionId: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to manage your subscriptions." }, { status: 401 })
+  }
+
+  try {
+    const { subscriptionId } = await params
+    const body = (await request.json().catch(() => null)) as Partial<UpdateSubscriptionRequest> | null
+    if (!body?.action || !ACTIONS.includes(body.action)) {
+      throw new SubscriptionError("Unknown action.")
+    }
+
+    return NextResponse.json(await updateSubscription({ subscriptionId, userId: user.id, action: body.action }))
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating subscription:", error)
+    return NextResponse.json({ error: "Could not update the subscription. Please try again." }, { status: 500 })
+  }
+}
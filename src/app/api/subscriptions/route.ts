@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getRequestUser } from "@/lib/server/auth"
+import { createSubscription, SubscriptionError } from "@/lib/server/subscriptions"
+import type { CreateSubscriptionRequest } from "@/lib/subscriptions"
+
+// Subscribes the customer to regular deliveries of a product.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Please log in to subscribe." }, { status: 401 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Partial<CreateSubscriptionRequest> | null
+    if (typeof body?.productId !== "string" || typeof body.addressId !== "string" || !body.frequency) {
+      throw new SubscriptionError("Choose a product, a delivery address and how often to deliver.")
+    }
+
+    return NextResponse.json(
+      await createSubscription({
+        userId: user.id,
+        productId: body.productId,
+        addressId: body.addressId,
+        frequency: body.frequency,
+        quantity: Number(body.quantity),
+      }),
+    )
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating subscription:", error)
+    return NextResponse.json({ error: "Could not start the subscription. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { loadSharedWishlist, WishlistError } from "@/lib/server/wishlists"
+
+// A shared wishlist, for anyone with its link. No login: the token is the permission.
+export async function GET(_request: Request, { params }: { params: Promise<{ shareToken: string }> }) {
+  try {
+    const { shareToken } = await params
+    return NextResponse.json(await loadSharedWishlist(shareToken))
+  } catch (error) {
+    if (error instanceof WishlistError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error loading shared wishlist:", error)
+    return NextResponse.json({ error: "Could not load this wishlist. Please try again." }, { status: 500 })
+  }
+}
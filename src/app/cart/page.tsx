@@ -9,10 +9,17 @@ import Header from "@/components/Header"
 import Footer from "@/components/Footer"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Loader2, Minus, Plus, Trash2, PackageX } from "lucide-react"
+import { AlertTriangle, Bookmark, Loader2, Minus, Plus, ShoppingCart, Trash2, PackageX } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { Separator } from "@/components/ui/separator"
 import CheckoutDetailsModal from "@/components/checkout-details-modal"
+import { calculateCompanyTotals, calculateOrderTotals } from "@/lib/order-pricing"
+import { useShippingRates } from "@/hooks/use-shipping-rates"
+import ShippingBreakdown from "@/components/shipping-breakdown"
+import AuthPopup from "@/components/auth-popup"
+import { onGuestCartChange, readGuestCart, removeGuestCartItem, setGuestCartItem } from "@/lib/guest-cart"
+import { apiFetch } from "@/lib/api-client"
+import { CART_LINE_ISSUE_LABELS, type ValidateCartRequest, type ValidateCartResponse } from "@/lib/cart"
 
 // ✅ UPDATED CartItem interface to make product fields optional since 'products' can be null
 interface CartItem {
@@ -25,15 +32,56 @@ interface CartItem {
     discount_price?: number // Made optional
     original_price?: number // Made optional
     product_photo_urls?: string[] // Made optional
+    company_id?: string // Made optional
+    stock_quantity?: number // Made optional
   } | null
 }
 
+const CART_LINE_COLUMNS = `
+      id,
+      product_id,
+      quantity,
+      price_at_add,
+      products (
+        product_name,
+        discount_price,
+        original_price,
+        product_photo_urls,
+        company_id,
+        stock_quantity
+      )
+    `
+
+// Defensive: handle array/object/null for products
+function toCartItems(data: any[] | null): CartItem[] {
+  return (
+    data?.map((item) => {
+      let prod = item.products
+      if (Array.isArray(prod)) prod = prod[0] ?? null
+      return {
+        id: item.id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        price_at_add: item.price_at_add,
+        products: prod, // prod can be null if product was deleted
+      }
+    }) ?? []
+  )
+}
+
 export default function CartPage() {
   const [cartItems, setCartItems] = useState<CartItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showCheckoutModal, setShowCheckoutModal] = useState(false)
   const [searchTerm, setSearchTerm] = useState<string>("")
+  const [deliveryPincode, setDeliveryPincode] = useState<string | null>(null) // default address, for the shipping quote
+  const [isGuest, setIsGuest] = useState(false) // no session: the cart lives in local storage
+  const [showAuthPopup, setShowAuthPopup] = useState(false)
+  const [validation, setValidation] = useState<ValidateCartResponse | null>(null)
+  const [acceptingPrices, setAcceptingPrices] = useState(false)
+  const [savedItems, setSavedItems] = useState<CartItem[]>([])
+  const [movingItemId, setMovingItemId] = useState<string | null>(null) // a line moving to or from saved-for-later
   const router = useRouter()
   const { toast } = useToast()
 
@@ -47,73 +95,104 @@ export default function CartPage() {
     } = await supabase.auth.getSession()
 
     if (sessionError || !session) {
-      toast({
-        title: "Please log in to view your cart.",
-        variant: "destructive",
-      })
-      router.push("/login")
+      // Guest cart lines use the product id as their id
+      const guestItems = readGuestCart()
+      const { data: products, error: productsError } =
+        guestItems.length > 0
+          ? await supabase
+              .from("products")
+              .select("id, product_name, discount_price, original_price, product_photo_urls, company_id, stock_quantity")
+              .in(
+                "id",
+                guestItems.map((item) => item.productId),
+              )
+          : { data: [], error: null }
+
+      setIsGuest(true)
+      setDeliveryPincode(null)
+      if (productsError) {
+        setError("Failed to load cart items. Please try again.")
+        setCartItems([])
+      } else {
+        setCartItems(
+          guestItems.map((item) => ({
+            id: item.productId,
+            product_id: item.productId,
+            quantity: item.quantity,
+            price_at_add: item.priceAtAdd,
+            products: products?.find((product) => product.id === item.productId) ?? null,
+          })),
+        )
+      }
+      setLoading(false)
       return
     }
 
+    setIsGuest(false)
     const userId = session.user.id
 
     const { data, error: cartError } = await supabase
       .from("cart_items")
-      .select(
-        `
-      id,
-      product_id,
-      quantity,
-      price_at_add,
-      products (
-        product_name,
-        discount_price,
-        original_price,
-        product_photo_urls
-      )
-    `,
-      )
+      .select(CART_LINE_COLUMNS)
       .eq("user_id", userId)
       .order("created_at", { ascending: false })
 
+    const { data: profile } = await supabase.from("user_profiles").select("addresses").eq("id", userId).maybeSingle()
+    const addresses: { pincode: string; isDefault?: boolean }[] = profile?.addresses || []
+    setDeliveryPincode((addresses.find((address) => address.isDefault) || addresses[0])?.pincode ?? null)
+
     if (cartError) {
       setError("Failed to load cart items. Please try again.")
       setCartItems([])
     } else {
-      // Defensive: handle array/object/null for products
-      const fixedData: CartItem[] =
-        data?.map((item: any) => {
-          let prod = item.products
-          if (Array.isArray(prod)) prod = prod[0] ?? null
-          return {
-            id: item.id,
-            product_id: item.product_id,
-            quantity: item.quantity,
-            price_at_add: item.price_at_add,
-            products: prod, // prod can be null if product was deleted
-          }
-        }) ?? []
-      setCartItems(fixedData)
+      setCartItems(toCartItems(data))
     }
     setLoading(false)
-  }, [router, toast])
+  }, [])
+
+  // Saved-for-later lines have the same shape as cart lines but live in `saved_items`
+  const fetchSavedItems = useCallback(async () => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      setSavedItems([])
+      return
+    }
+
+    const { data, error: savedError } = await supabase
+      .from("saved_items")
+      .select(CART_LINE_COLUMNS)
+      .eq("user_id", session.user.id)
+      .order("created_at", { ascending: false })
+
+    if (savedError) {
+      console.error("Error fetching saved items:", savedError)
+      return
+    }
+    setSavedItems(toCartItems(data))
+  }, [])
 
   useEffect(() => {
     fetchCartItems()
+    fetchSavedItems()
 
-    // Listen for auth state changes to re-fetch cart items
-    const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (!session) {
-        router.push("/login")
-      } else {
-        fetchCartItems()
-      }
+    // Listen for auth state changes to re-fetch cart items; logging out switches to the guest cart
+    const { data: authListener } = supabase.auth.onAuthStateChange(() => {
+      fetchCartItems()
+      fetchSavedItems()
     })
 
     return () => {
       authListener.subscription.unsubscribe()
     }
-  }, [fetchCartItems, router])
+  }, [fetchCartItems, fetchSavedItems])
+
+  // Guest cart changes made in another tab
+  useEffect(() => {
+    if (!isGuest) return
+    return onGuestCartChange(fetchCartItems)
+  }, [isGuest, fetchCartItems])
 
   // Added real-time listener for cart item updates (quantity changes)
   useEffect(() => {
@@ -138,10 +217,66 @@ export default function CartPage() {
     }
   }, [fetchCartItems])
 
+  useEffect(() => {
+    const channel = supabase
+      .channel("saved_items_realtime")
+      .on("postgres_changes", { event: "*", schema: "public", table: "saved_items" }, () => {
+        fetchSavedItems()
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [fetchSavedItems])
+
+  // Reprices the cart against the catalogue and flags lines that can't be bought. Runs whenever the
+  // cart changes and again right before checkout.
+  const revalidateCart = useCallback(async (items: CartItem[]) => {
+    if (items.length === 0) {
+      setValidation(null)
+      return null
+    }
+    try {
+      const result = await apiFetch<ValidateCartResponse>("/api/cart/validate", {
+        items: items.map((item) => ({
+          productId: item.product_id,
+          quantity: item.quantity,
+          priceAtAdd: Number(item.price_at_add),
+        })),
+      } satisfies ValidateCartRequest)
+      setValidation(result)
+      return result
+    } catch (err) {
+      console.error("Error validating cart:", err)
+      return null
+    }
+  }, [])
+
+  useEffect(() => {
+    revalidateCart(cartItems)
+  }, [cartItems, revalidateCart])
 
   const handleQuantityChange = async (itemId: string, newQuantity: number) => {
     if (newQuantity < 1) return
 
+    const currentItem = cartItems.find((item) => item.id === itemId)
+    const stock = currentItem?.products?.stock_quantity
+    // Decreasing is always allowed so an over-stock line can be brought back down
+    if (stock !== undefined && newQuantity > stock && newQuantity > (currentItem?.quantity ?? 0)) {
+      toast({
+        title: `Only ${stock} unit(s) left in stock.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (isGuest) {
+      setGuestCartItem(itemId, newQuantity, currentItem?.price_at_add ?? 0)
+      setCartItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, quantity: newQuantity } : item)))
+      return
+    }
+
     const {
       data: { session },
     } = await supabase.auth.getSession()
@@ -175,6 +310,16 @@ export default function CartPage() {
   }
 
   const handleRemoveItem = async (itemId: string, productName: string) => {
+    if (isGuest) {
+      removeGuestCartItem(itemId)
+      setCartItems((prev) => prev.filter((item) => item.id !== itemId))
+      toast({
+        title: `${productName} has been removed from your cart.`,
+        variant: "default",
+      })
+      return
+    }
+
     const {
       data: { session },
     } = await supabase.auth.getSession()
@@ -212,15 +357,23 @@ export default function CartPage() {
   )
 
   // 🎯 CORE CALCULATION: Subtotal includes quantity for each item
-  const subtotal = filteredCartItems.reduce((sum, item) => {
-    const price = item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add
-    return sum + price * item.quantity
-  }, 0)
-  
-  const shippingFee = subtotal > 0 && subtotal < 1000 ? 99 : 0
-  const total = subtotal + shippingFee
-
-  const handleProceedToCheckout = () => {
+  const { parcels, companies: shippingCompanies } = useShippingRates(cartItems.map((item) => item.product_id))
+  const pricedLines = filteredCartItems.map((item) => ({
+    unitPrice: item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add,
+    quantity: item.quantity,
+    companyId: item.products?.company_id,
+    parcel: parcels[item.product_id],
+  }))
+  const pricingOptions = { shipping: { companies: shippingCompanies, pincode: deliveryPincode } }
+  const { subtotal, shippingFee, totalAmount: total } = calculateOrderTotals(pricedLines, pricingOptions)
+  const companyTotals = calculateCompanyTotals(pricedLines, pricingOptions)
+
+  const validatedLines = new Map((validation?.lines || []).map((line) => [line.productId, line]))
+  const priceChangedLines = (validation?.lines || []).filter((line) => line.priceChanged && line.currentPrice !== null)
+  // Lines no longer sold or asking for more than is on hand; checkout is blocked until they are fixed
+  const blockedItems = filteredCartItems.filter((item) => validatedLines.get(item.product_id)?.issue)
+
+  const handleProceedToCheckout = async () => {
     if (filteredCartItems.length === 0) {
       toast({
         title: "Please add items to your cart before proceeding to checkout.",
@@ -228,10 +381,149 @@ export default function CartPage() {
       })
       return
     }
+    const result = await revalidateCart(filteredCartItems)
+    if (!result) {
+      toast({
+        title: "Could not check your cart.",
+        description: "Please try again.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (result.blockingIssues > 0) {
+      toast({
+        title: "Some items can't be ordered.",
+        description: "Please remove unavailable items or reduce their quantity before checking out.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (result.priceChanges > 0) {
+      toast({
+        title: "Some prices have changed.",
+        description: "Please review and accept the new prices before checking out.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (isGuest) {
+      // Logging in merges this cart into the account's; the cart is reloaded before checking out
+      setShowAuthPopup(true)
+      return
+    }
     setShowCheckoutModal(true)
   }
 
-  const handleOrderSuccess = async () => {
+  // Saving today's price on the changed lines is the buyer's acknowledgement of it; checkout then
+  // charges exactly that price
+  const handleAcceptPrices = async () => {
+    const prices = new Map(priceChangedLines.map((line) => [line.productId, line.currentPrice as number]))
+    setAcceptingPrices(true)
+    try {
+      if (isGuest) {
+        priceChangedLines.forEach((line) => setGuestCartItem(line.productId, line.quantity, line.currentPrice as number))
+      } else {
+        const {
+          data: { session },
+        } = await supabase.auth.getSession()
+        const userId = session?.user?.id
+        if (!userId) throw new Error("Please log in again to update your cart.")
+
+        for (const [productId, price] of prices) {
+          const { error } = await supabase
+            .from("cart_items")
+            .update({ price_at_add: price })
+            .eq("user_id", userId)
+            .eq("product_id", productId)
+          if (error) throw error
+        }
+      }
+      setCartItems((prev) =>
+        prev.map((item) => {
+          const price = prices.get(item.product_id)
+          return price === undefined ? item : { ...item, price_at_add: price }
+        }),
+      )
+      toast({
+        title: "Prices updated",
+        description: "Your cart now uses today's prices.",
+        variant: "default",
+      })
+    } catch (error) {
+      toast({
+        title: error instanceof Error ? error.message : "Failed to update your cart.",
+        variant: "destructive",
+      })
+    } finally {
+      setAcceptingPrices(false)
+    }
+  }
+
+  // Both moves are a single database function, so a line is never in the cart and the saved list at once
+  const handleSaveForLater = async (item: CartItem) => {
+    setMovingItemId(item.id)
+    try {
+      const { error } = await supabase.rpc("save_cart_item_for_later", { p_cart_item_id: item.id })
+      if (error) throw error
+
+      setCartItems((prev) => prev.filter((cartItem) => cartItem.id !== item.id))
+      await fetchSavedItems()
+      toast({
+        title: `${item.products?.product_name || "Item"} saved for later.`,
+        variant: "default",
+      })
+    } catch (error) {
+      console.error("Error saving item for later:", error)
+      toast({
+        title: "Failed to save the item for later.",
+        variant: "destructive",
+      })
+    } finally {
+      setMovingItemId(null)
+    }
+  }
+
+  const handleMoveToCart = async (item: CartItem) => {
+    setMovingItemId(item.id)
+    try {
+      const { error } = await supabase.rpc("move_saved_item_to_cart", { p_saved_item_id: item.id })
+      if (error) throw error
+
+      setSavedItems((prev) => prev.filter((savedItem) => savedItem.id !== item.id))
+      await fetchCartItems()
+      toast({
+        title: `${item.products?.product_name || "Item"} moved to your cart.`,
+        variant: "default",
+      })
+    } catch (error) {
+      console.error("Error moving saved item to cart:", error)
+      toast({
+        title: "Failed to move the item to your cart.",
+        variant: "destructive",
+      })
+    } finally {
+      setMovingItemId(null)
+    }
+  }
+
+  const handleRemoveSavedItem = async (item: CartItem) => {
+    const { error } = await supabase.from("saved_items").delete().eq("id", item.id)
+    if (error) {
+      toast({
+        title: error.message || "Failed to remove the saved item.",
+        variant: "destructive",
+      })
+      return
+    }
+    setSavedItems((prev) => prev.filter((savedItem) => savedItem.id !== item.id))
+  }
+
+  const handleAuthSuccess = () => {
+    setShowAuthPopup(false)
+    fetchCartItems()
+  }
+
+  const handleOrderSuccess = async (orderId: string) => {
     // Clear the cart after successful order
     const {
       data: { session },
@@ -241,7 +533,7 @@ export default function CartPage() {
       const { error } = await supabase.from("cart_items").delete().eq("user_id", userId)
       if (!error) setCartItems([])
     }
-    router.push("/orders")
+    router.push(`/orders/${orderId}`)
   }
 
   if (loading) {
@@ -297,82 +589,134 @@ export default function CartPage() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Cart Items List */}
             <div className="lg:col-span-2 space-y-4">
-              {filteredCartItems.map((item) => (
-                <Card key={item.id} className="flex flex-col sm:flex-row items-center sm:items-start p-4 shadow-sm">
-                  {/* Image Link */}
-                  <Link
-                    href={`/product/${item.product_id}`}
-                    className="relative w-24 h-24 flex-shrink-0 rounded-md overflow-hidden border mb-4 sm:mb-0"
-                  >
-                    {/* ✅ Used optional chaining with fallback */}
-                    <Image
-                      src={item.products?.product_photo_urls?.[0] || "/placeholder.svg"}
-                      alt={item.products?.product_name || "Product Image"}
-                      fill
-                      sizes="(max-width: 1024px) 100vw, 96px"
-                      className="object-cover"
-                    />
-                  </Link>
-                  
-                  {/* Product Details & Actions */}
-                  <div className="ml-0 sm:ml-4 flex-grow flex flex-col sm:flex-row justify-between w-full sm:w-auto">
+              {priceChangedLines.length > 0 && (
+                <Card className="p-4 border-amber-200 bg-amber-50 shadow-sm">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                    <p className="text-sm text-amber-800 flex-grow">
+                      The price of {priceChangedLines.length} item(s) has changed since you added them. Please review
+                      the new prices before checking out.
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-amber-300 bg-white"
+                      onClick={handleAcceptPrices}
+                      disabled={acceptingPrices}
+                    >
+                      {acceptingPrices && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Accept New Prices
+                    </Button>
+                  </div>
+                </Card>
+              )}
+              {filteredCartItems.map((item) => {
+                const validatedLine = validatedLines.get(item.product_id)
+                return (
+                  <Card key={item.id} className="flex flex-col sm:flex-row items-center sm:items-start p-4 shadow-sm">
+                    {/* Image Link */}
+                    <Link
+                      href={`/product/${item.product_id}`}
+                      className="relative w-24 h-24 flex-shrink-0 rounded-md overflow-hidden border mb-4 sm:mb-0"
+                    >
+                      {/* ✅ Used optional chaining with fallback */}
+                      <Image
+                        src={item.products?.product_photo_urls?.[0] || "/placeholder.svg"}
+                        alt={item.products?.product_name || "Product Image"}
+                        fill
+                        sizes="(max-width: 1024px) 100vw, 96px"
+                        className="object-cover"
+                      />
+                    </Link>
                     
-                    {/* Name & Price Column (Aligned Left) */}
-                    <div className="flex flex-col justify-center mb-3 sm:mb-0 sm:w-3/5">
-                      <h2 className="text-lg font-semibold text-gray-900 line-clamp-2 text-center sm:text-left">
-                        <Link href={`/product/${item.product_id}`} className="hover:text-green-600 transition-colors">
-                          {item.products?.product_name || "Unknown Product"}
-                        </Link>
-                      </h2>
-                      <p className="text-gray-600 mt-1 text-center sm:text-left">
-                        {/* Display the unit price */}
-                        Unit Price: ₹
-                        {(item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add).toFixed(2)}
-                      </p>
-                      {/* 🎯 DISPLAY ITEM SUBTOTAL */}
-                      <p className="text-gray-900 font-medium text-sm mt-1 text-center sm:text-left">
-                        Total: ₹{((item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add) * item.quantity).toFixed(2)}
-                      </p>
-                    </div>
+                    {/* Product Details & Actions */}
+                    <div className="ml-0 sm:ml-4 flex-grow flex flex-col sm:flex-row justify-between w-full sm:w-auto">
+                      
+                      {/* Name & Price Column (Aligned Left) */}
+                      <div className="flex flex-col justify-center mb-3 sm:mb-0 sm:w-3/5">
+                        <h2 className="text-lg font-semibold text-gray-900 line-clamp-2 text-center sm:text-left">
+                          <Link href={`/product/${item.product_id}`} className="hover:text-green-600 transition-colors">
+                            {item.products?.product_name || "Unknown Product"}
+                          </Link>
+                        </h2>
+                        <p className="text-gray-600 mt-1 text-center sm:text-left">
+                          {/* Display the unit price */}
+                          Unit Price: ₹
+                          {(item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add).toFixed(2)}
+                        </p>
+                        {/* 🎯 DISPLAY ITEM SUBTOTAL */}
+                        <p className="text-gray-900 font-medium text-sm mt-1 text-center sm:text-left">
+                          Total: ₹{((item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add) * item.quantity).toFixed(2)}
+                        </p>
+                        {validatedLine?.priceChanged && (
+                          <p className="text-amber-700 text-sm mt-1 text-center sm:text-left">
+                            Price changed from ₹{validatedLine.priceAtAdd.toFixed(2)}
+                          </p>
+                        )}
+                        {validatedLine?.issue && (
+                          <p className="text-red-600 text-sm mt-1 text-center sm:text-left">
+                            {validatedLine.issue === "over_stock"
+                              ? `Only ${validatedLine.stockQuantity} left in stock`
+                              : CART_LINE_ISSUE_LABELS[validatedLine.issue]}
+                          </p>
+                        )}
+                      </div>
 
-                    {/* Quantity & Remove Column (Aligned Right/Centered) */}
-                    <div className="flex items-center justify-center sm:justify-end sm:w-2/5 space-x-4">
-                      {/* Quantity Selector */}
-                      <div className="flex items-center border border-gray-300 rounded-lg overflow-hidden">
+                      {/* Quantity & Remove Column (Aligned Right/Centered) */}
+                      <div className="flex items-center justify-center sm:justify-end sm:w-2/5 space-x-4">
+                        {/* Quantity Selector */}
+                        <div className="flex items-center border border-gray-300 rounded-lg overflow-hidden">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 bg-transparent"
+                            onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                            disabled={item.quantity <= 1}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <span className="mx-3 text-md font-medium">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 bg-transparent"
+                            onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                            disabled={item.products?.stock_quantity !== undefined && item.quantity >= item.products.stock_quantity}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        
+                        {/* Save for Later Button (needs an account) */}
+                        {!isGuest && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-gray-500 hover:text-green-600"
+                            onClick={() => handleSaveForLater(item)}
+                            disabled={movingItemId === item.id}
+                            title="Save for later"
+                          >
+                            <Bookmark className="h-5 w-5" />
+                            <span className="sr-only">Save for later</span>
+                          </Button>
+                        )}
+
+                        {/* Remove Button */}
                         <Button
-                          variant="outline"
+                          variant="ghost"
                           size="icon"
-                          className="h-8 w-8 bg-transparent"
-                          onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
-                          disabled={item.quantity <= 1}
+                          className="text-red-500 hover:text-red-600"
+                          onClick={() => handleRemoveItem(item.id, item.products?.product_name || "Item")}
                         >
-                          <Minus className="h-4 w-4" />
-                        </Button>
-                        <span className="mx-3 text-md font-medium">{item.quantity}</span>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-8 w-8 bg-transparent"
-                          onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                        >
-                          <Plus className="h-4 w-4" />
+                          <Trash2 className="h-5 w-5" />
+                          <span className="sr-only">Remove item</span>
                         </Button>
                       </div>
-                      
-                      {/* Remove Button */}
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="text-red-500 hover:text-red-600"
-                        onClick={() => handleRemoveItem(item.id, item.products?.product_name || "Item")}
-                      >
-                        <Trash2 className="h-5 w-5" />
-                        <span className="sr-only">Remove item</span>
-                      </Button>
                     </div>
-                  </div>
-                </Card>
-              ))}
+                  </Card>
+                )
+              })}
             </div>
 
             {/* Order Summary */}
@@ -391,6 +735,7 @@ export default function CartPage() {
                     <span>Shipping</span>
                     <span>{shippingFee === 0 ? "Free" : `₹${shippingFee.toFixed(2)}`}</span>
                   </div>
+                  <ShippingBreakdown companyTotals={companyTotals} companies={shippingCompanies} />
                   <Separator />
                   <div className="flex justify-between font-bold text-lg text-gray-900">
                     <span>Total</span>
@@ -399,15 +744,81 @@ export default function CartPage() {
                   <Button
                     className="w-full bg-green-600 hover:bg-green-700 text-white py-3"
                     onClick={handleProceedToCheckout}
+                    disabled={blockedItems.length > 0 || priceChangedLines.length > 0}
                   >
                     Proceed to Checkout
                   </Button>
-                  <p className="text-center text-sm text-gray-500 mt-4">Shipping calculated at checkout.</p>
+                  <p className="text-center text-sm text-gray-500 mt-4">
+                    {deliveryPincode
+                      ? `Shipping quoted for pincode ${deliveryPincode}; it is confirmed for your delivery address at checkout.`
+                      : "Shipping is confirmed for your delivery address at checkout."}
+                  </p>
                 </CardContent>
               </Card>
             </div>
           </div>
         )}
+
+        {/* Saved for Later: out of the checkout total, quantities kept */}
+        {savedItems.length > 0 && (
+          <section id="saved-for-later" className="mt-10">
+            <h2 className="text-2xl font-bold mb-4 text-gray-900">Saved for Later ({savedItems.length})</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {savedItems.map((item) => (
+                <Card key={item.id} className="flex items-center p-4 shadow-sm">
+                  <Link
+                    href={`/product/${item.product_id}`}
+                    className="relative w-20 h-20 flex-shrink-0 rounded-md overflow-hidden border"
+                  >
+                    <Image
+                      src={item.products?.product_photo_urls?.[0] || "/placeholder.svg"}
+                      alt={item.products?.product_name || "Product Image"}
+                      fill
+                      sizes="80px"
+                      className="object-cover"
+                    />
+                  </Link>
+                  <div className="ml-4 flex-grow min-w-0">
+                    <Link
+                      href={`/product/${item.product_id}`}
+                      className="font-semibold text-gray-900 line-clamp-1 hover:text-green-600 transition-colors"
+                    >
+                      {item.products?.product_name || "Unknown Product"}
+                    </Link>
+                    <p className="text-gray-600 text-sm mt-1">
+                      {item.quantity} × ₹
+                      {(item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add).toFixed(2)}
+                    </p>
+                    {item.products?.stock_quantity === 0 && <p className="text-red-600 text-sm">Out of stock</p>}
+                    <div className="flex items-center gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleMoveToCart(item)}
+                        disabled={movingItemId === item.id || !item.products}
+                      >
+                        {movingItemId === item.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <ShoppingCart className="h-4 w-4 mr-2" />
+                        )}
+                        Move to Cart
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-500 hover:text-red-600"
+                        onClick={() => handleRemoveSavedItem(item)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" /> Remove
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
       </main>
       <Footer />
       {showCheckoutModal && (
@@ -416,18 +827,19 @@ export default function CartPage() {
           onClose={() => setShowCheckoutModal(false)}
           // 🎯 Pass the correctly mapped and calculated item details to the modal
           items={filteredCartItems.map((item) => {
-            const unitPrice = item.products?.discount_price ?? item.products?.original_price ?? item.price_at_add;
             return {
               productId: item.product_id,
               productName: item.products?.product_name || "Unknown Product",
               quantity: item.quantity,
-              // Use the actual unit price, the modal calculates the total from this
-              price_at_add: unitPrice, 
+              // The price the buyer accepted; checkout only opens once it matches today's price
+              price_at_add: Number(item.price_at_add),
+              companyId: item.products?.company_id,
             }
           })}
           onOrderSuccess={handleOrderSuccess}
         />
       )}
+      <AuthPopup isOpen={showAuthPopup} onClose={() => setShowAuthPopup(false)} onSuccess={handleAuthSuccess} />
     </div>
   )
 }
\ No newline at end of file
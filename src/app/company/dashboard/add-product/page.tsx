@@ -127,6 +127,8 @@ export default function AddProductPage() {
         original_price: Number.parseFloat(data.originalPrice),
         discount_price: Number.parseFloat(data.discountPrice),
         stock_quantity: Number.parseInt(data.stockQuantity, 10),
+        hsn_code: data.hsnCode.trim() || null,
+        gst_rate: Number(data.gstRate),
         weight: Number.parseFloat(data.weight),
         weight_unit: data.weightUnit,
         length: Number.parseFloat(data.length),
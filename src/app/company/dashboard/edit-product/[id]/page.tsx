@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
 import { AddEditProductForm, type ProductFormData } from "@/components/company/add-edit-product-form"
+import type { ProductCategory } from "@/lib/categories"
 
 interface ProductDataFromDB {
   id: string
@@ -16,6 +17,8 @@ interface ProductDataFromDB {
   original_price: number
   discount_price: number
   stock_quantity: number
+  hsn_code: string | null
+  gst_rate: number
   weight: number
   weight_unit: string
   length: number
@@ -23,7 +26,7 @@ interface ProductDataFromDB {
   height: number
   dimension_unit: string
   nutrients: Array<{ name: string; value: string }>
-  categories: Array<{ main: string; sub: string }>
+  categories: ProductCategory[]
   product_photo_urls: string[]
   product_video_url: string | null
   is_approved: boolean
@@ -115,6 +118,8 @@ export default function EditProductPage() {
           originalPrice: productData.original_price.toString(),
           discountPrice: productData.discount_price.toString(),
           stockQuantity: productData.stock_quantity.toString(),
+          hsnCode: productData.hsn_code || "",
+          gstRate: String(productData.gst_rate ?? 0),
           weight: productData.weight.toString(),
           weightUnit: productData.weight_unit,
           length: productData.length.toString(),
@@ -222,6 +227,8 @@ export default function EditProductPage() {
         original_price: Number.parseFloat(data.originalPrice),
         discount_price: Number.parseFloat(data.discountPrice),
         stock_quantity: Number.parseInt(data.stockQuantity, 10),
+        hsn_code: data.hsnCode.trim() || null,
+        gst_rate: Number(data.gstRate),
         weight: Number.parseFloat(data.weight),
         weight_unit: data.weightUnit,
         length: Number.parseFloat(data.length),
@@ -18,10 +18,12 @@ import {
     PanelLeftClose,
     Loader2,
     Menu, // 💡 NEW: Icon for the mobile menu button
+    Undo2,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet" // 💡 SheetTrigger added back for the mobile button
 import { useToast } from "@/hooks/use-toast"
+import NotificationBell from "@/components/notification-bell"
 
 interface CompanyInfo {
     company_name: string
@@ -37,6 +39,7 @@ export default function CompanyDashboardLayout({ children }: { children: React.R
     const [loadingCompanyInfo, setLoadingCompanyInfo] = useState(true)
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false)
     const [isMobileSheetOpen, setIsMobileSheetOpen] = useState(false) // State for mobile sheet
+    const [userId, setUserId] = useState<string | null>(null) // for the notification bell
 
     useEffect(() => {
         // Load sidebar state from local storage
@@ -63,6 +66,7 @@ export default function CompanyDashboardLayout({ children }: { children: React.R
             }
 
             const userId = session.user.id
+            setUserId(userId)
             const { data, error } = await supabase
                 .from("companies")
                 .select("company_name, company_logo_url")
@@ -145,11 +149,16 @@ export default function CompanyDashboardLayout({ children }: { children: React.R
             href: "/company/dashboard/my-orders",
             icon: ShoppingBag,
         },
-        // {
-        //     name: "Settings", // 💡 ADDED Settings back for completeness, matching the previous commented item
-        //     href: "/company/dashboard/settings",
-        //     icon: Settings,
-        // },
+        {
+            name: "Returns",
+            href: "/company/dashboard/returns",
+            icon: Undo2,
+        },
+        {
+            name: "Settings",
+            href: "/company/dashboard/settings",
+            icon: Settings,
+        },
     ]
 
     if (loadingCompanyInfo) {
@@ -301,18 +310,26 @@ export default function CompanyDashboardLayout({ children }: { children: React.R
                         )}
                         <span className="text-xl font-bold text-gray-900">{companyInfo?.company_name || "Dashboard"}</span>
                     </div>
-                    {/* MOBILE TOGGLE BUTTON */}
-                    <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => setIsMobileSheetOpen(true)}
-                        aria-label="Open sidebar menu"
-                    >
-                        <Menu className="h-6 w-6" />
-                    </Button>
+                    <div className="flex items-center gap-2">
+                        {userId && <NotificationBell userId={userId} className="mr-2" />}
+                        {/* MOBILE TOGGLE BUTTON */}
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setIsMobileSheetOpen(true)}
+                            aria-label="Open sidebar menu"
+                        >
+                            <Menu className="h-6 w-6" />
+                        </Button>
+                    </div>
                 </header>
                 {/* End NEW MOBILE HEADER */}
 
+                {/* Desktop top bar: new orders and cancellations arrive in the bell */}
+                <header className="sticky top-0 z-10 hidden lg:flex items-center justify-end h-14 px-8 border-b border-gray-200 bg-white">
+                    {userId && <NotificationBell userId={userId} />}
+                </header>
+
                 {/* Main content area */}
                 <main className="flex-1 p-4 sm:p-6 lg:p-8">{children}</main>
             </div>
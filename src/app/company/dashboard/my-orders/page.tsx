@@ -7,11 +7,39 @@ import Image from "next/image"
 import { supabase } from "@/lib/supabase"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Loader2, ShoppingBag, Phone, CalendarDays, Search, CreditCard, Truck, ShoppingCart, Box, MapPin, CheckCircle, RefreshCw } from "lucide-react"
+import { Loader2, ShoppingBag, Phone, CalendarDays, Search, CheckCircle, Truck, RefreshCw, IndianRupee, FileText, XCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { apiDownload, apiFetch } from "@/lib/api-client"
+import CancelOrderDialog from "@/components/cancel-order-dialog"
+import OrderStatusTimeline, { fulfilmentStepIcons, StatusHistory } from "@/components/OrderStatusTimeline"
+import {
+    formatRefundStatus,
+    VENDOR_REJECTION_REASONS,
+    type CancelOrderRequest,
+    type CancelOrderResponse,
+    type RefundStatus,
+} from "@/lib/cancellations"
+import { MAX_STATUS_NOTE_LENGTH, STATUS_EVENT_COLUMNS, type StatusEvent } from "@/lib/order-history"
+import {
+    canCancel,
+    formatOrderStatus,
+    FULFILMENT_STEPS,
+    isInvoiceable,
+    ORDER_STATUSES,
+    ORDER_STATUS_LABELS,
+    vendorNextStatuses,
+    type FulfilmentStatus,
+    type OrderStatus,
+    type UpdateOrderStatusRequest,
+    type UpdateOrderStatusResponse,
+} from "@/lib/order-lifecycle"
+import { COURIERS, courierName, MAX_TRACKING_NUMBER_LENGTH, SHIPMENT_COLUMNS, type Shipment, type ShipmentDetails } from "@/lib/shipments"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import Chart from "react-apexcharts" // 💡 CHART IMPORT RE-ADDED
 
@@ -35,10 +63,37 @@ interface OrderItemWithProduct extends OrderItemJson {
     products: ProductDetailsForOrder | null
 }
 
+// A company's sub-order, flattened with the parent order's customer and address details
+// Parent order columns the vendor needs for shipping
+interface ParentOrderDetails {
+    purchase_time: string
+    payment_method: string
+    customer_name: string
+    primary_phone: string
+    secondary_phone: string | null
+    country: string
+    state: string
+    city: string
+    pincode: string
+    area: string | null
+    street: string | null
+    house_number: string | null
+}
+
 interface Order {
-    id: string
+    id: string // sub_orders.id
+    parent_order_id: string
+    subtotal: number
+    discount_amount: number
+    shipping_fee: number
     total_amount: number
     status: string
+    payment_method: string
+    cod_collected_at: string | null
+    cancelled_at: string | null
+    cancelled_by: "customer" | "vendor" | null
+    cancellation_reason: string | null
+    refund_status: RefundStatus | null
     purchase_time: string
     customer_name: string
     primary_phone: string
@@ -51,58 +106,121 @@ interface Order {
     street: string | null
     house_number: string | null
     order_items: OrderItemJson[]
+    order_status_events: StatusEvent[]
+    shipment: Shipment | null
     resolved_order_items?: OrderItemWithProduct[]
 }
 
-// Timeline steps for new design
-const proTimelineSteps = [
-    { label: "Order Confirmed", icon: ShoppingCart, status: "confirmed" },
-    { label: "Payment Accepted", icon: CreditCard, status: "payment_accepted" },
-    { label: "Order is Being Prepared", icon: Box, status: "preparing" },
-    { label: "Order Has Been Shipped", icon: Truck, status: "shipped" },
-    { label: "Order Successfully Delivered", icon: MapPin, status: "delivered" },
-]
-const statusOrder = ["confirmed", "payment_accepted", "preparing", "shipped", "delivered"]
-
 // --- New Component: Update Status Modal ---
 interface UpdateStatusModalProps {
     isOpen: boolean;
     onClose: () => void;
     currentOrder: Order;
-    onUpdate: (orderId: string, newStatus: string) => void;
+    onUpdate: (orderId: string, newStatus: FulfilmentStatus, note: string, shipment?: ShipmentDetails) => void;
     isLoading: boolean;
 }
 
 const UpdateStatusModal: React.FC<UpdateStatusModalProps> = ({ isOpen, onClose, currentOrder, onUpdate, isLoading }) => {
-    const currentStatusIndex = statusOrder.indexOf(currentOrder.status);
+    const [note, setNote] = useState("");
+    // Shipping asks for the courier details first
+    const [shipping, setShipping] = useState(false);
+    const [shipment, setShipment] = useState<ShipmentDetails>({ carrier: "", trackingNumber: "", expectedDeliveryDate: null });
+    const today = new Date().toISOString().slice(0, 10);
 
-    // Filter statuses to only show statuses *after* the current one
-    const availableSteps = proTimelineSteps.filter((step) => statusOrder.indexOf(step.status) > currentStatusIndex);
+    // Only the moves the order lifecycle allows from the current status
+    const nextStatuses = vendorNextStatuses(currentOrder.status);
+    const availableSteps = FULFILMENT_STEPS.filter((step) => (nextStatuses as string[]).includes(step.status));
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
             <DialogContent className="sm:max-w-[425px]">
                 <DialogHeader>
-                    <DialogTitle>Update Status for Order #{currentOrder.id.substring(0, 8)}</DialogTitle>
+                    <DialogTitle>Update Status for Order #{currentOrder.parent_order_id.substring(0, 8)}</DialogTitle>
                     <DialogDescription className="text-sm">
-                        Current Status: <Badge className={getStatusBadgeClass(currentOrder.status)}>{currentOrder.status.charAt(0).toUpperCase() + currentOrder.status.slice(1)}</Badge>
+                        Current Status: <Badge className={getStatusBadgeClass(currentOrder.status)}>{formatOrderStatus(currentOrder.status)}</Badge>
                     </DialogDescription>
                 </DialogHeader>
                 <div className="flex flex-col space-y-3 pt-4">
-                    {availableSteps.length > 0 ? (
-                        availableSteps.map((step) => (
+                    {availableSteps.length > 0 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="status-note">Note (optional)</Label>
+                            <Textarea
+                                id="status-note"
+                                value={note}
+                                onChange={(event) => setNote(event.target.value)}
+                                placeholder="Anything the customer should know"
+                                maxLength={MAX_STATUS_NOTE_LENGTH}
+                                rows={2}
+                            />
+                        </div>
+                    )}
+                    {shipping ? (
+                        <div className="space-y-3">
+                            <div className="space-y-2">
+                                <Label>Courier</Label>
+                                <Select value={shipment.carrier} onValueChange={(carrier) => setShipment((prev) => ({ ...prev, carrier }))}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Choose the courier" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {COURIERS.map((courier) => (
+                                            <SelectItem key={courier.id} value={courier.id}>{courier.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="tracking-number">Tracking (AWB) number</Label>
+                                <Input
+                                    id="tracking-number"
+                                    value={shipment.trackingNumber}
+                                    onChange={(event) => setShipment((prev) => ({ ...prev, trackingNumber: event.target.value }))}
+                                    maxLength={MAX_TRACKING_NUMBER_LENGTH}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="expected-delivery">Expected delivery (optional)</Label>
+                                <Input
+                                    id="expected-delivery"
+                                    type="date"
+                                    min={today}
+                                    value={shipment.expectedDeliveryDate ?? ""}
+                                    onChange={(event) => setShipment((prev) => ({ ...prev, expectedDeliveryDate: event.target.value || null }))}
+                                />
+                            </div>
+                            <div className="flex gap-2">
+                                <Button variant="outline" className="flex-1" onClick={() => setShipping(false)} disabled={isLoading}>
+                                    Back
+                                </Button>
+                                <Button
+                                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+                                    disabled={isLoading || !shipment.carrier || !shipment.trackingNumber.trim()}
+                                    onClick={() => onUpdate(currentOrder.id, "shipped", note.trim(), shipment)}
+                                >
+                                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+                                    Mark Shipped
+                                </Button>
+                            </div>
+                        </div>
+                    ) : availableSteps.length > 0 ? (
+                        availableSteps.map((step) => {
+                            const StepIcon = fulfilmentStepIcons[step.status];
+                            return (
                             <Button
                                 key={step.status}
-                                onClick={() => onUpdate(currentOrder.id, step.status)}
+                                onClick={() =>
+                                    step.status === "shipped" ? setShipping(true) : onUpdate(currentOrder.id, step.status, note.trim())
+                                }
                                 disabled={isLoading}
                                 className="w-full justify-start bg-blue-600 hover:bg-blue-700 text-white transition-all"
                             >
-                                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <step.icon className="mr-2 h-4 w-4" />}
+                                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <StepIcon className="mr-2 h-4 w-4" />}
                                 Set to: {step.label}
                             </Button>
-                        ))
+                            );
+                        })
                     ) : (
-                        <p className="text-center text-gray-500 py-4">This order is already marked as Delivered.</p>
+                        <p className="text-center text-gray-500 py-4">There is no further status to set for this order.</p>
                     )}
                 </div>
             </DialogContent>
@@ -112,10 +230,24 @@ const UpdateStatusModal: React.FC<UpdateStatusModalProps> = ({ isOpen, onClose,
 // --- End New Component ---
 
 // --- Helper Functions ---
+const STATUS_CHART_COLORS: Record<OrderStatus, string> = {
+    pending: "#fbbf24",
+    payment_failed: "#f87171",
+    cod_pending: "#fb923c",
+    confirmed: "#3b82f6",
+    payment_accepted: "#10b981",
+    preparing: "#eab308",
+    shipped: "#a78bfa",
+    delivered: "#22c55e",
+    cancelled: "#ef4444",
+    refunded: "#9ca3af",
+};
+
 const getStatusBadgeClass = (status: string) => {
     switch (status) {
         case "pending": return "bg-yellow-100 text-yellow-700";
         case "confirmed": return "bg-blue-100 text-blue-700";
+        case "cod_pending": return "bg-orange-100 text-orange-700";
         case "payment_accepted": return "bg-green-100 text-green-700";
         case "preparing": return "bg-yellow-100 text-yellow-700";
         case "shipped": return "bg-purple-100 text-purple-700";
@@ -133,6 +265,8 @@ export default function CompanyMyOrdersPage() {
     const [isUpdating, setIsUpdating] = useState(false) // State for updating status
     const [modalOpen, setModalOpen] = useState(false)
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
+    const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+    const [rejectingOrder, setRejectingOrder] = useState<Order | null>(null)
     const router = useRouter()
     const { toast } = useToast()
 
@@ -164,50 +298,60 @@ export default function CompanyMyOrdersPage() {
         }
         const companyId = companyData.id
 
-        // 2. Fetch all product_ids belonging to this company
-        const { data: companyProducts, error: productsError } = await supabase
-            .from("products")
-            .select("id, company_id")
-            .eq("company_id", companyId)
-
-        if (productsError) {
-            console.error("Error fetching company products:", productsError)
-            setError("Failed to load company products for order filtering.")
-            setLoading(false)
-            return
-        }
-
-        const companyProductIds = new Set(companyProducts?.map((p) => p.id))
-
-        if (companyProductIds.size === 0) {
-            setOrders([])
-            setLoading(false)
-            return
-        }
-
-        // 3. Fetch all orders
-        const { data: allOrdersData, error: allOrdersError } = await supabase
-            .from("orders")
+        // 2. Fetch this company's sub-orders along with the parent order's shipping details
+        const { data: subOrdersData, error: subOrdersError } = await supabase
+            .from("sub_orders")
             .select(
                 `
-                id, total_amount, status, purchase_time, customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number, order_items
+                id, parent_order_id, status, subtotal, discount_amount, shipping_fee, total_amount, order_items, created_at, cod_collected_at, cancelled_at, cancelled_by, cancellation_reason, refund_status,
+                order_status_events ( ${STATUS_EVENT_COLUMNS} ),
+                shipments ( ${SHIPMENT_COLUMNS} ),
+                orders ( purchase_time, payment_method, customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number )
                 `,
             )
-            .order("purchase_time", { ascending: false })
+            .eq("company_id", companyId)
+            .order("created_at", { ascending: false })
 
-        if (allOrdersError) {
-            console.error("Error fetching all orders:", allOrdersError)
+        if (subOrdersError) {
+            console.error("Error fetching company sub-orders:", subOrdersError)
             setError("Failed to load orders. Please try again.")
             setOrders([])
             setLoading(false)
             return
         }
 
-        // Filter orders to include only those that contain products from this company
-        const filteredCompanyOrders =
-            allOrdersData?.filter((order) =>
-                order.order_items.some((item: OrderItemJson) => companyProductIds.has(item.product_id)),
-            ) || []
+        const filteredCompanyOrders = (subOrdersData || []).map((subOrder) => {
+            const parent = (Array.isArray(subOrder.orders) ? subOrder.orders[0] : subOrder.orders) as ParentOrderDetails | null
+            return {
+                id: subOrder.id,
+                parent_order_id: subOrder.parent_order_id,
+                status: subOrder.status,
+                payment_method: parent?.payment_method || "razorpay",
+                cod_collected_at: subOrder.cod_collected_at,
+                cancelled_at: subOrder.cancelled_at,
+                cancelled_by: subOrder.cancelled_by,
+                cancellation_reason: subOrder.cancellation_reason,
+                refund_status: subOrder.refund_status,
+                subtotal: subOrder.subtotal,
+                discount_amount: subOrder.discount_amount,
+                shipping_fee: subOrder.shipping_fee,
+                total_amount: subOrder.total_amount,
+                order_items: subOrder.order_items,
+                order_status_events: subOrder.order_status_events || [],
+                shipment: ((Array.isArray(subOrder.shipments) ? subOrder.shipments[0] : subOrder.shipments) as Shipment | undefined) ?? null,
+                purchase_time: parent?.purchase_time || subOrder.created_at,
+                customer_name: parent?.customer_name || "",
+                primary_phone: parent?.primary_phone || "",
+                secondary_phone: parent?.secondary_phone ?? null,
+                country: parent?.country || "",
+                state: parent?.state || "",
+                city: parent?.city || "",
+                pincode: parent?.pincode || "",
+                area: parent?.area ?? null,
+                street: parent?.street ?? null,
+                house_number: parent?.house_number ?? null,
+            }
+        })
 
         if (filteredCompanyOrders.length === 0) {
             setOrders([])
@@ -242,11 +386,10 @@ export default function CompanyMyOrdersPage() {
             }
         }
 
-        // Map product details back to each order's items and filter to show only company's products
+        // Map product details back to each sub-order's items (all of them belong to this company)
         const resolvedOrders: Order[] = filteredCompanyOrders.map((order) => {
             const resolvedItems: OrderItemWithProduct[] = Array.isArray(order.order_items)
                 ? order.order_items
-                    .filter((item: OrderItemJson) => companyProductIds.has(item.product_id)) // Filter here to show only company's products
                     .map((item: OrderItemJson) => ({
                         ...item,
                         products: productsMap.get(item.product_id) || null,
@@ -269,14 +412,38 @@ export default function CompanyMyOrdersPage() {
             if (!session) { router.push("/login") } else { fetchCompanyOrders() }
         })
 
-        // Real-time listener for orders table to update status instantly
+        // Real-time listener for sub_orders table to update status instantly
         const orderChannel = supabase.channel('order_status_updates').on(
             'postgres_changes',
-            { event: 'UPDATE', schema: 'public', table: 'orders' },
+            { event: 'UPDATE', schema: 'public', table: 'sub_orders' },
             (payload) => {
                 // Manually update the state with the new status without a full re-fetch
                 setOrders(prevOrders => prevOrders.map(order => 
-                    order.id === payload.new.id ? { ...order, status: payload.new.status as string } : order
+                    order.id === payload.new.id
+                        ? {
+                            ...order,
+                            status: payload.new.status as string,
+                            cod_collected_at: payload.new.cod_collected_at as string | null,
+                            cancelled_at: payload.new.cancelled_at as string | null,
+                            cancelled_by: payload.new.cancelled_by as Order["cancelled_by"],
+                            cancellation_reason: payload.new.cancellation_reason as string | null,
+                            refund_status: payload.new.refund_status as RefundStatus | null,
+                        }
+                        : order
+                ));
+            }
+        ).subscribe();
+
+        // Status changes are recorded by the database, with the actor and note, as they happen
+        const statusEventChannel = supabase.channel('vendor_order_status_events').on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'order_status_events' },
+            (payload) => {
+                const event = payload.new as StatusEvent;
+                setOrders(prevOrders => prevOrders.map(order =>
+                    order.id === event.sub_order_id && !order.order_status_events.some(existing => existing.id === event.id)
+                        ? { ...order, order_status_events: [...order.order_status_events, event] }
+                        : order
                 ));
             }
         ).subscribe();
@@ -284,37 +451,118 @@ export default function CompanyMyOrdersPage() {
         return () => {
             authListener.subscription.unsubscribe();
             supabase.removeChannel(orderChannel);
+            supabase.removeChannel(statusEventChannel);
         }
     }, [fetchCompanyOrders, router])
 
-    const handleStatusUpdate = async (orderId: string, newStatus: string) => {
+    const fetchShipment = async (subOrderId: string) => {
+        const { data } = await supabase.from('shipments').select(SHIPMENT_COLUMNS).eq('sub_order_id', subOrderId).maybeSingle();
+        if (data) {
+            setOrders(prevOrders => prevOrders.map(order =>
+                order.id === subOrderId ? { ...order, shipment: data as Shipment } : order
+            ));
+        }
+    };
+
+    const handleStatusUpdate = async (orderId: string, newStatus: FulfilmentStatus, note: string, shipment?: ShipmentDetails) => {
         setIsUpdating(true);
         try {
-            const { error: updateError } = await supabase
-                .from('orders')
-                .update({ status: newStatus })
-                .eq('id', orderId);
-
-            if (updateError) throw updateError;
-
-            toast({ title: "Status Updated!", description: `Order ${orderId.substring(0, 8)} status set to ${newStatus}.`, variant: "default" });
+            // Only this company's part of the order changes; the parent status is rolled up in the database,
+            // which also records the change (with you as the actor) in the order's status history
+            const result = await apiFetch<UpdateOrderStatusResponse>("/api/orders/status", {
+                subOrderId: orderId,
+                status: newStatus,
+                note,
+                shipment,
+            } satisfies UpdateOrderStatusRequest);
+
+            toast({ title: "Status Updated!", description: `Your part of order ${orders.find((order) => order.id === orderId)?.parent_order_id.substring(0, 8)} is now ${formatOrderStatus(result.status).toLowerCase()}.`, variant: "default" });
             setModalOpen(false);
+            setSelectedOrder(null);
             // The real-time listener will update the state, but we can optimistically update too.
             setOrders(prevOrders => prevOrders.map(order => 
-                order.id === orderId ? { ...order, status: newStatus } : order
+                order.id === result.subOrderId ? { ...order, status: result.status } : order
+            ));
+            if (shipment) fetchShipment(result.subOrderId);
+        } catch (err) {
+            toast({ title: "Update Failed", description: err instanceof Error ? err.message : "Could not update order status.", variant: "destructive" });
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleCodCollected = async (orderId: string) => {
+        setIsUpdating(true);
+        const collectedAt = new Date().toISOString();
+        const { error: updateError } = await supabase
+            .from('sub_orders')
+            .update({ cod_collected_at: collectedAt })
+            .eq('id', orderId)
+            .is('cod_collected_at', null);
+        setIsUpdating(false);
+
+        if (updateError) {
+            console.error("Error marking COD as collected:", updateError);
+            toast({ title: "Update Failed", description: "Could not record the cash collection.", variant: "destructive" });
+            return;
+        }
+
+        toast({ title: "Cash Collected", description: "The COD payment has been recorded.", variant: "default" });
+        setOrders(prevOrders => prevOrders.map(order =>
+            order.id === orderId ? { ...order, cod_collected_at: collectedAt } : order
+        ));
+    };
+
+    const handleRejectOrder = async (order: Order, reason: string) => {
+        setIsUpdating(true);
+        try {
+            const result = await apiFetch<CancelOrderResponse>("/api/orders/cancel", {
+                subOrderId: order.id,
+                reason,
+            } satisfies CancelOrderRequest);
+            setOrders(prevOrders => prevOrders.map(existing =>
+                existing.id === result.subOrderId
+                    ? { ...existing, status: result.status, refund_status: result.refundStatus, cancelled_at: existing.cancelled_at ?? new Date().toISOString(), cancelled_by: "vendor", cancellation_reason: reason }
+                    : existing
             ));
-        } catch (error) {
-            console.error("Error updating status:", error);
-            toast({ title: "Update Failed", description: "Could not update order status.", variant: "destructive" });
+            setRejectingOrder(null);
+            toast({
+                title: "Order Rejected",
+                description: result.refundAmount
+                    ? `The customer will be refunded ₹${result.refundAmount.toFixed(2)} and the stock is back on sale.`
+                    : "The customer has been notified and the stock is back on sale.",
+                variant: "default",
+            });
+        } catch (err) {
+            toast({
+                title: "Rejection Failed",
+                description: err instanceof Error ? err.message : "Could not reject the order.",
+                variant: "destructive",
+            });
         } finally {
             setIsUpdating(false);
         }
     };
 
+    const handleDownloadInvoice = async (orderId: string) => {
+        setDownloadingInvoiceId(orderId);
+        try {
+            await apiDownload(`/api/invoices/${orderId}`, "invoice.pdf");
+        } catch (err) {
+            toast({
+                title: "Invoice Unavailable",
+                description: err instanceof Error ? err.message : "Could not download the invoice.",
+                variant: "destructive",
+            });
+        } finally {
+            setDownloadingInvoiceId(null);
+        }
+    };
+
 
     const filteredOrders = orders.filter((order) => {
         const matchesSearchTerm =
-            order.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            order.parent_order_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
             order.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
             order.primary_phone.includes(searchTerm) ||
             order.resolved_order_items?.some((item) =>
@@ -333,16 +581,11 @@ export default function CompanyMyOrdersPage() {
         {} as Record<string, number>,
     )
 
-    // Pie chart data for order status summary
-    const statusLabels = ["Pending", "Confirmed", "Shipped", "Delivered", "Cancelled"]
-    const statusColors = ["#fbbf24", "#3b82f6", "#a78bfa", "#22c55e", "#ef4444"]
-    const statusCounts = [
-        orderStatusCounts["pending"] || 0,
-        orderStatusCounts["confirmed"] || 0,
-        orderStatusCounts["shipped"] || 0,
-        orderStatusCounts["delivered"] || 0,
-        orderStatusCounts["cancelled"] || 0,
-    ]
+    // Pie chart data for order status summary: every lifecycle status this company has orders in
+    const chartStatuses = ORDER_STATUSES.filter((status) => orderStatusCounts[status])
+    const statusLabels = chartStatuses.map((status) => ORDER_STATUS_LABELS[status])
+    const statusColors = chartStatuses.map((status) => STATUS_CHART_COLORS[status])
+    const statusCounts = chartStatuses.map((status) => orderStatusCounts[status])
     // 💡 END: Logic for Pie Chart and Status Cards (taken from old code)
 
     if (loading) {
@@ -446,7 +689,7 @@ export default function CompanyMyOrdersPage() {
                                 >
                                     <CardHeader className="flex flex-row items-center justify-between pb-4">
                                         <div>
-                                            <CardTitle className="text-xl font-bold text-gray-900">Order #{order.id.substring(0, 8)}</CardTitle>
+                                            <CardTitle className="text-xl font-bold text-gray-900">Order #{order.parent_order_id.substring(0, 8)}</CardTitle>
                                             <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
                                                 <CalendarDays className="w-4 h-4" />
                                                 {new Date(order.purchase_time).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", hour: "2-digit", minute: "2-digit" })}
@@ -454,11 +697,21 @@ export default function CompanyMyOrdersPage() {
                                         </div>
                                         <div className="flex flex-col items-end gap-2">
                                             <Badge className={`px-3 py-1 text-sm font-medium ${getStatusBadgeClass(order.status)}`}>
-                                                {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                                {formatOrderStatus(order.status)}
                                             </Badge>
+                                            {order.payment_method === "cod" && (
+                                                <Badge variant="outline" className="px-3 py-1 text-xs font-medium">
+                                                    {order.cod_collected_at ? "COD Collected" : "Cash on Delivery"}
+                                                </Badge>
+                                            )}
+                                            {order.payment_method === "replacement" && (
+                                                <Badge variant="outline" className="px-3 py-1 text-xs font-medium">
+                                                    Replacement
+                                                </Badge>
+                                            )}
                                             
                                             {/* 🎯 UPDATE STATUS BUTTON */}
-                                            {order.status !== 'delivered' && order.status !== 'cancelled' && (
+                                            {vendorNextStatuses(order.status).length > 0 && (
                                                 <Button
                                                     onClick={() => { setSelectedOrder(order); setModalOpen(true); }}
                                                     disabled={isUpdating}
@@ -470,59 +723,73 @@ export default function CompanyMyOrdersPage() {
                                                     Update Status
                                                 </Button>
                                             )}
+                                            {order.payment_method === "cod" && !order.cod_collected_at && (order.status === "shipped" || order.status === "delivered") && (
+                                                <Button
+                                                    onClick={() => handleCodCollected(order.id)}
+                                                    disabled={isUpdating}
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="border-green-600 text-green-700 hover:bg-green-50"
+                                                >
+                                                    <IndianRupee className="w-4 h-4 mr-2" />
+                                                    Mark COD Collected
+                                                </Button>
+                                            )}
+                                            {canCancel(order.status) && (
+                                                <Button
+                                                    onClick={() => setRejectingOrder(order)}
+                                                    disabled={isUpdating}
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="border-red-300 text-red-600 hover:bg-red-50"
+                                                >
+                                                    <XCircle className="w-4 h-4 mr-2" />
+                                                    Reject Order
+                                                </Button>
+                                            )}
+                                            {isInvoiceable(order) && order.payment_method !== "replacement" && (
+                                                <Button
+                                                    onClick={() => handleDownloadInvoice(order.id)}
+                                                    disabled={downloadingInvoiceId === order.id}
+                                                    variant="outline"
+                                                    size="sm"
+                                                >
+                                                    {downloadingInvoiceId === order.id ? (
+                                                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                                    ) : (
+                                                        <FileText className="w-4 h-4 mr-2" />
+                                                    )}
+                                                    Download Invoice
+                                                </Button>
+                                            )}
                                         </div>
                                     </CardHeader>
                                     <CardContent className="space-y-4">
-                                        {/* Order Tracking Timeline - Reusing the complex visual timeline */}
-                                        <div className="w-full flex flex-col items-center mb-4">
-                                            <div className="flex items-center w-full justify-between px-2 overflow-x-auto pb-2">
-                                                {proTimelineSteps.map((step, stepIdx) => {
-                                                    const currentStatusIdx = statusOrder.indexOf(order.status)
-                                                    const thisStepIdx = statusOrder.indexOf(step.status)
-                                                    const isActive = thisStepIdx === currentStatusIdx
-                                                    const isCompleted = thisStepIdx < currentStatusIdx
-                                                    const isLast = stepIdx === proTimelineSteps.length - 1
-                                                    return (
-                                                        <div key={step.label} className="flex flex-col items-center flex-1 min-w-[15%] max-w-[20%] xl:min-w-[100px] xl:max-w-none">
-                                                            <div className="relative flex flex-col items-center">
-                                                                <div className="z-10">
-                                                                    <step.icon
-                                                                        className={`h-8 w-8 p-1 rounded-full border-2 shadow-md ${
-                                                                            isActive
-                                                                                ? "bg-gradient-to-r from-green-400 to-blue-500 text-white border-blue-500"
-                                                                                : isCompleted
-                                                                                    ? "bg-green-400 text-white border-green-500"
-                                                                                    : "bg-gray-200 text-gray-400 border-gray-300"
-                                                                        }`}
-                                                                    />
-                                                                </div>
-                                                                {/* Connecting line */}
-                                                                {!isLast && (
-                                                                    <div
-                                                                        className={`absolute top-1/2 left-full h-[6px] -translate-y-1/2 z-0 w-full md:w-[100px] sm:w-[100px] xl:w-[200px] ${ 
-                                                                            isCompleted
-                                                                                ? "bg-green-400"
-                                                                                : isActive
-                                                                                    ? "bg-blue-400"
-                                                                                    : "bg-gray-200"
-                                                                        }`}
-                                                                        style={{ height: "6px" }}
-                                                                    ></div>
-                                                                )}
-                                                            </div>
-                                                            <span className={`mt-2 text-xs font-semibold text-center ${
-                                                                isActive
-                                                                    ? "text-blue-600"
-                                                                    : isCompleted
-                                                                        ? "text-green-600"
-                                                                        : "text-gray-400"
-                                                            }`} style={{ minWidth: 80 }}>{step.label}</span>
-                                                        </div>
-                                                    )
-                                                })}
+                                        {(order.status === "cancelled" || order.status === "refunded") && (
+                                            <div className="rounded-lg bg-red-50 border border-red-100 p-3 text-sm text-red-800 space-y-1">
+                                                <p className="font-medium">
+                                                    {order.cancelled_by === "vendor" ? "Rejected by you" : "Cancelled by the customer"}
+                                                    {order.cancellation_reason && <span className="font-normal"> — {order.cancellation_reason}</span>}
+                                                </p>
+                                                {formatRefundStatus(order.refund_status) && <p>{formatRefundStatus(order.refund_status)}</p>}
+                                                <StatusHistory events={order.order_status_events} />
                                             </div>
-                                        </div>
-                                        {/* End Timeline */}
+                                        )}
+                                        {order.status !== "cancelled" && order.status !== "refunded" && (
+                                            <OrderStatusTimeline currentStatus={order.status} events={order.order_status_events} />
+                                        )}
+                                        {order.shipment && (
+                                            <p className="text-sm text-gray-700 flex items-center gap-2">
+                                                <Truck className="w-4 h-4 text-purple-600" />
+                                                Shipped with {courierName(order.shipment.carrier)} ·{" "}
+                                                <span className="font-mono">{order.shipment.tracking_number}</span>
+                                                {order.shipment.expected_delivery_date && (
+                                                    <span className="text-gray-500">
+                                                        · expected {new Date(order.shipment.expected_delivery_date).toLocaleDateString("en-IN", { day: "numeric", month: "short" })}
+                                                    </span>
+                                                )}
+                                            </p>
+                                        )}
 
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                             {/* Order Summary */}
@@ -535,9 +802,19 @@ export default function CompanyMyOrdersPage() {
                                                 <div className="flex justify-between text-sm text-gray-600">
                                                     <span>Total Amount for your products:</span>
                                                     <span className="font-bold text-gray-900">
-                                                        ₹{order.resolved_order_items?.reduce((sum, item) => sum + item.price_at_purchase * item.quantity, 0)?.toFixed(2)}
+                                                        ₹{Number(order.subtotal).toFixed(2)}
                                                     </span>
                                                 </div>
+                                                {Number(order.discount_amount) > 0 && (
+                                                    <div className="flex justify-between text-sm text-gray-600">
+                                                        <span>Coupon discount:</span>
+                                                        <span>-₹{Number(order.discount_amount).toFixed(2)}</span>
+                                                    </div>
+                                                )}
+                                                <div className="flex justify-between text-sm text-gray-600">
+                                                    <span>Shipping fee:</span>
+                                                    <span>{Number(order.shipping_fee) === 0 ? "Free" : `₹${Number(order.shipping_fee).toFixed(2)}`}</span>
+                                                </div>
                                             </div>
                                             {/* Shipping Address */}
                                             <div className={`space-y-2 bg-gradient-to-br from-pink-100 via-pink-50 to-pink-200 rounded-xl shadow-md p-4 transition-transform duration-200 hover:scale-105 hover:shadow-xl`}>
@@ -601,6 +878,7 @@ export default function CompanyMyOrdersPage() {
             {/* 🎯 UPDATE STATUS MODAL */}
             {selectedOrder && (
                 <UpdateStatusModal
+                    key={selectedOrder.id}
                     isOpen={modalOpen}
                     onClose={() => setModalOpen(false)}
                     currentOrder={selectedOrder}
@@ -608,6 +886,16 @@ export default function CompanyMyOrdersPage() {
                     isLoading={isUpdating}
                 />
             )}
+            <CancelOrderDialog
+                open={rejectingOrder !== null}
+                onOpenChange={(open) => !open && setRejectingOrder(null)}
+                title={`Reject Order #${rejectingOrder?.parent_order_id.substring(0, 8) ?? ""}`}
+                description="Your part of this order will be cancelled, its stock put back on sale and any prepaid amount refunded to the customer."
+                reasons={VENDOR_REJECTION_REASONS}
+                confirmLabel="Reject Order"
+                isLoading={isUpdating}
+                onConfirm={(reason) => rejectingOrder && handleRejectOrder(rejectingOrder, reason)}
+            />
         </div>
     );
 }
\ No newline at end of file
@@ -4,11 +4,12 @@ import { useEffect, useState } from "react"
 import { supabase } from "@/lib/supabase"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Badge } from "@/components/ui/badge"
 import { Loader2, Edit, Eye, PackageX, AlertCircle, Camera, Package } from "lucide-react"
 import Link from "next/link"
 import { useToast } from "@/hooks/use-toast"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import ReviewStatusBadge from "@/components/review-status-badge"
+import { reviewStatus } from "@/lib/admin"
 
 interface Product {
   id: string
@@ -19,6 +20,8 @@ interface Product {
   stock_quantity: number
   product_photo_urls: string[]
   is_approved: boolean
+  reviewed_at: string | null
+  rejection_reason: string | null
   created_at: string
 }
 
@@ -147,13 +150,10 @@ export default function MyProductsPage() {
                     </div>
                   )}
                 </div>
-                <Badge
-                  className={`absolute top-4 right-4 px-3 py-1 text-xs font-medium ${
-                    product.is_approved ? "bg-green-500 text-white" : "bg-yellow-500 text-white"
-                  }`}
-                >
-                  {product.is_approved ? "Approved" : "Pending Approval"}
-                </Badge>
+                <ReviewStatusBadge
+                  status={reviewStatus(product)}
+                  className="absolute top-4 right-4 px-3 py-1 text-xs font-medium"
+                />
                 <CardTitle className="text-xl text-gray-900">{product.product_name}</CardTitle>
                 <p className="text-sm text-gray-500 line-through">₹{product.original_price.toFixed(2)}</p>
                 <p className="text-lg font-bold text-green-600">₹{product.discount_price.toFixed(2)}</p>
@@ -162,6 +162,12 @@ export default function MyProductsPage() {
                 <p className="text-sm text-gray-700 mb-4 line-clamp-3">
                   {product.product_description || "No description available."}
                 </p>
+                {reviewStatus(product) === "rejected" && (
+                  <p className="text-sm text-red-700 mb-4">
+                    Rejected{product.rejection_reason ? `: ${product.rejection_reason}` : ""}. Edit the product to
+                    send it for review again.
+                  </p>
+                )}
                 <div className="flex justify-between items-center text-sm text-gray-600">
                   <span>Stock: {product.stock_quantity}</span>
                   <div className="flex gap-2">
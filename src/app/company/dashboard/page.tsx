@@ -9,9 +9,11 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import Chart from "react-apexcharts"
 import Image from "next/image" 
+import { reviewStatus, type ReviewStatus } from "@/lib/admin"
 
 interface DashboardStats {
     companyName: string
+    reviewStatus: ReviewStatus
     totalProducts: number
     totalSalesAmount: number
     totalOrders: number
@@ -63,7 +65,7 @@ export default function DashboardPage() {
             // 1. Get company_id and company_name for the logged-in user
             const { data: companyData, error: companyError } = await supabase
                 .from("companies")
-                .select("id, company_name")
+                .select("id, company_name, is_approved, reviewed_at")
                 .eq("user_id", userId)
                 .single()
 
@@ -98,10 +100,11 @@ export default function DashboardPage() {
             const companyProductIds = new Set(productsData?.map((p) => p.id))
             const productDetailsMap = new Map(productsData?.map((p) => [p.id, p]))
 
-            // 3. Fetch all orders and filter client-side for company-specific orders
+            // 3. Fetch this company's sub-orders (its share of every order it is part of)
             const { data: allOrdersData, error: ordersError } = await supabase
-                .from("orders")
-                .select("id, total_amount, status, order_items, purchase_time")
+                .from("sub_orders")
+                .select("id, status, order_items, created_at")
+                .eq("company_id", companyId)
 
             if (ordersError) {
                 console.error("Error fetching orders for dashboard:", ordersError)
@@ -157,7 +160,7 @@ export default function DashboardPage() {
                         }
 
                         // Aggregate for chart data
-                        const orderDate = new Date(order.purchase_time);
+                        const orderDate = new Date(order.created_at);
                         orderDate.setHours(0, 0, 0, 0);
                         const dateKey = orderDate.toISOString().split('T')[0];
                         
@@ -196,6 +199,7 @@ export default function DashboardPage() {
 
             setStats({
                 companyName,
+                reviewStatus: reviewStatus(companyData),
                 totalProducts,
                 totalSalesAmount,
                 totalOrders,
@@ -257,6 +261,27 @@ export default function DashboardPage() {
             <div className="container mx-auto px-4">
                 <h1 className="text-3xl font-bold text-gray-900">Welcome back, {stats?.companyName || "Company"}!</h1>
 
+                {stats && stats.reviewStatus !== "approved" && (
+                    <div
+                        className={`mt-4 rounded-lg border px-4 py-3 text-sm ${
+                            stats.reviewStatus === "rejected"
+                                ? "border-red-200 bg-red-50 text-red-800"
+                                : "border-yellow-200 bg-yellow-50 text-yellow-800"
+                        }`}
+                    >
+                        {stats.reviewStatus === "rejected" ? (
+                            <>
+                                Your registration wasn&apos;t approved.{" "}
+                                <Link href="/company/dashboard/settings" className="font-medium underline">
+                                    See why and resubmit
+                                </Link>
+                            </>
+                        ) : (
+                            "Your registration is being reviewed. You can add products once it's approved."
+                        )}
+                    </div>
+                )}
+
                 {/* Quick Stats Cards */}
                 {/* Adjusted grid to 5 columns after removing Pending Orders */}
                 <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 mt-8">
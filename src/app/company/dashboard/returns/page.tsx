@@ -0,0 +1,324 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Image from "next/image"
+import { Loader2, PackageOpen, Undo2 } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import { ReturnTrack } from "@/components/OrderStatusTimeline"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import {
+  RETURN_ACTIONS,
+  RETURN_PHOTO_LINK_TTL_SECONDS,
+  RETURN_PHOTOS_BUCKET,
+  RETURN_STATUS_LABELS,
+  type ReturnAction,
+  type ReturnRefundStatus,
+  type ReturnRequestSummary,
+  type ReturnStatus,
+  type ReturnType,
+  type UpdateReturnRequest,
+} from "@/lib/returns"
+
+interface VendorReturnRequest {
+  id: string
+  order_id: string
+  quantity: number
+  type: ReturnType
+  reason: string
+  details: string | null
+  photo_paths: string[]
+  // Signed from `photo_paths` when the requests are loaded
+  photo_urls: string[]
+  status: ReturnStatus
+  vendor_note: string | null
+  refund_status: ReturnRefundStatus | null
+  refund_amount: number | null
+  replacement_order_id: string | null
+  created_at: string
+  products: { product_name: string; product_photo_urls: string[] | null } | null
+}
+
+type ReturnFilter = "open" | "closed" | "all"
+
+const CLOSED_STATUSES: ReturnStatus[] = ["rejected", "refunded", "replaced"]
+
+// The next step(s) the vendor can take from each status.
+const nextActions = (request: VendorReturnRequest): ReturnAction[] => {
+  if (request.status === "received") {
+    return request.refund_status === "failed" || (request.type === "replacement" && !request.replacement_order_id)
+      ? ["retry_refund"]
+      : []
+  }
+  return (Object.keys(RETURN_ACTIONS) as (keyof typeof RETURN_ACTIONS)[]).filter(
+    (action) => RETURN_ACTIONS[action].from === request.status,
+  )
+}
+
+const actionLabel = (action: ReturnAction, request: VendorReturnRequest) => {
+  if (action === "retry_refund") return request.type === "replacement" ? "Retry Replacement" : "Retry Refund"
+  if (action === "receive") return request.type === "replacement" ? "Received · Send Replacement" : "Received · Refund"
+  return RETURN_ACTIONS[action].label
+}
+
+export default function CompanyReturnsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [requests, setRequests] = useState<VendorReturnRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<ReturnFilter>("open")
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<VendorReturnRequest | null>(null)
+  const [rejectNote, setRejectNote] = useState("")
+
+  const fetchRequests = useCallback(async () => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      router.push("/login")
+      return
+    }
+
+    const { data: company, error: companyError } = await supabase
+      .from("companies")
+      .select("id")
+      .eq("user_id", session.user.id)
+      .single()
+    if (companyError || !company) {
+      toast({ title: "Company Not Found", description: "Your company record could not be found.", variant: "destructive" })
+      router.push("/company/dashboard")
+      return
+    }
+
+    const { data, error } = await supabase
+      .from("return_requests")
+      .select("*, products ( product_name, product_photo_urls )")
+      .eq("company_id", company.id)
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching return requests:", error)
+      toast({ title: "Error", description: "Could not load return requests.", variant: "destructive" })
+    } else {
+      const paths = (data || []).flatMap((request) => request.photo_paths as string[])
+      const { data: signed, error: signError } =
+        paths.length > 0
+          ? await supabase.storage.from(RETURN_PHOTOS_BUCKET).createSignedUrls(paths, RETURN_PHOTO_LINK_TTL_SECONDS)
+          : { data: [], error: null }
+      if (signError) console.error("Error signing return photos:", signError)
+      const signedByPath = new Map((signed || []).map((photo) => [photo.path, photo.signedUrl]))
+
+      setRequests(
+        (data || []).map((request) => ({
+          ...request,
+          photo_urls: (request.photo_paths as string[]).flatMap((path) => signedByPath.get(path) || []),
+          products: Array.isArray(request.products) ? request.products[0] ?? null : request.products,
+        })) as VendorReturnRequest[],
+      )
+    }
+    setLoading(false)
+  }, [router, toast])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const handleAction = async (request: VendorReturnRequest, action: ReturnAction, note?: string) => {
+    setUpdatingId(request.id)
+    try {
+      const result = await apiFetch<ReturnRequestSummary>(`/api/returns/${request.id}`, {
+        action,
+        note,
+      } satisfies UpdateReturnRequest)
+      setRequests((prev) =>
+        prev.map((existing) =>
+          existing.id === result.id
+            ? {
+                ...existing,
+                status: result.status,
+                refund_status: result.refundStatus,
+                replacement_order_id: result.replacementOrderId,
+                vendor_note: note || existing.vendor_note,
+              }
+            : existing,
+        ),
+      )
+      setRejecting(null)
+      toast({
+        title: RETURN_STATUS_LABELS[result.status],
+        description:
+          result.refundStatus === "failed"
+            ? "The refund didn't go through. You can retry it from this page."
+            : `Return #${request.id.substring(0, 8)} updated.`,
+        variant: result.refundStatus === "failed" ? "destructive" : "default",
+      })
+    } catch (err) {
+      toast({
+        title: "Update Failed",
+        description: err instanceof Error ? err.message : "Could not update the return.",
+        variant: "destructive",
+      })
+      fetchRequests()
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const visibleRequests = requests.filter((request) =>
+    filter === "all" ? true : CLOSED_STATUSES.includes(request.status) === (filter === "closed"),
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-green-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Undo2 className="h-6 w-6 text-green-600" />
+            Returns
+          </h1>
+          <p className="text-sm text-gray-600">
+            Review return and replacement requests, arrange the pickup and settle them once the item is back.
+          </p>
+        </div>
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as ReturnFilter)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="closed">Closed</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {visibleRequests.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-gray-500">
+            <PackageOpen className="h-10 w-10 mb-2" />
+            <p>No return requests here.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        visibleRequests.map((request) => (
+          <Card key={request.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">
+                  {request.products?.product_name || "Product"} × {request.quantity}
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  {request.type === "replacement" ? "Replacement" : "Return"} · Order #{request.order_id.substring(0, 8)} ·{" "}
+                  {new Date(request.created_at).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })}
+                </p>
+              </div>
+              <Badge variant="outline">{RETURN_STATUS_LABELS[request.status]}</Badge>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ReturnTrack status={request.status} type={request.type} />
+              <div className="text-sm text-gray-700 space-y-1">
+                <p>
+                  <span className="font-medium">Reason:</span> {request.reason}
+                </p>
+                {request.details && <p className="text-gray-600">{request.details}</p>}
+                {request.vendor_note && (
+                  <p>
+                    <span className="font-medium">Your note:</span> {request.vendor_note}
+                  </p>
+                )}
+                {request.refund_amount !== null && (
+                  <p>
+                    <span className="font-medium">Refund:</span> ₹{Number(request.refund_amount).toFixed(2)}
+                    {request.refund_status === "manual" && " — cash on delivery order, refund the customer directly"}
+                    {request.refund_status === "failed" && " — failed, retry below"}
+                  </p>
+                )}
+                {request.replacement_order_id && (
+                  <p>
+                    <span className="font-medium">Replacement order:</span> #{request.replacement_order_id.substring(0, 8)}{" "}
+                    (in My Orders)
+                  </p>
+                )}
+              </div>
+              {request.photo_urls.length > 0 && (
+                <div className="flex gap-2 flex-wrap">
+                  {request.photo_urls.map((url) => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                      <Image src={url} alt="Return photo" width={80} height={80} className="h-20 w-20 rounded-md object-cover border" />
+                    </a>
+                  ))}
+                </div>
+              )}
+              {nextActions(request).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {nextActions(request).map((action) => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      variant={action === "reject" ? "outline" : "default"}
+                      className={action === "reject" ? "text-red-600 border-red-200 hover:bg-red-50" : ""}
+                      disabled={updatingId === request.id}
+                      onClick={() => {
+                        if (action === "reject") {
+                          setRejectNote("")
+                          setRejecting(request)
+                        } else {
+                          handleAction(request, action)
+                        }
+                      }}
+                    >
+                      {updatingId === request.id && action !== "reject" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {actionLabel(action, request)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Reject Return Request</DialogTitle>
+            <DialogDescription>The customer will see this note.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectNote}
+            onChange={(event) => setRejectNote(event.target.value)}
+            placeholder="Why can't this return be accepted?"
+            maxLength={500}
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectNote.trim() || updatingId !== null}
+              onClick={() => rejecting && handleAction(rejecting, "reject", rejectNote.trim())}
+            >
+              {updatingId !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
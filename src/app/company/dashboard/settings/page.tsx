@@ -0,0 +1,341 @@
+"use client"
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { supabase } from "@/lib/supabase"
+import { Loader2, Save, Truck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Textarea } from "@/components/ui/textarea"
+import RegistrationReviewCard from "@/components/company/registration-review-card"
+import { useToast } from "@/hooks/use-toast"
+import { COD_SETTINGS_COLUMNS, normalizePincode, type CompanyCodSettings } from "@/lib/cod"
+import type { CompanyShippingSettings, DeliveryType } from "@/lib/shipping"
+
+const parseOptionalAmount = (value: string) => (value.trim() ? Number(value) : null)
+const isValidAmount = (value: number | null) => value === null || (Number.isFinite(value) && value >= 0)
+
+export default function CompanySettingsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [companyId, setCompanyId] = useState<string | null>(null)
+  const [codEnabled, setCodEnabled] = useState(false)
+  const [codMaxOrderValue, setCodMaxOrderValue] = useState("")
+  const [codPincodes, setCodPincodes] = useState("")
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>("self")
+  const [pickupPincode, setPickupPincode] = useState("")
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState("")
+  const [selfDeliveryFee, setSelfDeliveryFee] = useState("")
+  const [pageLoading, setPageLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSavingShipping, setIsSavingShipping] = useState(false)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setPageLoading(true)
+      const {
+        data: { session },
+        error: sessionError,
+      } = await supabase.auth.getSession()
+
+      if (sessionError || !session) {
+        toast({
+          title: "Authentication Required",
+          description: "Please log in to manage your settings.",
+          variant: "destructive",
+        })
+        router.push("/login")
+        return
+      }
+
+      const { data, error } = await supabase
+        .from("companies")
+        .select(`${COD_SETTINGS_COLUMNS}, delivery_type, pickup_pincode, free_shipping_threshold, self_delivery_fee`)
+        .eq("user_id", session.user.id)
+        .single()
+
+      if (error || !data) {
+        console.error("Error fetching company settings:", error)
+        toast({
+          title: "Company Not Found",
+          description: "Your company record could not be found.",
+          variant: "destructive",
+        })
+        router.push("/company/dashboard")
+        return
+      }
+
+      const settings = data as CompanyCodSettings & CompanyShippingSettings
+      setCompanyId(settings.id)
+      setCodEnabled(settings.cod_enabled)
+      setCodMaxOrderValue(settings.cod_max_order_value !== null ? String(settings.cod_max_order_value) : "")
+      setCodPincodes((settings.cod_pincodes || []).join(", "))
+      setDeliveryType(settings.delivery_type === "organiza" ? "organiza" : "self")
+      setPickupPincode(settings.pickup_pincode || "")
+      setFreeShippingThreshold(settings.free_shipping_threshold !== null ? String(settings.free_shipping_threshold) : "")
+      setSelfDeliveryFee(settings.self_delivery_fee !== null ? String(settings.self_delivery_fee) : "")
+      setPageLoading(false)
+    }
+
+    fetchSettings()
+  }, [router, toast])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!companyId) return
+
+    const maxOrderValue = codMaxOrderValue.trim() ? Number(codMaxOrderValue) : null
+    if (maxOrderValue !== null && (!Number.isFinite(maxOrderValue) || maxOrderValue <= 0)) {
+      toast({
+        title: "Invalid Limit",
+        description: "The maximum COD order value must be a positive amount.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Accept pincodes separated by commas, spaces or new lines
+    const pincodes = Array.from(new Set(codPincodes.split(/[\s,]+/).map(normalizePincode).filter(Boolean)))
+    if (pincodes.some((pincode) => !/^\d{6}$/.test(pincode))) {
+      toast({
+        title: "Invalid Pincode",
+        description: "Pincodes must be 6 digits.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    const { error } = await supabase
+      .from("companies")
+      .update({
+        cod_enabled: codEnabled,
+        cod_max_order_value: maxOrderValue,
+        cod_pincodes: pincodes,
+      })
+      .eq("id", companyId)
+    setIsSaving(false)
+
+    if (error) {
+      console.error("Error saving company settings:", error)
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save your settings.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setCodPincodes(pincodes.join(", "))
+    toast({
+      title: "Settings Saved",
+      description: "Your Cash on Delivery settings have been updated.",
+      variant: "default",
+    })
+  }
+
+  const handleSaveShipping = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!companyId) return
+
+    const threshold = parseOptionalAmount(freeShippingThreshold)
+    const fee = parseOptionalAmount(selfDeliveryFee)
+    if (!isValidAmount(threshold) || !isValidAmount(fee)) {
+      toast({
+        title: "Invalid Amount",
+        description: "Shipping amounts cannot be negative.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const pincode = normalizePincode(pickupPincode)
+    if (pincode && !/^\d{6}$/.test(pincode)) {
+      toast({
+        title: "Invalid Pincode",
+        description: "The pickup pincode must be 6 digits.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingShipping(true)
+    const { error } = await supabase
+      .from("companies")
+      .update({
+        delivery_type: deliveryType,
+        pickup_pincode: pincode || null,
+        free_shipping_threshold: threshold,
+        self_delivery_fee: fee ?? 0,
+      })
+      .eq("id", companyId)
+    setIsSavingShipping(false)
+
+    if (error) {
+      console.error("Error saving shipping settings:", error)
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save your shipping settings.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Settings Saved",
+      description: "Your shipping settings have been updated.",
+      variant: "default",
+    })
+  }
+
+  if (pageLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-green-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+
+      {companyId && <RegistrationReviewCard companyId={companyId} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shipping</CardTitle>
+          <CardDescription>
+            How your part of an order is delivered and what buyers pay for it. Organiza delivery is priced by weight
+            and the distance from your pickup pincode.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveShipping} className="space-y-5">
+            <RadioGroup value={deliveryType} onValueChange={(value) => setDeliveryType(value as DeliveryType)}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="self" id="delivery-self" />
+                <Label htmlFor="delivery-self" className="cursor-pointer">
+                  I deliver orders myself (flat fee)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="organiza" id="delivery-organiza" />
+                <Label htmlFor="delivery-organiza" className="cursor-pointer">
+                  Organiza delivers my orders (weight and distance based)
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {deliveryType === "self" ? (
+              <div className="space-y-2">
+                <Label htmlFor="self-delivery-fee">Delivery fee per order (₹)</Label>
+                <Input
+                  id="self-delivery-fee"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={selfDeliveryFee}
+                  onChange={(e) => setSelfDeliveryFee(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="pickup-pincode">Pickup pincode</Label>
+                <Input
+                  id="pickup-pincode"
+                  inputMode="numeric"
+                  maxLength={6}
+                  placeholder="e.g. 400001"
+                  value={pickupPincode}
+                  onChange={(e) => setPickupPincode(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">Without it every delivery is charged at the national rate.</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="free-shipping-threshold">Free shipping above (₹)</Label>
+              <Input
+                id="free-shipping-threshold"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Never free"
+                value={freeShippingThreshold}
+                onChange={(e) => setFreeShippingThreshold(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Compared with the value of your products in the order, after coupons.</p>
+            </div>
+
+            <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSavingShipping}>
+              {isSavingShipping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+              {isSavingShipping ? "Saving..." : "Save Shipping"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cash on Delivery</CardTitle>
+          <CardDescription>
+            Choose whether buyers can pay in cash when your products are delivered. Orders with products from several
+            sellers only offer COD when every seller accepts it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-5">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="cod-enabled"
+                checked={codEnabled}
+                onCheckedChange={(checked) => setCodEnabled(checked === true)}
+              />
+              <Label htmlFor="cod-enabled" className="cursor-pointer">
+                Accept Cash on Delivery
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cod-max-order-value">Maximum order value for COD (₹)</Label>
+              <Input
+                id="cod-max-order-value"
+                type="number"
+                min="1"
+                step="0.01"
+                placeholder="No limit"
+                value={codMaxOrderValue}
+                onChange={(e) => setCodMaxOrderValue(e.target.value)}
+                disabled={!codEnabled}
+              />
+              <p className="text-xs text-gray-500">Applies to your part of the order, including shipping.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cod-pincodes">Serviceable pincodes</Label>
+              <Textarea
+                id="cod-pincodes"
+                rows={4}
+                placeholder="Leave empty to allow every pincode"
+                value={codPincodes}
+                onChange={(e) => setCodPincodes(e.target.value)}
+                disabled={!codEnabled}
+              />
+              <p className="text-xs text-gray-500">Separate pincodes with commas or new lines.</p>
+            </div>
+
+            <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              {isSaving ? "Saving..." : "Save Settings"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import ForgotPasswordForm from "@/components/forgot-password-form"
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { BellOff, CheckCheck, Loader2 } from "lucide-react"
+import Header from "@/components/Header"
+import Footer from "@/components/Footer"
+import NotificationList from "@/components/notification-list"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { useNotifications } from "@/hooks/use-notifications"
+import { supabase } from "@/lib/supabase"
+
+// Every notification the user has had, newest first: order updates, new orders for vendors and
+// alerts about favorites.
+export default function NotificationsPage() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const router = useRouter()
+  const { toast } = useToast()
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(userId, 100)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        toast({
+          title: "Please log in to view your notifications.",
+          variant: "destructive",
+        })
+        router.push("/login")
+        return
+      }
+      setUserId(session.user.id)
+    })
+  }, [router, toast])
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header showSearchBar={false} />
+      <main className="flex-grow container mx-auto px-4 py-8 max-w-3xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+          <Button variant="outline" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="h-4 w-4 mr-2" /> Mark All as Read
+          </Button>
+        </div>
+
+        {notifications === null || !userId ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+            <BellOff className="w-16 h-16 mb-4 text-gray-300" />
+            <p className="text-lg font-medium mb-2">Nothing here yet</p>
+            <p className="text-sm">Order updates and alerts about your favorites will show up here.</p>
+          </div>
+        ) : (
+          <NotificationList
+            notifications={notifications}
+            onOpen={(notification) => {
+              if (!notification.read_at) markRead([notification.id])
+            }}
+          />
+        )}
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,645 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { ArrowLeft, CalendarDays, CreditCard, FileText, Loader2, Mail, MapPin, Phone, RotateCcw, XCircle } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import Header from "@/components/Header"
+import Footer from "@/components/Footer"
+import OrderStatusTimeline, { StatusHistory } from "@/components/OrderStatusTimeline"
+import OrderStatusBadge from "@/components/order-status-badge"
+import ReorderButton from "@/components/reorder-button"
+import CancelOrderDialog from "@/components/cancel-order-dialog"
+import ShipmentTracking from "@/components/shipment-tracking"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { useToast } from "@/hooks/use-toast"
+import { apiDownload, apiFetch } from "@/lib/api-client"
+import {
+  CUSTOMER_CANCELLATION_REASONS,
+  formatRefundStatus,
+  type CancelOrderRequest,
+  type CancelOrderResponse,
+  type RefundStatus,
+} from "@/lib/cancellations"
+import type { GstBreakdown } from "@/lib/gst"
+import { STATUS_EVENT_COLUMNS, type StatusEvent } from "@/lib/order-history"
+import { canCancel, canRequestReturn, isInvoiceable } from "@/lib/order-lifecycle"
+import { isWithinReturnWindow, RETURN_STATUS_LABELS, type ReturnStatus, type ReturnType } from "@/lib/returns"
+import { SHIPMENT_COLUMNS, type Shipment } from "@/lib/shipments"
+
+// An item as it was bought; `price_at_purchase` is the unit price charged, whatever the product
+// costs today
+interface OrderItem {
+  id: string
+  product_id: string
+  quantity: number
+  price_at_purchase: number
+}
+
+interface OrderedProduct {
+  id: string
+  product_name: string
+  product_photo_urls: string[] | null
+}
+
+interface SubOrder {
+  id: string
+  status: string
+  subtotal: number
+  discount_amount: number
+  shipping_fee: number
+  tax_amount: number
+  total_amount: number
+  gst_breakdown: GstBreakdown | null
+  invoice_number: string | null
+  cancelled_at: string | null
+  cancelled_by: "customer" | "vendor" | null
+  cancellation_reason: string | null
+  refund_status: RefundStatus | null
+  delivered_at: string | null
+  order_items: OrderItem[]
+  companies: { company_name: string; email: string | null; mobile_number: string | null } | null
+  return_requests: { status: ReturnStatus; type: ReturnType; created_at: string }[]
+  order_status_events: StatusEvent[]
+  shipments: Shipment | null
+}
+
+interface OrderDetails {
+  id: string
+  status: string
+  total_amount: number
+  discount_amount: number
+  tax_amount: number
+  coupon_code: string | null
+  payment_method: string
+  payment_id: string | null
+  subscription_id: string | null
+  order_id: string | null
+  purchase_time: string
+  customer_name: string
+  primary_phone: string
+  secondary_phone: string | null
+  country: string
+  state: string
+  city: string
+  pincode: string
+  area: string | null
+  street: string | null
+  house_number: string | null
+  order_items: OrderItem[]
+  sub_orders: SubOrder[]
+}
+
+const ORDER_COLUMNS = `id, status, total_amount, discount_amount, tax_amount, coupon_code, payment_method, payment_id, order_id, subscription_id, purchase_time, customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number, order_items,
+  sub_orders ( id, status, subtotal, discount_amount, shipping_fee, tax_amount, total_amount, gst_breakdown, invoice_number, cancelled_at, cancelled_by, cancellation_reason, refund_status, delivered_at, order_items, companies ( company_name, email, mobile_number ), return_requests ( status, type, created_at ), order_status_events ( ${STATUS_EVENT_COLUMNS} ), shipments ( ${SHIPMENT_COLUMNS} ) )`
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  razorpay: "Paid online (Razorpay)",
+  cod: "Cash on Delivery",
+  replacement: "Replacement (no charge)",
+}
+
+const pickOne = <T,>(value: T | T[] | null | undefined) => (Array.isArray(value) ? value[0] ?? null : value ?? null)
+
+const formatAmount = (amount: number) => `₹${Number(amount).toFixed(2)}`
+
+const latestReturn = (subOrder: SubOrder) =>
+  [...subOrder.return_requests].sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+
+function PriceRow({ label, amount, className = "" }: { label: string; amount: string; className?: string }) {
+  return (
+    <div className={`flex justify-between text-sm ${className}`}>
+      <span>{label}</span>
+      <span>{amount}</span>
+    </div>
+  )
+}
+
+// Unit price, quantity and line total of every item, at the prices they were bought for
+function ItemBreakdown({ items, products }: { items: OrderItem[]; products: Map<string, OrderedProduct> }) {
+  return (
+    <div className="divide-y">
+      {items.map((item) => {
+        const product = products.get(item.product_id)
+        return (
+          <div key={item.id} className="flex items-center gap-4 py-3">
+            <Link
+              href={`/product/${item.product_id}`}
+              className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border border-gray-200"
+            >
+              <Image
+                src={product?.product_photo_urls?.[0] || "/placeholder.svg"}
+                alt={product?.product_name || "Product Image"}
+                fill
+                sizes="64px"
+                className="object-cover"
+              />
+            </Link>
+            <div className="flex-1 min-w-0">
+              <Link href={`/product/${item.product_id}`} className="font-medium text-gray-900 hover:text-green-700">
+                {product?.product_name || "Product no longer available"}
+              </Link>
+              <p className="text-sm text-gray-500">
+                {formatAmount(item.price_at_purchase)} × {item.quantity}
+              </p>
+            </div>
+            <span className="font-semibold text-gray-900 whitespace-nowrap">
+              {formatAmount(item.price_at_purchase * item.quantity)}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// Prices include GST, so the tax is shown as the part of the total it makes up.
+function TaxRows({ breakdown, taxAmount }: { breakdown: GstBreakdown | null; taxAmount: number }) {
+  if (!breakdown) {
+    return Number(taxAmount) > 0 ? <PriceRow label="Includes GST" amount={formatAmount(taxAmount)} className="text-gray-500" /> : null
+  }
+  if (breakdown.totalTax === 0) return null
+  return breakdown.supplyType === "intra_state" ? (
+    <>
+      <PriceRow label="Includes CGST" amount={formatAmount(breakdown.cgst)} className="text-gray-500" />
+      <PriceRow label="Includes SGST" amount={formatAmount(breakdown.sgst)} className="text-gray-500" />
+    </>
+  ) : (
+    <PriceRow label="Includes IGST" amount={formatAmount(breakdown.igst)} className="text-gray-500" />
+  )
+}
+
+export default function OrderDetailsPage() {
+  const { id } = useParams<{ id: string }>()
+  const [order, setOrder] = useState<OrderDetails | null>(null)
+  const [products, setProducts] = useState<Map<string, OrderedProduct>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+  const [cancellingSubOrder, setCancellingSubOrder] = useState<SubOrder | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const updateSubOrder = useCallback((subOrderId: string, update: (subOrder: SubOrder) => SubOrder) => {
+    setOrder((prev) =>
+      prev && {
+        ...prev,
+        sub_orders: prev.sub_orders.map((subOrder) => (subOrder.id === subOrderId ? update(subOrder) : subOrder)),
+      },
+    )
+  }, [])
+
+  const fetchOrder = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    if (!session) {
+      toast({ title: "Authentication Required", description: "Please log in to view your order.", variant: "destructive" })
+      router.push("/login")
+      return
+    }
+
+    const { data, error: orderError } = await supabase
+      .from("orders")
+      .select(ORDER_COLUMNS)
+      .eq("id", id)
+      .eq("user_id", session.user.id)
+      .maybeSingle()
+
+    if (orderError || !data) {
+      if (orderError) console.error("Error fetching order:", orderError)
+      setError(orderError ? "Failed to load the order. Please try again." : "We couldn't find this order.")
+      setLoading(false)
+      return
+    }
+
+    const details: OrderDetails = {
+      ...data,
+      order_items: Array.isArray(data.order_items) ? data.order_items : [],
+      sub_orders: (data.sub_orders || []).map((subOrder) => ({
+        ...subOrder,
+        order_items: Array.isArray(subOrder.order_items) ? subOrder.order_items : [],
+        companies: pickOne(subOrder.companies),
+        return_requests: subOrder.return_requests || [],
+        order_status_events: subOrder.order_status_events || [],
+        shipments: pickOne(subOrder.shipments) as Shipment | null,
+      })),
+    }
+
+    const productIds = [...new Set(details.order_items.map((item) => item.product_id))]
+    if (productIds.length > 0) {
+      const { data: productsData, error: productsError } = await supabase
+        .from("products")
+        .select("id, product_name, product_photo_urls")
+        .in("id", productIds)
+      if (productsError) {
+        console.error("Error fetching product details for the order:", productsError)
+      } else {
+        setProducts(new Map((productsData || []).map((product) => [product.id, product])))
+      }
+    }
+
+    setOrder(details)
+    setLoading(false)
+  }, [id, router, toast])
+
+  useEffect(() => {
+    fetchOrder()
+
+    const orderChannel = supabase
+      .channel(`order_details_${id}`)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "orders", filter: `id=eq.${id}` }, (payload) => {
+        setOrder((prev) => prev && { ...prev, status: payload.new.status as string })
+      })
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "sub_orders", filter: `parent_order_id=eq.${id}` },
+        (payload) => {
+          const updated = payload.new as Pick<
+            SubOrder,
+            | "id"
+            | "status"
+            | "cancelled_at"
+            | "cancelled_by"
+            | "cancellation_reason"
+            | "refund_status"
+            | "delivered_at"
+            | "invoice_number"
+          >
+          updateSubOrder(updated.id, (subOrder) => ({
+            ...subOrder,
+            status: updated.status,
+            cancelled_at: updated.cancelled_at,
+            cancelled_by: updated.cancelled_by,
+            cancellation_reason: updated.cancellation_reason,
+            refund_status: updated.refund_status,
+            delivered_at: updated.delivered_at,
+            invoice_number: updated.invoice_number,
+          }))
+        },
+      )
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "order_status_events" }, (payload) => {
+        const event = payload.new as StatusEvent
+        if (!event.sub_order_id) return
+        updateSubOrder(event.sub_order_id, (subOrder) =>
+          subOrder.order_status_events.some((existing) => existing.id === event.id)
+            ? subOrder
+            : { ...subOrder, order_status_events: [...subOrder.order_status_events, event] },
+        )
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "shipments", filter: `order_id=eq.${id}` }, (payload) => {
+        if (payload.eventType === "DELETE") return
+        const shipment = payload.new as Shipment & { sub_order_id: string }
+        updateSubOrder(shipment.sub_order_id, (subOrder) => ({ ...subOrder, shipments: { ...subOrder.shipments, ...shipment } }))
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(orderChannel)
+    }
+  }, [fetchOrder, id, updateSubOrder])
+
+  const handleDownloadInvoice = async (subOrderId: string) => {
+    setDownloadingInvoiceId(subOrderId)
+    try {
+      await apiDownload(`/api/invoices/${subOrderId}`, "invoice.pdf")
+    } catch (err) {
+      toast({
+        title: "Invoice Unavailable",
+        description: err instanceof Error ? err.message : "Could not download the invoice.",
+        variant: "destructive",
+      })
+    } finally {
+      setDownloadingInvoiceId(null)
+    }
+  }
+
+  // Also retries the refund of a cancellation whose refund failed
+  const handleCancelSubOrder = async (subOrder: SubOrder, reason: string) => {
+    setIsCancelling(true)
+    try {
+      const result = await apiFetch<CancelOrderResponse>("/api/orders/cancel", {
+        subOrderId: subOrder.id,
+        reason,
+      } satisfies CancelOrderRequest)
+      updateSubOrder(result.subOrderId, (existing) => ({
+        ...existing,
+        status: result.status,
+        refund_status: result.refundStatus,
+        cancelled_at: existing.cancelled_at ?? new Date().toISOString(),
+        cancelled_by: existing.cancelled_by ?? "customer",
+        cancellation_reason: existing.cancellation_reason ?? reason,
+      }))
+      setCancellingSubOrder(null)
+      toast({
+        title: result.refundStatus === "failed" ? "Order Cancelled, Refund Pending" : "Order Cancelled",
+        description:
+          result.refundStatus === "failed"
+            ? "We couldn't start your refund. Please try again from this page."
+            : result.refundAmount
+              ? `${formatAmount(result.refundAmount)} will be refunded to your original payment method.`
+              : "Your order has been cancelled.",
+        variant: result.refundStatus === "failed" ? "destructive" : "default",
+      })
+    } catch (err) {
+      toast({
+        title: "Cancellation Failed",
+        description: err instanceof Error ? err.message : "Could not cancel the order.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  if (loading || error || !order) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header showSearchBar={false} />
+        <main className="flex-grow container mx-auto px-4 py-8 flex flex-col items-center justify-center gap-4">
+          {loading ? (
+            <div className="flex items-center">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              <span className="ml-3 text-lg text-blue-700">Loading your order...</span>
+            </div>
+          ) : (
+            <>
+              <p className="text-lg text-gray-700">{error}</p>
+              <Button asChild variant="outline">
+                <Link href="/orders">Back to My Orders</Link>
+              </Button>
+            </>
+          )}
+        </main>
+        <Footer />
+      </div>
+    )
+  }
+
+  const itemsTotal = order.order_items.reduce((sum, item) => sum + item.price_at_purchase * item.quantity, 0)
+  const shippingTotal = order.sub_orders.reduce((sum, subOrder) => sum + Number(subOrder.shipping_fee), 0)
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header showSearchBar={false} />
+      <main className="flex-grow container mx-auto px-4 py-8 space-y-6">
+        <Link href="/orders" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4" />
+          My Orders
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Order #{order.id.substring(0, 8)}</h1>
+            <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+              <CalendarDays className="h-4 w-4" />
+              Placed on{" "}
+              {new Date(order.purchase_time).toLocaleDateString("en-IN", {
+                year: "numeric",
+                month: "long",
+                day: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <OrderStatusBadge status={order.status} className="text-sm" />
+            <ReorderButton orderId={order.id} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <MapPin className="h-4 w-4" /> Shipping Address
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-600 space-y-1">
+              <p className="font-medium text-gray-900">{order.customer_name}</p>
+              <p>{[order.house_number, order.street].filter(Boolean).join(", ")}</p>
+              <p>{[order.area, order.city].filter(Boolean).join(", ")} - {order.pincode}</p>
+              <p>
+                {order.state}, {order.country}
+              </p>
+              <p className="flex items-center gap-1 pt-1">
+                <Phone className="h-4 w-4" /> {order.primary_phone}
+                {order.secondary_phone && `, ${order.secondary_phone}`}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <CreditCard className="h-4 w-4" /> Payment
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-600 space-y-1">
+              <p className="font-medium text-gray-900">{PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method}</p>
+              {order.payment_id && (
+                <p>
+                  Payment ID: <span className="font-mono">{order.payment_id}</span>
+                </p>
+              )}
+              {order.payment_method === "razorpay" && order.order_id && (
+                <p>
+                  Reference: <span className="font-mono">{order.order_id}</span>
+                </p>
+              )}
+              {order.coupon_code && <p>Coupon: {order.coupon_code}</p>}
+              {order.subscription_id && <p>Subscribe &amp; Save delivery</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Order Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-gray-600">
+              <PriceRow label="Items" amount={formatAmount(itemsTotal)} />
+              {Number(order.discount_amount) > 0 && (
+                <PriceRow
+                  label={`Coupon ${order.coupon_code ?? ""}`}
+                  amount={`-${formatAmount(order.discount_amount)}`}
+                  className="text-green-700"
+                />
+              )}
+              {order.sub_orders.length > 0 && (
+                <PriceRow label="Shipping" amount={shippingTotal === 0 ? "Free" : formatAmount(shippingTotal)} />
+              )}
+              <TaxRows breakdown={null} taxAmount={order.tax_amount} />
+              <Separator className="my-2" />
+              <PriceRow
+                label={order.payment_method === "cod" ? "Pay on Delivery" : "Amount Paid"}
+                amount={formatAmount(order.total_amount)}
+                className="text-base font-bold text-gray-900"
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        {order.sub_orders.length === 0 ? (
+          // Orders placed before they were split by seller
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <OrderStatusTimeline currentStatus={order.status} />
+              <ItemBreakdown items={order.order_items} products={products} />
+            </CardContent>
+          </Card>
+        ) : (
+          order.sub_orders.map((subOrder) => {
+            const company = subOrder.companies
+            const returnRequest = latestReturn(subOrder)
+            const isClosed = subOrder.status === "cancelled" || subOrder.status === "refunded"
+            return (
+              <Card key={subOrder.id}>
+                <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 pb-4">
+                  <CardTitle className="text-lg">Sold by {company?.company_name || "Seller"}</CardTitle>
+                  <OrderStatusBadge status={subOrder.status} className="text-xs" />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isClosed ? (
+                    <div className="rounded-lg bg-red-50 border border-red-100 p-3 text-sm text-red-800 space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        <XCircle className="h-4 w-4" />
+                        {subOrder.cancelled_by === "vendor" ? "Rejected by the seller" : "Cancelled by you"}
+                        {subOrder.cancellation_reason && <span className="font-normal">— {subOrder.cancellation_reason}</span>}
+                      </p>
+                      {formatRefundStatus(subOrder.refund_status) && <p>{formatRefundStatus(subOrder.refund_status)}</p>}
+                    </div>
+                  ) : (
+                    <OrderStatusTimeline
+                      currentStatus={subOrder.status}
+                      returnRequest={returnRequest}
+                      events={subOrder.order_status_events}
+                    />
+                  )}
+
+                  {subOrder.shipments && (subOrder.status === "shipped" || subOrder.status === "delivered") && (
+                    <ShipmentTracking
+                      shipment={subOrder.shipments}
+                      onRefreshed={(shipment) => updateSubOrder(subOrder.id, (existing) => ({ ...existing, shipments: shipment }))}
+                    />
+                  )}
+
+                  {returnRequest && (
+                    <p className="text-sm text-gray-600">
+                      {returnRequest.type === "replacement" ? "Replacement" : "Return"}:{" "}
+                      <span className="font-medium">{RETURN_STATUS_LABELS[returnRequest.status]}</span> ·{" "}
+                      <Link href="/returns" className="text-green-700 hover:underline">
+                        View details
+                      </Link>
+                    </p>
+                  )}
+
+                  <ItemBreakdown items={subOrder.order_items} products={products} />
+
+                  <div className="ml-auto max-w-sm space-y-1 text-gray-600">
+                    <PriceRow label="Items" amount={formatAmount(subOrder.subtotal)} />
+                    {Number(subOrder.discount_amount) > 0 && (
+                      <PriceRow label="Coupon discount" amount={`-${formatAmount(subOrder.discount_amount)}`} className="text-green-700" />
+                    )}
+                    <PriceRow
+                      label="Shipping"
+                      amount={Number(subOrder.shipping_fee) === 0 ? "Free" : formatAmount(subOrder.shipping_fee)}
+                    />
+                    <TaxRows breakdown={subOrder.gst_breakdown} taxAmount={subOrder.tax_amount} />
+                    <PriceRow label="Total" amount={formatAmount(subOrder.total_amount)} className="font-semibold text-gray-900" />
+                  </div>
+
+                  <StatusHistory events={subOrder.order_status_events} />
+
+                  <Separator />
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isInvoiceable(subOrder) && order.payment_method !== "replacement" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={downloadingInvoiceId === subOrder.id}
+                        onClick={() => handleDownloadInvoice(subOrder.id)}
+                      >
+                        {downloadingInvoiceId === subOrder.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <FileText className="h-4 w-4 mr-2" />
+                        )}
+                        {subOrder.invoice_number ? `Invoice ${subOrder.invoice_number}` : "Download Invoice"}
+                      </Button>
+                    )}
+                    {canRequestReturn(subOrder.status) && isWithinReturnWindow(subOrder.delivered_at) && (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href="/returns">
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Return or Replace
+                        </Link>
+                      </Button>
+                    )}
+                    {company?.email && (
+                      <Button asChild variant="outline" size="sm">
+                        <a href={`mailto:${company.email}?subject=${encodeURIComponent(`Order #${order.id.substring(0, 8)}`)}`}>
+                          <Mail className="h-4 w-4 mr-2" />
+                          Email Seller
+                        </a>
+                      </Button>
+                    )}
+                    {company?.mobile_number && (
+                      <Button asChild variant="outline" size="sm">
+                        <a href={`tel:${company.mobile_number}`}>
+                          <Phone className="h-4 w-4 mr-2" />
+                          Call Seller
+                        </a>
+                      </Button>
+                    )}
+                    {canCancel(subOrder.status) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                        onClick={() => setCancellingSubOrder(subOrder)}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                    {subOrder.status === "cancelled" && subOrder.refund_status === "failed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isCancelling}
+                        onClick={() => handleCancelSubOrder(subOrder, subOrder.cancellation_reason || "Refund retry")}
+                      >
+                        Retry Refund
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })
+        )}
+      </main>
+      <CancelOrderDialog
+        open={cancellingSubOrder !== null}
+        onOpenChange={(open) => !open && setCancellingSubOrder(null)}
+        title="Cancel this order?"
+        description={`Items from ${cancellingSubOrder?.companies?.company_name || "this seller"} will be cancelled. Prepaid amounts are refunded to your original payment method.`}
+        reasons={CUSTOMER_CANCELLATION_REASONS}
+        confirmLabel="Cancel Order"
+        isLoading={isCancelling}
+        onConfirm={(reason) => cancellingSubOrder && handleCancelSubOrder(cancellingSubOrder, reason)}
+      />
+      <Footer />
+    </div>
+  )
+}
@@ -7,12 +7,27 @@ import Image from "next/image"
 import { supabase } from "../../lib/supabase"
 import Header from "@/components/Header"
 import Footer from "@/components/Footer"
-import OrderStatusTimeline from "@/components/OrderStatusTimeline"
+import OrderStatusTimeline, { StatusHistory } from "@/components/OrderStatusTimeline"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Loader2, ShoppingBag, Phone, CalendarDays, Search, CreditCard, Utensils, Truck, CheckCheck, ShoppingCart, Box, MapPin, Eye } from "lucide-react"
+import { Loader2, ShoppingBag, Phone, CalendarDays, Search, CreditCard, Utensils, Truck, CheckCheck, ShoppingCart, Box, MapPin, Eye, FileText, XCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { Badge } from "@/components/ui/badge"
+import { apiDownload, apiFetch } from "@/lib/api-client"
+import CancelOrderDialog from "@/components/cancel-order-dialog"
+import OrderStatusBadge from "@/components/order-status-badge"
+import ReorderButton from "@/components/reorder-button"
+import ShipmentTracking from "@/components/shipment-tracking"
+import {
+    CUSTOMER_CANCELLATION_REASONS,
+    formatRefundStatus,
+    type CancelOrderRequest,
+    type CancelOrderResponse,
+    type RefundStatus,
+} from "@/lib/cancellations"
+import { isWithinReturnWindow, type ReturnStatus, type ReturnType } from "@/lib/returns"
+import { STATUS_EVENT_COLUMNS, type StatusEvent } from "@/lib/order-history"
+import { canCancel, canRequestReturn, isInvoiceable } from "@/lib/order-lifecycle"
+import { SHIPMENT_COLUMNS, type Shipment } from "@/lib/shipments"
 import { Separator } from "@/components/ui/separator"
 import { Input } from "@/components/ui/input"
 import Chart from "react-apexcharts" // Not strictly needed here, but kept for consistency
@@ -37,10 +52,34 @@ interface OrderItemWithProduct extends OrderItemJson {
     products: ProductDetailsForOrder | null
 }
 
+// One company's part of an order, shipped and tracked on its own
+interface SubOrder {
+    id: string
+    company_id: string | null
+    status: string
+    subtotal: number
+    shipping_fee: number
+    total_amount: number
+    cancelled_at: string | null
+    cancelled_by: "customer" | "vendor" | null
+    cancellation_reason: string | null
+    refund_status: RefundStatus | null
+    delivered_at: string | null
+    order_items: OrderItemJson[]
+    companies: { company_name: string } | null
+    return_requests?: { status: ReturnStatus; type: ReturnType; created_at: string }[]
+    order_status_events?: StatusEvent[]
+    shipments: Shipment | null
+    resolved_order_items?: OrderItemWithProduct[]
+}
+
 interface Order {
     id: string
     total_amount: number
     status: string
+    payment_method: string
+    coupon_code: string | null
+    discount_amount: number
     purchase_time: string
     customer_name: string
     primary_phone: string
@@ -54,29 +93,69 @@ interface Order {
     house_number: string | null
     order_items: OrderItemJson[]
     resolved_order_items?: OrderItemWithProduct[]
+    sub_orders?: SubOrder[]
 }
 
-const getStatusBadgeClass = (status: string) => {
-    switch (status) {
-        case "pending": return "bg-yellow-100 text-yellow-700";
-        case "confirmed": return "bg-blue-100 text-blue-700";
-        case "payment_accepted": return "bg-green-100 text-green-700";
-        case "preparing": return "bg-yellow-100 text-yellow-700";
-        case "shipped": return "bg-purple-100 text-purple-700";
-        case "delivered": return "bg-green-100 text-green-700";
-        case "cancelled": return "bg-red-100 text-red-700";
-        default: return "bg-gray-100 text-gray-700";
-    }
-};
+// The most recent return or replacement requested for items of a sub-order
+const latestReturn = (subOrder: SubOrder) =>
+    [...(subOrder.return_requests || [])].sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+
+// Product rows shared by the per-company sections and orders placed before they existed
+function OrderedProductsList({ items }: { items: OrderItemWithProduct[] }) {
+    return (
+        <div className="space-y-3">
+            {items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 p-2 border-b last:border-b-0">
+                    <Link href={`/product/${item.product_id}`} className="flex items-center gap-3 group">
+                        <div className="relative w-16 h-16 flex-shrink-0 rounded-md overflow-hidden border border-gray-200">
+                            <Image src={item.products?.product_photo_urls?.[0] || "/placeholder.svg"} alt={item.products?.product_name || "Product Image"} fill sizes="64px" className="object-cover" />
+                        </div>
+                        <div>
+                            <p className="text-md font-medium text-gray-900 line-clamp-1 group-hover:text-blue-600">{item.products?.product_name || "Unknown Product"}</p>
+                            <p className="text-sm text-gray-600">
+                                ₹{item.price_at_purchase.toFixed(2)} x {item.quantity}
+                            </p>
+                        </div>
+                    </Link>
+                    {/* Product Amount and Button Container */}
+                    <div className="flex flex-col items-end space-y-2">
+                        <span className="font-semibold text-gray-900 whitespace-nowrap">
+                            ₹{(item.price_at_purchase * item.quantity).toFixed(2)}
+                        </span>
+                        {/* 💡 NEW BUTTON ADDED HERE */}
+                        <Button asChild variant="outline" size="sm" className="h-8 text-xs px-2">
+                            <Link href={`/product/${item.product_id}`} className="flex items-center gap-1">
+                                <Eye className="w-3 h-3" />
+                                View Product
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+}
 
 export default function MyOrdersPage() {
     const [orders, setOrders] = useState<Order[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [searchTerm, setSearchTerm] = useState("")
+    const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+    const [cancellingSubOrder, setCancellingSubOrder] = useState<SubOrder | null>(null)
+    const [isCancelling, setIsCancelling] = useState(false)
     const router = useRouter()
     const { toast } = useToast()
 
+    const updateShipment = useCallback((subOrderId: string, shipment: Shipment) => {
+        setOrders(prevOrders => prevOrders.map(order => ({
+            ...order,
+            sub_orders: order.sub_orders?.map(subOrder =>
+                subOrder.id === subOrderId ? { ...subOrder, shipments: { ...subOrder.shipments, ...shipment } } : subOrder
+            ),
+        })));
+    }, [])
+
     const fetchOrders = useCallback(async () => {
         setLoading(true)
         setError(null)
@@ -95,7 +174,8 @@ export default function MyOrdersPage() {
         const { data: ordersData, error: ordersError } = await supabase
             .from("orders")
             .select(
-                `id, total_amount, status, purchase_time, customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number, order_items`
+                `id, total_amount, status, payment_method, coupon_code, discount_amount, purchase_time, customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number, order_items,
+                sub_orders ( id, company_id, status, subtotal, shipping_fee, total_amount, cancelled_at, cancelled_by, cancellation_reason, refund_status, delivered_at, order_items, companies ( company_name ), return_requests ( status, type, created_at ), order_status_events ( ${STATUS_EVENT_COLUMNS} ), shipments ( ${SHIPMENT_COLUMNS} ) )`
             )
             .eq("user_id", userId)
             .order("purchase_time", { ascending: false })
@@ -141,18 +221,28 @@ export default function MyOrdersPage() {
         }
 
         // Map product details back to each order's items
-        const resolvedOrders: Order[] = ordersData.map((order) => {
-            const resolvedItems: OrderItemWithProduct[] = Array.isArray(order.order_items)
-                ? order.order_items.map((item: OrderItemJson) => ({
+        const resolveItems = (items: OrderItemJson[] | null): OrderItemWithProduct[] =>
+            Array.isArray(items)
+                ? items.map((item) => ({
                     ...item,
                     products: productsMap.get(item.product_id) || null,
                 }))
                 : []
-            return {
-                ...order,
-                resolved_order_items: resolvedItems,
-            }
-        })
+
+        const resolvedOrders: Order[] = ordersData.map((order) => ({
+            ...order,
+            resolved_order_items: resolveItems(order.order_items),
+            sub_orders: (order.sub_orders || []).map((subOrder) => {
+                const company = Array.isArray(subOrder.companies) ? subOrder.companies[0] : subOrder.companies
+                const shipment = Array.isArray(subOrder.shipments) ? subOrder.shipments[0] : subOrder.shipments
+                return {
+                    ...subOrder,
+                    companies: company ?? null,
+                    shipments: (shipment as Shipment | undefined) ?? null,
+                    resolved_order_items: resolveItems(subOrder.order_items),
+                }
+            }),
+        }))
 
         setOrders(resolvedOrders)
         setLoading(false)
@@ -180,11 +270,127 @@ export default function MyOrdersPage() {
             }
         ).subscribe();
 
+        // Each company moves its own part of the order, so sub-order statuses change independently
+        const subOrderChannel = supabase.channel('customer_sub_order_status').on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'sub_orders' },
+            (payload) => {
+                const updated = payload.new as Pick<SubOrder, "id" | "status" | "cancelled_at" | "cancelled_by" | "cancellation_reason" | "refund_status">;
+
+                setOrders(prevOrders => prevOrders.map(order => ({
+                    ...order,
+                    sub_orders: order.sub_orders?.map(subOrder =>
+                        subOrder.id === updated.id
+                            ? {
+                                ...subOrder,
+                                status: updated.status,
+                                cancelled_at: updated.cancelled_at,
+                                cancelled_by: updated.cancelled_by,
+                                cancellation_reason: updated.cancellation_reason,
+                                refund_status: updated.refund_status,
+                            }
+                            : subOrder
+                    ),
+                })));
+            }
+        ).subscribe();
+
+        // New entries in each sub-order's status history, for the timeline dates
+        const statusEventChannel = supabase.channel('customer_order_status_events').on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'order_status_events' },
+            (payload) => {
+                const event = payload.new as StatusEvent;
+
+                setOrders(prevOrders => prevOrders.map(order => ({
+                    ...order,
+                    sub_orders: order.sub_orders?.map(subOrder =>
+                        subOrder.id === event.sub_order_id && !subOrder.order_status_events?.some(existing => existing.id === event.id)
+                            ? { ...subOrder, order_status_events: [...(subOrder.order_status_events || []), event] }
+                            : subOrder
+                    ),
+                })));
+            }
+        ).subscribe();
+
+        // Shipping details and tracking events, as the seller ships and the courier reports progress
+        const shipmentChannel = supabase.channel('customer_shipments').on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'shipments' },
+            (payload) => {
+                if (payload.eventType === 'DELETE') return;
+                updateShipment(payload.new.sub_order_id as string, payload.new as Shipment);
+            }
+        ).subscribe();
+
         return () => {
             authListener.subscription.unsubscribe();
             supabase.removeChannel(orderChannel);
+            supabase.removeChannel(subOrderChannel);
+            supabase.removeChannel(statusEventChannel);
+            supabase.removeChannel(shipmentChannel);
         }
-    }, [fetchOrders, router])
+    }, [fetchOrders, router, updateShipment])
+
+    const handleDownloadInvoice = async (subOrderId: string) => {
+        setDownloadingInvoiceId(subOrderId)
+        try {
+            await apiDownload(`/api/invoices/${subOrderId}`, "invoice.pdf")
+        } catch (err) {
+            toast({
+                title: "Invoice Unavailable",
+                description: err instanceof Error ? err.message : "Could not download the invoice.",
+                variant: "destructive",
+            })
+        } finally {
+            setDownloadingInvoiceId(null)
+        }
+    }
+
+    // Also retries the refund of a cancellation whose refund failed
+    const handleCancelSubOrder = async (subOrder: SubOrder, reason: string) => {
+        setIsCancelling(true)
+        try {
+            const result = await apiFetch<CancelOrderResponse>("/api/orders/cancel", {
+                subOrderId: subOrder.id,
+                reason,
+            } satisfies CancelOrderRequest)
+            setOrders((prevOrders) => prevOrders.map((order) => ({
+                ...order,
+                sub_orders: order.sub_orders?.map((existing) =>
+                    existing.id === result.subOrderId
+                        ? {
+                            ...existing,
+                            status: result.status,
+                            refund_status: result.refundStatus,
+                            cancelled_at: existing.cancelled_at ?? new Date().toISOString(),
+                            cancelled_by: existing.cancelled_by ?? "customer",
+                            cancellation_reason: existing.cancellation_reason ?? reason,
+                        }
+                        : existing
+                ),
+            })))
+            setCancellingSubOrder(null)
+            toast({
+                title: result.refundStatus === "failed" ? "Order Cancelled, Refund Pending" : "Order Cancelled",
+                description:
+                    result.refundStatus === "failed"
+                        ? "We couldn't start your refund. Please try again from this page."
+                        : result.refundAmount
+                            ? `₹${result.refundAmount.toFixed(2)} will be refunded to your original payment method.`
+                            : "Your order has been cancelled.",
+                variant: result.refundStatus === "failed" ? "destructive" : "default",
+            })
+        } catch (err) {
+            toast({
+                title: "Cancellation Failed",
+                description: err instanceof Error ? err.message : "Could not cancel the order.",
+                variant: "destructive",
+            })
+        } finally {
+            setIsCancelling(false)
+        }
+    }
 
     const filteredOrders = orders.filter((order) => {
         const matchesSearchTerm =
@@ -257,20 +463,26 @@ export default function MyOrdersPage() {
                             <Card key={order.id} className="shadow-xl rounded-2xl border-0 bg-white hover:scale-[1.01] transition-transform duration-300">
                                 <CardHeader className="flex flex-row items-center justify-between pb-4">
                                     <div>
-                                        <CardTitle className="text-xl font-bold">Order #{order.id.substring(0, 8)}</CardTitle>
+                                        <CardTitle className="text-xl font-bold">
+                                            <Link href={`/orders/${order.id}`} className="hover:underline">Order #{order.id.substring(0, 8)}</Link>
+                                        </CardTitle>
                                         <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
                                             <CalendarDays className="w-4 h-4" />
                                             {new Date(order.purchase_time).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", hour: "2-digit", minute: "2-digit" })}
                                         </p>
                                     </div>
-                                    <Badge className={`px-3 py-1 text-sm font-medium ${getStatusBadgeClass(order.status)}`}>
-                                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                                    </Badge>
+                                    <div className="flex items-center gap-3">
+                                        <OrderStatusBadge status={order.status} className="text-sm" />
+                                        <ReorderButton orderId={order.id} />
+                                        <Button asChild variant="outline" size="sm">
+                                            <Link href={`/orders/${order.id}`}>View Details</Link>
+                                        </Button>
+                                    </div>
                                 </CardHeader>
                                 <CardContent className="space-y-4">
                                     
-                                    {/* 🎯 CUSTOMER STATUS TIMELINE - NOW USING COMPONENT */}
-                                    <OrderStatusTimeline currentStatus={order.status} />
+                                    {/* 🎯 CUSTOMER STATUS TIMELINE - per company below when the order was split */}
+                                    {!order.sub_orders?.length && <OrderStatusTimeline currentStatus={order.status} />}
                                     {/* END CUSTOMER STATUS TIMELINE */}
 
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -281,8 +493,20 @@ export default function MyOrdersPage() {
                                                 <span>Total Items:</span>
                                                 <span>{order.resolved_order_items?.reduce((sum, item) => sum + item.quantity, 0)}</span>
                                             </div>
+                                            {Number(order.discount_amount) > 0 && (
+                                                <div className="flex justify-between text-sm text-green-700">
+                                                    <span>Coupon {order.coupon_code}:</span>
+                                                    <span>-₹{Number(order.discount_amount).toFixed(2)}</span>
+                                                </div>
+                                            )}
+                                            {(order.payment_method === "cod" || order.payment_method === "replacement") && (
+                                                <div className="flex justify-between text-sm text-gray-600">
+                                                    <span>Payment Method:</span>
+                                                    <span>{order.payment_method === "cod" ? "Cash on Delivery" : "Replacement (no charge)"}</span>
+                                                </div>
+                                            )}
                                             <div className="flex justify-between text-lg font-bold text-gray-900">
-                                                <span>Amount Paid:</span>
+                                                <span>{order.payment_method === "cod" ? "Pay on Delivery:" : "Amount Paid:"}</span>
                                                 <span>₹{order.total_amount.toFixed(2)}</span>
                                             </div>
                                         </div>
@@ -304,44 +528,114 @@ export default function MyOrdersPage() {
 
                                     <Separator />
 
-                                    {/* Ordered Products */}
-                                    <h3 className="font-semibold text-gray-800">Products in this Order</h3>
-                                    <div className="space-y-3">
-                                        {order.resolved_order_items?.map((item) => (
-                                            <div key={item.id} className="flex items-center justify-between gap-4 p-2 border-b last:border-b-0">
-                                                <Link href={`/product/${item.product_id}`} className="flex items-center gap-3 group">
-                                                    <div className="relative w-16 h-16 flex-shrink-0 rounded-md overflow-hidden border border-gray-200">
-                                                        <Image src={item.products?.product_photo_urls?.[0] || "/placeholder.svg"} alt={item.products?.product_name || "Product Image"} fill sizes="64px" className="object-cover" />
+                                    {/* Ordered Products, grouped by the company shipping them */}
+                                    {order.sub_orders && order.sub_orders.length > 0 ? (
+                                        <div className="space-y-6">
+                                            {order.sub_orders.map((subOrder) => (
+                                                <div key={subOrder.id} className="space-y-3 border border-gray-100 rounded-xl p-4">
+                                                    <div className="flex items-center justify-between">
+                                                        <h3 className="font-semibold text-gray-800">
+                                                            Sold by {subOrder.companies?.company_name || "Seller"}
+                                                        </h3>
+                                                        <OrderStatusBadge status={subOrder.status} className="text-xs" />
                                                     </div>
-                                                    <div>
-                                                        <p className="text-md font-medium text-gray-900 line-clamp-1 group-hover:text-blue-600">{item.products?.product_name || "Unknown Product"}</p>
-                                                        <p className="text-sm text-gray-600">
-                                                            ₹{item.price_at_purchase.toFixed(2)} x {item.quantity}
-                                                        </p>
+                                                    {subOrder.status === "cancelled" || subOrder.status === "refunded" ? (
+                                                        <div className="rounded-lg bg-red-50 border border-red-100 p-3 text-sm text-red-800 space-y-1">
+                                                            <p className="font-medium flex items-center gap-2">
+                                                                <XCircle className="h-4 w-4" />
+                                                                {subOrder.cancelled_by === "vendor" ? "Rejected by the seller" : "Cancelled by you"}
+                                                                {subOrder.cancellation_reason && <span className="font-normal">— {subOrder.cancellation_reason}</span>}
+                                                            </p>
+                                                            {formatRefundStatus(subOrder.refund_status) && (
+                                                                <p>{formatRefundStatus(subOrder.refund_status)}</p>
+                                                            )}
+                                                            <StatusHistory events={subOrder.order_status_events || []} />
+                                                        </div>
+                                                    ) : (
+                                                        <OrderStatusTimeline
+                                                            currentStatus={subOrder.status}
+                                                            returnRequest={latestReturn(subOrder)}
+                                                            events={subOrder.order_status_events}
+                                                        />
+                                                    )}
+                                                    {subOrder.shipments && (subOrder.status === "shipped" || subOrder.status === "delivered") && (
+                                                        <ShipmentTracking
+                                                            shipment={subOrder.shipments}
+                                                            onRefreshed={(shipment) => updateShipment(subOrder.id, shipment)}
+                                                        />
+                                                    )}
+                                                    <OrderedProductsList items={subOrder.resolved_order_items || []} />
+                                                    <div className="flex items-center justify-end gap-6 text-sm text-gray-600">
+                                                        {isInvoiceable(subOrder) && order.payment_method !== "replacement" && (
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                className="mr-auto"
+                                                                disabled={downloadingInvoiceId === subOrder.id}
+                                                                onClick={() => handleDownloadInvoice(subOrder.id)}
+                                                            >
+                                                                {downloadingInvoiceId === subOrder.id ? (
+                                                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                                                ) : (
+                                                                    <FileText className="h-4 w-4 mr-2" />
+                                                                )}
+                                                                Download Invoice
+                                                            </Button>
+                                                        )}
+                                                        {canCancel(subOrder.status) && (
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                className="text-red-600 border-red-200 hover:bg-red-50"
+                                                                onClick={() => setCancellingSubOrder(subOrder)}
+                                                            >
+                                                                <XCircle className="h-4 w-4 mr-2" />
+                                                                Cancel
+                                                            </Button>
+                                                        )}
+                                                        {canRequestReturn(subOrder.status) && isWithinReturnWindow(subOrder.delivered_at) && (
+                                                            <Button asChild variant="outline" size="sm">
+                                                                <Link href="/returns">Return or Replace</Link>
+                                                            </Button>
+                                                        )}
+                                                        {subOrder.status === "cancelled" && subOrder.refund_status === "failed" && (
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                disabled={isCancelling}
+                                                                onClick={() => handleCancelSubOrder(subOrder, subOrder.cancellation_reason || "Refund retry")}
+                                                            >
+                                                                Retry Refund
+                                                            </Button>
+                                                        )}
+                                                        <span>Shipping: {Number(subOrder.shipping_fee) === 0 ? "Free" : `₹${Number(subOrder.shipping_fee).toFixed(2)}`}</span>
+                                                        <span className="font-semibold text-gray-900">Total: ₹{Number(subOrder.total_amount).toFixed(2)}</span>
                                                     </div>
-                                                </Link>
-                                                {/* Product Amount and Button Container */}
-                                                <div className="flex flex-col items-end space-y-2">
-                                                    <span className="font-semibold text-gray-900 whitespace-nowrap">
-                                                        ₹{(item.price_at_purchase * item.quantity).toFixed(2)}
-                                                    </span>
-                                                    {/* 💡 NEW BUTTON ADDED HERE */}
-                                                    <Button asChild variant="outline" size="sm" className="h-8 text-xs px-2">
-                                                        <Link href={`/product/${item.product_id}`} className="flex items-center gap-1">
-                                                            <Eye className="w-3 h-3" />
-                                                            View Product
-                                                        </Link>
-                                                    </Button>
                                                 </div>
-                                            </div>
-                                        ))}
-                                    </div>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <h3 className="font-semibold text-gray-800">Products in this Order</h3>
+                                            <OrderedProductsList items={order.resolved_order_items || []} />
+                                        </>
+                                    )}
                                 </CardContent>
                             </Card>
                         ))}
                     </div>
                 )}
             </main>
+            <CancelOrderDialog
+                open={cancellingSubOrder !== null}
+                onOpenChange={(open) => !open && setCancellingSubOrder(null)}
+                title="Cancel this order?"
+                description={`Items from ${cancellingSubOrder?.companies?.company_name || "this seller"} will be cancelled. Prepaid amounts are refunded to your original payment method.`}
+                reasons={CUSTOMER_CANCELLATION_REASONS}
+                confirmLabel="Cancel Order"
+                isLoading={isCancelling}
+                onConfirm={(reason) => cancellingSubOrder && handleCancelSubOrder(cancellingSubOrder, reason)}
+            />
             <Footer />
         </div>
     )
@@ -18,6 +18,8 @@ import "slick-carousel/slick/slick-theme.css"
 import { supabase } from "@/lib/supabase"
 import AuthPopup from "@/components/auth-popup"
 import { useRouter } from "next/navigation"
+import { useCategories } from "@/hooks/use-categories"
+import type { CategoryNode, ProductCategory } from "@/lib/categories"
 
 // Product type definition
 type Product = {
@@ -26,7 +28,7 @@ type Product = {
   product_photo_urls?: string[]
   original_price?: number
   discount_price: number
-  categories?: Array<{ main: string; sub: string }>
+  categories?: ProductCategory[]
   company: {
     company_name: string
     company_logo_url: string
@@ -39,8 +41,8 @@ type Product = {
 
 // Category type definition
 type CategoryProps = {
-  categories: { id: number; title: string; subtitle: string; icon: string; image: string }[]
-  selectedCategory: string | null
+  categories: CategoryNode[]
+  selectedCategory: string | null // main category slug
   onCategoryClick: (category: string) => void
 }
 
@@ -80,17 +82,17 @@ function CategoryCarousel({ categories, selectedCategory, onCategoryClick }: Cat
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <Slider {...settings} className="category-slider">
           {categories.map((cat) => (
-            <div key={cat.id} className="px-2 cursor-pointer" onClick={() => onCategoryClick(cat.title)}>
+            <div key={cat.id} className="px-2 cursor-pointer" onClick={() => onCategoryClick(cat.slug)}>
               <Card
                 className={`h-max transition-all duration-300 hover:shadow-md ${
-                  selectedCategory === cat.title ? "ring-2 ring-green-500 shadow-md" : ""
+                  selectedCategory === cat.slug ? "ring-2 ring-green-500 shadow-md" : ""
                 }`}
               >
                 <CardContent className="p-4 flex items-center">
                   <div className="w-12 h-12 flex items-center justify-center bg-green-100 rounded-full mr-4 text-2xl">
                     {cat.icon}
                   </div>
-                  <h3 className="font-medium text-gray-900">{cat.title}</h3>
+                  <h3 className="font-medium text-gray-900">{cat.name}</h3>
                 </CardContent>
               </Card>
             </div>
@@ -361,7 +363,7 @@ export default function Home() {
     let filtered = [...products]
 
     if (selectedCategory) {
-      filtered = filtered.filter((p) => p.categories?.some((c) => c.main === selectedCategory))
+      filtered = filtered.filter((p) => p.categories?.some((c) => c.mainSlug === selectedCategory))
     }
 
     if (activeFilter === "deals") {
@@ -377,70 +379,8 @@ export default function Home() {
     return filtered
   }, [products, selectedCategory, activeFilter, homeSearchTerm])
 
-  // Define categories with full names matching Supabase
-  const carouselCategories = [
-    {
-      id: 1,
-      title: "Organic Groceries and Superfoods",
-      subtitle: "Fresh & Healthy",
-      icon: "🥦",
-      image: "https://www.pricechopper.com/wp-content/uploads/2022/07/072222_OrganicPage.png",
-    },
-    {
-      id: 2,
-      title: "Herbal & Natural Personal Care",
-      subtitle: "Pure & Gentle",
-      icon: "🧴",
-      image: "https://media.ahmedabadmirror.com/am/uploads/mediaGallery/image/1679590753548.jpg-org",
-    },
-    {
-      id: 3,
-      title: "Health & Wellness Products",
-      subtitle: "Boost Wellbeing",
-      icon: "🌿",
-      image: "https://media.ahmedabadmirror.com/am/uploads/mediaGallery/image/1679590753548.jpg-org",
-    },
-    {
-      id: 4,
-      title: "Sustainable Home & Eco-Friendly Living",
-      subtitle: "Green Living",
-      icon: "♻️",
-      image:
-        "https://previews.123rf.com/images/baibakova/baibakova2007/baibakova200700306/152273705-bowls-of-various-superfoods-on-gray-background-healthy-organic-food-clean-eating-top-view.jpg",
-    },
-    {
-      id: 5,
-      title: "Sustainable Fashion & Accessories",
-      subtitle: "Eco-Chic Styles",
-      icon: "👕",
-      image:
-        "https://previews.123rf.com/images/baibakova/baibakova2007/baibakova200700306/152273705-bowls-of-various-superfoods-on-gray-background-healthy-organic-food-clean-eating-top-view.jpg",
-    },
-    {
-      id: 6,
-      title: "Organic Baby & Kids Care",
-      subtitle: "For Little Ones",
-      icon: "👶",
-      image:
-        "https://previews.123rf.com/images/baibakova/baibakova2007/baibakova200700306/152273705-bowls-of-various-superfoods-on-gray-background-healthy-organic-food-clean-eating-top-view.jpg",
-    },
-    {
-      id: 7,
-      title: "Organic Pet Care",
-      subtitle: "For Your Pets",
-      icon: "🐾",
-      image:
-        "https://previews.123rf.com/images/baibakova/baibakova2007/baibakova200700306/152273705-bowls-of-various-superfoods-on-gray-background-healthy-organic-food-clean-eating-top-view.jpg",
-    },
-    {
-      id: 8,
-      title: "Special Dietary & Lifestyle Products",
-      subtitle: "For Your Lifestyle",
-      icon: "🥗",
-      image:
-        "https://previews.123rf.com/images/baibakova/baibakova2007/baibakova200700306/152273705-bowls-of-various-superfoods-on-gray-background-healthy-organic-food-clean-eating-top-view.jpg",
-    },
-  ]
+  const { categories: carouselCategories } = useCategories()
+  const selectedCategoryName = carouselCategories.find((category) => category.slug === selectedCategory)?.name
 
   // Check user and company approval status for redirection
   useEffect(() => {
@@ -636,7 +576,7 @@ export default function Home() {
             <div className="mb-6 flex items-center">
               {selectedCategory && (
                 <Badge variant="outline" className="bg-green-50 text-green-800 px-3 py-1">
-                  Category: {selectedCategory}
+                  Category: {selectedCategoryName || selectedCategory}
                 </Badge>
               )}
               {homeSearchTerm && (
@@ -19,16 +19,21 @@ import {
   ChevronRight,
   X,
   Check,
+  Repeat,
 } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
 import AuthPopup from "@/components/auth-popup"
 import CheckoutDetailsModal from "@/components/checkout-details-modal"
+import SubscribeDialog from "@/components/subscribe-dialog"
 import { useToast } from "@/hooks/use-toast"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { isSubscribable, SUBSCRIPTION_DISCOUNT_PERCENT } from "@/lib/subscriptions"
+import type { ProductCategory } from "@/lib/categories"
+import { getGuestCartItem, removeGuestCartItem, setGuestCartItem } from "@/lib/guest-cart"
 
 type ProductDetailsProps = {
   product: {
@@ -39,6 +44,8 @@ type ProductDetailsProps = {
     discountPrice?: number
     productPhotoUrls?: string[]
     productVideoUrl?: string
+    stockQuantity?: number
+    company_id?: string
     company: {
       name: string
       logo: string
@@ -47,6 +54,7 @@ type ProductDetailsProps = {
       name: string
       value: string
     }[]
+    categories?: ProductCategory[]
   }
 }
 
@@ -59,6 +67,7 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
   const [isFavorite, setIsFavorite] = useState(false)
   const [inCart, setInCart] = useState(false)
   const [showCheckoutModal, setShowCheckoutModal] = useState(false)
+  const [showSubscribeDialog, setShowSubscribeDialog] = useState(false)
   const [activeTab, setActiveTab] = useState<"description" | "reviews">("description")
   const [showReviewModal, setShowReviewModal] = useState(false)
   const [reviewRating, setReviewRating] = useState(5)
@@ -67,6 +76,9 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
   const [reviews, setReviews] = useState<{ user_id: string; rating: number; comment: string; created_at: string }[]>([])
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
 
+  const [stockQuantity, setStockQuantity] = useState(product.stockQuantity ?? 0)
+  const isOutOfStock = stockQuantity <= 0
+
   const displayPrice = product.discountPrice ?? product.originalPrice
   const [selectedImage, setSelectedImage] = useState(product.productPhotoUrls?.[0] ?? "")
   const images = product.productPhotoUrls ?? []
@@ -120,11 +132,12 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
         setHasReviewed(!!reviewData)
         if (reviewError && reviewError.code !== "PGRST116") console.error("Error checking review status:", reviewError)
       } else {
-        // Reset states if no user is logged in
-        setInCart(false)
+        // Reset states if no user is logged in; the cart comes from local storage
+        const guestCartItem = getGuestCartItem(product.id)
+        setInCart(!!guestCartItem)
         setIsFavorite(false)
         setHasReviewed(false)
-        setQuantity(1) // Reset quantity to 1
+        setQuantity(guestCartItem?.quantity ?? 1)
       }
     }
 
@@ -160,6 +173,20 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
     }
   }, [product.id, toast]) // Added toast dependency
 
+  // The page is statically generated, so read the live stock level (reservations change it constantly)
+  useEffect(() => {
+    const fetchStock = async () => {
+      const { data, error } = await supabase.from("products").select("stock_quantity").eq("id", product.id).single()
+      if (error) {
+        console.error("Error fetching stock level:", error)
+        return
+      }
+      setStockQuantity(data.stock_quantity ?? 0)
+    }
+
+    fetchStock()
+  }, [product.id])
+
   // Subscribe to all reviews for this product. (No changes needed here)
   useEffect(() => {
     const fetchReviews = async () => {
@@ -252,8 +279,24 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
 
   // Add-to-cart functionality. (Updated to use current quantity state)
   const handleAddToCart = async () => {
+    if (quantity > stockQuantity) {
+      toast({
+        title: "Not enough stock",
+        description: isOutOfStock ? `${product.productName} is out of stock.` : `Only ${stockQuantity} unit(s) left.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Visitors get a cart in local storage, merged into their account when they log in
     if (!currentUserId) {
-      setShowAuthPopup(true)
+      setGuestCartItem(product.id, quantity, displayPrice)
+      setInCart(true)
+      toast({
+        title: "Added to cart!",
+        description: `${quantity} unit(s) of ${product.productName} added to your shopping cart.`,
+        variant: "default",
+      })
       return
     }
 
@@ -307,7 +350,14 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
   // Remove-from-cart functionality. (No changes needed here)
   const handleRemoveFromCart = async () => {
     if (!currentUserId) {
-      setShowAuthPopup(true)
+      removeGuestCartItem(product.id)
+      setInCart(false)
+      setQuantity(1)
+      toast({
+        title: "Removed from cart",
+        description: `${product.productName} removed from your cart.`,
+        variant: "default",
+      })
       return
     }
 
@@ -341,6 +391,14 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
       setShowAuthPopup(true)
       return
     }
+    if (quantity > stockQuantity) {
+      toast({
+        title: "Not enough stock",
+        description: isOutOfStock ? `${product.productName} is out of stock.` : `Only ${stockQuantity} unit(s) left.`,
+        variant: "destructive",
+      })
+      return
+    }
     setShowCheckoutModal(true)
   }
 
@@ -356,7 +414,7 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
 
   // Update Quantity function (No changes needed here)
   const updateQuantity = (newQuantity: number) => {
-    if (newQuantity < 1) return
+    if (newQuantity < 1 || newQuantity > Math.max(stockQuantity, 1)) return
     setQuantity(newQuantity)
   }
 
@@ -417,9 +475,9 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
     }
   }
 
-  const handleOrderSuccess = () => {
-    // For direct buy, no cart to clear, just redirect to orders
-    router.push("/orders")
+  const handleOrderSuccess = (orderId: string) => {
+    // For direct buy, no cart to clear, just open the new order
+    router.push(`/orders/${orderId}`)
   }
 
   return (
@@ -676,6 +734,7 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
                   <button
                     onClick={() => updateQuantity(quantity + 1)}
                     className="w-10 h-10 flex items-center justify-center text-gray-600 hover:bg-gray-100 transition-colors"
+                    disabled={quantity >= stockQuantity}
                   >
                     <Plus className="w-4 h-4" />
                   </button>
@@ -692,19 +751,33 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
                   ) : (
                     <button
                       onClick={handleAddToCart}
-                      className="flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 px-4 rounded-lg hover:bg-emerald-700 transition-colors"
+                      disabled={isOutOfStock}
+                      className="flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 px-4 rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      <Check className="w-4 h-4" /> Add to Cart
+                      <Check className="w-4 h-4" /> {isOutOfStock ? "Out of Stock" : "Add to Cart"}
                     </button>
                   )}
                   <button
                     onClick={handleDirectBuy}
-                    className="flex items-center justify-center gap-2 bg-gray-900 text-white py-3 px-4 rounded-lg hover:bg-black transition-colors"
+                    disabled={isOutOfStock}
+                    className="flex items-center justify-center gap-2 bg-gray-900 text-white py-3 px-4 rounded-lg hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Buy Now • ₹{(displayPrice * quantity).toFixed(2)}
                   </button>
                 </div>
               </div>
+              {isSubscribable(product.categories) && (
+                <button
+                  onClick={() => (currentUserId ? setShowSubscribeDialog(true) : setShowAuthPopup(true))}
+                  disabled={isOutOfStock}
+                  className="mt-3 w-full flex items-center justify-center gap-2 border border-emerald-600 text-emerald-700 py-3 px-4 rounded-lg hover:bg-emerald-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Repeat className="w-4 h-4" /> Subscribe & Save {SUBSCRIPTION_DISCOUNT_PERCENT}%
+                </button>
+              )}
+              {stockQuantity > 0 && stockQuantity < 10 && (
+                <p className="mt-3 text-sm font-medium text-amber-600">Only {stockQuantity} left in stock</p>
+              )}
               {/* Wishlist & Share */}
               <div className="flex items-center justify-between mt-4">
                 <button
@@ -807,11 +880,19 @@ export default function ProductDetails({ product }: ProductDetailsProps) {
               productName: product.productName,
               quantity: quantity,
               price_at_add: displayPrice,
+              companyId: product.company_id,
             },
           ]}
           onOrderSuccess={handleOrderSuccess}
         />
       )}
+
+      <SubscribeDialog
+        open={showSubscribeDialog}
+        onOpenChange={setShowSubscribeDialog}
+        product={{ id: product.id, name: product.productName, price: displayPrice }}
+        initialQuantity={quantity}
+      />
     </div>
   )
 }
\ No newline at end of file
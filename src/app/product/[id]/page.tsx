@@ -44,12 +44,14 @@ export default async function ProductPage({ params }: { params: { id: string } }
     discountPrice: productFound.discount_price,
     productPhotoUrls: productFound.product_photo_urls,
     productVideoUrl: productFound.product_video_url, // Pass video URL if available
+    stockQuantity: productFound.stock_quantity,
     company_id: productFound.company_id, // ✅ Add this line 
     company: {
       name: productFound.company?.company_name || "Unknown Company", // Handle null company
       logo: productFound.company?.company_logo_url || "/placeholder.svg", // Handle null company logo
     },
     nutrients: productFound.nutrients,
+    categories: productFound.categories,
   }
 
   return (
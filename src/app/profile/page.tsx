@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation"
 import { supabase } from "@/lib/supabase"
 import Header from "@/components/Header"
 import Footer from "@/components/Footer"
+import ProfileSubscriptions from "@/components/profile-subscriptions"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -592,6 +593,8 @@ export default function ProfilePage() {
                 )}
               </CardContent>
             </Card>
+
+            <ProfileSubscriptions userId={profile.id} />
           </div>
         </div>
       </main>
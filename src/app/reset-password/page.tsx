@@ -0,0 +1,5 @@
+import ResetPasswordForm from "@/components/reset-password-form"
+
+export default function ResetPasswordPage() {
+  return <ResetPasswordForm />
+}
@@ -0,0 +1,460 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { Loader2, PackageOpen, Undo2 } from "lucide-react"
+import { supabase } from "@/lib/supabase"
+import Header from "@/components/Header"
+import Footer from "@/components/Footer"
+import { ReturnTrack } from "@/components/OrderStatusTimeline"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import {
+  isWithinReturnWindow,
+  MAX_RETURN_DETAILS_LENGTH,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  RETURN_STATUS_LABELS,
+  RETURN_WINDOW_DAYS,
+  type ReturnRefundStatus,
+  type ReturnRequestSummary,
+  type ReturnStatus,
+  type ReturnType,
+} from "@/lib/returns"
+
+interface OrderItemJson {
+  id: string
+  product_id: string
+  quantity: number
+  price_at_purchase: number
+}
+
+interface ProductSummary {
+  id: string
+  product_name: string
+  product_photo_urls: string[] | null
+}
+
+interface DeliveredSubOrder {
+  id: string
+  parent_order_id: string
+  delivered_at: string | null
+  order_items: OrderItemJson[]
+  companies: { company_name: string } | null
+}
+
+interface ReturnRequestRow {
+  id: string
+  sub_order_id: string
+  order_item_id: string
+  product_id: string | null
+  quantity: number
+  type: ReturnType
+  reason: string
+  details: string | null
+  photo_paths: string[]
+  status: ReturnStatus
+  vendor_note: string | null
+  refund_status: ReturnRefundStatus | null
+  refund_amount: number | null
+  replacement_order_id: string | null
+  created_at: string
+}
+
+interface ReturnableItem {
+  subOrder: DeliveredSubOrder
+  item: OrderItemJson
+}
+
+const refundNote = (request: ReturnRequestRow) => {
+  if (request.type !== "return" || !request.refund_amount) return null
+  const amount = `₹${Number(request.refund_amount).toFixed(2)}`
+  switch (request.refund_status) {
+    case "processed":
+      return `${amount} refunded to your original payment method.`
+    case "manual":
+      return `${amount} will be refunded to you directly by the seller.`
+    case "failed":
+      return `The refund of ${amount} didn't go through yet; the seller will retry it.`
+    default:
+      return `Refund of ${amount} in progress.`
+  }
+}
+
+interface ReturnRequestDialogProps {
+  target: ReturnableItem | null
+  productName: string
+  onClose: () => void
+  onSubmitted: () => void
+}
+
+function ReturnRequestDialog({ target, productName, onClose, onSubmitted }: ReturnRequestDialogProps) {
+  const { toast } = useToast()
+  const [type, setType] = useState<ReturnType>("return")
+  const [quantity, setQuantity] = useState("1")
+  const [reason, setReason] = useState("")
+  const [details, setDetails] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (target) {
+      setType("return")
+      setQuantity("1")
+      setReason("")
+      setDetails("")
+      setPhotos([])
+    }
+  }, [target])
+
+  const handleSubmit = async () => {
+    if (!target) return
+    const form = new FormData()
+    form.set("subOrderId", target.subOrder.id)
+    form.set("orderItemId", target.item.id)
+    form.set("quantity", quantity)
+    form.set("type", type)
+    form.set("reason", reason)
+    form.set("details", details)
+    photos.forEach((photo) => form.append("photos", photo))
+
+    setSubmitting(true)
+    try {
+      await apiFetch<ReturnRequestSummary>("/api/returns", undefined, { method: "POST", body: form })
+      toast({
+        title: "Request Submitted",
+        description: "The seller will review your request and schedule a pickup.",
+      })
+      onSubmitted()
+    } catch (err) {
+      toast({
+        title: "Request Failed",
+        description: err instanceof Error ? err.message : "Could not submit the request.",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const canSubmit = Boolean(reason) && (reason !== "Other" || Boolean(details.trim()))
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Return or Replace</DialogTitle>
+          <DialogDescription>{productName}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={type} onValueChange={(value) => setType(value as ReturnType)} className="grid grid-cols-2 gap-2">
+            <Label className="flex items-center space-x-2 p-3 border rounded-md cursor-pointer hover:bg-gray-50">
+              <RadioGroupItem value="return" />
+              <span>Return for refund</span>
+            </Label>
+            <Label className="flex items-center space-x-2 p-3 border rounded-md cursor-pointer hover:bg-gray-50">
+              <RadioGroupItem value="replacement" />
+              <span>Replacement</span>
+            </Label>
+          </RadioGroup>
+          {target && target.item.quantity > 1 && (
+            <div className="space-y-2">
+              <Label>Quantity</Label>
+              <Select value={quantity} onValueChange={setQuantity}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: target.item.quantity }, (_, index) => String(index + 1)).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="return-details">Details{reason === "Other" ? " *" : ""}</Label>
+            <Textarea
+              id="return-details"
+              value={details}
+              onChange={(event) => setDetails(event.target.value)}
+              maxLength={MAX_RETURN_DETAILS_LENGTH}
+              placeholder="Describe the problem"
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="return-photos">Photos (up to {MAX_RETURN_PHOTOS})</Label>
+            <Input
+              id="return-photos"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={(event) => setPhotos(Array.from(event.target.files || []).slice(0, MAX_RETURN_PHOTOS))}
+            />
+            {photos.length > 0 && (
+              <p className="text-xs text-gray-500">{photos.map((photo) => photo.name).join(", ")}</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default function ReturnsPage() {
+  const [loading, setLoading] = useState(true)
+  const [signedIn, setSignedIn] = useState(false)
+  const [subOrders, setSubOrders] = useState<DeliveredSubOrder[]>([])
+  const [requests, setRequests] = useState<ReturnRequestRow[]>([])
+  const [products, setProducts] = useState<Record<string, ProductSummary>>({})
+  const [target, setTarget] = useState<ReturnableItem | null>(null)
+  const { toast } = useToast()
+
+  const fetchReturns = useCallback(async () => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    setSignedIn(Boolean(session))
+    if (!session) {
+      setLoading(false)
+      return
+    }
+
+    const [subOrdersResult, requestsResult] = await Promise.all([
+      supabase
+        .from("sub_orders")
+        .select("id, parent_order_id, delivered_at, order_items, companies ( company_name ), orders!inner ( user_id )")
+        .eq("status", "delivered")
+        .eq("orders.user_id", session.user.id)
+        .order("delivered_at", { ascending: false }),
+      supabase
+        .from("return_requests")
+        .select("*")
+        .eq("user_id", session.user.id)
+        .order("created_at", { ascending: false }),
+    ])
+
+    if (subOrdersResult.error || requestsResult.error) {
+      console.error("Error fetching returns:", subOrdersResult.error || requestsResult.error)
+      toast({ title: "Error", description: "Could not load your returns.", variant: "destructive" })
+      setLoading(false)
+      return
+    }
+
+    const delivered = (subOrdersResult.data || []).map((subOrder) => ({
+      ...subOrder,
+      companies: Array.isArray(subOrder.companies) ? subOrder.companies[0] ?? null : subOrder.companies,
+    })) as DeliveredSubOrder[]
+    const returnRequests = (requestsResult.data || []) as ReturnRequestRow[]
+
+    const productIds = Array.from(
+      new Set([
+        ...delivered.flatMap((subOrder) => subOrder.order_items.map((item) => item.product_id)),
+        ...returnRequests.map((request) => request.product_id).filter((id): id is string => Boolean(id)),
+      ]),
+    )
+    if (productIds.length > 0) {
+      const { data: productsData } = await supabase
+        .from("products")
+        .select("id, product_name, product_photo_urls")
+        .in("id", productIds)
+      setProducts(Object.fromEntries((productsData || []).map((product) => [product.id, product as ProductSummary])))
+    }
+
+    setSubOrders(delivered)
+    setRequests(returnRequests)
+    setLoading(false)
+  }, [toast])
+
+  useEffect(() => {
+    fetchReturns()
+
+    // The vendor moves requests along; follow them live
+    const channel = supabase
+      .channel("customer_return_requests")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "return_requests" }, (payload) => {
+        const updated = payload.new as ReturnRequestRow
+        setRequests((prev) => prev.map((request) => (request.id === updated.id ? { ...request, ...updated } : request)))
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [fetchReturns])
+
+  const openItemIds = new Set(
+    requests.filter((request) => request.status !== "rejected").map((request) => request.order_item_id),
+  )
+  const returnableItems: ReturnableItem[] = subOrders
+    .filter((subOrder) => isWithinReturnWindow(subOrder.delivered_at))
+    .flatMap((subOrder) => subOrder.order_items.map((item) => ({ subOrder, item })))
+    .filter(({ item }) => !openItemIds.has(item.id))
+
+  const productName = (productId: string | null) => (productId && products[productId]?.product_name) || "Product"
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header showSearchBar={false} />
+      <main className="flex-grow container mx-auto px-4 py-8 space-y-8 max-w-4xl">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <Undo2 className="h-8 w-8 text-green-600" />
+            Returns & Refunds
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Something wrong with a delivery? Ask for a return or a replacement within {RETURN_WINDOW_DAYS} days of
+            delivery. The seller reviews your request, a courier picks the item up, and you get a refund to your original
+            payment method or a replacement at no cost.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-green-600" />
+          </div>
+        ) : !signedIn ? (
+          <Card>
+            <CardContent className="py-8 text-center space-y-4">
+              <p className="text-gray-600">Log in to request a return or follow an existing one.</p>
+              <Button asChild>
+                <Link href="/login">Log In</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Requests</CardTitle>
+                <CardDescription>Track the pickup and the refund or replacement.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {requests.length === 0 ? (
+                  <p className="text-sm text-gray-500">You haven&apos;t requested any returns.</p>
+                ) : (
+                  requests.map((request) => (
+                    <div key={request.id} className="border rounded-xl p-4 space-y-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <p className="font-semibold text-gray-900">
+                            {productName(request.product_id)} × {request.quantity}
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            {request.type === "replacement" ? "Replacement" : "Return"} · {request.reason} · requested{" "}
+                            {new Date(request.created_at).toLocaleDateString("en-IN", { day: "numeric", month: "short" })}
+                          </p>
+                        </div>
+                        <Badge variant="outline">{RETURN_STATUS_LABELS[request.status]}</Badge>
+                      </div>
+                      <ReturnTrack status={request.status} type={request.type} />
+                      {request.vendor_note && (
+                        <p className="text-sm text-gray-600">
+                          <span className="font-medium">Seller:</span> {request.vendor_note}
+                        </p>
+                      )}
+                      {refundNote(request) && <p className="text-sm text-gray-600">{refundNote(request)}</p>}
+                      {request.replacement_order_id && (
+                        <p className="text-sm text-gray-600">
+                          Replacement order #{request.replacement_order_id.substring(0, 8)} is on its way; follow it on{" "}
+                          <Link href="/orders" className="text-green-700 underline">
+                            your orders
+                          </Link>
+                          .
+                        </p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Eligible Items</CardTitle>
+                <CardDescription>Items delivered in the last {RETURN_WINDOW_DAYS} days.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {returnableItems.length === 0 ? (
+                  <div className="flex flex-col items-center py-6 text-gray-500">
+                    <PackageOpen className="h-10 w-10 mb-2" />
+                    <p className="text-sm">No delivered items are eligible for a return right now.</p>
+                  </div>
+                ) : (
+                  returnableItems.map(({ subOrder, item }) => (
+                    <div key={item.id} className="flex items-center gap-4 border rounded-lg p-3">
+                      <Image
+                        src={products[item.product_id]?.product_photo_urls?.[0] || "/placeholder.svg"}
+                        alt={productName(item.product_id)}
+                        width={56}
+                        height={56}
+                        className="rounded-md object-cover h-14 w-14"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{productName(item.product_id)}</p>
+                        <p className="text-xs text-gray-500">
+                          Order #{subOrder.parent_order_id.substring(0, 8)} · {subOrder.companies?.company_name || "Seller"} ·
+                          Qty {item.quantity}
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setTarget({ subOrder, item })}>
+                        Return or Replace
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+      <ReturnRequestDialog
+        target={target}
+        productName={target ? productName(target.item.product_id) : ""}
+        onClose={() => setTarget(null)}
+        onSubmitted={() => {
+          setTarget(null)
+          fetchReturns()
+        }}
+      />
+      <Footer />
+    </div>
+  )
+}
@@ -14,6 +14,8 @@ import Footer from "@/components/Footer"
 import Header from "@/components/Header"
 import { supabase } from "@/lib/supabase"
 import AuthPopup from "@/components/auth-popup"
+import { useCategories } from "@/hooks/use-categories"
+import type { ProductCategory } from "@/lib/categories"
 
 // Product type definition
 type Product = {
@@ -22,7 +24,7 @@ type Product = {
   product_photo_urls?: string[]
   original_price?: number
   discount_price: number
-  categories?: Array<{ main: string; sub: string }>
+  categories?: ProductCategory[]
   company: {
     company_name: string
     company_logo_url: string
@@ -281,19 +283,10 @@ export default function ShopPage() {
   const [products, setProducts] = useState<Product[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]) // main category slugs
   const [activeFilter, setActiveFilter] = useState<"all" | "deals" | "bestsellers">("all")
 
-  const allCategories = [
-    "Organic Groceries & Superfoods",
-    "Herbal & Natural Personal Care",
-    "Health & Wellness Products",
-    "Sustainable Home & Eco-Friendly Living",
-    "Sustainable Fashion & Accessories",
-    "Organic Baby & Kids Care",
-    "Organic Pet Care",
-    "Special Dietary & Lifestyle Products",
-  ]
+  const { categories: allCategories } = useCategories()
 
   useEffect(() => {
     setIsLoading(true)
@@ -346,7 +339,7 @@ export default function ShopPage() {
     let filtered = [...products]
 
     if (selectedCategories.length > 0) {
-      filtered = filtered.filter((product) => product.categories?.some((cat) => selectedCategories.includes(cat.main)))
+      filtered = filtered.filter((product) => product.categories?.some((cat) => selectedCategories.includes(cat.mainSlug)))
     }
 
     if (activeFilter === "deals") {
@@ -408,15 +401,15 @@ export default function ShopPage() {
             <h3 className="font-semibold text-gray-800 mb-3">Categories</h3>
             <div className="space-y-2">
               {allCategories.map((category) => (
-                <div key={category} className="flex items-center space-x-2">
+                <div key={category.slug} className="flex items-center space-x-2">
                   <Checkbox
-                    id={category}
-                    checked={selectedCategories.includes(category)}
-                    onCheckedChange={(checked) => handleCategoryChange(category, checked === true)}
+                    id={category.slug}
+                    checked={selectedCategories.includes(category.slug)}
+                    onCheckedChange={(checked) => handleCategoryChange(category.slug, checked === true)}
                     className="border-gray-300 data-[state=checked]:bg-green-600 data-[state=checked]:text-white"
                   />
-                  <Label htmlFor={category} className="text-sm font-medium text-gray-700 cursor-pointer">
-                    {category}
+                  <Label htmlFor={category.slug} className="text-sm font-medium text-gray-700 cursor-pointer">
+                    {category.name}
                   </Label>
                 </div>
               ))}
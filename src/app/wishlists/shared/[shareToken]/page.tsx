@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { Gift, HeartCrack, Loader2, ShoppingCart } from "lucide-react"
+import Header from "@/components/Header"
+import Footer from "@/components/Footer"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { supabase } from "@/lib/supabase"
+import { apiFetch } from "@/lib/api-client"
+import { readGuestCart, setGuestCartItem } from "@/lib/guest-cart"
+import type { SharedWishlistResponse } from "@/lib/wishlists"
+
+// Someone's shared wishlist, read only, at today's prices. Anyone can add the lot to their own
+// cart; visitors get the guest cart.
+export default function SharedWishlistPage() {
+  const { shareToken } = useParams<{ shareToken: string }>()
+  const [wishlist, setWishlist] = useState<SharedWishlistResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    apiFetch<SharedWishlistResponse>(`/api/wishlists/shared/${shareToken}`)
+      .then(setWishlist)
+      .catch((err) => setError(err instanceof Error ? err.message : "Could not load this wishlist."))
+  }, [shareToken])
+
+  const inStockItems = wishlist?.items.filter((item) => item.stockQuantity > 0) ?? []
+
+  // One of each product; anything already in the cart is left as it is
+  const handleAddAllToCart = async () => {
+    setIsAdding(true)
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      const userId = session?.user?.id
+
+      let added = 0
+      if (userId) {
+        const { data: cartData, error: cartError } = await supabase
+          .from("cart_items")
+          .select("product_id")
+          .eq("user_id", userId)
+          .in(
+            "product_id",
+            inStockItems.map((item) => item.productId),
+          )
+        if (cartError) throw cartError
+
+        const inCart = new Set((cartData || []).map((item) => item.product_id))
+        const rows = inStockItems
+          .filter((item) => !inCart.has(item.productId))
+          .map((item) => ({ user_id: userId, product_id: item.productId, quantity: 1, price_at_add: item.price }))
+        if (rows.length > 0) {
+          const { error: insertError } = await supabase.from("cart_items").insert(rows)
+          if (insertError) throw insertError
+        }
+        added = rows.length
+      } else {
+        const inCart = new Set(readGuestCart().map((item) => item.productId))
+        inStockItems
+          .filter((item) => !inCart.has(item.productId))
+          .forEach((item) => {
+            setGuestCartItem(item.productId, 1, item.price)
+            added++
+          })
+      }
+
+      toast({
+        title: added > 0 ? `${added} item(s) added to your cart.` : "Everything here is already in your cart.",
+        variant: "default",
+      })
+    } catch (err) {
+      toast({
+        title: err instanceof Error ? err.message : "Failed to add the items to your cart.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header showSearchBar={false} />
+      <main className="flex-grow container mx-auto px-4 py-8">
+        {error ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+            <HeartCrack className="w-20 h-20 mb-4 text-gray-300" />
+            <p className="text-xl font-medium mb-2">{error}</p>
+            <Button asChild>
+              <Link href="/shop">Start Shopping</Link>
+            </Button>
+          </div>
+        ) : !wishlist ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            <span className="ml-3 text-lg text-blue-700">Loading wishlist...</span>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+                  <Gift className="h-7 w-7 text-green-600" /> {wishlist.name}
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  {wishlist.ownerName ? `A wishlist shared by ${wishlist.ownerName}` : "A shared wishlist"} ·{" "}
+                  {wishlist.items.length} item(s)
+                </p>
+              </div>
+              <Button
+                className="bg-green-600 hover:bg-green-700"
+                onClick={handleAddAllToCart}
+                disabled={isAdding || inStockItems.length === 0}
+              >
+                {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShoppingCart className="w-4 h-4 mr-2" />}
+                Add All to Cart
+              </Button>
+            </div>
+
+            {wishlist.items.length === 0 ? (
+              <p className="text-gray-500 py-12 text-center">This wishlist is empty.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {wishlist.items.map((item) => (
+                  <Card key={item.productId} className="flex flex-col h-full group hover:shadow-lg transition-shadow">
+                    <Link
+                      href={`/product/${item.productId}`}
+                      className="relative w-full aspect-[3/3] overflow-hidden rounded-t-lg"
+                    >
+                      <Image
+                        src={item.thumbnail}
+                        alt={item.productName}
+                        fill
+                        sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 25vw"
+                        className="object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    </Link>
+                    <CardContent className="p-4 flex flex-col flex-grow">
+                      <CardTitle className="text-lg font-semibold mb-2 line-clamp-2">
+                        <Link href={`/product/${item.productId}`} className="hover:text-green-600 transition-colors">
+                          {item.productName}
+                        </Link>
+                      </CardTitle>
+                      <div className="flex items-baseline gap-2 mt-auto">
+                        <p className="text-xl font-bold text-gray-900">₹{item.price.toFixed(2)}</p>
+                        {item.originalPrice !== null && item.originalPrice > item.price && (
+                          <p className="text-sm text-gray-500 line-through">₹{item.originalPrice.toFixed(2)}</p>
+                        )}
+                      </div>
+                      {item.stockQuantity <= 0 && <p className="text-sm text-red-600 mt-1">Out of stock</p>}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  )
+}
@@ -5,9 +5,13 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { ShoppingCart, Heart, Search, Leaf, Menu, X } from "lucide-react"
+import { ShoppingCart, Heart, Search, Leaf, Menu, X, Bookmark } from "lucide-react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
 import { supabase } from "@/lib/supabase" // Supabase import
+import { onGuestCartChange, readGuestCart } from "@/lib/guest-cart"
 import { Input } from "@/components/ui/input" // Import Input component
+import NotificationBell from "@/components/notification-bell"
+import { useIsAdmin } from "@/hooks/use-is-admin"
 
 interface HeaderProps {
   showSearchBar?: boolean
@@ -18,13 +22,16 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [cartCount, setCartCount] = useState(0)
   const [favCount, setFavCount] = useState(0)
+  const [savedCount, setSavedCount] = useState(0) // saved for later, kept out of the cart count
   const [user, setUser] = useState<any>(null)
   const [localSearchTerm, setLocalSearchTerm] = useState("") // Local state for search input
   const router = useRouter()
+  const isAdmin = useIsAdmin(user?.id ?? null)
 
   useEffect(() => {
     let cartChannel: any = null;
     let favChannel: any = null;
+    let savedChannel: RealtimeChannel | null = null;
 
     const getSessionAndCounts = async () => {
       const {
@@ -50,6 +57,14 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
         if (favError) console.error("Error fetching favorites count:", favError.message || favError)
         setFavCount(favItemsCount || 0)
 
+        // Fetch saved-for-later count
+        const { count: savedItemsCount, error: savedError } = await supabase
+          .from("saved_items")
+          .select("id", { count: "exact" })
+          .eq("user_id", currentUserId)
+        if (savedError) console.error("Error fetching saved items count:", savedError.message || savedError)
+        setSavedCount(savedItemsCount || 0)
+
         // --- Real-time subscriptions ---
         cartChannel = supabase
           .channel(`realtime_cart_items_${currentUserId}`)
@@ -84,13 +99,35 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
             }
           )
           .subscribe()
+
+        savedChannel = supabase
+          .channel(`realtime_saved_items_${currentUserId}`)
+          .on(
+            'postgres_changes',
+            {
+              event: '*',
+              schema: 'public',
+              table: 'saved_items',
+              filter: `user_id=eq.${currentUserId}`,
+            },
+            () => {
+              // Re-fetch saved count on any change
+              getSessionAndCounts()
+            }
+          )
+          .subscribe()
       } else {
-        setCartCount(0)
+        // Logged out: count the guest cart kept in local storage
+        setCartCount(readGuestCart().length)
         setFavCount(0)
+        setSavedCount(0)
       }
     }
 
     getSessionAndCounts()
+    const stopGuestCartListener = onGuestCartChange(() => {
+      if (!cartChannel) setCartCount(readGuestCart().length)
+    })
 
     // Listen to auth state changes for real-time user updates
     const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
@@ -100,8 +137,10 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
 
     return () => {
       authListener.subscription.unsubscribe()
+      stopGuestCartListener()
       if (cartChannel) supabase.removeChannel(cartChannel)
       if (favChannel) supabase.removeChannel(favChannel)
+      if (savedChannel) supabase.removeChannel(savedChannel)
     }
   }, [])
 
@@ -149,6 +188,11 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
               <Link href="/profile" className="text-gray-700 hover:text-green-600 font-medium transition-colors">
                 Profile
               </Link>
+              {isAdmin && (
+                <Link href="/admin" className="text-gray-700 hover:text-green-600 font-medium transition-colors">
+                  Admin
+                </Link>
+              )}
               <button
                 onClick={handleLogout}
                 className="text-gray-700 hover:text-green-600 font-medium transition-colors"
@@ -192,6 +236,8 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
             </>
           )}
 
+          {/* Notifications Bell */}
+          {user && <NotificationBell userId={user.id} />}
           {/* Favorites Icon */}
           <Link href="/addfav" className="relative" aria-label="View favorites">
             <Heart className="w-6 h-6 text-gray-600 cursor-pointer hover:text-green-600 transition-colors hover:scale-110 transform duration-300" />
@@ -201,6 +247,15 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
               </span>
             )}
           </Link>
+          {/* Saved for Later Icon */}
+          {savedCount > 0 && (
+            <Link href="/cart#saved-for-later" className="relative" aria-label="View items saved for later">
+              <Bookmark className="w-6 h-6 text-gray-600 cursor-pointer hover:text-green-600 transition-colors hover:scale-110 transform duration-300" />
+              <span className="absolute -top-2 -right-2 bg-amber-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                {savedCount}
+              </span>
+            </Link>
+          )}
           {/* Shopping Cart Icon */}
           <Link href="/cart" className="relative" aria-label="View shopping cart">
             <ShoppingCart className="w-6 h-6 text-gray-600 cursor-pointer hover:text-green-600 transition-colors hover:scale-110 transform duration-300" />
@@ -261,6 +316,15 @@ export default function Header({ showSearchBar = true, onSearch }: HeaderProps)
                     >
                       Profile
                     </Link>
+                    {isAdmin && (
+                      <Link
+                        href="/admin"
+                        className="block px-4 py-3 text-gray-700 hover:bg-gray-50"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        Admin
+                      </Link>
+                    )}
                     <button
                       onClick={() => {
                         handleLogout()
@@ -1,40 +1,124 @@
-import { ShoppingCart, CreditCard, Box, Truck, MapPin } from "lucide-react"
+import { ShoppingCart, CreditCard, Box, Truck, MapPin, Undo2, ClipboardCheck, CalendarClock, PackageCheck, IndianRupee, RefreshCw, XCircle } from "lucide-react"
+import { RETURN_STATUS_LABELS, returnTrack, returnTrackIndex, type ReturnStatus, type ReturnType } from "@/lib/returns"
+import { sortStatusEvents, STATUS_ACTOR_LABELS, statusReachedAt, type StatusEvent } from "@/lib/order-history"
+import { formatOrderStatus, FULFILMENT_STEPS, fulfilmentStepIndex, type FulfilmentStatus } from "@/lib/order-lifecycle"
 
-// Define the structure of a single step in the timeline
-interface TimelineStep {
-    label: string
-    icon: any // Using 'any' for the Lucide-React component, could also use React.ElementType
-    status: string
-}
+type StepIcon = typeof ShoppingCart
 
 // Define the props for the OrderStatusTimeline component
 interface OrderStatusTimelineProps {
     currentStatus: string
+    // A return or replacement of an item in this order, shown as a reverse-pickup track below
+    returnRequest?: { status: ReturnStatus; type: ReturnType } | null
+    // The sub-order's status history; dates each reached step and lists every change below
+    events?: StatusEvent[]
+}
+
+// Also used by the vendor's Update Status dialog
+export const fulfilmentStepIcons: Record<FulfilmentStatus, StepIcon> = {
+    confirmed: ShoppingCart,
+    payment_accepted: CreditCard,
+    preparing: Box,
+    shipped: Truck,
+    delivered: MapPin,
+}
+
+const returnStepIcons: Record<ReturnStatus, StepIcon> = {
+    requested: Undo2,
+    approved: ClipboardCheck,
+    rejected: XCircle,
+    pickup_scheduled: CalendarClock,
+    picked_up: PackageCheck,
+    received: PackageCheck,
+    refunded: IndianRupee,
+    replaced: RefreshCw,
+}
+
+export function ReturnTrack({ status, type }: { status: ReturnStatus; type: ReturnType }) {
+    if (status === "rejected") {
+        return (
+            <p className="flex items-center justify-center gap-2 text-sm font-medium text-red-600">
+                <XCircle className="h-4 w-4" />
+                {type === "replacement" ? "Replacement" : "Return"} request rejected
+            </p>
+        )
+    }
+
+    const steps = returnTrack(type)
+    const currentIdx = returnTrackIndex(status, type)
+    return (
+        <div className="flex items-center w-full justify-between px-2 overflow-x-auto pb-2">
+            {steps.map((step, stepIdx) => {
+                const isActive = stepIdx === currentIdx
+                const isCompleted = stepIdx < currentIdx
+                const StepIcon = returnStepIcons[step]
+                return (
+                    <div key={step} className="flex flex-col items-center flex-1 min-w-[100px]">
+                        <StepIcon
+                            className={`h-7 w-7 p-1 rounded-full border-2 ${
+                                isActive
+                                    ? "bg-amber-500 text-white border-amber-500"
+                                    : isCompleted
+                                        ? "bg-amber-400 text-white border-amber-400"
+                                        : "bg-gray-200 text-gray-400 border-gray-300"
+                            }`}
+                        />
+                        <span className={`mt-2 text-xs font-semibold text-center ${isActive || isCompleted ? "text-amber-700" : "text-gray-500"}`}>
+                            {step === "requested" && type === "replacement" ? "Replacement Requested" : RETURN_STATUS_LABELS[step]}
+                        </span>
+                    </div>
+                )
+            })}
+        </div>
+    )
 }
 
-// Timeline steps (SHARED STRUCTURE) - Must be defined here or imported
-const proTimelineSteps: TimelineStep[] = [
-    { label: "Order Confirmed", icon: ShoppingCart, status: "confirmed" },
-    { label: "Payment Accepted", icon: CreditCard, status: "payment_accepted" },
-    { label: "Order is Being Prepared", icon: Box, status: "preparing" },
-    { label: "Order Has Been Shipped", icon: Truck, status: "shipped" },
-    { label: "Order Successfully Delivered", icon: MapPin, status: "delivered" },
-]
-const statusOrder = ["confirmed", "payment_accepted", "preparing", "shipped", "delivered"]
 
+const formatEventTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+
+// Every status change with who made it, oldest first. Also shown on its own for cancelled orders,
+// which have no timeline.
+export function StatusHistory({ events }: { events: StatusEvent[] }) {
+    if (events.length === 0) return null
+
+    return (
+        <details className="w-full text-sm text-gray-600">
+            <summary className="cursor-pointer select-none font-medium text-gray-700">Status history</summary>
+            <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-4">
+                {sortStatusEvents(events).map((event) => (
+                    <li key={event.id}>
+                        <p>
+                            <span className="font-medium text-gray-800">
+                                {event.from_status ? `${formatOrderStatus(event.from_status)} → ` : ""}
+                                {formatOrderStatus(event.to_status)}
+                            </span>
+                            <span className="text-gray-500">
+                                {" "}· {STATUS_ACTOR_LABELS[event.actor_role]} · {formatEventTime(event.created_at)}
+                            </span>
+                        </p>
+                        {event.note && <p className="text-gray-500">{event.note}</p>}
+                    </li>
+                ))}
+            </ol>
+        </details>
+    )
+}
 
-export default function OrderStatusTimeline({ currentStatus }: OrderStatusTimelineProps) {
-    const currentStatusIdx = statusOrder.indexOf(currentStatus);
+export default function OrderStatusTimeline({ currentStatus, returnRequest, events = [] }: OrderStatusTimelineProps) {
+    const currentStatusIdx = fulfilmentStepIndex(currentStatus)
+    const reachedAt = statusReachedAt(events)
 
     return (
         <div className="w-full flex flex-col items-center mb-4">
             <div className="flex items-center w-full justify-between px-2 overflow-x-auto pb-2">
-                {proTimelineSteps.map((step, stepIdx) => {
-                    const thisStepIdx = statusOrder.indexOf(step.status)
-                    const isActive = thisStepIdx === currentStatusIdx
-                    const isCompleted = thisStepIdx < currentStatusIdx
-                    const isLast = stepIdx === proTimelineSteps.length - 1
-                    const StepIcon = step.icon // Renamed for clarity
+                {FULFILMENT_STEPS.map((step, stepIdx) => {
+                    const isActive = stepIdx === currentStatusIdx
+                    const isCompleted = stepIdx < currentStatusIdx
+                    const isLast = stepIdx === FULFILMENT_STEPS.length - 1
+                    const StepIcon = fulfilmentStepIcons[step.status]
+                    const stepReachedAt =
+                        reachedAt.get(step.status) ?? (step.status === "confirmed" ? reachedAt.get("cod_pending") : undefined)
 
                     return (
                         <div key={step.label} className="flex flex-col items-center flex-1 min-w-[100px]">
@@ -72,10 +156,23 @@ export default function OrderStatusTimeline({ currentStatus }: OrderStatusTimeli
                                         ? "text-emerald-600"
                                         : "text-gray-500"
                             }`} style={{ minWidth: 80 }}>{step.label}</span>
+                            {(isActive || isCompleted) && stepReachedAt && (
+                                <span className="mt-1 text-[11px] text-gray-500 text-center">{formatEventTime(stepReachedAt)}</span>
+                            )}
                         </div>
                     )
                 })}
             </div>
+            {events.length > 0 && (
+                <div className="w-full mt-2 px-2">
+                    <StatusHistory events={events} />
+                </div>
+            )}
+            {returnRequest && (
+                <div className="w-full mt-4 pt-4 border-t border-dashed border-amber-200">
+                    <ReturnTrack status={returnRequest.status} type={returnRequest.type} />
+                </div>
+            )}
         </div>
     )
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import type { AdminListResponse, AuditLogEntry } from "@/lib/admin"
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+
+// Every approval and rejection, newest first. `refreshKey` changes when a decision is made elsewhere
+// on the page.
+export default function AuditLogTable({ refreshKey }: { refreshKey: number }) {
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    apiFetch<AdminListResponse<AuditLogEntry>>("/api/admin/audit-log")
+      .then(({ items }) => setEntries(items))
+      .catch((err) => {
+        toast({
+          title: "Could not load the audit log",
+          description: err instanceof Error ? err.message : "Please try again.",
+          variant: "destructive",
+        })
+        setEntries([])
+      })
+  }, [refreshKey, toast])
+
+  if (entries === null) return <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+  if (entries.length === 0) return <p className="text-sm text-gray-500 py-8 text-center">No decisions yet.</p>
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-white">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-left text-gray-600">
+          <tr>
+            <th className="px-4 py-2 font-medium">When</th>
+            <th className="px-4 py-2 font-medium">Admin</th>
+            <th className="px-4 py-2 font-medium">Decision</th>
+            <th className="px-4 py-2 font-medium">Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-t align-top">
+              <td className="px-4 py-2 whitespace-nowrap text-gray-500">{formatDateTime(entry.created_at)}</td>
+              <td className="px-4 py-2">{entry.admin_name || "—"}</td>
+              <td className="px-4 py-2">
+                <Badge variant={entry.action === "approve" ? "default" : "destructive"} className="mr-2">
+                  {entry.action === "approve" ? "Approved" : "Rejected"}
+                </Badge>
+                {entry.target_type === "company" ? "Company" : "Product"}{" "}
+                <span className="font-medium">{entry.target_name || entry.target_id.slice(0, 8)}</span>
+              </td>
+              <td className="px-4 py-2 text-gray-600">{entry.reason || "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
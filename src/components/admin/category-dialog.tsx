@@ -0,0 +1,136 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MAX_CATEGORY_NAME_LENGTH, slugify, type Category } from "@/lib/categories"
+
+export interface CategoryDialogValues {
+  name: string
+  slug: string
+  icon: string
+}
+
+interface CategoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The category being edited, or null to add one
+  category: Category | null
+  // Set when adding a sub-category
+  parentName?: string | null
+  onSubmit: (values: CategoryDialogValues) => Promise<void>
+}
+
+// Adds or edits a main category or sub-category. The slug can only be chosen when adding.
+export default function CategoryDialog({ open, onOpenChange, category, parentName, onSubmit }: CategoryDialogProps) {
+  const [name, setName] = useState("")
+  const [slug, setSlug] = useState("")
+  const [slugEdited, setSlugEdited] = useState(false)
+  const [icon, setIcon] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const isSubCategory = category ? !!category.parent_id : !!parentName
+
+  useEffect(() => {
+    if (!open) return
+    setName(category?.name || "")
+    setSlug(category?.slug || "")
+    setSlugEdited(false)
+    setIcon(category?.icon || "")
+  }, [open, category])
+
+  const handleNameChange = (value: string) => {
+    setName(value)
+    if (!category && !slugEdited) setSlug(slugify(value))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    setIsSaving(true)
+    try {
+      await onSubmit({ name: name.trim(), slug: slug.trim(), icon: icon.trim() })
+      onOpenChange(false)
+    } catch {
+      // `onSubmit` reports the failure; stay open so nothing typed is lost
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const title = category
+    ? `Edit ${category.name}`
+    : parentName
+      ? `Add a sub-category to ${parentName}`
+      : "Add a main category"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              {category
+                ? "Renaming updates the products already in this category."
+                : "Vendors can pick it for their products as soon as it is added."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                value={name}
+                maxLength={MAX_CATEGORY_NAME_LENGTH}
+                onChange={(e) => handleNameChange(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categorySlug">Slug</Label>
+              <Input
+                id="categorySlug"
+                value={slug}
+                disabled={!!category}
+                onChange={(e) => {
+                  setSlug(e.target.value)
+                  setSlugEdited(true)
+                }}
+              />
+              <p className="text-xs text-gray-500">
+                {category ? "Slugs can't be changed once a category is added." : "Used in links and filters; it can't be changed later."}
+              </p>
+            </div>
+            {!isSubCategory && (
+              <div className="space-y-2">
+                <Label htmlFor="categoryIcon">Icon</Label>
+                <Input
+                  id="categoryIcon"
+                  value={icon}
+                  maxLength={16}
+                  placeholder="e.g. 🥦"
+                  className="w-24"
+                  onChange={(e) => setIcon(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">Shown on the home page slider.</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {category ? "Save" : "Add"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, Eye, EyeOff, Loader2, Pencil, Plus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import CategoryDialog, { type CategoryDialogValues } from "@/components/admin/category-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import type { AdminListResponse } from "@/lib/admin"
+import type {
+  Category,
+  CategoryCreateRequest,
+  CategoryNode,
+  CategoryReorderRequest,
+  CategoryUpdateRequest,
+} from "@/lib/categories"
+
+type DialogState = { category: Category | null; parent: CategoryNode | null }
+
+interface CategoryRowProps {
+  category: Category
+  siblings: Category[]
+  index: number
+  isPending: boolean
+  onMove: (siblings: Category[], index: number, offset: number) => void
+  onEdit: (category: Category) => void
+  onToggleActive: (category: Category) => void
+}
+
+function CategoryRow({ category, siblings, index, isPending, onMove, onEdit, onToggleActive }: CategoryRowProps) {
+  return (
+    <div className="flex items-center gap-3">
+      {!category.parent_id && (
+        <div className="w-10 h-10 flex items-center justify-center bg-green-100 rounded-full text-xl flex-shrink-0">
+          {category.icon}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className={`font-medium ${category.is_active ? "text-gray-900" : "text-gray-400"}`}>
+          {category.name}
+          {!category.is_active && (
+            <Badge variant="outline" className="ml-2 text-gray-500">
+              Hidden
+            </Badge>
+          )}
+        </p>
+        <p className="text-xs text-gray-500">{category.slug}</p>
+      </div>
+      <div className="flex items-center gap-1">
+        {isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        <Button variant="ghost" size="icon" disabled={isPending || index === 0} onClick={() => onMove(siblings, index, -1)}>
+          <ArrowUp className="h-4 w-4" />
+          <span className="sr-only">Move up</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={isPending || index === siblings.length - 1}
+          onClick={() => onMove(siblings, index, 1)}
+        >
+          <ArrowDown className="h-4 w-4" />
+          <span className="sr-only">Move down</span>
+        </Button>
+        <Button variant="ghost" size="icon" disabled={isPending} onClick={() => onEdit(category)}>
+          <Pencil className="h-4 w-4" />
+          <span className="sr-only">Edit</span>
+        </Button>
+        <Button variant="ghost" size="icon" disabled={isPending} onClick={() => onToggleActive(category)}>
+          {category.is_active ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          <span className="sr-only">{category.is_active ? "Hide" : "Show"}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// The category taxonomy used by the product form, the shop filters and the home slider.
+export default function CategoryEditor() {
+  const [categories, setCategories] = useState<CategoryNode[] | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [dialog, setDialog] = useState<DialogState | null>(null)
+  const { toast } = useToast()
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const { items } = await apiFetch<AdminListResponse<CategoryNode>>("/api/admin/categories")
+      setCategories(items)
+    } catch (err) {
+      toast({
+        title: "Could not load categories",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+      setCategories([])
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchCategories()
+  }, [fetchCategories])
+
+  const reportError = (title: string, err: unknown) =>
+    toast({
+      title,
+      description: err instanceof Error ? err.message : "Please try again.",
+      variant: "destructive",
+    })
+
+  const handleSave = async (values: CategoryDialogValues) => {
+    const editing = dialog?.category
+    try {
+      if (editing) {
+        await apiFetch<Category>(`/api/admin/categories/${editing.id}`, {
+          name: values.name,
+          ...(editing.parent_id ? {} : { icon: values.icon || null }),
+        } satisfies CategoryUpdateRequest)
+      } else {
+        await apiFetch<Category>("/api/admin/categories", {
+          name: values.name,
+          slug: values.slug || undefined,
+          parentId: dialog?.parent?.id ?? null,
+          icon: dialog?.parent ? null : values.icon || null,
+        } satisfies CategoryCreateRequest)
+      }
+      toast({ title: editing ? `${values.name} saved` : `${values.name} added` })
+      await fetchCategories()
+    } catch (err) {
+      reportError("Could not save the category", err)
+      throw err
+    }
+  }
+
+  const handleToggleActive = async (category: Category) => {
+    setPendingId(category.id)
+    try {
+      await apiFetch<Category>(`/api/admin/categories/${category.id}`, {
+        isActive: !category.is_active,
+      } satisfies CategoryUpdateRequest)
+      toast({
+        title: category.is_active ? `${category.name} hidden` : `${category.name} shown`,
+        description: category.is_active ? "Products already in it keep it, but it can't be picked or filtered on." : undefined,
+      })
+      await fetchCategories()
+    } catch (err) {
+      reportError("Could not update the category", err)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleMove = async (siblings: Category[], index: number, offset: number) => {
+    const ids = siblings.map((sibling) => sibling.id)
+    ;[ids[index], ids[index + offset]] = [ids[index + offset], ids[index]]
+    setPendingId(siblings[index].id)
+    try {
+      const { items } = await apiFetch<AdminListResponse<CategoryNode>>("/api/admin/categories/reorder", {
+        ids,
+      } satisfies CategoryReorderRequest)
+      setCategories(items)
+    } catch (err) {
+      reportError("Could not save the order", err)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const rowProps = {
+    onMove: handleMove,
+    onEdit: (category: Category) => setDialog({ category, parent: null }),
+    onToggleActive: handleToggleActive,
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Hidden categories stay on the products already in them, but vendors can&apos;t pick them and shoppers
+          can&apos;t filter on them.
+        </p>
+        <Button size="sm" onClick={() => setDialog({ category: null, parent: null })}>
+          <Plus className="h-4 w-4 mr-2" /> Add Category
+        </Button>
+      </div>
+
+      {categories === null ? (
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      ) : categories.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No categories yet.</p>
+      ) : (
+        categories.map((main, index) => (
+          <Card key={main.id} className="shadow-sm">
+            <CardContent className="space-y-3 pt-6">
+              <CategoryRow
+                category={main}
+                siblings={categories}
+                index={index}
+                isPending={pendingId === main.id}
+                {...rowProps}
+              />
+              <div className="ml-12 space-y-2 border-l border-gray-200 pl-4">
+                {main.children.map((sub, subIndex) => (
+                  <CategoryRow
+                    key={sub.id}
+                    category={sub}
+                    siblings={main.children}
+                    index={subIndex}
+                    isPending={pendingId === sub.id}
+                    {...rowProps}
+                  />
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => setDialog({ category: null, parent: main })}>
+                  <Plus className="h-4 w-4 mr-2" /> Add Sub-category
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <CategoryDialog
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+        category={dialog?.category ?? null}
+        parentName={dialog?.parent?.name ?? null}
+        onSubmit={handleSave}
+      />
+    </div>
+  )
+}
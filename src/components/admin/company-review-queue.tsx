@@ -0,0 +1,209 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Image from "next/image"
+import { Building2, Check, ExternalLink, FileText, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import ReviewStatusBadge from "@/components/review-status-badge"
+import RejectDialog from "@/components/admin/reject-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import {
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUSES,
+  reviewStatus,
+  type AdminCompany,
+  type AdminListResponse,
+  type AuditLogEntry,
+  type ReviewRequest,
+  type ReviewStatus,
+} from "@/lib/admin"
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+
+function DocumentLink({ label, url }: { label: string; url: string | null }) {
+  if (!url) return <span className="text-sm text-gray-400">No {label.toLowerCase()}</span>
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+    >
+      <FileText className="h-4 w-4" /> {label} <ExternalLink className="h-3 w-3" />
+    </a>
+  )
+}
+
+// Company registrations to approve or reject, with the documents they uploaded.
+export default function CompanyReviewQueue({ onReviewed }: { onReviewed: () => void }) {
+  const [status, setStatus] = useState<ReviewStatus>("pending")
+  const [companies, setCompanies] = useState<AdminCompany[] | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<AdminCompany | null>(null)
+  const { toast } = useToast()
+
+  const fetchCompanies = useCallback(async () => {
+    setCompanies(null)
+    try {
+      const { items } = await apiFetch<AdminListResponse<AdminCompany>>(`/api/admin/companies?status=${status}`)
+      setCompanies(items)
+    } catch (err) {
+      toast({
+        title: "Could not load companies",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+      setCompanies([])
+    }
+  }, [status, toast])
+
+  useEffect(() => {
+    fetchCompanies()
+  }, [fetchCompanies])
+
+  const review = async (company: AdminCompany, request: ReviewRequest) => {
+    setPendingId(company.id)
+    try {
+      await apiFetch<AuditLogEntry>(`/api/admin/companies/${company.id}/review`, request satisfies ReviewRequest)
+      setCompanies((prev) => (prev || []).filter((existing) => existing.id !== company.id))
+      toast({ title: request.decision === "approve" ? `${company.company_name} approved` : `${company.company_name} rejected` })
+      onReviewed()
+    } catch (err) {
+      toast({
+        title: "Could not save the decision",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+      throw err
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          Approved companies can list products; each product is still reviewed on its own.
+        </p>
+        <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_STATUSES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {REVIEW_STATUS_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {companies === null ? (
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      ) : companies.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No {REVIEW_STATUS_LABELS[status].toLowerCase()} companies.</p>
+      ) : (
+        companies.map((company) => {
+          const current = reviewStatus(company)
+          const isPending = pendingId === company.id
+          return (
+            <Card key={company.id} className="shadow-sm">
+              <CardHeader className="flex flex-row items-start gap-4 space-y-0">
+                <div className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-md border border-gray-200 bg-gray-50">
+                  {company.documents.logo ? (
+                    <Image src={company.documents.logo} alt={`${company.company_name} logo`} fill sizes="56px" className="object-contain" />
+                  ) : (
+                    <Building2 className="h-6 w-6 m-4 text-gray-400" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <CardTitle className="text-lg">{company.company_name}</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    {[company.registration_type, company.company_type].filter(Boolean).join(" · ")} · Registered{" "}
+                    {formatDate(company.created_at)}
+                  </p>
+                </div>
+                <ReviewStatusBadge status={current} />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <dl className="grid gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+                  <div>
+                    <dt className="inline text-gray-500">Registration no.: </dt>
+                    <dd className="inline">{company.registration_number || "—"}</dd>
+                  </div>
+                  <div>
+                    <dt className="inline text-gray-500">GSTIN: </dt>
+                    <dd className="inline">{company.gst_number || "—"}</dd>
+                  </div>
+                  <div>
+                    <dt className="inline text-gray-500">Contact: </dt>
+                    <dd className="inline">
+                      {company.contact_person_name || "—"}, {company.mobile_number || "no phone"}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="inline text-gray-500">Email: </dt>
+                    <dd className="inline">{company.email || "—"}</dd>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <dt className="inline text-gray-500">Address: </dt>
+                    <dd className="inline">{company.company_address || "—"}</dd>
+                  </div>
+                  {company.company_website && (
+                    <div className="sm:col-span-2">
+                      <dt className="inline text-gray-500">Website: </dt>
+                      <dd className="inline">{company.company_website}</dd>
+                    </div>
+                  )}
+                </dl>
+
+                <div className="flex flex-wrap gap-4">
+                  <DocumentLink label="Certificate" url={company.documents.certificate} />
+                  <DocumentLink label="ISO Certificate" url={company.documents.iso} />
+                  <DocumentLink label="Logo" url={company.documents.logo} />
+                </div>
+
+                {current === "rejected" && company.rejection_reason && (
+                  <p className="text-sm text-red-700">Rejected: {company.rejection_reason}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {current !== "approved" && (
+                    <Button size="sm" disabled={isPending} onClick={() => review(company, { decision: "approve" }).catch(() => undefined)}>
+                      <Check className="h-4 w-4 mr-2" /> Approve
+                    </Button>
+                  )}
+                  {current !== "rejected" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      disabled={isPending}
+                      onClick={() => setRejecting(company)}
+                    >
+                      <X className="h-4 w-4 mr-2" /> {current === "approved" ? "Revoke Approval" : "Reject"}
+                    </Button>
+                  )}
+                  {isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-500 self-center" />}
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })
+      )}
+
+      <RejectDialog
+        open={rejecting !== null}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        subject={rejecting?.company_name || "company"}
+        onSubmit={(reason) => (rejecting ? review(rejecting, { decision: "reject", reason }) : Promise.resolve())}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { Check, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import ReviewStatusBadge from "@/components/review-status-badge"
+import RejectDialog from "@/components/admin/reject-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import {
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUSES,
+  reviewStatus,
+  type AdminListResponse,
+  type AdminProduct,
+  type AuditLogEntry,
+  type ReviewRequest,
+  type ReviewStatus,
+} from "@/lib/admin"
+
+// Products waiting to go on sale, or already decided, to approve or reject.
+export default function ProductReviewQueue({ onReviewed }: { onReviewed: () => void }) {
+  const [status, setStatus] = useState<ReviewStatus>("pending")
+  const [products, setProducts] = useState<AdminProduct[] | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<AdminProduct | null>(null)
+  const { toast } = useToast()
+
+  const fetchProducts = useCallback(async () => {
+    setProducts(null)
+    try {
+      const { items } = await apiFetch<AdminListResponse<AdminProduct>>(`/api/admin/products?status=${status}`)
+      setProducts(items)
+    } catch (err) {
+      toast({
+        title: "Could not load products",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+      setProducts([])
+    }
+  }, [status, toast])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [fetchProducts])
+
+  const review = async (product: AdminProduct, request: ReviewRequest) => {
+    setPendingId(product.id)
+    try {
+      await apiFetch<AuditLogEntry>(`/api/admin/products/${product.id}/review`, request satisfies ReviewRequest)
+      setProducts((prev) => (prev || []).filter((existing) => existing.id !== product.id))
+      toast({ title: request.decision === "approve" ? `${product.product_name} approved` : `${product.product_name} rejected` })
+      onReviewed()
+    } catch (err) {
+      toast({
+        title: "Could not save the decision",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+      throw err
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">Approved products appear in the shop straight away.</p>
+        <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_STATUSES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {REVIEW_STATUS_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {products === null ? (
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      ) : products.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No {REVIEW_STATUS_LABELS[status].toLowerCase()} products.</p>
+      ) : (
+        products.map((product) => {
+          const current = reviewStatus(product)
+          const isPending = pendingId === product.id
+          return (
+            <Card key={product.id} className="shadow-sm">
+              <CardContent className="flex flex-col gap-4 pt-6 sm:flex-row">
+                <div className="flex gap-2 overflow-x-auto sm:w-56 sm:flex-shrink-0 sm:flex-wrap">
+                  {(product.product_photo_urls?.length ? product.product_photo_urls : ["/placeholder.svg"]).map((url) => (
+                    <div key={url} className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded-md border border-gray-200">
+                      <Image src={url} alt={product.product_name} fill sizes="96px" className="object-cover" />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{product.product_name}</h3>
+                      <p className="text-sm text-gray-500">by {product.company_name || "Unknown company"}</p>
+                    </div>
+                    <ReviewStatusBadge status={current} />
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    <span className="font-semibold text-green-700">₹{Number(product.discount_price).toFixed(2)}</span>{" "}
+                    <span className="line-through text-gray-400">₹{Number(product.original_price).toFixed(2)}</span> ·{" "}
+                    {product.stock_quantity} in stock
+                    {product.categories?.length ? ` · ${product.categories.map((category) => category.sub).join(", ")}` : ""}
+                  </p>
+                  {product.product_description && (
+                    <p className="text-sm text-gray-600 line-clamp-3">{product.product_description}</p>
+                  )}
+                  {current === "rejected" && product.rejection_reason && (
+                    <p className="text-sm text-red-700">Rejected: {product.rejection_reason}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    {current !== "approved" && (
+                      <Button size="sm" disabled={isPending} onClick={() => review(product, { decision: "approve" }).catch(() => undefined)}>
+                        <Check className="h-4 w-4 mr-2" /> Approve
+                      </Button>
+                    )}
+                    {current !== "rejected" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                        disabled={isPending}
+                        onClick={() => setRejecting(product)}
+                      >
+                        <X className="h-4 w-4 mr-2" /> {current === "approved" ? "Take Down" : "Reject"}
+                      </Button>
+                    )}
+                    {current === "approved" && (
+                      <Button size="sm" variant="ghost" asChild>
+                        <Link href={`/product/${product.id}`}>View in Shop</Link>
+                      </Button>
+                    )}
+                    {isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-500 self-center" />}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })
+      )}
+
+      <RejectDialog
+        open={rejecting !== null}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        subject={rejecting?.product_name || "product"}
+        onSubmit={(reason) => (rejecting ? review(rejecting, { decision: "reject", reason }) : Promise.resolve())}
+      />
+    </div>
+  )
+}
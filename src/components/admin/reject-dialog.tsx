@@ -0,0 +1,76 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { MAX_REJECTION_REASON_LENGTH } from "@/lib/admin"
+
+interface RejectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // What is being rejected, e.g. the company or product name
+  subject: string
+  onSubmit: (reason: string) => Promise<void>
+}
+
+// Asks for the reason the vendor will be shown before rejecting a registration or product.
+export default function RejectDialog({ open, onOpenChange, subject, onSubmit }: RejectDialogProps) {
+  const [reason, setReason] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setReason("")
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    setIsSaving(true)
+    try {
+      await onSubmit(reason.trim())
+      onOpenChange(false)
+    } catch {
+      // `onSubmit` reports the failure; stay open so the reason isn't lost
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Reject {subject}</DialogTitle>
+            <DialogDescription>The vendor sees this reason and can fix the problem and resubmit.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="rejectionReason">Reason</Label>
+            <Textarea
+              id="rejectionReason"
+              value={reason}
+              maxLength={MAX_REJECTION_REASON_LENGTH}
+              rows={4}
+              placeholder="e.g. The GST certificate is unreadable."
+              onChange={(e) => setReason(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSaving || !reason.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
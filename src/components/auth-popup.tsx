@@ -12,6 +12,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Loader2, AlertCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { v4 as uuidv4 } from "uuid" // Import uuid for address IDs
+import { mergeGuestCart } from "@/lib/guest-cart"
 
 interface Address {
   id: string
@@ -68,6 +69,17 @@ export default function AuthPopup({ isOpen, onClose, onSuccess, mode = "auth", i
     }
   }, [mode, initialEmail])
 
+  // Whatever the visitor put in their cart before logging in carries over to their account
+  const carryOverGuestCart = async (userId: string) => {
+    try {
+      const { merged } = await mergeGuestCart(userId)
+      return merged > 0 ? ` ${merged} item(s) from your visit are in your cart.` : ""
+    } catch (mergeError) {
+      console.error("Error merging the guest cart:", mergeError)
+      return ""
+    }
+  }
+
   const checkAndTransitionToProfileCompletion = async (userId: string) => {
     const { data: profileData, error: profileError } = await supabase
       .from("user_profiles")
@@ -113,11 +125,12 @@ export default function AuthPopup({ isOpen, onClose, onSuccess, mode = "auth", i
       const { data, error: signInError } = await supabase.auth.signInWithPassword({ email, password })
       if (signInError) throw signInError
 
+      const cartNote = await carryOverGuestCart(data.user!.id)
       const needsCompletion = await checkAndTransitionToProfileCompletion(data.user!.id)
       if (!needsCompletion) {
         toast({
           title: "Logged in successfully!",
-          description: "Welcome back.",
+          description: `Welcome back.${cartNote}`,
           variant: "default",
         })
         onSuccess()
@@ -142,6 +155,9 @@ export default function AuthPopup({ isOpen, onClose, onSuccess, mode = "auth", i
       const { data, error: signUpError } = await supabase.auth.signUp({ email, password })
       if (signUpError) throw signUpError
 
+      // Without email confirmation the new account is signed in straight away
+      if (data.session) await carryOverGuestCart(data.user!.id)
+
       // For new registrations, ensure a profile entry exists and then prompt for completion
       const needsCompletion = await checkAndTransitionToProfileCompletion(data.user!.id)
       if (!needsCompletion) {
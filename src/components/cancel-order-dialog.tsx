@@ -0,0 +1,85 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Textarea } from "@/components/ui/textarea"
+import { MAX_CANCELLATION_REASON_LENGTH } from "@/lib/cancellations"
+
+interface CancelOrderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  description: string
+  reasons: string[]
+  confirmLabel: string
+  isLoading: boolean
+  onConfirm: (reason: string) => void
+}
+
+// Asks for the reason behind a cancellation (customer) or rejection (vendor). Picking "Other"
+// requires a few words of explanation; for the rest the details are optional.
+export default function CancelOrderDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  reasons,
+  confirmLabel,
+  isLoading,
+  onConfirm,
+}: CancelOrderDialogProps) {
+  const [selectedReason, setSelectedReason] = useState("")
+  const [details, setDetails] = useState("")
+
+  useEffect(() => {
+    if (open) {
+      setSelectedReason("")
+      setDetails("")
+    }
+  }, [open])
+
+  const needsDetails = selectedReason === "Other"
+  const reason = needsDetails
+    ? details.trim()
+    : [selectedReason, details.trim()].filter(Boolean).join(": ")
+  const canConfirm = Boolean(selectedReason) && (!needsDetails || Boolean(details.trim()))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={selectedReason} onValueChange={setSelectedReason} className="space-y-1">
+          {reasons.map((option) => (
+            <Label key={option} className="flex items-center space-x-2 p-2 border rounded-md cursor-pointer hover:bg-gray-50">
+              <RadioGroupItem value={option} />
+              <span>{option}</span>
+            </Label>
+          ))}
+        </RadioGroup>
+        <Textarea
+          value={details}
+          onChange={(event) => setDetails(event.target.value)}
+          maxLength={MAX_CANCELLATION_REASON_LENGTH - 100}
+          placeholder={needsDetails ? "Please describe the reason" : "Anything else we should know? (optional)"}
+          rows={3}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Keep Order
+          </Button>
+          <Button variant="destructive" onClick={() => onConfirm(reason)} disabled={!canConfirm || isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
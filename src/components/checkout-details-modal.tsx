@@ -7,26 +7,49 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Loader2, X, MapPin, User, Phone, Globe, Home, Building } from "lucide-react"
+import { Loader2, X, MapPin, User, Phone, Globe, Home, Building, Tag } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import RazorpayPayment from "./razorpay-payment" // Assuming this component exists
 import { v4 as uuidv4 } from "uuid" // Import uuid for address IDs
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Separator } from "@/components/ui/separator" // Import Separator for professional look
+import { apiFetch } from "@/lib/api-client"
+import { calculateCompanyTotals, calculateOrderTotals } from "@/lib/order-pricing"
+import { checkCodEligibility, COD_SETTINGS_COLUMNS, type CompanyCodSettings } from "@/lib/cod"
+import { useShippingRates } from "@/hooks/use-shipping-rates"
+import ShippingBreakdown from "@/components/shipping-breakdown"
+import { calculateSellerGst, type TaxableLine } from "@/lib/gst"
+import type {
+  CreateCheckoutOrderResponse,
+  CreateCodOrderResponse,
+  PaymentMethod,
+  ShippingDetails,
+  ValidateCouponResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+} from "@/lib/checkout"
 
 interface CheckoutItem {
   productId: string
   productName: string
   quantity: number
   price_at_add: number
+  companyId?: string | null // Each company's items are shipped (and charged shipping) separately
+}
+
+interface ProductTaxRow {
+  id: string
+  hsn_code: string | null
+  gst_rate: number | null
+  companies: { gst_number: string | null } | { gst_number: string | null }[] | null
 }
 
 interface CheckoutDetailsModalProps {
   isOpen: boolean
   onClose: () => void
   items: CheckoutItem[]
-  onOrderSuccess: () => void // Callback to clear cart etc.
+  onOrderSuccess: (orderId: string) => void // Callback to clear cart etc.
 }
 
 // Define the Address interface here for now
@@ -51,8 +74,17 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [showRazorpay, setShowRazorpay] = useState(false)
-  const [orderId, setOrderId] = useState("") // Internal order ID before Razorpay provides one
+  // Server-created order the Razorpay widget is opened for; null while the form is being filled
+  const [checkoutOrder, setCheckoutOrder] = useState<CreateCheckoutOrderResponse | null>(null)
+  // Addresses to persist to the profile once the payment has been verified
+  const [pendingProfileAddresses, setPendingProfileAddresses] = useState<Address[] | null>(null)
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("razorpay")
+  const [codCompanies, setCodCompanies] = useState<CompanyCodSettings[]>([])
+  const [couponInput, setCouponInput] = useState("")
+  const [appliedCoupon, setAppliedCoupon] = useState<ValidateCouponResponse | null>(null)
+  const [couponLoading, setCouponLoading] = useState(false)
+  const [couponError, setCouponError] = useState<string | null>(null)
+  const [productTax, setProductTax] = useState<Record<string, ProductTaxRow>>({})
 
   // Form states
   const [userName, setUserName] = useState("")
@@ -72,10 +104,82 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
   const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null)
   const [showNewAddressForm, setShowNewAddressForm] = useState(false)
 
-  const subtotal = items.reduce((sum, item) => sum + item.price_at_add * item.quantity, 0)
-  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0) // Calculate total quantity
-  const shippingFee = subtotal > 0 && subtotal < 1000 ? 99 : 0 // Example: Free shipping over ₹1000
-  const totalAmount = subtotal + shippingFee
+  // Display only; the server re-prices every item when the order is created
+  const { parcels, companies: shippingCompanies } = useShippingRates(items.map((item) => item.productId))
+  const pricedLines = items.map((item) => ({
+    unitPrice: item.price_at_add,
+    quantity: item.quantity,
+    companyId: item.companyId,
+    parcel: parcels[item.productId],
+  }))
+  const pricingOptions = {
+    discounts: appliedCoupon ? new Map(Object.entries(appliedCoupon.discounts)) : undefined,
+    shipping: { companies: shippingCompanies, pincode },
+  }
+  const { subtotal, discount, shippingFee, totalAmount } = calculateOrderTotals(pricedLines, pricingOptions)
+  const companyTotals = calculateCompanyTotals(pricedLines, pricingOptions)
+  // Prices include GST; show the buyer how much of the total is tax
+  const gstBreakdowns = state.trim()
+    ? companyTotals.map((totals) => {
+        const companyItems = items.filter((item) => (item.companyId ?? null) === totals.companyId)
+        const itemLines = companyItems.map<TaxableLine>((item) => ({
+          description: item.productName,
+          hsnCode: productTax[item.productId]?.hsn_code ?? null,
+          gstRate: Number(productTax[item.productId]?.gst_rate) || 0,
+          quantity: item.quantity,
+          amount: item.price_at_add * item.quantity,
+        }))
+        const seller = productTax[companyItems[0]?.productId]?.companies
+        const sellerGstin = (Array.isArray(seller) ? seller[0] : seller)?.gst_number ?? null
+        return calculateSellerGst(itemLines, totals, sellerGstin, state)
+      })
+    : []
+  const gstTotals = gstBreakdowns.reduce(
+    (sum, gst) => ({ cgst: sum.cgst + gst.cgst, sgst: sum.sgst + gst.sgst, igst: sum.igst + gst.igst }),
+    { cgst: 0, sgst: 0, igst: 0 },
+  )
+  const totalTax = gstTotals.cgst + gstTotals.sgst + gstTotals.igst
+  const codEligibility = pincode.trim()
+    ? checkCodEligibility(codCompanies, companyTotals, pincode)
+    : { eligible: false as const, reason: "Enter a delivery pincode to check Cash on Delivery." }
+
+  // COD settings of every company in the order, to tell the buyer up front whether COD is offered
+  useEffect(() => {
+    const companyIds = Array.from(new Set(items.map((item) => item.companyId).filter((id): id is string => Boolean(id))))
+    if (!isOpen || companyIds.length === 0) return
+
+    const fetchCodSettings = async () => {
+      const { data, error: codError } = await supabase.from("companies").select(COD_SETTINGS_COLUMNS).in("id", companyIds)
+      if (codError) {
+        console.error("Error fetching COD settings:", codError)
+        return
+      }
+      setCodCompanies((data || []) as CompanyCodSettings[])
+    }
+    fetchCodSettings()
+  }, [isOpen, items])
+
+  useEffect(() => {
+    const productIds = items.map((item) => item.productId)
+    if (!isOpen || productIds.length === 0) return
+
+    const fetchProductTax = async () => {
+      const { data, error: taxError } = await supabase
+        .from("products")
+        .select("id, hsn_code, gst_rate, companies ( gst_number )")
+        .in("id", productIds)
+      if (taxError) {
+        console.error("Error fetching GST details:", taxError)
+        return
+      }
+      setProductTax(Object.fromEntries(((data || []) as ProductTaxRow[]).map((product) => [product.id, product])))
+    }
+    fetchProductTax()
+  }, [isOpen, items])
+
+  useEffect(() => {
+    if (paymentMethod === "cod" && !codEligibility.eligible) setPaymentMethod("razorpay")
+  }, [paymentMethod, codEligibility.eligible])
 
   // Fetch user profile data to prefill form and addresses
   useEffect(() => {
@@ -174,28 +278,6 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
     }
 
     setLoading(true)
-    // Generate a unique order ID (for internal tracking before Razorpay provides one)
-    const tempOrderId = `order_${Date.now()}_${Math.floor(Math.random() * 1000)}`
-    setOrderId(tempOrderId)
-    setShowRazorpay(true)
-    setLoading(false)
-  }
-
-  const handlePaymentSuccess = async (response: any) => {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession()
-    const currentUserId = session?.user?.id
-
-    if (!currentUserId) {
-      toast({
-        title: "Authentication Error",
-        description: "User not logged in. Please log in and try again.",
-        variant: "destructive",
-      })
-      return
-    }
-
     try {
       // Auto fetch current location
       const location = await getCurrentLocation().catch(() => ({ lat: 0, lng: 0 }))
@@ -241,58 +323,122 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
         throw new Error("No shipping address found or selected.")
       }
 
-      // Update user profile with latest shipping details in the 'addresses' JSONB array
-      const { error: profileUpdateError } = await supabase
-        .from("user_profiles")
-        .update({
-          name: userName, // Also update user's main name
-          phone: primaryPhone, // Also update user's main phone
-          addresses: updatedAddressesForProfile, // Save the updated addresses array
-        })
-        .eq("id", currentUserId)
-
-      if (profileUpdateError) {
-        console.error("Error updating user profile after purchase:", profileUpdateError)
-        // Don't throw, as the purchase itself was successful
+      const orderRequest = {
+        // The server refuses the order if a price has moved from what is shown here
+        items: items.map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          expectedUnitPrice: item.price_at_add,
+        })),
+        shipping: {
+          customerName: userName,
+          primaryPhone,
+          secondaryPhone: secondaryPhone || null,
+          country: currentShippingAddress.country,
+          state: currentShippingAddress.state,
+          city: currentShippingAddress.city,
+          pincode: currentShippingAddress.pincode,
+          area: currentShippingAddress.area,
+          street: currentShippingAddress.street,
+          houseNumber: currentShippingAddress.houseNumber,
+          location: { lat: currentShippingAddress.lat, lng: currentShippingAddress.lng },
+        } satisfies ShippingDetails,
+        couponCode: appliedCoupon?.code ?? null,
       }
 
-      // Prepare order items data from the current `items` prop
-      const orderItemsData = items.map((item) => ({
-        id: uuidv4(), // Generate unique ID for each order item
-        product_id: item.productId,
-        quantity: item.quantity,
-        price_at_purchase: item.price_at_add,
-        created_at: new Date().toISOString(),
-      }))
-
-      // Prepare order data for Supabase
-      const orderData = {
-        user_id: currentUserId,
-        total_amount: totalAmount,
-        payment_id: response.razorpay_payment_id || null,
-        order_id: response.razorpay_order_id || orderId, // Use Razorpay order_id if available, else fallback to tempOrderId
-        signature: response.razorpay_signature || null,
-        status: "confirmed",
-        purchase_time: new Date().toISOString(),
-        customer_name: userName,
-        primary_phone: primaryPhone,
-        secondary_phone: secondaryPhone || null,
-        country: currentShippingAddress.country,
-        state: currentShippingAddress.state,
-        city: currentShippingAddress.city,
-        pincode: currentShippingAddress.pincode,
-        area: currentShippingAddress.area,
-        street: currentShippingAddress.street,
-        house_number: currentShippingAddress.houseNumber,
-        location: { lat: currentShippingAddress.lat, lng: currentShippingAddress.lng },
-        order_items: orderItemsData, // Store order items directly in the orders table
+      if (paymentMethod === "cod") {
+        // Nothing to collect now; the server re-checks COD eligibility and places the order directly
+        const { orderId } = await apiFetch<CreateCodOrderResponse>("/api/payments/cod/order", orderRequest)
+        await saveProfileAddresses(updatedAddressesForProfile)
+        toast({
+          title: "Order placed!",
+          description: `Please keep ₹${totalAmount.toFixed(2)} ready to pay on delivery.`,
+          variant: "default",
+        })
+        onClose()
+        onOrderSuccess(orderId)
+        return
       }
 
-      // Insert order data into Supabase
-      const { data: newOrder, error: orderError } = await supabase.from("orders").insert([orderData]).select().single()
+      // The server prices the items, creates the Razorpay order and a pending order row
+      const order = await apiFetch<CreateCheckoutOrderResponse>("/api/payments/razorpay/order", orderRequest)
+
+      setPendingProfileAddresses(updatedAddressesForProfile)
+      setCheckoutOrder(order)
+    } catch (err) {
+      console.error("Error creating order:", err)
+      const message = err instanceof Error ? err.message : "Could not create your order. Please try again."
+      setError(message)
+      toast({
+        title: "Order Error",
+        description: message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return
+    setCouponLoading(true)
+    setCouponError(null)
+    try {
+      const coupon = await apiFetch<ValidateCouponResponse>("/api/coupons/validate", {
+        code: couponInput,
+        items: items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      })
+      setAppliedCoupon(coupon)
+      setCouponInput(coupon.code)
+    } catch (err) {
+      setAppliedCoupon(null)
+      setCouponError(err instanceof Error ? err.message : "Could not apply this coupon.")
+    } finally {
+      setCouponLoading(false)
+    }
+  }
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null)
+    setCouponInput("")
+    setCouponError(null)
+  }
+
+  // Remember the delivery address (and name/phone) on the profile once an order has gone through
+  const saveProfileAddresses = async (addresses: Address[]) => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+    const currentUserId = session?.user?.id
+    if (!currentUserId) return
+
+    // Update user profile with latest shipping details in the 'addresses' JSONB array
+    const { error: profileUpdateError } = await supabase
+      .from("user_profiles")
+      .update({
+        name: userName, // Also update user's main name
+        phone: primaryPhone, // Also update user's main phone
+        addresses, // Save the updated addresses array
+      })
+      .eq("id", currentUserId)
+
+    if (profileUpdateError) {
+      console.error("Error updating user profile after purchase:", profileUpdateError)
+      // Don't throw, as the purchase itself was successful
+    }
+  }
+
+  const handlePaymentSuccess = async (response: VerifyPaymentRequest) => {
+    try {
+      // The order is only confirmed once the server has checked the signature with Razorpay
+      const { orderId } = await apiFetch<VerifyPaymentResponse>("/api/payments/razorpay/verify", {
+        razorpay_order_id: response.razorpay_order_id,
+        razorpay_payment_id: response.razorpay_payment_id,
+        razorpay_signature: response.razorpay_signature,
+      })
 
-      if (orderError || !newOrder) {
-        throw orderError || new Error("Failed to create order record.")
+      if (pendingProfileAddresses) {
+        await saveProfileAddresses(pendingProfileAddresses)
       }
 
       toast({
@@ -300,21 +446,35 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
         description: "Your order has been placed.",
         variant: "default",
       })
-      setShowRazorpay(false)
+      setCheckoutOrder(null)
       onClose() // Close the modal
-      onOrderSuccess() // Trigger callback to clear cart etc.
-    } catch (err: any) {
-      console.error("Error creating order:", err)
+      onOrderSuccess(orderId) // Trigger callback to clear cart etc.
+    } catch (err) {
+      console.error("Error verifying payment:", err)
       toast({
         title: "Order Error",
         description:
-          err.message || "Payment was successful, but there was an error creating your order. Please contact support.",
+          (err instanceof Error && err.message) ||
+          "Payment was successful, but there was an error confirming your order. Please contact support.",
         variant: "destructive",
       })
-      setShowRazorpay(false)
+      setCheckoutOrder(null)
     }
   }
 
+  // Hands the reserved stock back when checkout ends without a payment
+  const releaseCheckout = (order: CreateCheckoutOrderResponse | null) => {
+    setCheckoutOrder(null)
+    if (!order) return
+    apiFetch("/api/payments/razorpay/abandon", { orderId: order.orderId }).catch((err) =>
+      console.error("Error releasing reserved stock:", err),
+    )
+  }
+
+  const handlePaymentDismiss = () => {
+    releaseCheckout(checkoutOrder)
+  }
+
   const handlePaymentFailure = (err: any) => {
     console.error("Payment failed:", err)
     toast({
@@ -322,7 +482,7 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
       description: `Payment failed: ${err.description || "Unknown error"}`,
       variant: "destructive",
     })
-    setShowRazorpay(false)
+    releaseCheckout(checkoutOrder)
   }
 
   const handleAddressSelectionChange = (value: string) => {
@@ -618,33 +778,120 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
             
             <Separator className="my-3" />
 
+            {/* Coupon */}
+            <div className="space-y-2 mb-4">
+              {appliedCoupon ? (
+                <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                  <span className="flex items-center gap-2 text-green-700">
+                    <Tag className="h-4 w-4" />
+                    <span className="font-semibold">{appliedCoupon.code}</span>
+                    {appliedCoupon.description && <span className="text-green-600">{appliedCoupon.description}</span>}
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={handleRemoveCoupon} disabled={loading}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Coupon code"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                    className="h-10"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleApplyCoupon}
+                    disabled={couponLoading || !couponInput.trim()}
+                  >
+                    {couponLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                  </Button>
+                </div>
+              )}
+              {couponError && <p className="text-sm text-red-600">{couponError}</p>}
+            </div>
+
             {/* Final Totals */}
             <div className="space-y-2 text-gray-700">
               <div className="flex justify-between">
                 <span>Subtotal</span>
                 <span>₹{subtotal.toFixed(2)}</span>
               </div>
+              {discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Coupon Discount</span>
+                  <span>-₹{discount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span>Shipping Fee</span>
                 <span>{shippingFee === 0 ? "Free" : `₹${shippingFee.toFixed(2)}`}</span>
               </div>
+              <ShippingBreakdown companyTotals={companyTotals} companies={shippingCompanies} />
               <div className="flex justify-between font-bold text-xl text-gray-900 pt-2 border-t border-gray-200">
                 <span>Total Payable</span>
                 <span>₹{totalAmount.toFixed(2)}</span>
               </div>
+              {totalTax > 0 && (
+                <p className="text-xs text-gray-500 text-right">
+                  Includes GST ₹{totalTax.toFixed(2)} (
+                  {[
+                    gstTotals.cgst > 0 && `CGST ₹${gstTotals.cgst.toFixed(2)}`,
+                    gstTotals.sgst > 0 && `SGST ₹${gstTotals.sgst.toFixed(2)}`,
+                    gstTotals.igst > 0 && `IGST ₹${gstTotals.igst.toFixed(2)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" + ")}
+                  )
+                </p>
+              )}
             </div>
           </div>
 
+          {/* Payment Method */}
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900">Payment Method</h3>
+            <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+              <Label
+                htmlFor="payment-razorpay"
+                className="flex items-center space-x-2 p-3 border rounded-md cursor-pointer hover:bg-gray-50"
+              >
+                <RadioGroupItem value="razorpay" id="payment-razorpay" />
+                <span className="font-medium">Pay Online (Cards, UPI, Netbanking)</span>
+              </Label>
+              <Label
+                htmlFor="payment-cod"
+                className={`flex items-center space-x-2 p-3 border rounded-md ${
+                  codEligibility.eligible ? "cursor-pointer hover:bg-gray-50" : "opacity-60 cursor-not-allowed"
+                }`}
+              >
+                <RadioGroupItem value="cod" id="payment-cod" disabled={!codEligibility.eligible} />
+                <div className="flex flex-col">
+                  <span className="font-medium">Cash on Delivery</span>
+                  {!codEligibility.eligible && <span className="text-xs text-gray-500">{codEligibility.reason}</span>}
+                </div>
+              </Label>
+            </RadioGroup>
+          </div>
+
           <Button type="submit" className="w-full h-11 bg-green-600 hover:bg-green-700" disabled={loading}>
             {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-            {loading ? "Processing..." : `Proceed to Payment (₹${totalAmount.toFixed(2)})`}
+            {loading
+              ? "Processing..."
+              : paymentMethod === "cod"
+                ? `Place Order (₹${totalAmount.toFixed(2)} on Delivery)`
+                : `Proceed to Payment (₹${totalAmount.toFixed(2)})`}
           </Button>
         </form>
       </DialogContent>
 
-      {showRazorpay && (
+      {checkoutOrder && (
         <RazorpayPayment
-          amount={totalAmount}
+          keyId={checkoutOrder.keyId}
+          amount={checkoutOrder.amount}
+          currency={checkoutOrder.currency}
+          orderId={checkoutOrder.razorpayOrderId}
           name={userName || "Customer"}
           description={`Order from Organixa`}
           image="/placeholder.svg" // Use a generic logo or company logo
@@ -655,6 +902,7 @@ export default function CheckoutDetailsModal({ isOpen, onClose, items, onOrderSu
           }}
           onSuccess={handlePaymentSuccess}
           onFailure={handlePaymentFailure}
+          onDismiss={handlePaymentDismiss}
         />
       )}
     </Dialog>
@@ -16,60 +16,12 @@ import { AlertCircle, Plus, Upload, X, Loader2, Camera, Video, CheckCircle2, Eye
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useToast } from "@/hooks/use-toast"
 import { cn } from "@/lib/utils"
+import { GST_RATES } from "@/lib/gst"
+import { useCategories } from "@/hooks/use-categories"
+import type { ProductCategory } from "@/lib/categories"
 
 const availableNutrients = ["Protein", "Fat", "Carbs", "Fiber", "Calcium", "Iron", "Vitamin C", "Vitamin D"]
 
-const categoryOptions: { [key: string]: string[] } = {
-  "Organic Groceries & Superfoods": [
-    "Organic Staples & Grains",
-    "Cold-Pressed Oils & Ghee",
-    "Organic Spices & Condiments",
-    "Superfoods & Immunity Boosters",
-    "Natural Sweeteners",
-    "Organic Snacks & Beverages",
-    "Dairy & Plant-Based Alternatives",
-  ],
-  "Herbal & Natural Personal Care": [
-    "Organic Skincare",
-    "Herbal Haircare",
-    "Natural Oral Care",
-    "Chemical-Free Cosmetics",
-    "Organic Fragrances",
-  ],
-  "Health & Wellness Products": [
-    "Ayurvedic & Herbal Supplements",
-    "Nutritional Supplements",
-    "Detox & Gut Health",
-    "Immunity Boosters",
-    "Essential Oils & Aromatherapy",
-  ],
-  "Sustainable Home & Eco-Friendly Living": [
-    "Organic Cleaning Products",
-    "Reusable & Biodegradable Kitchen Essentials",
-    "Organic Gardening",
-    "Sustainable Home Décor",
-  ],
-  "Sustainable Fashion & Accessories": [
-    "Organic Cotton & Hemp Clothing",
-    "Eco-Friendly Footwear",
-    "Bamboo & Wooden Accessories",
-    "Handmade & Sustainable Jewelry",
-  ],
-  "Organic Baby & Kids Care": [
-    "Organic Baby Food",
-    "Natural Baby Skincare",
-    "Eco-Friendly Baby Clothing",
-    "Non-Toxic Toys & Accessories",
-  ],
-  "Organic Pet Care": ["Organic Pet Food", "Herbal Grooming & Skincare", "Natural Pet Supplements"],
-  "Special Dietary & Lifestyle Products": [
-    "Gluten-Free Foods",
-    "Vegan & Plant-Based Alternatives",
-    "Keto & Low-Carb Products",
-    "Diabetic-Friendly Foods",
-  ],
-}
-
 // Define a common interface for product form data
 export interface ProductFormData {
   productName: string
@@ -77,6 +29,8 @@ export interface ProductFormData {
   originalPrice: string
   discountPrice: string
   stockQuantity: string
+  hsnCode: string
+  gstRate: string
   weight: string
   weightUnit: string
   length: string
@@ -84,7 +38,7 @@ export interface ProductFormData {
   height: string
   dimensionUnit: string
   nutrients: Array<{ name: string; value: string }>
-  categories: Array<{ main: string; sub: string }>
+  categories: ProductCategory[]
   // For existing files, we'll need to pass their URLs
   existingProductPhotoUrls?: string[]
   existingProductVideoUrl?: string | null
@@ -136,6 +90,8 @@ export function AddEditProductForm({
       originalPrice: "",
       discountPrice: "",
       stockQuantity: "",
+      hsnCode: "",
+      gstRate: "0",
       weight: "",
       weightUnit: "kg",
       length: "",
@@ -155,6 +111,8 @@ export function AddEditProductForm({
         originalPrice: initialProductData.originalPrice,
         discountPrice: initialProductData.discountPrice,
         stockQuantity: initialProductData.stockQuantity,
+        hsnCode: initialProductData.hsnCode,
+        gstRate: initialProductData.gstRate,
         weight: initialProductData.weight,
         weightUnit: initialProductData.weightUnit,
         length: initialProductData.length,
@@ -185,9 +143,18 @@ export function AddEditProductForm({
   // Local states for nutrient and category selection.
   const [selectedNutrient, setSelectedNutrient] = useState(availableNutrients[0])
   const [nutrientValue, setNutrientValue] = useState("")
-  const mainCategoryKeys = Object.keys(categoryOptions)
-  const [selectedMainCategory, setSelectedMainCategory] = useState(mainCategoryKeys[0])
-  const [selectedSubCategory, setSelectedSubCategory] = useState(categoryOptions[mainCategoryKeys[0]][0])
+  const { categories: categoryTree } = useCategories()
+  const [selectedMainSlug, setSelectedMainSlug] = useState("")
+  const [selectedSubSlug, setSelectedSubSlug] = useState("")
+  const selectedMainCategory = categoryTree.find((main) => main.slug === selectedMainSlug)
+  const selectedSubCategory = selectedMainCategory?.children.find((sub) => sub.slug === selectedSubSlug)
+
+  // Start on the first category once they have loaded
+  useEffect(() => {
+    if (selectedMainSlug || categoryTree.length === 0) return
+    setSelectedMainSlug(categoryTree[0].slug)
+    setSelectedSubSlug(categoryTree[0].children[0]?.slug || "")
+  }, [categoryTree, selectedMainSlug])
 
   // Watch current form values for preview.
   const watchedValues = watch()
@@ -330,15 +297,21 @@ export function AddEditProductForm({
 
   // Handler for adding a category.
   const handleAddCategory = () => {
-    if (categoryFields.find((cat) => cat.main === selectedMainCategory && cat.sub === selectedSubCategory)) {
+    if (!selectedMainCategory || !selectedSubCategory) return
+    if (categoryFields.find((cat) => cat.subSlug === selectedSubCategory.slug)) {
       toast({
         title: "Category already added",
-        description: `${selectedMainCategory} > ${selectedSubCategory} is already in the list`,
+        description: `${selectedMainCategory.name} > ${selectedSubCategory.name} is already in the list`,
         variant: "destructive",
       })
       return
     }
-    appendCategory({ main: selectedMainCategory, sub: selectedSubCategory })
+    appendCategory({
+      main: selectedMainCategory.name,
+      sub: selectedSubCategory.name,
+      mainSlug: selectedMainCategory.slug,
+      subSlug: selectedSubCategory.slug,
+    })
     setError("")
   }
 
@@ -524,6 +497,60 @@ export function AddEditProductForm({
           </CardContent>
         </Card>
 
+        {/* Tax */}
+        <Card className="rounded-2xl shadow-xl border-0 bg-gradient-to-br from-green-50 via-white to-blue-50">
+          <CardHeader>
+            <CardTitle className="text-xl">Tax</CardTitle>
+            <CardDescription>Used to work out GST on orders and to print your tax invoices.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="hsnCode" className="text-sm font-medium">
+                HSN Code
+              </Label>
+              <Input
+                id="hsnCode"
+                {...register("hsnCode", {
+                  pattern: { value: /^\s*(\d{4}|\d{6}|\d{8})?\s*$/, message: "HSN code must be 4, 6 or 8 digits" },
+                })}
+                placeholder="e.g. 0910"
+                className={cn(
+                  "h-11 transition-all duration-200",
+                  errors.hsnCode && "border-red-500 focus:border-red-500",
+                )}
+              />
+              {errors.hsnCode && (
+                <p className="text-red-500 text-sm flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4" />
+                  {errors.hsnCode.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">GST Rate *</Label>
+              <Controller
+                control={control}
+                name="gstRate"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="w-full h-11">
+                      <SelectValue placeholder="GST rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <p className="text-xs text-gray-500">Your prices are treated as inclusive of this rate.</p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Dimensions */}
         <Card className="rounded-2xl shadow-xl border-0 bg-gradient-to-br from-green-50 via-white to-blue-50">
           <CardHeader>
@@ -756,38 +783,38 @@ export function AddEditProductForm({
               <div className="flex flex-col gap-3">
                 <div className="flex flex-col sm:flex-row gap-3 w-full">
                   <Select
-                    value={selectedMainCategory}
+                    value={selectedMainSlug}
                     onValueChange={(value) => {
-                      setSelectedMainCategory(value)
-                      setSelectedSubCategory(categoryOptions[value][0])
+                      setSelectedMainSlug(value)
+                      setSelectedSubSlug(categoryTree.find((main) => main.slug === value)?.children[0]?.slug || "")
                     }}
                   >
                     <SelectTrigger className="w-full sm:w-1/2 h-11">
                       <SelectValue placeholder="Main category" />
                     </SelectTrigger>
                     <SelectContent>
-                      {mainCategoryKeys.map((main) => (
-                        <SelectItem key={main} value={main}>
-                          {main}
+                      {categoryTree.map((main) => (
+                        <SelectItem key={main.slug} value={main.slug}>
+                          {main.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
-                  <Select value={selectedSubCategory} onValueChange={setSelectedSubCategory}>
+                  <Select value={selectedSubSlug} onValueChange={setSelectedSubSlug}>
                     <SelectTrigger className="w-full sm:w-1/2 h-11">
                       <SelectValue placeholder="Sub category" />
                     </SelectTrigger>
                     <SelectContent>
-                      {categoryOptions[selectedMainCategory].map((sub) => (
-                        <SelectItem key={sub} value={sub}>
-                          {sub}
+                      {(selectedMainCategory?.children || []).map((sub) => (
+                        <SelectItem key={sub.slug} value={sub.slug}>
+                          {sub.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
                 {/* Add button below dropdowns on small screens for cleaner flow */}
-                <Button type="button" onClick={handleAddCategory} className="w-full sm:w-auto h-11 bg-gradient-to-r from-blue-500 to-green-400 text-white font-semibold border-0 rounded-lg shadow-md hover:scale-105 hover:from-green-400 hover:to-blue-500 transition-transform duration-200">
+                <Button type="button" onClick={handleAddCategory} disabled={!selectedSubCategory} className="w-full sm:w-auto h-11 bg-gradient-to-r from-blue-500 to-green-400 text-white font-semibold border-0 rounded-lg shadow-md hover:scale-105 hover:from-green-400 hover:to-blue-500 transition-transform duration-200">
                   <Plus className="h-4 w-4 mr-2" />
                   Add
                 </Button>
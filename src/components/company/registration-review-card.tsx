@@ -0,0 +1,135 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { v4 as uuidv4 } from "uuid"
+import { Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import ReviewStatusBadge from "@/components/review-status-badge"
+import { useToast } from "@/hooks/use-toast"
+import { supabase } from "@/lib/supabase"
+import { reviewStatus, type ReviewStatus } from "@/lib/admin"
+
+const DOCUMENTS_BUCKET = "company-documents"
+
+// Same layout as the registration form's uploads
+const DOCUMENT_FIELDS = [
+  { key: "certificate_url", folder: "certificates", label: "Registration certificate" },
+  { key: "iso_url", folder: "iso-certificates", label: "ISO certificate" },
+  { key: "company_logo_url", folder: "logos", label: "Logo" },
+] as const
+
+type DocumentKey = (typeof DOCUMENT_FIELDS)[number]["key"]
+
+const STATUS_DESCRIPTIONS: Record<ReviewStatus, string> = {
+  pending: "We're reviewing your registration. You can list products once it's approved.",
+  approved: "Your registration is approved.",
+  rejected: "Your registration wasn't approved. Upload corrected documents to send it for review again.",
+}
+
+// The company's registration review on the settings page, with re-upload of its documents after a
+// rejection.
+export default function RegistrationReviewCard({ companyId }: { companyId: string }) {
+  const [status, setStatus] = useState<ReviewStatus | null>(null)
+  const [rejectionReason, setRejectionReason] = useState<string | null>(null)
+  const [files, setFiles] = useState<Partial<Record<DocumentKey, File>>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const fetchReview = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("companies")
+      .select("is_approved, reviewed_at, rejection_reason")
+      .eq("id", companyId)
+      .single()
+    if (error) {
+      console.error("Error fetching the registration review:", error)
+      return
+    }
+    setStatus(reviewStatus(data))
+    setRejectionReason(data.rejection_reason)
+  }, [companyId])
+
+  useEffect(() => {
+    fetchReview()
+  }, [fetchReview])
+
+  const handleResubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      const update: Partial<Record<DocumentKey, string>> = {}
+      for (const field of DOCUMENT_FIELDS) {
+        const file = files[field.key]
+        if (!file) continue
+        const path = `${field.folder}/${uuidv4()}-${file.name}`
+        const { error: uploadError } = await supabase.storage.from(DOCUMENTS_BUCKET).upload(path, file, {
+          cacheControl: "3600",
+          upsert: false,
+        })
+        if (uploadError) throw uploadError
+        update[field.key] = supabase.storage.from(DOCUMENTS_BUCKET).getPublicUrl(path).data.publicUrl
+      }
+
+      // Changing the documents puts the registration back in the review queue
+      const { error } = await supabase.from("companies").update(update).eq("id", companyId)
+      if (error) throw error
+
+      setFiles({})
+      toast({ title: "Sent for review", description: "We'll email you once it has been reviewed." })
+      await fetchReview()
+    } catch (err) {
+      console.error("Error resubmitting the registration:", err)
+      toast({
+        title: "Upload Failed",
+        description: err instanceof Error ? err.message : "Could not upload your documents.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!status) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Registration</CardTitle>
+          <ReviewStatusBadge status={status} />
+        </div>
+        <CardDescription>{STATUS_DESCRIPTIONS[status]}</CardDescription>
+      </CardHeader>
+      {status === "rejected" && (
+        <CardContent>
+          <form onSubmit={handleResubmit} className="space-y-4">
+            {rejectionReason && (
+              <p className="text-sm text-red-700 p-3 bg-red-50 rounded-md border border-red-200">
+                Reason: {rejectionReason}
+              </p>
+            )}
+            {DOCUMENT_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`resubmit-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`resubmit-${field.key}`}
+                  type="file"
+                  accept={field.key === "company_logo_url" ? "image/*" : "image/*,application/pdf"}
+                  onChange={(e) => setFiles((prev) => ({ ...prev, [field.key]: e.target.files?.[0] }))}
+                />
+              </div>
+            ))}
+            <Button type="submit" disabled={isSubmitting || Object.values(files).every((file) => !file)}>
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Resubmit for Review
+            </Button>
+          </form>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
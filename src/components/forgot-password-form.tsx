@@ -0,0 +1,86 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { AlertCircle, Loader2, MailCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { apiFetch } from "@/lib/api-client"
+import type { PasswordResetRequest, PasswordResetResponse } from "@/lib/password-reset"
+
+// Asks for the account's email and sends a reset link to it.
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sent, setSent] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setLoading(true)
+    setError(null)
+    try {
+      await apiFetch<PasswordResetResponse>("/api/auth/password-reset", { email } satisfies PasswordResetRequest)
+      setSent(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the reset email. Please try again.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-50 p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl font-bold text-gray-900">Forgot Password</CardTitle>
+          <CardDescription className="text-gray-600">We&apos;ll email you a link to choose a new one</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sent ? (
+            <div className="flex items-start gap-3 text-sm text-green-800 p-3 bg-green-50 rounded-md border border-green-200">
+              <MailCheck className="h-5 w-5 flex-shrink-0" />
+              <p>
+                If <span className="font-medium">{email}</span> has an account, a reset link is on its way. It expires in
+                an hour.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="flex items-center gap-2 text-red-600 text-sm p-3 bg-red-50 rounded-md border border-red-200">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="m@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="h-11"
+                />
+              </div>
+              <Button type="submit" className="w-full h-11" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          )}
+          <p className="mt-6 text-center text-sm text-gray-600">
+            <Link href="/login" className="font-medium text-blue-600 hover:underline">
+              Back to login
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -12,6 +12,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Loader2, AlertCircle } from "lucide-react"
 import Link from "next/link"
 import { useToast } from "@/hooks/use-toast"
+import { mergeGuestCart } from "@/lib/guest-cart"
 
 export default function LoginForm() {
   const router = useRouter()
@@ -67,9 +68,16 @@ export default function LoginForm() {
       
       const userId = data.user?.id;
       if (!userId) throw new Error("Authentication succeeded but user ID is missing.");
+
+      // Carry over whatever they put in their cart before logging in
+      const cartMerge = await mergeGuestCart(userId).catch((mergeError) => {
+        console.error("Error merging the guest cart:", mergeError);
+        return null;
+      });
       
       toast({
         title: "Logged in successfully!",
+        description: cartMerge?.merged ? `${cartMerge.merged} item(s) from your visit are in your cart.` : undefined,
         variant: "success",
       })
       
@@ -143,7 +151,12 @@ export default function LoginForm() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link href="/forgot-password" className="text-sm text-blue-600 hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
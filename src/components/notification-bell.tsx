@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Bell, CheckCheck, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useNotifications } from "@/hooks/use-notifications"
+import { cn } from "@/lib/utils"
+import NotificationList from "@/components/notification-list"
+
+interface NotificationBellProps {
+  userId: string
+  className?: string
+}
+
+// Bell with the unread count; opens the latest notifications in a dropdown.
+export default function NotificationBell({ userId, className }: NotificationBellProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(userId, 10)
+
+  // Close on a click outside or Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [isOpen])
+
+  return (
+    <div ref={containerRef} className={cn("relative", className)}>
+      <button
+        type="button"
+        className="relative flex"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={isOpen}
+      >
+        <Bell className="w-6 h-6 text-gray-600 cursor-pointer hover:text-green-600 transition-colors hover:scale-110 transform duration-300" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 bg-red-600 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 sm:w-96 max-w-[calc(100vw-2rem)] rounded-lg border bg-white shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <span className="font-semibold text-gray-900">Notifications</span>
+            <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+              <CheckCheck className="h-4 w-4 mr-1" /> Mark all read
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications === null ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">You&apos;re all caught up.</p>
+            ) : (
+              <NotificationList
+                compact
+                notifications={notifications}
+                onOpen={(notification) => {
+                  if (!notification.read_at) markRead([notification.id])
+                  setIsOpen(false)
+                }}
+              />
+            )}
+          </div>
+          <Link
+            href="/notifications"
+            className="block px-4 py-2 text-sm text-center text-green-700 border-t hover:bg-gray-50"
+            onClick={() => setIsOpen(false)}
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import Link from "next/link"
+import { Bell, PackageCheck, ShoppingBag, Truck, TrendingDown } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Notification, NotificationType } from "@/lib/notifications"
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  price_drop: TrendingDown,
+  back_in_stock: PackageCheck,
+  order_update: Truck,
+  new_order: ShoppingBag,
+}
+
+interface NotificationListProps {
+  notifications: Notification[]
+  // Called when a notification is opened, before following its link
+  onOpen: (notification: Notification) => void
+  compact?: boolean
+}
+
+// Notifications newest first, unread ones highlighted. Used by the bell dropdown and /notifications.
+export default function NotificationList({ notifications, onOpen, compact = false }: NotificationListProps) {
+  return (
+    <ul className={cn(compact ? "divide-y" : "space-y-3")}>
+      {notifications.map((notification) => {
+        const Icon = NOTIFICATION_ICONS[notification.type] ?? Bell
+        const content = (
+          <div
+            className={cn(
+              "flex items-start gap-3 hover:bg-gray-50 transition-colors",
+              compact ? "px-4 py-3" : "p-4 border rounded-lg shadow-sm",
+              !notification.read_at && (compact ? "bg-green-50/60" : "border-green-200 bg-green-50/50"),
+            )}
+          >
+            <Icon className="h-5 w-5 mt-0.5 text-green-600 flex-shrink-0" />
+            <div className="flex-grow min-w-0">
+              <p className={cn("text-sm text-gray-900", !notification.read_at && "font-semibold")}>{notification.title}</p>
+              <p className={cn("text-sm text-gray-600", compact && "line-clamp-2")}>{notification.body}</p>
+              <p className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString("en-IN")}</p>
+            </div>
+            {!notification.read_at && <span className="h-2 w-2 mt-2 rounded-full bg-green-600 flex-shrink-0" />}
+          </div>
+        )
+        return (
+          <li key={notification.id}>
+            {notification.link ? (
+              <Link href={notification.link} onClick={() => onOpen(notification)} className="block">
+                {content}
+              </Link>
+            ) : (
+              <button type="button" onClick={() => onOpen(notification)} className="block w-full text-left">
+                {content}
+              </button>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
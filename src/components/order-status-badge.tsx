@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { formatOrderStatus, type OrderStatus } from "@/lib/order-lifecycle"
+
+const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-700",
+  payment_failed: "bg-red-100 text-red-700",
+  cod_pending: "bg-orange-100 text-orange-700",
+  confirmed: "bg-blue-100 text-blue-700",
+  payment_accepted: "bg-green-100 text-green-700",
+  preparing: "bg-yellow-100 text-yellow-700",
+  shipped: "bg-purple-100 text-purple-700",
+  delivered: "bg-green-100 text-green-700",
+  cancelled: "bg-red-100 text-red-700",
+  refunded: "bg-gray-100 text-gray-700",
+}
+
+// An order or sub-order status as the customer sees it.
+export default function OrderStatusBadge({ status, className }: { status: string; className?: string }) {
+  return (
+    <Badge
+      className={cn(
+        "px-3 py-1 font-medium",
+        STATUS_BADGE_CLASSES[status as OrderStatus] ?? "bg-gray-100 text-gray-700",
+        className,
+      )}
+    >
+      {formatOrderStatus(status)}
+    </Badge>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { AlertTriangle, Loader2, Pause, Play, Repeat, SkipForward, XCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { supabase } from "@/lib/supabase"
+import { apiFetch } from "@/lib/api-client"
+import {
+  SUBSCRIPTION_COLUMNS,
+  SUBSCRIPTION_FREQUENCY_LABELS,
+  type Subscription,
+  type SubscriptionAction,
+  type UpdateSubscriptionRequest,
+} from "@/lib/subscriptions"
+
+const ACTION_MESSAGES: Record<SubscriptionAction, string> = {
+  pause: "Subscription paused",
+  resume: "Subscription resumed",
+  skip: "Next delivery skipped",
+  cancel: "Subscription cancelled",
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" })
+
+// The customer's subscribe-and-save subscriptions on /profile, with pause, resume, skip and cancel.
+export default function ProfileSubscriptions({ userId }: { userId: string }) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[] | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const fetchSubscriptions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("subscriptions")
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq("user_id", userId)
+      .neq("status", "cancelled")
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching subscriptions:", error)
+      setSubscriptions([])
+      return
+    }
+    setSubscriptions(
+      (data || []).map((subscription) => ({
+        ...subscription,
+        products: Array.isArray(subscription.products) ? subscription.products[0] ?? null : subscription.products,
+      })) as Subscription[],
+    )
+  }, [userId])
+
+  useEffect(() => {
+    fetchSubscriptions()
+  }, [fetchSubscriptions])
+
+  const handleAction = async (subscription: Subscription, action: SubscriptionAction) => {
+    setPendingId(subscription.id)
+    try {
+      const updated = await apiFetch<Subscription>(`/api/subscriptions/${subscription.id}`, {
+        action,
+      } satisfies UpdateSubscriptionRequest)
+      setSubscriptions((prev) =>
+        (prev || [])
+          .map((existing) => (existing.id === updated.id ? updated : existing))
+          .filter((existing) => existing.status !== "cancelled"),
+      )
+      toast({ title: ACTION_MESSAGES[action] })
+    } catch (err) {
+      toast({
+        title: "Could not update the subscription",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" /> My Subscriptions
+        </CardTitle>
+        <CardDescription>Staples delivered on a schedule, paid for on delivery.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {subscriptions === null ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No subscriptions yet. Look for &quot;Subscribe &amp; Save&quot; on groceries, oils and other staples.
+          </p>
+        ) : (
+          subscriptions.map((subscription) => {
+            const product = subscription.products
+            const isPending = pendingId === subscription.id
+            return (
+              <div key={subscription.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start gap-3">
+                  <div className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-md border border-gray-200">
+                    <Image
+                      src={product?.product_photo_urls?.[0] || "/placeholder.svg"}
+                      alt={product?.product_name || "Product Image"}
+                      fill
+                      sizes="56px"
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0 text-sm text-gray-600">
+                    <Link href={`/product/${subscription.product_id}`} className="font-medium text-gray-900 hover:underline">
+                      {product?.product_name || "Product"}
+                    </Link>
+                    <p>
+                      {subscription.quantity} × {SUBSCRIPTION_FREQUENCY_LABELS[subscription.frequency].toLowerCase()} ·{" "}
+                      {Number(subscription.discount_percent)}% off
+                    </p>
+                    <p>
+                      To {subscription.address_label || subscription.shipping.city} ({subscription.shipping.pincode})
+                    </p>
+                  </div>
+                  <Badge variant={subscription.status === "active" ? "default" : "secondary"}>
+                    {subscription.status === "active" ? `Next: ${formatDate(subscription.next_run_on)}` : "Paused"}
+                  </Badge>
+                </div>
+
+                {subscription.last_error && (
+                  <p className="text-sm text-amber-700 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    The last delivery was missed: {subscription.last_error}
+                  </p>
+                )}
+                {subscription.last_order_id && (
+                  <Link href={`/orders/${subscription.last_order_id}`} className="text-sm text-green-700 hover:underline">
+                    View the latest order
+                  </Link>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {subscription.status === "active" ? (
+                    <>
+                      <Button variant="outline" size="sm" disabled={isPending} onClick={() => handleAction(subscription, "skip")}>
+                        <SkipForward className="h-4 w-4 mr-2" /> Skip Next
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={isPending} onClick={() => handleAction(subscription, "pause")}>
+                        <Pause className="h-4 w-4 mr-2" /> Pause
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="outline" size="sm" disabled={isPending} onClick={() => handleAction(subscription, "resume")}>
+                      <Play className="h-4 w-4 mr-2" /> Resume
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                    disabled={isPending}
+                    onClick={() => handleAction(subscription, "cancel")}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" /> Cancel
+                  </Button>
+                  {isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-500 self-center" />}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,8 +10,10 @@ declare global {
 }
 
 interface RazorpayPaymentProps {
-  amount: number
-  orderId?: string
+  keyId: string
+  amount: number // paise, as returned by /api/payments/razorpay/order
+  currency?: string
+  orderId: string
   name: string
   description: string
   image?: string
@@ -23,10 +25,13 @@ interface RazorpayPaymentProps {
   }
   onSuccess: (response: any) => void
   onFailure: (error: any) => void
+  onDismiss?: () => void // Buyer closed the widget without completing the payment
 }
 
 export default function RazorpayPayment({
+  keyId,
   amount,
+  currency = "INR",
   orderId,
   name,
   description,
@@ -34,15 +39,16 @@ export default function RazorpayPayment({
   prefill,
   onSuccess,
   onFailure,
+  onDismiss,
 }: RazorpayPaymentProps) {
   const [isReady, setIsReady] = useState(false)
 
   useEffect(() => {
     if (isReady) {
       const options = {
-        key: "rzp_test_0M6qo3zzUUkUCv", // Your Razorpay Key
-        amount: amount * 100, // Amount in paisa
-        currency: "INR",
+        key: keyId,
+        amount,
+        currency,
         name: name,
         description: description,
         image: image,
@@ -62,6 +68,9 @@ export default function RazorpayPayment({
         theme: {
           color: "#10b981", // emerald-600
         },
+        modal: {
+          ondismiss: () => onDismiss?.(),
+        },
       }
 
       const razorpay = new window.Razorpay(options)
@@ -70,7 +79,7 @@ export default function RazorpayPayment({
       })
       razorpay.open()
     }
-  }, [isReady, amount, orderId, name, description, image, prefill, onSuccess, onFailure])
+  }, [isReady, keyId, amount, currency, orderId, name, description, image, prefill, onSuccess, onFailure, onDismiss])
 
   return (
     <Script
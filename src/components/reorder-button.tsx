@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { apiFetch } from "@/lib/api-client"
+import { hasPriceChanged, REORDER_SKIP_LABELS, type ReorderRequest, type ReorderResponse } from "@/lib/reorder"
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`
+
+// Puts an order's items back in the cart, then lists what changed since it was placed: new prices,
+// smaller quantities and items that couldn't be added.
+export default function ReorderButton({ orderId, className }: { orderId: string; className?: string }) {
+  const [isReordering, setIsReordering] = useState(false)
+  const [result, setResult] = useState<ReorderResponse | null>(null)
+  const { toast } = useToast()
+
+  const handleReorder = async () => {
+    setIsReordering(true)
+    try {
+      setResult(await apiFetch<ReorderResponse>("/api/orders/reorder", { orderId } satisfies ReorderRequest))
+    } catch (err) {
+      toast({
+        title: "Reorder Failed",
+        description: err instanceof Error ? err.message : "Could not add the items to your cart.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsReordering(false)
+    }
+  }
+
+  const changed = result?.added.filter((item) => hasPriceChanged(item) || item.quantity < item.orderedQuantity) ?? []
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className={className} disabled={isReordering} onClick={handleReorder}>
+        {isReordering ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+        Reorder
+      </Button>
+      <Dialog open={result !== null} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {result?.added.length ? `${result.added.length} item(s) added to your cart` : "Nothing could be added"}
+            </DialogTitle>
+            <DialogDescription>
+              {result?.added.length
+                ? "Items are added at today's prices."
+                : "None of the items in this order are available right now."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {changed.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-800">Changed since you ordered</h4>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {changed.map((item) => (
+                  <li key={item.productId} className="flex justify-between gap-4">
+                    <span>{item.productName}</span>
+                    <span className="text-right whitespace-nowrap">
+                      {hasPriceChanged(item) && (
+                        <span className={item.currentPrice > item.priceAtPurchase ? "text-red-600" : "text-green-700"}>
+                          {formatAmount(item.priceAtPurchase)} → {formatAmount(item.currentPrice)}
+                        </span>
+                      )}
+                      {item.quantity < item.orderedQuantity && (
+                        <span className="block text-amber-700">
+                          Only {item.quantity} of {item.orderedQuantity} in stock
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result && result.skipped.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-800">Not added</h4>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {result.skipped.map((item) => (
+                  <li key={item.productId} className="flex justify-between gap-4">
+                    <span>{item.productName || "A product that has been removed"}</span>
+                    <span className="text-red-600 whitespace-nowrap">{REORDER_SKIP_LABELS[item.reason]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResult(null)}>
+              Close
+            </Button>
+            {result && result.added.length > 0 && (
+              <Button asChild>
+                <Link href="/cart">Go to Cart</Link>
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { AlertCircle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { supabase } from "@/lib/supabase"
+import { MIN_PASSWORD_LENGTH } from "@/lib/password-reset"
+
+// Where the reset email's link lands. Supabase signs the visitor in from the link, after which they
+// can set a new password; an expired or used link leaves them signed out.
+export default function ResetPasswordForm() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [status, setStatus] = useState<"checking" | "ready" | "invalid">("checking")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.hash.slice(1)).has("error")) {
+      setStatus("invalid")
+      return
+    }
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "PASSWORD_RECOVERY" || session) setStatus("ready")
+    })
+    // The link's session may already have been picked up before this subscribed
+    const timeout = setTimeout(async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      setStatus((current) => (current === "checking" ? (session ? "ready" : "invalid") : current))
+    }, 1500)
+
+    return () => {
+      subscription.unsubscribe()
+      clearTimeout(timeout)
+    }
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters.`)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError("The passwords don't match.")
+      return
+    }
+
+    setLoading(true)
+    const { error: updateError } = await supabase.auth.updateUser({ password })
+    setLoading(false)
+    if (updateError) {
+      setError(updateError.message)
+      return
+    }
+    toast({ title: "Password updated", description: "You're signed in with your new password.", variant: "success" })
+    router.replace("/")
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-50 p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl font-bold text-gray-900">Choose a New Password</CardTitle>
+          <CardDescription className="text-gray-600">For your Organixa account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status === "checking" ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : status === "invalid" ? (
+            <div className="space-y-4 text-center text-sm text-gray-600">
+              <p>This reset link has expired or has already been used.</p>
+              <Button asChild className="w-full h-11">
+                <Link href="/forgot-password">Send a New Link</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="flex items-center gap-2 text-red-600 text-sm p-3 bg-red-50 rounded-md border border-red-200">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="h-11"
+                />
+              </div>
+              <Button type="submit" className="w-full h-11" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? "Saving..." : "Set New Password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { Badge } from "@/components/ui/badge"
+import { REVIEW_STATUS_LABELS, type ReviewStatus } from "@/lib/admin"
+
+const STATUS_CLASSES: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-500 text-white",
+  approved: "bg-green-500 text-white",
+  rejected: "bg-red-500 text-white",
+}
+
+// Where a company registration or product stands in admin review.
+export default function ReviewStatusBadge({ status, className = "" }: { status: ReviewStatus; className?: string }) {
+  return <Badge className={`${STATUS_CLASSES[status]} ${className}`}>{REVIEW_STATUS_LABELS[status]}</Badge>
+}
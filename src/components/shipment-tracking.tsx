@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, MapPin, RefreshCw, Truck } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { apiFetch } from "@/lib/api-client"
+import { courierName, TRACKING_STATUS_LABELS, type Shipment } from "@/lib/shipments"
+
+interface ShipmentTrackingProps {
+  shipment: Shipment
+  onRefreshed: (shipment: Shipment) => void
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" })
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+
+// Courier, tracking number and the courier's tracking events (newest first) for one shipment, with a
+// button to fetch the latest ones.
+export default function ShipmentTracking({ shipment, onRefreshed }: ShipmentTrackingProps) {
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    setError(null)
+    try {
+      onRefreshed(await apiFetch<Shipment>(`/api/shipments/${shipment.id}/tracking`, {}))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the tracking details.")
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  const events = [...shipment.tracking_events].reverse()
+
+  return (
+    <div className="rounded-lg border border-purple-100 bg-purple-50/50 p-3 text-sm space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-medium text-gray-800 flex items-center gap-2">
+            <Truck className="h-4 w-4 text-purple-600" />
+            {courierName(shipment.carrier)} · <span className="font-mono">{shipment.tracking_number}</span>
+          </p>
+          {shipment.expected_delivery_date && shipment.tracking_status !== "delivered" && (
+            <p className="text-gray-600">Expected by {formatDate(shipment.expected_delivery_date)}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {shipment.tracking_status && (
+            <Badge variant="outline" className={shipment.tracking_status === "exception" ? "border-red-300 text-red-700" : ""}>
+              {TRACKING_STATUS_LABELS[shipment.tracking_status]}
+            </Badge>
+          )}
+          <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={refreshing}>
+            {refreshing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            {events.length > 0 ? "Refresh" : "Track"}
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {events.length > 0 && (
+        <ol className="space-y-2 border-l-2 border-purple-200 pl-4">
+          {events.map((event, index) => (
+            <li key={`${event.occurred_at}-${index}`} className={index === 0 ? "text-gray-900" : "text-gray-500"}>
+              <p className={index === 0 ? "font-medium" : ""}>{event.description}</p>
+              <p className="text-xs flex items-center gap-1">
+                {event.location && (
+                  <>
+                    <MapPin className="h-3 w-3" />
+                    {event.location} ·
+                  </>
+                )}{" "}
+                {formatTime(event.occurred_at)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+      {shipment.tracking_synced_at && (
+        <p className="text-xs text-gray-400">Updated {formatTime(shipment.tracking_synced_at)}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import type { CompanyOrderTotals } from "@/lib/order-pricing"
+import { SHIPPING_ZONE_LABELS, type CompanyShippingSettings } from "@/lib/shipping"
+
+interface ShippingBreakdownProps {
+  companyTotals: CompanyOrderTotals[]
+  companies: CompanyShippingSettings[]
+}
+
+// One line per company shipping part of the order, with how the fee was worked out.
+export default function ShippingBreakdown({ companyTotals, companies }: ShippingBreakdownProps) {
+  const namesById = new Map(companies.map((company) => [company.id, company.company_name]))
+
+  return (
+    <div className="space-y-1 text-xs text-gray-500">
+      {companyTotals.map((totals) => {
+        const quote = totals.shipping
+        const goodsValue = totals.subtotal - totals.discount
+        const details = [
+          quote.deliveryType === "organiza" ? "Organiza delivery" : "Seller delivery",
+          quote.zone && `${SHIPPING_ZONE_LABELS[quote.zone]}${quote.isEstimate ? " (estimated)" : ""}`,
+          quote.deliveryType === "organiza" && `${quote.chargeableWeightKg.toFixed(2)} kg`,
+        ].filter(Boolean)
+
+        return (
+          <div key={totals.companyId ?? "unknown"}>
+            <div className="flex justify-between">
+              <span className="truncate pr-2">
+                {namesById.get(totals.companyId ?? "") || "Seller"} · {details.join(" · ")}
+              </span>
+              <span>{quote.fee === 0 ? "Free" : `₹${quote.fee.toFixed(2)}`}</span>
+            </div>
+            {!quote.isFree && quote.freeShippingThreshold !== null && (
+              <p className="text-green-600">
+                Add ₹{(quote.freeShippingThreshold - goodsValue).toFixed(2)} more for free shipping from this seller.
+              </p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
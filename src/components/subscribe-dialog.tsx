@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Loader2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { useToast } from "@/hooks/use-toast"
+import { supabase } from "@/lib/supabase"
+import { apiFetch } from "@/lib/api-client"
+import { roundCurrency } from "@/lib/order-pricing"
+import {
+  MAX_SUBSCRIPTION_QUANTITY,
+  SUBSCRIPTION_DISCOUNT_PERCENT,
+  SUBSCRIPTION_FREQUENCIES,
+  SUBSCRIPTION_FREQUENCY_LABELS,
+  type CreateSubscriptionRequest,
+  type Subscription,
+  type SubscriptionFrequency,
+} from "@/lib/subscriptions"
+
+interface SavedAddress {
+  id: string
+  name: string
+  houseNumber: string
+  street: string
+  area: string
+  city: string
+  pincode: string
+  isDefault: boolean
+}
+
+interface SubscribeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: { id: string; name: string; price: number }
+  initialQuantity: number
+}
+
+// Subscribe-and-save for one product: how often, where to, and how many each time.
+export default function SubscribeDialog({ open, onOpenChange, product, initialQuantity }: SubscribeDialogProps) {
+  const [frequency, setFrequency] = useState<SubscriptionFrequency>("monthly")
+  const [quantity, setQuantity] = useState(initialQuantity)
+  const [addresses, setAddresses] = useState<SavedAddress[] | null>(null)
+  const [addressId, setAddressId] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setQuantity(initialQuantity)
+    setAddresses(null)
+
+    const loadAddresses = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) return
+      const { data } = await supabase.from("user_profiles").select("addresses").eq("id", session.user.id).maybeSingle()
+      const saved: SavedAddress[] = data?.addresses || []
+      setAddresses(saved)
+      setAddressId((saved.find((address) => address.isDefault) || saved[0])?.id ?? "")
+    }
+    loadAddresses()
+  }, [open, initialQuantity])
+
+  const pricePerDelivery = roundCurrency(product.price * quantity * (1 - SUBSCRIPTION_DISCOUNT_PERCENT / 100))
+
+  const handleSubscribe = async () => {
+    setIsSubmitting(true)
+    try {
+      await apiFetch<Subscription>("/api/subscriptions", {
+        productId: product.id,
+        quantity,
+        frequency,
+        addressId,
+      } satisfies CreateSubscriptionRequest)
+      onOpenChange(false)
+      toast({
+        title: "Subscribed!",
+        description: `${product.name} will be delivered ${SUBSCRIPTION_FREQUENCY_LABELS[frequency].toLowerCase()}. The first order is placed within a day; manage it from your profile.`,
+      })
+    } catch (err) {
+      toast({
+        title: "Subscription Failed",
+        description: err instanceof Error ? err.message : "Could not start the subscription.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Subscribe & Save {SUBSCRIPTION_DISCOUNT_PERCENT}%</DialogTitle>
+          <DialogDescription>
+            {product.name} delivered on a schedule and paid for on delivery. Pause, skip or cancel any time from your
+            profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>How often</Label>
+            <RadioGroup
+              value={frequency}
+              onValueChange={(value) => setFrequency(value as SubscriptionFrequency)}
+              className="grid grid-cols-3 gap-2"
+            >
+              {SUBSCRIPTION_FREQUENCIES.map((option) => (
+                <Label key={option} className="flex items-center space-x-2 p-2 border rounded-md cursor-pointer hover:bg-gray-50">
+                  <RadioGroupItem value={option} />
+                  <span className="text-sm">{SUBSCRIPTION_FREQUENCY_LABELS[option]}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="subscriptionQuantity">Quantity per delivery</Label>
+            <Input
+              id="subscriptionQuantity"
+              type="number"
+              min={1}
+              max={MAX_SUBSCRIPTION_QUANTITY}
+              value={quantity}
+              onChange={(event) =>
+                setQuantity(Math.min(MAX_SUBSCRIPTION_QUANTITY, Math.max(1, Number(event.target.value) || 1)))
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Deliver to</Label>
+            {addresses === null ? (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+            ) : addresses.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                Add a delivery address on your{" "}
+                <Link href="/profile" className="text-green-700 hover:underline">
+                  profile
+                </Link>{" "}
+                first.
+              </p>
+            ) : (
+              <RadioGroup value={addressId} onValueChange={setAddressId} className="space-y-1">
+                {addresses.map((address) => (
+                  <Label
+                    key={address.id}
+                    className="flex items-start space-x-2 p-2 border rounded-md cursor-pointer hover:bg-gray-50 font-normal"
+                  >
+                    <RadioGroupItem value={address.id} className="mt-0.5" />
+                    <span className="text-sm">
+                      <span className="font-medium">{address.name}</span> — {address.houseNumber}, {address.street},{" "}
+                      {address.area}, {address.city} - {address.pincode}
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-700">
+            About <span className="font-semibold">₹{pricePerDelivery.toFixed(2)}</span> per delivery plus shipping, at
+            today&apos;s price.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Not Now
+          </Button>
+          <Button onClick={handleSubscribe} disabled={!addressId || isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Subscribe
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MAX_WISHLIST_NAME_LENGTH, normalizeWishlistName } from "@/lib/wishlists"
+
+interface WishlistNameDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  initialName?: string
+  submitLabel: string
+  onSubmit: (name: string) => Promise<void>
+}
+
+// Names a new wishlist or renames one.
+export default function WishlistNameDialog({
+  open,
+  onOpenChange,
+  title,
+  initialName = "",
+  submitLabel,
+  onSubmit,
+}: WishlistNameDialogProps) {
+  const [name, setName] = useState(initialName)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setName(initialName)
+  }, [open, initialName])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const normalized = normalizeWishlistName(name)
+    if (!normalized) return
+    setIsSaving(true)
+    try {
+      await onSubmit(normalized)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>For example &quot;Baby essentials&quot; or &quot;Diwali gifting&quot;.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="wishlistName">Name</Label>
+            <Input
+              id="wishlistName"
+              value={name}
+              maxLength={MAX_WISHLIST_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !normalizeWishlistName(name)}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
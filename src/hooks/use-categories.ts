@@ -0,0 +1,31 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { buildCategoryTree, CATEGORY_COLUMNS, type Category, type CategoryNode } from "@/lib/categories"
+
+// The active categories, as main categories with their sub-categories, in the order admins set.
+// The product form, the shop filters and the home slider all read them from here.
+export function useCategories() {
+  const [categories, setCategories] = useState<CategoryNode[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq("is_active", true)
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching categories:", error)
+        if (cancelled) return
+        setCategories(buildCategoryTree((data || []) as Category[]))
+        setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { categories, isLoading }
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+
+// Whether the signed-in user is in `admins`: null while checking. Only decides what the UI shows;
+// the admin route handlers check again.
+export function useIsAdmin(userId: string | null) {
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    if (!userId) {
+      setIsAdmin(false)
+      return
+    }
+    setIsAdmin(null)
+    let cancelled = false
+    supabase
+      .from("admins")
+      .select("user_id")
+      .eq("user_id", userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error("Error checking admin access:", error)
+        if (!cancelled) setIsAdmin(!!data)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  return isAdmin
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useCallback, useEffect, useId, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { NOTIFICATION_COLUMNS, type Notification } from "@/lib/notifications"
+
+// The signed-in user's latest notifications and unread count, kept current by a realtime
+// subscription, with the mark-read actions. `userId` is null while logged out.
+export function useNotifications(userId: string | null, limit = 20) {
+  const [notifications, setNotifications] = useState<Notification[] | null>(null)
+  const [unreadCount, setUnreadCount] = useState(0)
+  // realtime-js hands back the already-joined channel for a topic it has seen, so each instance
+  // (the header bell and the notifications page can both be mounted) needs a topic of its own
+  const channelKey = useId()
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([])
+      setUnreadCount(0)
+      return
+    }
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select(NOTIFICATION_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .is("read_at", null),
+    ])
+
+    if (error || countError) {
+      console.error("Error fetching notifications:", error || countError)
+      setNotifications((prev) => prev ?? [])
+      return
+    }
+    setNotifications((data || []) as Notification[])
+    setUnreadCount(count || 0)
+  }, [userId, limit])
+
+  useEffect(() => {
+    fetchNotifications()
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`notifications_${userId}_${channelKey}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => {
+          fetchNotifications()
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, channelKey, fetchNotifications])
+
+  // `ids` are notifications that are still unread
+  const markRead = useCallback(
+    async (ids: string[]) => {
+      if (!userId || ids.length === 0) return
+      const readAt = new Date().toISOString()
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: readAt })
+        .in("id", ids)
+        .eq("user_id", userId)
+        .is("read_at", null)
+      if (error) {
+        console.error("Error marking notifications read:", error)
+        return
+      }
+      setNotifications((prev) =>
+        (prev || []).map((notification) =>
+          ids.includes(notification.id) && !notification.read_at ? { ...notification, read_at: readAt } : notification,
+        ),
+      )
+      setUnreadCount((prev) => Math.max(0, prev - ids.length))
+    },
+    [userId],
+  )
+
+  // Everything unread, including notifications older than the ones loaded
+  const markAllRead = useCallback(async () => {
+    if (!userId) return
+    const readAt = new Date().toISOString()
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", userId)
+      .is("read_at", null)
+    if (error) {
+      console.error("Error marking notifications read:", error)
+      return
+    }
+    setNotifications((prev) => (prev || []).map((notification) => ({ ...notification, read_at: notification.read_at ?? readAt })))
+    setUnreadCount(0)
+  }, [userId])
+
+  return { notifications, unreadCount, markRead, markAllRead }
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import {
+  PARCEL_COLUMNS,
+  SHIPPING_SETTINGS_COLUMNS,
+  type CompanyShippingSettings,
+  type ParcelSpec,
+} from "@/lib/shipping"
+
+type ProductShippingRow = ParcelSpec & {
+  id: string
+  companies: CompanyShippingSettings | CompanyShippingSettings[] | null
+}
+
+// Loads what the shipping engine needs for a set of products: each product's weight and
+// dimensions, and the shipping settings of the companies selling them.
+export function useShippingRates(productIds: string[]) {
+  const [parcels, setParcels] = useState<Record<string, ParcelSpec>>({})
+  const [companies, setCompanies] = useState<CompanyShippingSettings[]>([])
+  const idsKey = Array.from(new Set(productIds)).sort().join(",")
+
+  useEffect(() => {
+    if (!idsKey) return
+
+    const fetchShippingInputs = async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select(`id, ${PARCEL_COLUMNS}, companies ( ${SHIPPING_SETTINGS_COLUMNS} )`)
+        .in("id", idsKey.split(","))
+
+      if (error) {
+        console.error("Error fetching shipping details:", error)
+        return
+      }
+
+      const nextParcels: Record<string, ParcelSpec> = {}
+      const companiesById = new Map<string, CompanyShippingSettings>()
+      ;((data || []) as ProductShippingRow[]).forEach((product) => {
+        nextParcels[product.id] = {
+          weight: product.weight,
+          weight_unit: product.weight_unit,
+          length: product.length,
+          width: product.width,
+          height: product.height,
+          dimension_unit: product.dimension_unit,
+        }
+        const company = Array.isArray(product.companies) ? product.companies[0] : product.companies
+        if (company) companiesById.set(company.id, company)
+      })
+      setParcels(nextParcels)
+      setCompanies(Array.from(companiesById.values()))
+    }
+
+    fetchShippingInputs()
+  }, [idsKey])
+
+  return { parcels, companies }
+}
@@ -0,0 +1,83 @@
+import type { ProductCategory } from "@/lib/categories"
+
+// The admin console: review queues for company registrations and products, and the audit log.
+
+export type ReviewTargetType = "company" | "product"
+export type ReviewDecision = "approve" | "reject"
+export type ReviewStatus = "pending" | "approved" | "rejected"
+
+export const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected"]
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending Review",
+  approved: "Approved",
+  rejected: "Rejected",
+}
+
+export const MAX_REJECTION_REASON_LENGTH = 500
+
+// Anything not approved is waiting for review until an admin rejects it (see the admin console
+// migration); editing a rejected product or registration clears `reviewed_at` again.
+export function reviewStatus(row: { is_approved: boolean; reviewed_at: string | null }): ReviewStatus {
+  if (row.is_approved) return "approved"
+  return row.reviewed_at ? "rejected" : "pending"
+}
+
+export interface ReviewRequest {
+  decision: ReviewDecision
+  // Required to reject; shown to the vendor
+  reason?: string
+}
+
+interface ReviewFields {
+  is_approved: boolean
+  reviewed_at: string | null
+  rejection_reason: string | null
+  created_at: string
+}
+
+export interface AdminCompany extends ReviewFields {
+  id: string
+  company_name: string
+  registration_type: string | null
+  registration_number: string | null
+  company_type: string | null
+  gst_number: string | null
+  contact_person_name: string | null
+  mobile_number: string | null
+  email: string | null
+  company_website: string | null
+  company_address: string | null
+  delivery_type: string | null
+  // Short-lived signed links to the files in the `company-documents` bucket
+  documents: { certificate: string | null; iso: string | null; logo: string | null }
+}
+
+export interface AdminProduct extends ReviewFields {
+  id: string
+  product_name: string
+  product_description: string | null
+  original_price: number
+  discount_price: number
+  stock_quantity: number
+  categories: ProductCategory[] | null
+  product_photo_urls: string[] | null
+  company_id: string
+  company_name: string | null
+}
+
+export interface AuditLogEntry {
+  id: string
+  admin_id: string | null
+  admin_name: string | null
+  action: ReviewDecision
+  target_type: ReviewTargetType
+  target_id: string
+  target_name: string | null
+  reason: string | null
+  created_at: string
+}
+
+export interface AdminListResponse<T> {
+  items: T[]
+}
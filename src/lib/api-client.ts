@@ -0,0 +1,49 @@
+import { supabase } from "@/lib/supabase"
+
+// Calls one of our route handlers with the current session's access token attached.
+// Non-2xx responses are turned into an Error carrying the server's `error` message.
+export async function apiFetch<T>(path: string, body?: unknown, init: RequestInit = {}): Promise<T> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const headers = new Headers(init.headers)
+  if (body !== undefined) headers.set("Content-Type", "application/json")
+  if (session?.access_token) headers.set("Authorization", `Bearer ${session.access_token}`)
+
+  const response = await fetch(path, {
+    method: body !== undefined ? "POST" : "GET",
+    ...init,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : init.body,
+  })
+
+  const payload = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(payload?.error || `Request failed with status ${response.status}`)
+  }
+  return payload as T
+}
+
+// Downloads a file served by one of our route handlers (e.g. an invoice PDF) and saves it in the browser.
+export async function apiDownload(path: string, fallbackFilename: string) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const response = await fetch(path, {
+    headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {},
+  })
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null)
+    throw new Error(payload?.error || `Download failed with status ${response.status}`)
+  }
+
+  const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || fallbackFilename
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,46 @@
+// Shared between the cancel route and the order pages.
+
+export const CUSTOMER_CANCELLATION_REASONS = [
+  "Ordered by mistake",
+  "Found a better price elsewhere",
+  "Delivery is taking too long",
+  "Need to change the delivery address",
+  "Other",
+]
+
+export const VENDOR_REJECTION_REASONS = [
+  "Out of stock",
+  "Cannot deliver to this address",
+  "Item damaged or expired",
+  "Other",
+]
+
+export const MAX_CANCELLATION_REASON_LENGTH = 500
+
+export type RefundStatus = "not_required" | "requested" | "pending" | "processed" | "failed"
+
+export interface CancelOrderRequest {
+  subOrderId: string
+  reason: string
+}
+
+export interface CancelOrderResponse {
+  subOrderId: string
+  status: string
+  refundStatus: RefundStatus
+  refundAmount: number | null
+}
+
+export function formatRefundStatus(status: RefundStatus | null) {
+  switch (status) {
+    case "requested":
+    case "pending":
+      return "Refund in progress"
+    case "processed":
+      return "Refunded"
+    case "failed":
+      return "Refund failed"
+    default:
+      return null
+  }
+}
@@ -0,0 +1,41 @@
+// Revalidating a cart against the catalogue, shared by `/cart`, the checkout modal and `/api/cart/validate`.
+
+export interface CartLineInput {
+  productId: string
+  quantity: number
+  priceAtAdd: number // the price the buyer last saw and accepted
+}
+
+export interface ValidateCartRequest {
+  items: CartLineInput[]
+}
+
+// "unavailable": deleted or no longer approved. A line with an issue can't be checked out.
+export type CartLineIssue = "unavailable" | "out_of_stock" | "over_stock"
+
+export interface ValidatedCartLine {
+  productId: string
+  productName: string | null // null once the product is deleted
+  quantity: number
+  priceAtAdd: number
+  currentPrice: number | null
+  stockQuantity: number
+  priceChanged: boolean
+  issue: CartLineIssue | null
+}
+
+export interface ValidateCartResponse {
+  lines: ValidatedCartLine[]
+  priceChanges: number
+  blockingIssues: number
+}
+
+export const CART_LINE_ISSUE_LABELS: Record<CartLineIssue, string> = {
+  unavailable: "No longer available",
+  out_of_stock: "Out of stock",
+  over_stock: "Not enough stock",
+}
+
+export function isPriceDifferent(a: number, b: number) {
+  return Math.abs(a - b) >= 0.01
+}
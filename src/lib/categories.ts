@@ -0,0 +1,71 @@
+// The category taxonomy admins manage from the console: main categories with one level of
+// sub-categories below them.
+
+export interface Category {
+  id: string
+  parent_id: string | null
+  slug: string
+  name: string
+  icon: string | null
+  sort_order: number
+  is_active: boolean
+}
+
+export interface CategoryNode extends Category {
+  children: Category[]
+}
+
+// One entry of `products.categories`. The names are kept for display and the database keeps them
+// in step with renames; filters and checks should use the slugs.
+export interface ProductCategory {
+  main: string
+  sub: string
+  mainSlug: string
+  subSlug: string
+}
+
+export const CATEGORY_COLUMNS = "id, parent_id, slug, name, icon, sort_order, is_active"
+
+export const MAX_CATEGORY_NAME_LENGTH = 80
+
+// "Sustainable Home Décor" -> "sustainable-home-decor"
+export function slugify(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+export const isValidSlug = (slug: string) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)
+
+const bySortOrder = (a: Category, b: Category) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+
+// Nests sub-categories under their main category, both in display order. Sub-categories whose main
+// category isn't in `rows` (e.g. it was filtered out as inactive) are dropped.
+export function buildCategoryTree(rows: Category[]): CategoryNode[] {
+  const sorted = [...rows].sort(bySortOrder)
+  return sorted
+    .filter((row) => !row.parent_id)
+    .map((main) => ({ ...main, children: sorted.filter((row) => row.parent_id === main.id) }))
+}
+
+export interface CategoryCreateRequest {
+  name: string
+  // Made from the name when left out
+  slug?: string
+  parentId?: string | null
+  icon?: string | null
+}
+
+export interface CategoryUpdateRequest {
+  name?: string
+  icon?: string | null
+  isActive?: boolean
+}
+
+// Every sibling's id, in the new order
+export interface CategoryReorderRequest {
+  ids: string[]
+}
@@ -0,0 +1,66 @@
+// Request/response shapes shared by `CheckoutDetailsModal` and the payment route handlers.
+
+export type PaymentMethod = "razorpay" | "cod"
+
+export interface CheckoutItemInput {
+  productId: string
+  quantity: number
+  // The unit price the buyer was shown; the order is refused if the product's price has moved since
+  expectedUnitPrice?: number
+}
+
+export interface ShippingDetails {
+  customerName: string
+  primaryPhone: string
+  secondaryPhone?: string | null
+  country: string
+  state: string
+  city: string
+  pincode: string
+  area: string
+  street: string
+  houseNumber: string
+  location?: { lat?: number; lng?: number }
+}
+
+export interface CreateCheckoutOrderRequest {
+  items: CheckoutItemInput[]
+  shipping: ShippingDetails
+  couponCode?: string | null
+}
+
+export interface ValidateCouponRequest {
+  code: string
+  items: CheckoutItemInput[]
+}
+
+export interface ValidateCouponResponse {
+  code: string
+  description: string | null
+  discount: number
+  discounts: Record<string, number> // per company id, to price each company's part
+}
+
+export interface CreateCheckoutOrderResponse {
+  orderId: string
+  razorpayOrderId: string
+  keyId: string
+  amount: number // paise
+  currency: string
+}
+
+export interface CreateCodOrderResponse {
+  orderId: string
+  status: string
+}
+
+export interface VerifyPaymentRequest {
+  razorpay_order_id: string
+  razorpay_payment_id: string
+  razorpay_signature: string
+}
+
+export interface VerifyPaymentResponse {
+  orderId: string
+  status: string
+}
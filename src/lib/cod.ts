@@ -0,0 +1,46 @@
+import type { CompanyOrderTotals } from "@/lib/order-pricing"
+
+// COD settings a company configures on /company/dashboard/settings.
+export interface CompanyCodSettings {
+  id: string
+  company_name: string
+  cod_enabled: boolean
+  cod_max_order_value: number | null // null = no ceiling
+  cod_pincodes: string[] | null // empty/null = every pincode
+}
+
+export type CodEligibility = { eligible: true } | { eligible: false; reason: string }
+
+export const COD_SETTINGS_COLUMNS = "id, company_name, cod_enabled, cod_max_order_value, cod_pincodes"
+
+export const normalizePincode = (pincode: string) => pincode.replace(/\s+/g, "")
+
+// An order is paid one way, so every company in it has to accept COD for this amount and address.
+// Used by the checkout modal to offer the option and by the COD order route to enforce it.
+export function checkCodEligibility(
+  companies: CompanyCodSettings[],
+  companyTotals: CompanyOrderTotals[],
+  pincode: string,
+): CodEligibility {
+  const companiesById = new Map(companies.map((company) => [company.id, company]))
+  const deliveryPincode = normalizePincode(pincode)
+
+  for (const totals of companyTotals) {
+    const company = totals.companyId ? companiesById.get(totals.companyId) : undefined
+    if (!company || !company.cod_enabled) {
+      return { eligible: false, reason: `${company?.company_name || "A seller in your cart"} doesn't offer Cash on Delivery.` }
+    }
+    if (company.cod_max_order_value !== null && totals.totalAmount > Number(company.cod_max_order_value)) {
+      return {
+        eligible: false,
+        reason: `Cash on Delivery from ${company.company_name} is limited to orders up to ₹${Number(company.cod_max_order_value).toFixed(2)}.`,
+      }
+    }
+    const pincodes = (company.cod_pincodes || []).map(normalizePincode).filter(Boolean)
+    if (pincodes.length > 0 && !pincodes.includes(deliveryPincode)) {
+      return { eligible: false, reason: `${company.company_name} doesn't offer Cash on Delivery to pincode ${pincode}.` }
+    }
+  }
+
+  return { eligible: true }
+}
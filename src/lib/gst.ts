@@ -0,0 +1,157 @@
+// GST on orders. Listed prices (and shipping fees) already include GST, so tax is carved out of the
+// amount the buyer pays rather than added on top. A sale within one state is split evenly into
+// CGST and SGST; a sale across states carries IGST.
+
+import { roundCurrency } from "@/lib/order-pricing"
+
+export const GST_RATES = [0, 5, 12, 18, 28] as const
+
+// Delivery charges are billed under SAC 996812 at 18%.
+export const SHIPPING_SAC_CODE = "996812"
+export const SHIPPING_GST_RATE = 18
+
+// The first two digits of a GSTIN are the registering state's code.
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+}
+
+export interface TaxableLine {
+  description: string
+  hsnCode: string | null
+  gstRate: number
+  quantity: number
+  amount: number // what the buyer pays for the line, GST included
+}
+
+export interface TaxLine extends TaxableLine {
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+}
+
+export interface GstBreakdown {
+  supplyType: "intra_state" | "inter_state"
+  placeOfSupply: string
+  sellerState: string | null
+  lines: TaxLine[]
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  totalTax: number
+}
+
+export function stateFromGstin(gstin: string | null | undefined) {
+  return gstin ? GST_STATE_CODES[gstin.trim().slice(0, 2)] ?? null : null
+}
+
+const normalizeState = (state: string) => state.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "")
+
+export function calculateGst(lines: TaxableLine[], sellerGstin: string | null, buyerState: string): GstBreakdown {
+  const sellerState = stateFromGstin(sellerGstin)
+  // Without a known seller state the sale is treated as inter-state, which is what IGST is for
+  const intraState = sellerState !== null && normalizeState(sellerState) === normalizeState(buyerState)
+
+  const taxLines = lines.map((line) => {
+    const taxableValue = roundCurrency(line.amount / (1 + line.gstRate / 100))
+    const tax = roundCurrency(line.amount - taxableValue)
+    const cgst = intraState ? roundCurrency(tax / 2) : 0
+    return {
+      ...line,
+      taxableValue,
+      cgst,
+      sgst: intraState ? roundCurrency(tax - cgst) : 0,
+      igst: intraState ? 0 : tax,
+    }
+  })
+
+  const sum = (pick: (line: TaxLine) => number) => roundCurrency(taxLines.reduce((total, line) => total + pick(line), 0))
+  const cgst = sum((line) => line.cgst)
+  const sgst = sum((line) => line.sgst)
+  const igst = sum((line) => line.igst)
+
+  return {
+    supplyType: intraState ? "intra_state" : "inter_state",
+    placeOfSupply: buyerState,
+    sellerState,
+    lines: taxLines,
+    taxableValue: sum((line) => line.taxableValue),
+    cgst,
+    sgst,
+    igst,
+    totalTax: roundCurrency(cgst + sgst + igst),
+  }
+}
+
+// Spreads a company's coupon discount over its lines in proportion to their value, so tax is
+// computed on what was actually charged for each line.
+export function applyDiscountToLines<T extends { amount: number }>(lines: T[], discount: number): T[] {
+  const total = lines.reduce((sum, line) => sum + line.amount, 0)
+  if (discount <= 0 || total <= 0) return lines
+
+  let remaining = roundCurrency(discount)
+  return lines.map((line, index) => {
+    const share = index === lines.length - 1 ? remaining : roundCurrency((discount * line.amount) / total)
+    remaining = roundCurrency(remaining - share)
+    return { ...line, amount: roundCurrency(line.amount - share) }
+  })
+}
+
+// GST for one seller's part of an order: its items, net of the seller's share of the coupon, plus
+// the shipping charge it bills.
+export function calculateSellerGst(
+  itemLines: TaxableLine[],
+  { discount, shippingFee }: { discount: number; shippingFee: number },
+  sellerGstin: string | null,
+  buyerState: string,
+) {
+  const shippingLines: TaxableLine[] =
+    shippingFee > 0
+      ? [
+          {
+            description: "Shipping charges",
+            hsnCode: SHIPPING_SAC_CODE,
+            gstRate: SHIPPING_GST_RATE,
+            quantity: 1,
+            amount: shippingFee,
+          },
+        ]
+      : []
+  return calculateGst([...applyDiscountToLines(itemLines, discount), ...shippingLines], sellerGstin, buyerState)
+}
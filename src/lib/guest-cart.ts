@@ -0,0 +1,118 @@
+// A cart for visitors who haven't logged in, kept in local storage and merged into `cart_items`
+// when they log in (see `mergeGuestCart`).
+
+import { supabase } from "@/lib/supabase"
+
+export interface GuestCartItem {
+  productId: string
+  quantity: number
+  priceAtAdd: number
+  addedAt: string
+}
+
+export interface GuestCartMergeResult {
+  merged: number
+  // Products that are no longer sold or are out of stock
+  dropped: number
+}
+
+const STORAGE_KEY = "organiza_guest_cart"
+// Fired on `window` whenever this tab changes the guest cart; other tabs get a `storage` event
+const CHANGE_EVENT = "guest-cart-change"
+
+export function readGuestCart(): GuestCartItem[] {
+  if (typeof window === "undefined") return []
+  try {
+    const items = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]")
+    return Array.isArray(items) ? items.filter((item) => typeof item?.productId === "string" && item.quantity > 0) : []
+  } catch {
+    return []
+  }
+}
+
+function writeGuestCart(items: GuestCartItem[]) {
+  if (items.length > 0) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY)
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+export function getGuestCartItem(productId: string) {
+  return readGuestCart().find((item) => item.productId === productId) ?? null
+}
+
+// Adds the product, or sets its quantity when it is already in the cart.
+export function setGuestCartItem(productId: string, quantity: number, priceAtAdd: number) {
+  const items = readGuestCart()
+  const existing = items.find((item) => item.productId === productId)
+  if (existing) {
+    writeGuestCart(items.map((item) => (item.productId === productId ? { ...item, quantity, priceAtAdd } : item)))
+  } else {
+    writeGuestCart([...items, { productId, quantity, priceAtAdd, addedAt: new Date().toISOString() }])
+  }
+}
+
+export function removeGuestCartItem(productId: string) {
+  writeGuestCart(readGuestCart().filter((item) => item.productId !== productId))
+}
+
+export function onGuestCartChange(callback: () => void) {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) callback()
+  }
+  window.addEventListener(CHANGE_EVENT, callback)
+  window.addEventListener("storage", handleStorage)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, callback)
+    window.removeEventListener("storage", handleStorage)
+  }
+}
+
+// Moves the guest cart into the user's `cart_items` and clears it. A product already in their cart
+// keeps the larger of the two quantities rather than the sum, since it is usually the same intent
+// recorded twice; either way the quantity is capped at the stock on hand. Products no longer sold or
+// out of stock are dropped. Prices are left as the visitor saw them, so `/cart` asks them to accept
+// any that have changed since.
+export async function mergeGuestCart(userId: string): Promise<GuestCartMergeResult> {
+  const guestItems = readGuestCart()
+  if (guestItems.length === 0) return { merged: 0, dropped: 0 }
+
+  const productIds = guestItems.map((item) => item.productId)
+  const [{ data: products, error: productsError }, { data: cartItems, error: cartError }] = await Promise.all([
+    supabase
+      .from("products")
+      .select("id, is_approved, stock_quantity")
+      .in("id", productIds),
+    supabase.from("cart_items").select("id, product_id, quantity").eq("user_id", userId).in("product_id", productIds),
+  ])
+  if (productsError) throw productsError
+  if (cartError) throw cartError
+
+  const productsById = new Map((products || []).map((product) => [product.id, product]))
+  const cartByProduct = new Map((cartItems || []).map((item) => [item.product_id, item]))
+  let merged = 0
+  let dropped = 0
+
+  for (const guestItem of guestItems) {
+    const product = productsById.get(guestItem.productId)
+    if (!product || !product.is_approved || product.stock_quantity <= 0) {
+      dropped++
+      continue
+    }
+    const existing = cartByProduct.get(guestItem.productId)
+    const quantity = Math.min(Math.max(guestItem.quantity, existing?.quantity ?? 0), product.stock_quantity)
+
+    const { error } = existing
+      ? await supabase.from("cart_items").update({ quantity }).eq("id", existing.id)
+      : await supabase
+          .from("cart_items")
+          .insert({ user_id: userId, product_id: guestItem.productId, quantity, price_at_add: guestItem.priceAtAdd })
+    if (error) throw error
+    merged++
+  }
+
+  writeGuestCart([])
+  return { merged, dropped }
+}
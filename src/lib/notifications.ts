@@ -0,0 +1,27 @@
+// In-app notifications, shown by the bell in the storefront header and the company dashboard and
+// on /notifications. Rows are written by database triggers and server jobs; the browser only
+// reads them and marks them read.
+
+export type NotificationType = "price_drop" | "back_in_stock" | "order_update" | "new_order"
+
+export interface Notification {
+  id: string
+  type: NotificationType
+  title: string
+  body: string
+  link: string | null // app path to open: a product, an order or the vendor's orders page
+  product_id: string | null
+  order_id: string | null
+  read_at: string | null
+  created_at: string
+}
+
+export const NOTIFICATION_COLUMNS = "id, type, title, body, link, product_id, order_id, read_at, created_at"
+
+export type FavoriteAlertType = Extract<NotificationType, "price_drop" | "back_in_stock">
+
+// The alerts a customer can switch off per favorite, by their column in `favorites`
+export const FAVORITE_ALERT_COLUMNS = {
+  price_drop: "price_drop_alerts",
+  back_in_stock: "back_in_stock_alerts",
+} as const satisfies Record<FavoriteAlertType, string>
@@ -0,0 +1,37 @@
+// Status history of a sub-order (`order_status_events`), shown on the customer and vendor order pages.
+
+export type StatusActorRole = "customer" | "vendor" | "system"
+
+export const MAX_STATUS_NOTE_LENGTH = 500
+
+export interface StatusEvent {
+  id: string
+  sub_order_id: string | null
+  from_status: string | null
+  to_status: string
+  actor_role: StatusActorRole
+  note: string | null
+  created_at: string
+}
+
+export const STATUS_EVENT_COLUMNS = "id, sub_order_id, from_status, to_status, actor_role, note, created_at"
+
+export const STATUS_ACTOR_LABELS: Record<StatusActorRole, string> = {
+  customer: "Customer",
+  vendor: "Seller",
+  system: "Automatic",
+}
+
+export function sortStatusEvents(events: StatusEvent[]) {
+  return [...events].sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+// When the sub-order last entered each status. An order moved back and forward again shows the
+// latest time it reached a step.
+export function statusReachedAt(events: StatusEvent[]) {
+  const reachedAt = new Map<string, string>()
+  for (const event of sortStatusEvents(events)) {
+    reachedAt.set(event.to_status, event.created_at)
+  }
+  return reachedAt
+}
@@ -0,0 +1,129 @@
+// The order lifecycle: every status a sub-order can be in and the moves between them. Pages use it
+// to show statuses and offer actions, and the server checks every status write against it. The
+// parent order's status is rolled up from its sub-orders by a database trigger.
+
+import type { ShipmentDetails } from "@/lib/shipments"
+
+export const ORDER_STATUSES = [
+  "pending",
+  "payment_failed",
+  "cod_pending",
+  "confirmed",
+  "payment_accepted",
+  "preparing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  payment_failed: "Payment failed",
+  cod_pending: "Confirmed (COD)",
+  confirmed: "Confirmed",
+  payment_accepted: "Payment accepted",
+  preparing: "Preparing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+}
+
+// Legal next statuses. Fulfilment only moves forward, though a vendor may skip steps (mark an order
+// shipped straight from confirmed). Cancellation is open until the order ships; `refunded` follows
+// a cancellation, or an order refunded in full from the Razorpay dashboard. Returns don't move the
+// sub-order: they have their own track on `return_requests` once it is delivered.
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["confirmed", "payment_failed"],
+  payment_failed: ["confirmed"],
+  cod_pending: ["payment_accepted", "preparing", "shipped", "delivered", "cancelled"],
+  confirmed: ["payment_accepted", "preparing", "shipped", "delivered", "cancelled", "refunded"],
+  payment_accepted: ["preparing", "shipped", "delivered", "cancelled", "refunded"],
+  preparing: ["shipped", "delivered", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+}
+
+// Orders that can still be settled by a payment. A failed attempt can be retried on the same
+// Razorpay order, so `payment_failed` is not terminal.
+export const AWAITING_PAYMENT_STATUSES: OrderStatus[] = ["pending", "payment_failed"]
+
+// Nothing was sold, so there is nothing to invoice.
+export const NOT_INVOICEABLE_STATUSES: OrderStatus[] = [...AWAITING_PAYMENT_STATUSES, "cancelled"]
+
+// The steps of the order timeline, in order.
+export const FULFILMENT_STEPS = [
+  { status: "confirmed", label: "Order Confirmed" },
+  { status: "payment_accepted", label: "Payment Accepted" },
+  { status: "preparing", label: "Order is Being Prepared" },
+  { status: "shipped", label: "Order Has Been Shipped" },
+  { status: "delivered", label: "Order Successfully Delivered" },
+] as const satisfies readonly { status: OrderStatus; label: string }[]
+
+export type FulfilmentStatus = (typeof FULFILMENT_STEPS)[number]["status"]
+
+// What a vendor can set from their orders page. Rejecting goes through the cancel route instead.
+export const VENDOR_STATUS_UPDATES: FulfilmentStatus[] = ["payment_accepted", "preparing", "shipped", "delivered"]
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: string, to: string) {
+  return isOrderStatus(from) && (ORDER_TRANSITIONS[from] as readonly string[]).includes(to)
+}
+
+// Every status `to` can be reached from, for conditional bulk updates.
+export function statusesBefore(to: OrderStatus) {
+  return ORDER_STATUSES.filter((from) => ORDER_TRANSITIONS[from].includes(to))
+}
+
+export function formatOrderStatus(status: string) {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status
+}
+
+// Position on the timeline, or -1 off it. A COD order is confirmed as soon as it is placed; the
+// cash is collected on delivery.
+export function fulfilmentStepIndex(status: string) {
+  const step = status === "cod_pending" ? "confirmed" : status
+  return FULFILMENT_STEPS.findIndex((candidate) => candidate.status === step)
+}
+
+export function isAwaitingPayment(status: string) {
+  return (AWAITING_PAYMENT_STATUSES as string[]).includes(status)
+}
+
+export function canCancel(status: string) {
+  return canTransition(status, "cancelled")
+}
+
+export function canRequestReturn(status: string) {
+  return status === "delivered"
+}
+
+export function vendorNextStatuses(status: string) {
+  return VENDOR_STATUS_UPDATES.filter((next) => canTransition(status, next))
+}
+
+// A cancelled sub-order stays uninvoiceable once its refund moves it on to `refunded`.
+export function isInvoiceable(subOrder: { status: string; cancelled_at: string | null }) {
+  return !(NOT_INVOICEABLE_STATUSES as string[]).includes(subOrder.status) && !subOrder.cancelled_at
+}
+
+export interface UpdateOrderStatusRequest {
+  subOrderId: string
+  status: FulfilmentStatus
+  note?: string
+  // Required when shipping
+  shipment?: ShipmentDetails
+}
+
+export interface UpdateOrderStatusResponse {
+  subOrderId: string
+  status: OrderStatus
+}
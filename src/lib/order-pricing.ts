@@ -0,0 +1,84 @@
+// Shared between the checkout UI and the payment route handlers so the amount the buyer sees
+// is exactly the amount the server asks Razorpay to collect.
+
+import { quoteShipping, type ParcelSpec, type ShippingContext, type ShippingQuote } from "@/lib/shipping"
+
+export interface PricedLine {
+  unitPrice: number
+  quantity: number
+  companyId?: string | null
+  parcel?: ParcelSpec | null
+}
+
+export interface OrderTotals {
+  subtotal: number
+  discount: number
+  shippingFee: number
+  totalAmount: number
+}
+
+export interface CompanyOrderTotals extends OrderTotals {
+  companyId: string | null
+  shipping: ShippingQuote
+}
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+// Coupon discount per company (see `src/lib/server/coupons.ts`), keyed like `PricedLine.companyId`.
+export type CompanyDiscounts = Map<string | null, number>
+
+export interface PricingOptions {
+  discounts?: CompanyDiscounts
+  // Company shipping settings and destination; without them the default flat rate applies
+  shipping?: ShippingContext
+}
+
+export const lineSubtotal = (lines: PricedLine[]) =>
+  roundCurrency(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0))
+
+// Free shipping is judged on what the buyer pays for the goods, i.e. after the discount.
+function totalsFor(
+  lines: PricedLine[],
+  discount: number,
+  companyId: string | null,
+  shipping?: ShippingContext,
+): Omit<CompanyOrderTotals, "companyId"> {
+  const subtotal = lineSubtotal(lines)
+  const appliedDiscount = roundCurrency(Math.min(discount, subtotal))
+  const discountedSubtotal = roundCurrency(subtotal - appliedDiscount)
+  const company = shipping?.companies.find((settings) => settings.id === companyId)
+  const quote = quoteShipping(company, lines, discountedSubtotal, shipping?.pincode)
+  return {
+    subtotal,
+    discount: appliedDiscount,
+    shippingFee: quote.fee,
+    totalAmount: roundCurrency(discountedSubtotal + quote.fee),
+    shipping: quote,
+  }
+}
+
+// Every company ships its part of the order separately, so shipping is charged per company.
+export function calculateCompanyTotals(lines: PricedLine[], options: PricingOptions = {}): CompanyOrderTotals[] {
+  const linesByCompany = new Map<string | null, PricedLine[]>()
+  lines.forEach((line) => {
+    const companyId = line.companyId ?? null
+    linesByCompany.set(companyId, [...(linesByCompany.get(companyId) || []), line])
+  })
+  return Array.from(linesByCompany, ([companyId, companyLines]) => ({
+    companyId,
+    ...totalsFor(companyLines, options.discounts?.get(companyId) ?? 0, companyId, options.shipping),
+  }))
+}
+
+export function calculateOrderTotals(lines: PricedLine[], options: PricingOptions = {}): OrderTotals {
+  const companies = calculateCompanyTotals(lines, options)
+  return {
+    subtotal: roundCurrency(companies.reduce((sum, company) => sum + company.subtotal, 0)),
+    discount: roundCurrency(companies.reduce((sum, company) => sum + company.discount, 0)),
+    shippingFee: roundCurrency(companies.reduce((sum, company) => sum + company.shippingFee, 0)),
+    totalAmount: roundCurrency(companies.reduce((sum, company) => sum + company.totalAmount, 0)),
+  }
+}
+
+// Razorpay works in the smallest currency unit (paise).
+export const toPaise = (amount: number) => Math.round(amount * 100)
@@ -0,0 +1,12 @@
+// Forgot-password requests, shared by the /forgot-password page and its route handler.
+
+export interface PasswordResetRequest {
+  email: string
+}
+
+export interface PasswordResetResponse {
+  ok: true
+}
+
+// Supabase Auth's default minimum
+export const MIN_PASSWORD_LENGTH = 6
@@ -0,0 +1,38 @@
+// Shared between the reorder route and the order pages.
+
+export interface ReorderRequest {
+  orderId: string
+}
+
+// An item put back in the cart. `quantity` can be less than was ordered when stock is short.
+export interface ReorderedItem {
+  productId: string
+  productName: string
+  orderedQuantity: number
+  quantity: number
+  priceAtPurchase: number
+  currentPrice: number
+}
+
+export type ReorderSkipReason = "delisted" | "out_of_stock"
+
+export interface SkippedReorderItem {
+  productId: string
+  productName: string | null // null once the product is deleted
+  orderedQuantity: number
+  reason: ReorderSkipReason
+}
+
+export interface ReorderResponse {
+  added: ReorderedItem[]
+  skipped: SkippedReorderItem[]
+}
+
+export const REORDER_SKIP_LABELS: Record<ReorderSkipReason, string> = {
+  delisted: "No longer sold",
+  out_of_stock: "Out of stock",
+}
+
+export function hasPriceChanged(item: ReorderedItem) {
+  return Math.abs(item.currentPrice - item.priceAtPurchase) >= 0.01
+}
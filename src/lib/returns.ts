@@ -0,0 +1,84 @@
+// Returns and replacements, shared by the return routes, `/returns` and the vendor dashboard.
+
+export const RETURN_WINDOW_DAYS = 7
+export const MAX_RETURN_PHOTOS = 4
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024
+export const MAX_RETURN_DETAILS_LENGTH = 1000
+
+// Private: requests store object paths, and pages sign them for as long as a visit lasts
+export const RETURN_PHOTOS_BUCKET = "return-photos"
+export const RETURN_PHOTO_LINK_TTL_SECONDS = 60 * 60
+
+export type ReturnType = "return" | "replacement"
+
+export type ReturnStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "pickup_scheduled"
+  | "picked_up"
+  | "received"
+  | "refunded"
+  | "replaced"
+
+export type ReturnRefundStatus = "requested" | "pending" | "processed" | "failed" | "manual"
+
+export const RETURN_REASONS = [
+  "Damaged or spoiled on arrival",
+  "Wrong item delivered",
+  "Item missing from the package",
+  "Quality not as described",
+  "Expired or near expiry",
+  "Other",
+]
+
+// Steps the vendor moves a request through, in order. `receive` ends in a refund for returns and a
+// replacement order for replacements.
+export const RETURN_ACTIONS = {
+  approve: { from: "requested", to: "approved", label: "Approve" },
+  reject: { from: "requested", to: "rejected", label: "Reject" },
+  schedule_pickup: { from: "approved", to: "pickup_scheduled", label: "Schedule Pickup" },
+  mark_picked_up: { from: "pickup_scheduled", to: "picked_up", label: "Mark Picked Up" },
+  receive: { from: "picked_up", to: "received", label: "Mark Received" },
+} as const satisfies Record<string, { from: ReturnStatus; to: ReturnStatus; label: string }>
+
+export type ReturnAction = keyof typeof RETURN_ACTIONS | "retry_refund"
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Return Requested",
+  approved: "Return Approved",
+  rejected: "Return Rejected",
+  pickup_scheduled: "Pickup Scheduled",
+  picked_up: "Picked Up",
+  received: "Received by Seller",
+  refunded: "Refunded",
+  replaced: "Replacement Sent",
+}
+
+// The reverse-pickup track shown under the order timeline.
+export function returnTrack(type: ReturnType): ReturnStatus[] {
+  return ["requested", "approved", "pickup_scheduled", "picked_up", type === "replacement" ? "replaced" : "refunded"]
+}
+
+export function returnTrackIndex(status: ReturnStatus, type: ReturnType) {
+  // `received` is the moment between pickup and the refund or replacement going out
+  return returnTrack(type).indexOf(status === "received" ? "picked_up" : status)
+}
+
+export function isWithinReturnWindow(deliveredAt: string | null, now = new Date()) {
+  if (!deliveredAt) return false
+  return now.getTime() - new Date(deliveredAt).getTime() <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+export interface ReturnRequestSummary {
+  id: string
+  status: ReturnStatus
+  type: ReturnType
+  refundStatus: ReturnRefundStatus | null
+  replacementOrderId: string | null
+}
+
+export interface UpdateReturnRequest {
+  action: ReturnAction
+  note?: string
+}
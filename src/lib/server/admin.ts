@@ -0,0 +1,141 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import {
+  MAX_REJECTION_REASON_LENGTH,
+  type AdminCompany,
+  type AdminProduct,
+  type AuditLogEntry,
+  type ReviewDecision,
+  type ReviewStatus,
+  type ReviewTargetType,
+} from "@/lib/admin"
+
+export class AdminError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "AdminError"
+    this.status = status
+  }
+}
+
+const DOCUMENTS_BUCKET = "company-documents"
+const DOCUMENT_LINK_TTL_SECONDS = 60 * 60
+
+const COMPANY_REVIEW_COLUMNS =
+  "id, company_name, registration_type, registration_number, company_type, gst_number, contact_person_name, mobile_number, email, company_website, company_address, delivery_type, certificate_url, iso_url, company_logo_url, is_approved, reviewed_at, rejection_reason, created_at"
+
+const PRODUCT_REVIEW_COLUMNS =
+  "id, product_name, product_description, original_price, discount_price, stock_quantity, categories, product_photo_urls, company_id, is_approved, reviewed_at, rejection_reason, created_at, companies ( company_name )"
+
+export async function assertAdmin(userId: string) {
+  const { data, error } = await getSupabaseAdmin().from("admins").select("user_id").eq("user_id", userId).maybeSingle()
+  if (error) throw error
+  if (!data) {
+    throw new AdminError("Only admins can do this.", 403)
+  }
+}
+
+// The registration stores public URLs; signed ones also work when the bucket is private.
+async function signDocumentUrls(urls: (string | null)[]) {
+  const marker = `/${DOCUMENTS_BUCKET}/`
+  const paths = urls.map((url) => {
+    const index = url ? url.indexOf(marker) : -1
+    return url && index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split("?")[0]) : null
+  })
+  const toSign = paths.filter((path): path is string => !!path)
+  if (toSign.length === 0) return urls
+
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from(DOCUMENTS_BUCKET)
+    .createSignedUrls(toSign, DOCUMENT_LINK_TTL_SECONDS)
+  if (error) throw error
+  const signedByPath = new Map((data || []).map((signed) => [signed.path, signed.signedUrl]))
+  return urls.map((url, index) => (paths[index] && signedByPath.get(paths[index])) || url || null)
+}
+
+export async function listCompaniesForReview(status: ReviewStatus): Promise<AdminCompany[]> {
+  let query = getSupabaseAdmin()
+    .from("companies")
+    .select(COMPANY_REVIEW_COLUMNS)
+    .eq("is_approved", status === "approved")
+  if (status === "pending") query = query.is("reviewed_at", null)
+  if (status === "rejected") query = query.not("reviewed_at", "is", null)
+  // Oldest first for the queue, most recent first for the decided ones
+  const { data, error } = await query.order("created_at", { ascending: status === "pending" })
+  if (error) throw error
+
+  return Promise.all(
+    (data || []).map(async ({ certificate_url, iso_url, company_logo_url, ...company }) => {
+      const [certificate, iso, logo] = await signDocumentUrls([certificate_url, iso_url || null, company_logo_url])
+      return { ...company, documents: { certificate, iso, logo } } as AdminCompany
+    }),
+  )
+}
+
+export async function listProductsForReview(status: ReviewStatus): Promise<AdminProduct[]> {
+  let query = getSupabaseAdmin()
+    .from("products")
+    .select(PRODUCT_REVIEW_COLUMNS)
+    .eq("is_approved", status === "approved")
+  if (status === "pending") query = query.is("reviewed_at", null)
+  if (status === "rejected") query = query.not("reviewed_at", "is", null)
+  const { data, error } = await query.order("created_at", { ascending: status === "pending" })
+  if (error) throw error
+
+  return (data || []).map(({ companies, ...product }) => {
+    const company = Array.isArray(companies) ? companies[0] : companies
+    return { ...product, company_name: company?.company_name ?? null } as AdminProduct
+  })
+}
+
+// Approves or rejects, and records who did it and why in the audit log.
+export async function reviewListing(params: {
+  adminId: string
+  targetType: ReviewTargetType
+  targetId: string
+  decision: ReviewDecision
+  reason?: string | null
+}): Promise<AuditLogEntry> {
+  const reason = params.reason?.trim() || null
+  if (params.decision === "reject" && !reason) {
+    throw new AdminError("Give the vendor a reason for the rejection.")
+  }
+  if (reason && reason.length > MAX_REJECTION_REASON_LENGTH) {
+    throw new AdminError(`Keep the reason under ${MAX_REJECTION_REASON_LENGTH} characters.`)
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc("review_listing", {
+    p_admin_id: params.adminId,
+    p_target_type: params.targetType,
+    p_target_id: params.targetId,
+    p_approve: params.decision === "approve",
+    p_reason: reason,
+  })
+  if (error?.message === "review_target_not_found") {
+    throw new AdminError(params.targetType === "company" ? "Company not found." : "Product not found.", 404)
+  }
+  if (error) throw error
+
+  return { ...(data as Omit<AuditLogEntry, "admin_name">), admin_name: null }
+}
+
+export async function listAuditLog(limit = 200): Promise<AuditLogEntry[]> {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin
+    .from("admin_audit_log")
+    .select("id, admin_id, action, target_type, target_id, target_name, reason, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit)
+  if (error) throw error
+
+  const adminIds = Array.from(new Set((data || []).map((entry) => entry.admin_id).filter(Boolean)))
+  const { data: profiles, error: profilesError } =
+    adminIds.length > 0
+      ? await admin.from("user_profiles").select("id, name, email").in("id", adminIds)
+      : { data: [], error: null }
+  if (profilesError) throw profilesError
+  const namesById = new Map((profiles || []).map((profile) => [profile.id, profile.name || profile.email]))
+
+  return (data || []).map((entry) => ({ ...entry, admin_name: namesById.get(entry.admin_id) ?? null }) as AuditLogEntry)
+}
@@ -0,0 +1,13 @@
+import type { User } from "@supabase/supabase-js"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+
+// Resolve the signed-in user from the `Authorization: Bearer <access_token>` header sent by `apiFetch`.
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const header = request.headers.get("authorization") || ""
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : ""
+  if (!token) return null
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token)
+  if (error || !data.user) return null
+  return data.user
+}
@@ -0,0 +1,179 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { createRazorpayRefund, RazorpayError } from "@/lib/server/razorpay"
+import { statusChangedBy } from "@/lib/server/order-history"
+import { restockSubOrder } from "@/lib/server/stock"
+import { toPaise } from "@/lib/order-pricing"
+import type { CancelOrderResponse, RefundStatus } from "@/lib/cancellations"
+import { canCancel } from "@/lib/order-lifecycle"
+import type { StatusActorRole } from "@/lib/order-history"
+
+export class CancellationError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "CancellationError"
+    this.status = status
+  }
+}
+
+interface CancellableSubOrder {
+  id: string
+  parent_order_id: string
+  status: string
+  total_amount: number
+  refund_status: RefundStatus | null
+  companies: { user_id: string } | null
+  orders: { user_id: string; payment_method: string; payment_id: string | null } | null
+}
+
+async function loadSubOrder(subOrderId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .select(
+      "id, parent_order_id, status, total_amount, refund_status, companies ( user_id ), orders ( user_id, payment_method, payment_id )",
+    )
+    .eq("id", subOrderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  const pickOne = <T>(value: T | T[] | null) => (Array.isArray(value) ? value[0] ?? null : value)
+  return {
+    ...data,
+    companies: pickOne(data.companies),
+    orders: pickOne(data.orders),
+  } as CancellableSubOrder
+}
+
+// Moves a refunded sub-order from `cancelled` to `refunded`. Safe to call again for the same refund.
+export async function markSubOrderRefunded(refundId: string) {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin
+    .from("sub_orders")
+    .update({
+      refund_status: "processed",
+      status: "refunded",
+      ...statusChangedBy({ actorId: null, actorRole: "system", note: `Razorpay refund ${refundId}` }),
+    })
+    .eq("refund_id", refundId)
+    .eq("status", "cancelled")
+    .select("id")
+
+  if (error) throw error
+  const subOrder = data?.[0]
+  if (!subOrder) return null
+  return subOrder.id as string
+}
+
+// Refunds the sub-order's total against the order's payment. A refund Razorpay rejects is marked
+// `failed` so it can be retried; any other error leaves it `requested`, since the refund may have
+// gone through, and is rethrown.
+async function refundSubOrder(subOrder: CancellableSubOrder, paymentId: string): Promise<RefundStatus> {
+  const admin = getSupabaseAdmin()
+  try {
+    const refund = await createRazorpayRefund(paymentId, {
+      amount: toPaise(Number(subOrder.total_amount)),
+      notes: { order_ref: subOrder.parent_order_id, sub_order_id: subOrder.id },
+    })
+    const { error } = await admin
+      .from("sub_orders")
+      .update({ refund_id: refund.id, refund_status: "pending" })
+      .eq("id", subOrder.id)
+    if (error) throw error
+
+    if (refund.status === "processed") {
+      await markSubOrderRefunded(refund.id)
+      return "processed"
+    }
+    return "pending"
+  } catch (error) {
+    if (!(error instanceof RazorpayError)) throw error
+
+    console.error(`Razorpay refused the refund for sub-order ${subOrder.id}:`, error)
+    const { error: updateError } = await admin.from("sub_orders").update({ refund_status: "failed" }).eq("id", subOrder.id)
+    if (updateError) throw updateError
+    return "failed"
+  }
+}
+
+async function retryRefund(subOrder: CancellableSubOrder, paymentId: string): Promise<CancelOrderResponse> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .update({ refund_status: "requested" })
+    .eq("id", subOrder.id)
+    .eq("refund_status", "failed")
+    .select("id")
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new CancellationError("A refund for this order is already in progress.", 409)
+  }
+
+  const refundStatus = await refundSubOrder(subOrder, paymentId)
+  return {
+    subOrderId: subOrder.id,
+    status: refundStatus === "processed" ? "refunded" : "cancelled",
+    refundStatus,
+    refundAmount: Number(subOrder.total_amount),
+  }
+}
+
+// Cancels one company's part of an order: the customer who placed it cancels, the company that
+// fulfils it rejects. Its stock goes back on sale and, for prepaid orders, its total is refunded.
+// Calling it again on a cancellation whose refund failed retries the refund.
+export async function cancelSubOrder(params: {
+  subOrderId: string
+  userId: string
+  reason: string
+}): Promise<CancelOrderResponse> {
+  const subOrder = await loadSubOrder(params.subOrderId)
+  const order = subOrder?.orders
+  const actorRole: StatusActorRole | null =
+    order?.user_id === params.userId ? "customer" : subOrder?.companies?.user_id === params.userId ? "vendor" : null
+  if (!subOrder || !order || !actorRole) {
+    throw new CancellationError("Order not found.", 404)
+  }
+
+  const paymentId = order.payment_method === "razorpay" ? order.payment_id : null
+  if (subOrder.status === "cancelled" && subOrder.refund_status === "failed" && paymentId) {
+    return retryRefund(subOrder, paymentId)
+  }
+  if (subOrder.status === "cancelled" || subOrder.status === "refunded") {
+    throw new CancellationError("This order has already been cancelled.", 409)
+  }
+  if (!canCancel(subOrder.status)) {
+    throw new CancellationError("Only confirmed orders that haven't shipped yet can be cancelled.", 409)
+  }
+
+  // Conditional on the status we checked, so a concurrent ship or cancel wins cleanly
+  const { data, error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .update({
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: actorRole,
+      cancellation_reason: params.reason,
+      refund_status: paymentId ? "requested" : "not_required",
+      refund_amount: paymentId ? subOrder.total_amount : null,
+      ...statusChangedBy({ actorId: params.userId, actorRole, note: params.reason }),
+    })
+    .eq("id", subOrder.id)
+    .eq("status", subOrder.status)
+    .select("id")
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new CancellationError("This order was just updated. Please refresh and try again.", 409)
+  }
+
+  await restockSubOrder(subOrder.id)
+
+  const refundStatus = paymentId ? await refundSubOrder(subOrder, paymentId) : "not_required"
+  return {
+    subOrderId: subOrder.id,
+    status: refundStatus === "processed" ? "refunded" : "cancelled",
+    refundStatus,
+    refundAmount: paymentId ? Number(subOrder.total_amount) : null,
+  }
+}
@@ -0,0 +1,74 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { isPriceDifferent, type CartLineInput, type ValidateCartResponse, type ValidatedCartLine } from "@/lib/cart"
+
+export class CartError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "CartError"
+    this.status = status
+  }
+}
+
+export function assertCartLines(items: unknown): asserts items is CartLineInput[] {
+  if (!Array.isArray(items)) {
+    throw new CartError("Missing cart items.")
+  }
+  for (const item of items) {
+    if (
+      typeof item?.productId !== "string" ||
+      !Number.isInteger(item?.quantity) ||
+      item.quantity < 1 ||
+      typeof item?.priceAtAdd !== "number"
+    ) {
+      throw new CartError("Invalid item in cart.")
+    }
+  }
+}
+
+// Compares each cart line with the product as it is now: its current price against the price the
+// buyer accepted, whether it is still sold, and whether there is enough stock. Nothing is changed;
+// the cart is updated once the buyer has seen the result.
+export async function validateCartLines(items: CartLineInput[]): Promise<ValidateCartResponse> {
+  const productIds = Array.from(new Set(items.map((item) => item.productId)))
+  const { data: products, error } =
+    productIds.length > 0
+      ? await getSupabaseAdmin()
+          .from("products")
+          .select("id, product_name, discount_price, original_price, is_approved, stock_quantity")
+          .in("id", productIds)
+      : { data: [], error: null }
+
+  if (error) throw error
+
+  const productsById = new Map((products || []).map((product) => [product.id, product]))
+  const lines = items.map((item): ValidatedCartLine => {
+    const product = productsById.get(item.productId)
+    const available = Boolean(product?.is_approved)
+    const currentPrice = product && available ? Number(product.discount_price ?? product.original_price) : null
+    const stockQuantity = product?.stock_quantity ?? 0
+    return {
+      productId: item.productId,
+      productName: product?.product_name ?? null,
+      quantity: item.quantity,
+      priceAtAdd: item.priceAtAdd,
+      currentPrice,
+      stockQuantity,
+      priceChanged: currentPrice !== null && isPriceDifferent(currentPrice, item.priceAtAdd),
+      issue: !available
+        ? "unavailable"
+        : stockQuantity <= 0
+          ? "out_of_stock"
+          : item.quantity > stockQuantity
+            ? "over_stock"
+            : null,
+    }
+  })
+
+  return {
+    lines,
+    priceChanges: lines.filter((line) => line.priceChanged).length,
+    blockingIssues: lines.filter((line) => line.issue).length,
+  }
+}
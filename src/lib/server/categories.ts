@@ -0,0 +1,144 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { AdminError } from "@/lib/server/admin"
+import {
+  buildCategoryTree,
+  CATEGORY_COLUMNS,
+  isValidSlug,
+  MAX_CATEGORY_NAME_LENGTH,
+  slugify,
+  type Category,
+  type CategoryCreateRequest,
+  type CategoryNode,
+  type CategoryUpdateRequest,
+} from "@/lib/categories"
+
+// Postgres unique_violation: the slug, or the name among its siblings, is taken
+const UNIQUE_VIOLATION = "23505"
+
+function cleanName(name: unknown) {
+  const trimmed = typeof name === "string" ? name.trim().replace(/\s+/g, " ") : ""
+  if (!trimmed) {
+    throw new AdminError("Give the category a name.")
+  }
+  if (trimmed.length > MAX_CATEGORY_NAME_LENGTH) {
+    throw new AdminError(`Keep the name under ${MAX_CATEGORY_NAME_LENGTH} characters.`)
+  }
+  return trimmed
+}
+
+const cleanIcon = (icon: unknown) => (typeof icon === "string" && icon.trim() ? icon.trim().slice(0, 16) : null)
+
+function duplicateError(error: { code?: string; message?: string }) {
+  return error.code === UNIQUE_VIOLATION
+    ? new AdminError(
+        error.message?.includes("slug") ? "Another category already uses this slug." : "There is already a category with this name here.",
+        409,
+      )
+    : null
+}
+
+// Every category, inactive ones included, for the admin editor.
+export async function listCategoryTree(): Promise<CategoryNode[]> {
+  const { data, error } = await getSupabaseAdmin().from("categories").select(CATEGORY_COLUMNS)
+  if (error) throw error
+  return buildCategoryTree((data || []) as Category[])
+}
+
+export async function createCategory(request: Partial<CategoryCreateRequest>): Promise<Category> {
+  const admin = getSupabaseAdmin()
+  const name = cleanName(request.name)
+  const slug = request.slug?.trim() || slugify(name)
+  if (!isValidSlug(slug)) {
+    throw new AdminError("Slugs use lowercase letters, numbers and single hyphens.")
+  }
+
+  const parentId = request.parentId || null
+  let siblings = admin.from("categories").select("sort_order").order("sort_order", { ascending: false }).limit(1)
+  if (parentId) {
+    const { data: parent, error: parentError } = await admin
+      .from("categories")
+      .select("id, parent_id")
+      .eq("id", parentId)
+      .maybeSingle()
+    if (parentError) throw parentError
+    if (!parent) {
+      throw new AdminError("Main category not found.", 404)
+    }
+    if (parent.parent_id) {
+      throw new AdminError("Sub-categories can only be added to a main category.")
+    }
+    siblings = siblings.eq("parent_id", parentId)
+  } else {
+    siblings = siblings.is("parent_id", null)
+  }
+  const { data: last, error: lastError } = await siblings.maybeSingle()
+  if (lastError) throw lastError
+
+  const { data, error } = await admin
+    .from("categories")
+    .insert({
+      parent_id: parentId,
+      slug,
+      name,
+      icon: cleanIcon(request.icon),
+      // New categories go to the end of their list
+      sort_order: (last?.sort_order ?? 0) + 1,
+    })
+    .select(CATEGORY_COLUMNS)
+    .single()
+  if (error) throw duplicateError(error) || error
+  return data as Category
+}
+
+// Slugs stay as they were created: products and links refer to them.
+export async function updateCategory(categoryId: string, request: Partial<CategoryUpdateRequest>): Promise<Category> {
+  const changes: Partial<Pick<Category, "name" | "icon" | "is_active">> = {}
+  if (request.name !== undefined) changes.name = cleanName(request.name)
+  if (request.icon !== undefined) changes.icon = cleanIcon(request.icon)
+  if (request.isActive !== undefined) changes.is_active = request.isActive === true
+  if (Object.keys(changes).length === 0) {
+    throw new AdminError("Nothing to change.")
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from("categories")
+    .update(changes)
+    .eq("id", categoryId)
+    .select(CATEGORY_COLUMNS)
+    .maybeSingle()
+  if (error) throw duplicateError(error) || error
+  if (!data) {
+    throw new AdminError("Category not found.", 404)
+  }
+  return data as Category
+}
+
+// Puts main categories, or the sub-categories of one main category, in the given order.
+export async function reorderCategories(ids: unknown): Promise<CategoryNode[]> {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+    throw new AdminError("Send the categories in their new order.")
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: rows, error } = await admin.from("categories").select("id, parent_id").in("id", ids)
+  if (error) throw error
+  const parents = new Set((rows || []).map((row) => row.parent_id))
+  if ((rows || []).length !== new Set(ids).size || parents.size !== 1) {
+    throw new AdminError("Only categories in the same list can be reordered together.")
+  }
+
+  const [parentId] = Array.from(parents)
+  let siblings = admin.from("categories").select("id", { count: "exact", head: true })
+  siblings = parentId ? siblings.eq("parent_id", parentId) : siblings.is("parent_id", null)
+  const { count, error: countError } = await siblings
+  if (countError) throw countError
+  if (count !== ids.length) {
+    throw new AdminError("The list has changed; reload and try again.", 409)
+  }
+
+  for (const [index, id] of (ids as string[]).entries()) {
+    const { error: updateError } = await admin.from("categories").update({ sort_order: index + 1 }).eq("id", id)
+    if (updateError) throw updateError
+  }
+  return listCategoryTree()
+}
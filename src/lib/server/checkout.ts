@@ -0,0 +1,206 @@
+import { v4 as uuidv4 } from "uuid"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import {
+  calculateCompanyTotals,
+  calculateOrderTotals,
+  type CompanyDiscounts,
+  type OrderTotals,
+  type PricingOptions,
+} from "@/lib/order-pricing"
+import { checkCodEligibility, COD_SETTINGS_COLUMNS, type CompanyCodSettings } from "@/lib/cod"
+import {
+  PARCEL_COLUMNS,
+  SHIPPING_SETTINGS_COLUMNS,
+  type CompanyShippingSettings,
+  type ParcelSpec,
+} from "@/lib/shipping"
+import { isPriceDifferent } from "@/lib/cart"
+import type { CheckoutItemInput, ShippingDetails } from "@/lib/checkout"
+
+export class CheckoutError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "CheckoutError"
+    this.status = status
+  }
+}
+
+export interface PricedCheckoutLine {
+  productId: string
+  productName: string
+  companyId: string
+  quantity: number
+  unitPrice: number
+  categories: string[] // main category names, for category-scoped coupons
+  parcel: ParcelSpec
+  shippingSettings: CompanyShippingSettings | null
+  hsnCode: string | null
+  gstRate: number
+  sellerGstin: string | null
+}
+
+export interface LinePricingParams {
+  discounts?: CompanyDiscounts
+  pincode?: string | null
+  state?: string | null // delivery state, which decides CGST/SGST vs IGST
+}
+
+export function assertCheckoutItems(items: unknown): asserts items is CheckoutItemInput[] {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new CheckoutError("Your order has no items.")
+  }
+  for (const item of items) {
+    if (typeof item?.productId !== "string" || !Number.isInteger(item?.quantity) || item.quantity < 1) {
+      throw new CheckoutError("Invalid item in order.")
+    }
+    if (item.expectedUnitPrice !== undefined && typeof item.expectedUnitPrice !== "number") {
+      throw new CheckoutError("Invalid item in order.")
+    }
+  }
+}
+
+export function assertShippingDetails(shipping: unknown): asserts shipping is ShippingDetails {
+  const required = ["customerName", "primaryPhone", "country", "state", "city", "pincode", "area", "street", "houseNumber"]
+  const details = shipping as Record<string, unknown> | null
+  if (!details || required.some((field) => typeof details[field] !== "string" || !(details[field] as string).trim())) {
+    throw new CheckoutError("Please fill in all required shipping details.")
+  }
+}
+
+// Prices every line from the products table; the browser's `expectedUnitPrice` is only compared
+// with it, so a buyer is never charged a price they haven't seen. The stock check here only
+// produces a friendly message; `reserveStock` is what actually guarantees it.
+export async function priceCheckoutItems(items: CheckoutItemInput[]): Promise<PricedCheckoutLine[]> {
+  const productIds = Array.from(new Set(items.map((item) => item.productId)))
+  const { data: products, error } = await getSupabaseAdmin()
+    .from("products")
+    .select(
+      `id, product_name, company_id, discount_price, original_price, is_approved, stock_quantity, categories,
+      hsn_code, gst_rate, ${PARCEL_COLUMNS}, companies ( ${SHIPPING_SETTINGS_COLUMNS}, gst_number )`,
+    )
+    .in("id", productIds)
+
+  if (error) throw error
+
+  const productsById = new Map((products || []).map((product) => [product.id, product]))
+  const requestedById = new Map<string, number>()
+  items.forEach((item) => requestedById.set(item.productId, (requestedById.get(item.productId) || 0) + item.quantity))
+
+  return items.map((item) => {
+    const product = productsById.get(item.productId)
+    if (!product || !product.is_approved) {
+      throw new CheckoutError("One of the products in your order is no longer available.", 409)
+    }
+    if ((requestedById.get(item.productId) || 0) > product.stock_quantity) {
+      throw new CheckoutError(
+        product.stock_quantity > 0
+          ? `Only ${product.stock_quantity} unit(s) of ${product.product_name} left in stock.`
+          : `${product.product_name} is out of stock.`,
+        409,
+      )
+    }
+    const unitPrice = Number(product.discount_price ?? product.original_price)
+    if (item.expectedUnitPrice !== undefined && isPriceDifferent(unitPrice, item.expectedUnitPrice)) {
+      throw new CheckoutError(
+        `The price of ${product.product_name} has changed to ₹${unitPrice.toFixed(2)}. Please review your cart.`,
+        409,
+      )
+    }
+    const company = (Array.isArray(product.companies) ? product.companies[0] : product.companies) ?? null
+    return {
+      productId: product.id,
+      productName: product.product_name,
+      companyId: product.company_id,
+      quantity: item.quantity,
+      unitPrice,
+      categories: ((product.categories || []) as { main: string }[]).map((category) => category.main),
+      parcel: {
+        weight: product.weight,
+        weight_unit: product.weight_unit,
+        length: product.length,
+        width: product.width,
+        height: product.height,
+        dimension_unit: product.dimension_unit,
+      },
+      shippingSettings: company,
+      hsnCode: product.hsn_code,
+      gstRate: Number(product.gst_rate) || 0,
+      sellerGstin: company?.gst_number ?? null,
+    }
+  })
+}
+
+export function toPricedLine(line: PricedCheckoutLine) {
+  return { unitPrice: line.unitPrice, quantity: line.quantity, companyId: line.companyId, parcel: line.parcel }
+}
+
+// Shipping is quoted from the settings of the companies in the order and the delivery pincode.
+export function pricingOptionsFor(lines: PricedCheckoutLine[], params: LinePricingParams = {}): PricingOptions {
+  const companies = new Map<string, CompanyShippingSettings>()
+  lines.forEach((line) => {
+    if (line.shippingSettings) companies.set(line.companyId, line.shippingSettings)
+  })
+  return {
+    discounts: params.discounts,
+    shipping: { companies: Array.from(companies.values()), pincode: params.pincode },
+  }
+}
+
+export function totalsForLines(lines: PricedCheckoutLine[], params?: LinePricingParams): OrderTotals {
+  return calculateOrderTotals(lines.map(toPricedLine), pricingOptionsFor(lines, params))
+}
+
+// Every company in the order has to accept Cash on Delivery for its part of it.
+export async function assertCodEligible(lines: PricedCheckoutLine[], params: LinePricingParams & { pincode: string }) {
+  const companyTotals = calculateCompanyTotals(lines.map(toPricedLine), pricingOptionsFor(lines, params))
+
+  const { data: companies, error } = await getSupabaseAdmin()
+    .from("companies")
+    .select(COD_SETTINGS_COLUMNS)
+    .in("id", companyTotals.map((totals) => totals.companyId).filter((id): id is string => Boolean(id)))
+
+  if (error) throw error
+
+  const eligibility = checkCodEligibility((companies || []) as CompanyCodSettings[], companyTotals, params.pincode)
+  if (!eligibility.eligible) {
+    throw new CheckoutError(eligibility.reason, 422)
+  }
+}
+
+export interface OrderItemSnapshot {
+  id: string
+  product_id: string
+  quantity: number
+  price_at_purchase: number
+  created_at: string
+}
+
+// Snapshot stored in `orders.order_items`; `price_at_purchase` is the server-side price.
+export function toOrderItems(lines: PricedCheckoutLine[]): OrderItemSnapshot[] {
+  const createdAt = new Date().toISOString()
+  return lines.map((line) => ({
+    id: uuidv4(),
+    product_id: line.productId,
+    quantity: line.quantity,
+    price_at_purchase: line.unitPrice,
+    created_at: createdAt,
+  }))
+}
+
+export function toShippingColumns(shipping: ShippingDetails) {
+  return {
+    customer_name: shipping.customerName,
+    primary_phone: shipping.primaryPhone,
+    secondary_phone: shipping.secondaryPhone || null,
+    country: shipping.country,
+    state: shipping.state,
+    city: shipping.city,
+    pincode: shipping.pincode,
+    area: shipping.area,
+    street: shipping.street,
+    house_number: shipping.houseNumber,
+    location: { lat: shipping.location?.lat ?? 0, lng: shipping.location?.lng ?? 0 },
+  }
+}
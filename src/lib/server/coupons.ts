@@ -0,0 +1,149 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { CheckoutError, type PricedCheckoutLine } from "@/lib/server/checkout"
+import { lineSubtotal, roundCurrency, type CompanyDiscounts } from "@/lib/order-pricing"
+
+export interface Coupon {
+  id: string
+  code: string
+  description: string | null
+  discount_type: "percentage" | "flat"
+  discount_value: number
+  max_discount: number | null
+  min_cart_value: number
+  usage_limit: number | null
+  per_user_limit: number | null
+  starts_at: string | null
+  expires_at: string | null
+  company_id: string | null
+  category: string | null
+  is_active: boolean
+}
+
+export interface AppliedCoupon {
+  couponId: string
+  code: string
+  description: string | null
+  discount: number
+  discounts: CompanyDiscounts
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase()
+
+async function findCoupon(code: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("coupons")
+    .select("*")
+    .eq("code", normalizeCouponCode(code))
+    .maybeSingle()
+
+  if (error) throw error
+  return data as Coupon | null
+}
+
+async function countRedemptions(couponId: string, userId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .rpc("coupon_redemption_counts", { p_coupon_id: couponId, p_user_id: userId })
+    .single()
+
+  if (error) throw error
+  const counts = data as { total: number; by_user: number }
+  return { total: counts.total, byUser: counts.by_user }
+}
+
+// Splits the discount across companies in proportion to their eligible items, so every sub-order
+// carries its share and the sub-order totals still add up to the parent order.
+function allocateDiscount(discount: number, eligibleLines: PricedCheckoutLine[]): CompanyDiscounts {
+  const eligibleByCompany = new Map<string | null, number>()
+  eligibleLines.forEach((line) => {
+    eligibleByCompany.set(line.companyId, (eligibleByCompany.get(line.companyId) || 0) + line.unitPrice * line.quantity)
+  })
+
+  const eligibleSubtotal = lineSubtotal(eligibleLines)
+  const discounts: CompanyDiscounts = new Map()
+  let remaining = discount
+  Array.from(eligibleByCompany).forEach(([companyId, amount], index, companies) => {
+    const share = index === companies.length - 1 ? remaining : roundCurrency((discount * amount) / eligibleSubtotal)
+    discounts.set(companyId, share)
+    remaining = roundCurrency(remaining - share)
+  })
+  return discounts
+}
+
+// Checks every rule of the coupon against this cart and works out the discount. Throws a
+// CheckoutError with a buyer-facing reason when the code cannot be used.
+export async function applyCoupon(code: string, userId: string, lines: PricedCheckoutLine[]): Promise<AppliedCoupon> {
+  const coupon = await findCoupon(code)
+  const now = Date.now()
+
+  if (!coupon || !coupon.is_active) {
+    throw new CheckoutError("This coupon code is not valid.", 404)
+  }
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) {
+    throw new CheckoutError("This coupon is not active yet.", 422)
+  }
+  if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= now) {
+    throw new CheckoutError("This coupon has expired.", 422)
+  }
+
+  const cartSubtotal = lineSubtotal(lines)
+  if (cartSubtotal < Number(coupon.min_cart_value)) {
+    throw new CheckoutError(
+      `Add items worth ₹${(Number(coupon.min_cart_value) - cartSubtotal).toFixed(2)} more to use this coupon.`,
+      422,
+    )
+  }
+
+  const eligibleLines = lines.filter(
+    (line) =>
+      (!coupon.company_id || line.companyId === coupon.company_id) &&
+      (!coupon.category || line.categories.includes(coupon.category)),
+  )
+  if (eligibleLines.length === 0) {
+    throw new CheckoutError("This coupon doesn't apply to any item in your cart.", 422)
+  }
+
+  const usage = await countRedemptions(coupon.id, userId)
+  if (coupon.usage_limit !== null && usage.total >= coupon.usage_limit) {
+    throw new CheckoutError("This coupon has been fully redeemed.", 422)
+  }
+  if (coupon.per_user_limit !== null && usage.byUser >= coupon.per_user_limit) {
+    throw new CheckoutError("You have already used this coupon.", 422)
+  }
+
+  const eligibleSubtotal = lineSubtotal(eligibleLines)
+  let discount =
+    coupon.discount_type === "percentage"
+      ? (eligibleSubtotal * Number(coupon.discount_value)) / 100
+      : Number(coupon.discount_value)
+  if (coupon.max_discount !== null) {
+    discount = Math.min(discount, Number(coupon.max_discount))
+  }
+  discount = roundCurrency(Math.min(discount, eligibleSubtotal))
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    description: coupon.description,
+    discount,
+    discounts: allocateDiscount(discount, eligibleLines),
+  }
+}
+
+// Records the use against the order. The database re-checks the usage limits under a row lock, so
+// two checkouts racing for the last use cannot both get it.
+export async function redeemCoupon(coupon: AppliedCoupon, orderId: string, userId: string) {
+  const { error } = await getSupabaseAdmin().rpc("redeem_coupon", {
+    p_coupon_id: coupon.couponId,
+    p_order_id: orderId,
+    p_user_id: userId,
+    p_discount: coupon.discount,
+  })
+
+  if (error?.message === "coupon_usage_limit_reached") {
+    throw new CheckoutError("This coupon has just been fully redeemed.", 409)
+  }
+  if (error?.message === "coupon_user_limit_reached") {
+    throw new CheckoutError("You have already used this coupon.", 409)
+  }
+  if (error) throw error
+}
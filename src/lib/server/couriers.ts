@@ -0,0 +1,59 @@
+import type { TrackingEvent, TrackingStatus } from "@/lib/shipments"
+
+export class CourierError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "CourierError"
+    this.status = status
+  }
+}
+
+export interface CourierTracking {
+  status: TrackingStatus
+  expectedDeliveryDate: string | null
+  // Oldest first
+  events: TrackingEvent[]
+}
+
+// One courier's tracking API. Adding a courier means implementing this and registering it below
+// under the id it has in `COURIERS`.
+export interface CourierAdapter {
+  fetchTracking(trackingNumber: string): Promise<CourierTracking>
+}
+
+interface StubTrackingResponse {
+  awb: string
+  status: TrackingStatus
+  expected_delivery_date: string | null
+  events: TrackingEvent[]
+}
+
+// Talks to `npm run stub:courier`, a local mock courier, at COURIER_STUB_URL.
+function createStubCourier(baseUrl: string): CourierAdapter {
+  return {
+    async fetchTracking(trackingNumber) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/v1/track/${encodeURIComponent(trackingNumber)}`, {
+        cache: "no-store",
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new CourierError(payload?.error || `Tracking request failed (${response.status})`, response.status)
+      }
+      const tracking = payload as StubTrackingResponse
+      return { status: tracking.status, expectedDeliveryDate: tracking.expected_delivery_date, events: tracking.events }
+    },
+  }
+}
+
+function registeredAdapters(): Record<string, CourierAdapter> {
+  const adapters: Record<string, CourierAdapter> = {}
+  if (process.env.COURIER_STUB_URL) adapters.stub = createStubCourier(process.env.COURIER_STUB_URL)
+  return adapters
+}
+
+// The adapter for a carrier, or null when its tracking isn't integrated.
+export function getCourierAdapter(carrier: string): CourierAdapter | null {
+  return registeredAdapters()[carrier] ?? null
+}
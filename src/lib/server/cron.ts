@@ -0,0 +1,6 @@
+// Scheduled jobs call our cron routes with `Authorization: Bearer $CRON_SECRET` (the header
+// Vercel Cron sends). Without a configured secret the routes refuse every call.
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET
+  return Boolean(secret) && request.headers.get("authorization") === `Bearer ${secret}`
+}
@@ -0,0 +1,185 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { sendMail } from "@/lib/server/mail"
+import {
+  EMAIL_TEMPLATES,
+  renderEmail,
+  type EmailTemplateName,
+  type EmailTemplateProps,
+  type PasswordResetProps,
+  type RenderedEmail,
+} from "@/lib/server/emails/templates"
+
+// After this many failed sends an email is marked failed and left for someone to look at
+export const MAX_EMAIL_ATTEMPTS = 5
+
+// Minutes to wait before each retry: 5 minutes, then 20, 80 and 320
+const retryDelayMinutes = (attempts: number) => 5 * 4 ** (attempts - 1)
+
+// How long a claimed email may stay "sending" before another run takes it over
+const SENDING_LEASE_MINUTES = 10
+
+interface OutboxEmail {
+  id: string
+  template: EmailTemplateName
+  recipient: string
+  payload: unknown
+  status: "pending" | "sending"
+  attempts: number
+}
+
+// What is stored in `email_outbox.payload`. A password reset link signs the user in, so it is never
+// stored: it is made when the email is sent, and the bodies of reset emails aren't kept either.
+export type OutboxPayload<T extends EmailTemplateName> = T extends "password_reset"
+  ? Omit<PasswordResetProps, "resetUrl">
+  : EmailTemplateProps[T]
+
+const keepsBodies = (template: EmailTemplateName) => template !== "password_reset"
+
+export interface EmailOutboxRunSummary {
+  sent: number
+  retrying: number
+  failed: number
+}
+
+// Queues an email for the outbox job. With a `dedupeKey`, an email already queued under the same key
+// wins and this returns null.
+export async function enqueueEmail<T extends EmailTemplateName>(
+  template: T,
+  recipient: string,
+  props: OutboxPayload<T>,
+  refs: { dedupeKey?: string; userId?: string; orderId?: string; companyId?: string } = {},
+): Promise<string | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("email_outbox")
+    .upsert(
+      [
+        {
+          template,
+          recipient,
+          payload: props,
+          dedupe_key: refs.dedupeKey ?? null,
+          user_id: refs.userId ?? null,
+          order_id: refs.orderId ?? null,
+          company_id: refs.companyId ?? null,
+        },
+      ],
+      { onConflict: "dedupe_key", ignoreDuplicates: true },
+    )
+    .select("id")
+  if (error) throw error
+  return data?.[0]?.id ?? null
+}
+
+// Renders and sends the outbox emails that are due, oldest first (or just `ids`, for a caller that
+// wants its email out now rather than on the next run). Each email is claimed by bumping its attempt
+// count, so overlapping runs can't send it twice. A failed send is retried with a growing delay up
+// to MAX_EMAIL_ATTEMPTS; an email whose template can't render fails straight away, since retrying
+// won't fix it. `appUrl` turns the templates' links into absolute ones.
+export async function deliverOutboxEmails(params: {
+  appUrl: string
+  now?: Date
+  limit?: number
+  ids?: string[]
+}): Promise<EmailOutboxRunSummary> {
+  const admin = getSupabaseAdmin()
+  const now = params.now ?? new Date()
+  let query = admin
+    .from("email_outbox")
+    .select("id, template, recipient, payload, status, attempts")
+    .in("status", ["pending", "sending"])
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(params.limit ?? 100)
+  if (params.ids) query = query.in("id", params.ids)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const summary: EmailOutboxRunSummary = { sent: 0, retrying: 0, failed: 0 }
+  for (const email of (data || []) as OutboxEmail[]) {
+    const attempts = email.attempts + 1
+    const { data: claimed, error: claimError } = await admin
+      .from("email_outbox")
+      .update({
+        status: "sending",
+        attempts,
+        next_attempt_at: new Date(now.getTime() + SENDING_LEASE_MINUTES * 60_000).toISOString(),
+      })
+      .eq("id", email.id)
+      .eq("status", email.status)
+      .eq("attempts", email.attempts)
+      .select("id")
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) continue
+
+    const retryLater = (sendError: unknown, content: Record<string, unknown> = {}) => {
+      console.error(`Could not send email ${email.id} (attempt ${attempts}):`, sendError)
+      const giveUp = attempts >= MAX_EMAIL_ATTEMPTS
+      if (giveUp) summary.failed++
+      else summary.retrying++
+      return recordResult(email.id, {
+        ...content,
+        status: giveUp ? "failed" : "pending",
+        last_error: errorMessage(sendError),
+        next_attempt_at: new Date(now.getTime() + retryDelayMinutes(attempts) * 60_000).toISOString(),
+      })
+    }
+
+    let props: EmailTemplateProps[EmailTemplateName]
+    try {
+      props = await sendTimeProps(email, params.appUrl)
+    } catch (propsError) {
+      await retryLater(propsError)
+      continue
+    }
+
+    let rendered: RenderedEmail
+    try {
+      if (!(email.template in EMAIL_TEMPLATES)) throw new Error(`Unknown email template "${email.template}"`)
+      rendered = await renderEmail(email.template, props as EmailTemplateProps[typeof email.template], {
+        appUrl: params.appUrl,
+      })
+    } catch (renderError) {
+      console.error(`Could not render email ${email.id}:`, renderError)
+      await recordResult(email.id, { status: "failed", last_error: errorMessage(renderError) })
+      summary.failed++
+      continue
+    }
+
+    const content = keepsBodies(email.template)
+      ? { subject: rendered.subject, body_text: rendered.text, body_html: rendered.html }
+      : { subject: rendered.subject }
+    try {
+      await sendMail({ to: email.recipient, subject: rendered.subject, text: rendered.text, html: rendered.html })
+      await recordResult(email.id, { ...content, status: "sent", sent_at: new Date().toISOString(), last_error: null })
+      summary.sent++
+    } catch (sendError) {
+      await retryLater(sendError, content)
+    }
+  }
+
+  return summary
+}
+
+// The stored payload plus anything left out of it, see `OutboxPayload`. A new reset link replaces
+// the one from an earlier attempt, so only the link in the email that arrives works.
+async function sendTimeProps(email: OutboxEmail, appUrl: string): Promise<EmailTemplateProps[EmailTemplateName]> {
+  if (email.template !== "password_reset") {
+    return email.payload as EmailTemplateProps[EmailTemplateName]
+  }
+
+  const { data, error } = await getSupabaseAdmin().auth.admin.generateLink({
+    type: "recovery",
+    email: email.recipient,
+    options: { redirectTo: `${appUrl.replace(/\/$/, "")}/reset-password` },
+  })
+  if (error) throw error
+  return { ...(email.payload as OutboxPayload<"password_reset">), resetUrl: data.properties.action_link }
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+async function recordResult(emailId: string, update: Record<string, unknown>) {
+  const { error } = await getSupabaseAdmin().from("email_outbox").update(update).eq("id", emailId)
+  if (error) console.error(`Could not record the result of email ${emailId}:`, error)
+}
@@ -0,0 +1,130 @@
+import type { ReactNode } from "react"
+
+// Email clients ignore stylesheets, so everything here is inline styles on tables and plain elements.
+
+export interface EmailItem {
+  name: string
+  quantity: number
+  unitPrice: number
+}
+
+const BRAND_GREEN = "#15803d"
+
+export const formatRupees = (amount: number) => `₹${Number(amount).toFixed(2)}`
+
+export const orderRef = (orderId: string) => `#${orderId.slice(0, 8)}`
+
+export function EmailLayout({ title, preview, appUrl, children }: {
+  title: string
+  // The line most inboxes show after the subject
+  preview: string
+  appUrl: string
+  children: ReactNode
+}) {
+  return (
+    <html lang="en">
+      <body style={{ margin: 0, padding: 0, backgroundColor: "#f3f4f6", fontFamily: "Arial, Helvetica, sans-serif" }}>
+        {/* React moves these into the document's <head> when it renders it */}
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{title}</title>
+        <div style={{ display: "none", maxHeight: 0, overflow: "hidden" }}>{preview}</div>
+        <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ padding: "24px 12px" }}>
+          <tbody>
+            <tr>
+              <td align="center">
+                <table
+                  role="presentation"
+                  width="100%"
+                  cellPadding={0}
+                  cellSpacing={0}
+                  style={{ maxWidth: 560, backgroundColor: "#ffffff", borderRadius: 8, overflow: "hidden" }}
+                >
+                  <tbody>
+                    <tr>
+                      <td style={{ backgroundColor: BRAND_GREEN, padding: "16px 24px" }}>
+                        <a href={appUrl} style={{ color: "#ffffff", fontSize: 22, fontWeight: "bold", textDecoration: "none" }}>
+                          Organixa
+                        </a>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: 24, color: "#1f2937", fontSize: 15, lineHeight: "22px" }}>
+                        <h1 style={{ fontSize: 20, margin: "0 0 16px" }}>{title}</h1>
+                        {children}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td style={{ padding: "16px 24px", borderTop: "1px solid #e5e7eb", color: "#6b7280", fontSize: 12 }}>
+                        Questions? Write to info@organixa.com.
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </body>
+    </html>
+  )
+}
+
+export function Paragraph({ children }: { children: ReactNode }) {
+  return <p style={{ margin: "0 0 16px" }}>{children}</p>
+}
+
+export function ActionButton({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <p style={{ margin: "24px 0" }}>
+      <a
+        href={href}
+        style={{
+          backgroundColor: BRAND_GREEN,
+          color: "#ffffff",
+          padding: "10px 20px",
+          borderRadius: 6,
+          textDecoration: "none",
+          fontWeight: "bold",
+          display: "inline-block",
+        }}
+      >
+        {children}
+      </a>
+    </p>
+  )
+}
+
+export function ItemsTable({ items, total }: { items: EmailItem[]; total: number }) {
+  const cell = { padding: "8px 0", borderBottom: "1px solid #e5e7eb" }
+  return (
+    <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ margin: "0 0 16px", fontSize: 14 }}>
+      <tbody>
+        {items.map((item, index) => (
+          <tr key={index}>
+            <td style={cell}>
+              {item.name} × {item.quantity}
+            </td>
+            <td align="right" style={cell}>
+              {formatRupees(item.unitPrice * item.quantity)}
+            </td>
+          </tr>
+        ))}
+        <tr>
+          <td style={{ padding: "8px 0", fontWeight: "bold" }}>Total</td>
+          <td align="right" style={{ padding: "8px 0", fontWeight: "bold" }}>
+            {formatRupees(total)}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  )
+}
+
+// The same list for the plain-text part
+export function itemsText(items: EmailItem[], total: number) {
+  return [
+    ...items.map((item) => `- ${item.name} × ${item.quantity}: ${formatRupees(item.unitPrice * item.quantity)}`),
+    `Total: ${formatRupees(total)}`,
+  ].join("\n")
+}
@@ -0,0 +1,311 @@
+import type { ReactElement } from "react"
+import { courierName } from "@/lib/shipments"
+import {
+  ActionButton,
+  EmailLayout,
+  ItemsTable,
+  itemsText,
+  orderRef,
+  Paragraph,
+  type EmailItem,
+} from "@/lib/server/emails/layout"
+
+export interface EmailContext {
+  appUrl: string
+}
+
+// Props come from `email_outbox.payload`, which the database triggers fill in for the order and
+// company emails, so these must stay in step with `queue_order_status_email` and friends.
+interface OrderEmailProps {
+  customerName: string | null
+  orderId: string
+  items: EmailItem[]
+  total: number
+}
+
+export interface OrderConfirmationProps extends OrderEmailProps {
+  paymentMethod: string
+  shippingAddress: string
+}
+
+export interface OrderShippedProps extends OrderEmailProps {
+  companyName: string
+  carrier: string | null
+  trackingNumber: string | null
+  expectedDeliveryDate: string | null
+}
+
+export interface OrderDeliveredProps extends OrderEmailProps {
+  companyName: string
+}
+
+export interface OrderCancelledProps extends OrderEmailProps {
+  companyName: string
+  cancelledBy: "customer" | "vendor" | "system"
+  reason: string | null
+  paidOnline: boolean
+}
+
+export interface CompanyApprovedProps {
+  companyName: string
+  contactName: string | null
+}
+
+export interface CompanyRejectedProps {
+  companyName: string
+  contactName: string | null
+  reason: string | null
+}
+
+export interface PasswordResetProps {
+  name: string | null
+  resetUrl: string
+}
+
+export interface EmailTemplateProps {
+  order_confirmation: OrderConfirmationProps
+  order_shipped: OrderShippedProps
+  order_delivered: OrderDeliveredProps
+  order_cancelled: OrderCancelledProps
+  company_approved: CompanyApprovedProps
+  company_rejected: CompanyRejectedProps
+  password_reset: PasswordResetProps
+}
+
+export type EmailTemplateName = keyof EmailTemplateProps
+
+// One email. `Body` is wrapped in `EmailLayout` with the subject as its heading; `text` is the
+// plain-text part sent alongside it.
+export interface EmailTemplate<P> {
+  subject: (props: P) => string
+  preview: (props: P) => string
+  Body: (props: P & EmailContext) => ReactElement
+  text: (props: P & EmailContext) => string
+}
+
+const greeting = (name: string | null) => `Hi ${name || "there"},`
+
+const orderUrl = (appUrl: string, orderId: string) => `${appUrl}/orders/${orderId}`
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", { weekday: "long", day: "numeric", month: "long", timeZone: "UTC" })
+
+const orderConfirmation: EmailTemplate<OrderConfirmationProps> = {
+  subject: ({ orderId }) => `Your Organixa order ${orderRef(orderId)} is confirmed`,
+  preview: ({ items }) => `${items.length} item(s) on their way to being packed.`,
+  Body: ({ appUrl, ...order }) => (
+    <>
+      <Paragraph>{greeting(order.customerName)}</Paragraph>
+      <Paragraph>
+        Thanks for your order. We&apos;ll email you again when it ships
+        {order.paymentMethod === "cod" ? "; please keep the amount ready to pay on delivery." : "."}
+      </Paragraph>
+      <ItemsTable items={order.items} total={order.total} />
+      <Paragraph>Delivering to: {order.shippingAddress}</Paragraph>
+      <ActionButton href={orderUrl(appUrl, order.orderId)}>View your order</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, ...order }) =>
+    [
+      greeting(order.customerName),
+      `Thanks for your order. We'll email you again when it ships${order.paymentMethod === "cod" ? "; please keep the amount ready to pay on delivery." : "."}`,
+      itemsText(order.items, order.total),
+      `Delivering to: ${order.shippingAddress}`,
+      `View your order: ${orderUrl(appUrl, order.orderId)}`,
+    ].join("\n\n"),
+}
+
+const orderShipped: EmailTemplate<OrderShippedProps> = {
+  subject: ({ orderId }) => `Order ${orderRef(orderId)} has shipped`,
+  preview: ({ companyName }) => `${companyName} has sent your items on their way.`,
+  Body: ({ appUrl, ...order }) => (
+    <>
+      <Paragraph>{greeting(order.customerName)}</Paragraph>
+      <Paragraph>{order.companyName} has sent these items on their way:</Paragraph>
+      <ItemsTable items={order.items} total={order.total} />
+      {order.trackingNumber && (
+        <Paragraph>
+          {courierName(order.carrier || "")} tracking number: <strong>{order.trackingNumber}</strong>
+          {order.expectedDeliveryDate && (
+            <>
+              <br />
+              Expected by {formatDate(order.expectedDeliveryDate)}
+            </>
+          )}
+        </Paragraph>
+      )}
+      <ActionButton href={orderUrl(appUrl, order.orderId)}>Track your order</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, ...order }) =>
+    [
+      greeting(order.customerName),
+      `${order.companyName} has sent these items on their way:`,
+      itemsText(order.items, order.total),
+      order.trackingNumber &&
+        `${courierName(order.carrier || "")} tracking number: ${order.trackingNumber}` +
+          (order.expectedDeliveryDate ? `\nExpected by ${formatDate(order.expectedDeliveryDate)}` : ""),
+      `Track your order: ${orderUrl(appUrl, order.orderId)}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+}
+
+const orderDelivered: EmailTemplate<OrderDeliveredProps> = {
+  subject: ({ orderId }) => `Order ${orderRef(orderId)} delivered`,
+  preview: ({ companyName }) => `Your items from ${companyName} have arrived.`,
+  Body: ({ appUrl, ...order }) => (
+    <>
+      <Paragraph>{greeting(order.customerName)}</Paragraph>
+      <Paragraph>Your items from {order.companyName} have been delivered:</Paragraph>
+      <ItemsTable items={order.items} total={order.total} />
+      <Paragraph>Something not right? You can request a return from the order page.</Paragraph>
+      <ActionButton href={orderUrl(appUrl, order.orderId)}>View your order</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, ...order }) =>
+    [
+      greeting(order.customerName),
+      `Your items from ${order.companyName} have been delivered:`,
+      itemsText(order.items, order.total),
+      "Something not right? You can request a return from the order page.",
+      `View your order: ${orderUrl(appUrl, order.orderId)}`,
+    ].join("\n\n"),
+}
+
+function cancellationSummary(order: OrderCancelledProps) {
+  const who =
+    order.cancelledBy === "customer"
+      ? "As you asked, these items have been cancelled"
+      : `${order.companyName} had to cancel these items`
+  return `${who}${order.reason ? ` (${order.reason})` : ""}:`
+}
+
+const refundNote = (paidOnline: boolean) =>
+  paidOnline
+    ? "Your payment for them will be refunded to the original payment method within 5–7 business days."
+    : "As this was Cash on Delivery, there's nothing to pay for them."
+
+const orderCancelled: EmailTemplate<OrderCancelledProps> = {
+  subject: ({ orderId }) => `Items in order ${orderRef(orderId)} cancelled`,
+  preview: (order) => cancellationSummary(order),
+  Body: ({ appUrl, ...order }) => (
+    <>
+      <Paragraph>{greeting(order.customerName)}</Paragraph>
+      <Paragraph>{cancellationSummary(order)}</Paragraph>
+      <ItemsTable items={order.items} total={order.total} />
+      <Paragraph>{refundNote(order.paidOnline)}</Paragraph>
+      <ActionButton href={orderUrl(appUrl, order.orderId)}>View your order</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, ...order }) =>
+    [
+      greeting(order.customerName),
+      cancellationSummary(order),
+      itemsText(order.items, order.total),
+      refundNote(order.paidOnline),
+      `View your order: ${orderUrl(appUrl, order.orderId)}`,
+    ].join("\n\n"),
+}
+
+const companyApproved: EmailTemplate<CompanyApprovedProps> = {
+  subject: ({ companyName }) => `${companyName} is approved to sell on Organixa`,
+  preview: () => "You can start listing products now.",
+  Body: ({ appUrl, companyName, contactName }) => (
+    <>
+      <Paragraph>{greeting(contactName)}</Paragraph>
+      <Paragraph>
+        We&apos;ve reviewed your registration and {companyName} is now approved. Add your products from the company
+        dashboard; each one is checked before it appears in the shop.
+      </Paragraph>
+      <ActionButton href={`${appUrl}/company/dashboard`}>Open your dashboard</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, companyName, contactName }) =>
+    [
+      greeting(contactName),
+      `We've reviewed your registration and ${companyName} is now approved. Add your products from the company dashboard; each one is checked before it appears in the shop.`,
+      `Open your dashboard: ${appUrl}/company/dashboard`,
+    ].join("\n\n"),
+}
+
+const companyRejected: EmailTemplate<CompanyRejectedProps> = {
+  subject: ({ companyName }) => `Your Organixa registration for ${companyName} needs changes`,
+  preview: ({ reason }) => reason || "We couldn't approve your registration yet.",
+  Body: ({ appUrl, companyName, contactName, reason }) => (
+    <>
+      <Paragraph>{greeting(contactName)}</Paragraph>
+      <Paragraph>We&apos;ve reviewed the registration for {companyName} and couldn&apos;t approve it yet.</Paragraph>
+      {reason && <Paragraph>Reason: {reason}</Paragraph>}
+      <Paragraph>Update your documents from the company dashboard and we&apos;ll review it again.</Paragraph>
+      <ActionButton href={`${appUrl}/company/dashboard/settings`}>Update your registration</ActionButton>
+    </>
+  ),
+  text: ({ appUrl, companyName, contactName, reason }) =>
+    [
+      greeting(contactName),
+      `We've reviewed the registration for ${companyName} and couldn't approve it yet.`,
+      reason && `Reason: ${reason}`,
+      "Update your documents from the company dashboard and we'll review it again.",
+      `Update your registration: ${appUrl}/company/dashboard/settings`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+}
+
+const passwordReset: EmailTemplate<PasswordResetProps> = {
+  subject: () => "Reset your Organixa password",
+  preview: () => "Use the link inside to choose a new password.",
+  Body: ({ name, resetUrl }) => (
+    <>
+      <Paragraph>{greeting(name)}</Paragraph>
+      <Paragraph>Someone asked to reset the password for your account. Choose a new one here:</Paragraph>
+      <ActionButton href={resetUrl}>Reset password</ActionButton>
+      <Paragraph>The link works once and expires in an hour. If it wasn&apos;t you, ignore this email.</Paragraph>
+    </>
+  ),
+  text: ({ name, resetUrl }) =>
+    [
+      greeting(name),
+      "Someone asked to reset the password for your account. Choose a new one here:",
+      resetUrl,
+      "The link works once and expires in an hour. If it wasn't you, ignore this email.",
+    ].join("\n\n"),
+}
+
+export const EMAIL_TEMPLATES: { [T in EmailTemplateName]: EmailTemplate<EmailTemplateProps[T]> } = {
+  order_confirmation: orderConfirmation,
+  order_shipped: orderShipped,
+  order_delivered: orderDelivered,
+  order_cancelled: orderCancelled,
+  company_approved: companyApproved,
+  company_rejected: companyRejected,
+  password_reset: passwordReset,
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+// Renders one template to the subject and both bodies. This uses React's streaming renderer: Next
+// doesn't allow `renderToStaticMarkup` in route handlers.
+export async function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  props: EmailTemplateProps[T],
+  context: EmailContext,
+): Promise<RenderedEmail> {
+  const { renderToReadableStream } = await import("react-dom/server.edge")
+  const definition = EMAIL_TEMPLATES[template] as EmailTemplate<EmailTemplateProps[T]>
+  const appUrl = context.appUrl.replace(/\/$/, "")
+  const subject = definition.subject(props)
+
+  const stream = await renderToReadableStream(
+    <EmailLayout title={subject} preview={definition.preview(props)} appUrl={appUrl}>
+      {definition.Body({ ...props, appUrl })}
+    </EmailLayout>,
+  )
+  await stream.allReady
+  return { subject, text: definition.text({ ...props, appUrl }), html: await new Response(stream).text() }
+}
@@ -0,0 +1,136 @@
+import { PAGE_WIDTH, PdfDocument } from "@/lib/server/pdf"
+import type { GstBreakdown } from "@/lib/gst"
+
+export interface InvoiceData {
+  invoiceNumber: string
+  invoiceDate: Date
+  orderId: string
+  paymentMethod: string
+  seller: { name: string; address: string | null; gstin: string | null }
+  buyer: { name: string; addressLines: string[]; phone: string }
+  gst: GstBreakdown
+  totalAmount: number
+}
+
+const MARGIN = 40
+const RIGHT = PAGE_WIDTH - MARGIN
+const LAST_LINE_Y = 770
+
+// Column right edges (amounts) or left edges (text) of the line-item table.
+const COLUMNS = {
+  index: MARGIN,
+  description: MARGIN + 18,
+  hsn: 250,
+  quantity: 315,
+  rate: 345,
+  taxable: 405,
+  cgst: 450,
+  sgst: 495,
+  igst: 540,
+  total: RIGHT,
+}
+
+const amount = (value: number) => value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+function truncate(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 3)}...` : value
+}
+
+function tableHeader(pdf: PdfDocument, y: number) {
+  const options = { size: 8, bold: true }
+  pdf.line(MARGIN, y - 12, RIGHT, y - 12)
+  pdf.text(COLUMNS.index, y, "#", options)
+  pdf.text(COLUMNS.description, y, "Description", options)
+  pdf.text(COLUMNS.hsn, y, "HSN/SAC", options)
+  pdf.text(COLUMNS.quantity, y, "Qty", { ...options, align: "right" })
+  pdf.text(COLUMNS.rate, y, "GST %", { ...options, align: "right" })
+  pdf.text(COLUMNS.taxable, y, "Taxable", { ...options, align: "right" })
+  pdf.text(COLUMNS.cgst, y, "CGST", { ...options, align: "right" })
+  pdf.text(COLUMNS.sgst, y, "SGST", { ...options, align: "right" })
+  pdf.text(COLUMNS.igst, y, "IGST", { ...options, align: "right" })
+  pdf.text(COLUMNS.total, y, "Amount", { ...options, align: "right" })
+  pdf.line(MARGIN, y + 5, RIGHT, y + 5)
+  return y + 18
+}
+
+export function renderInvoicePdf(invoice: InvoiceData) {
+  const pdf = new PdfDocument()
+  const { gst } = invoice
+
+  pdf.text(PAGE_WIDTH / 2, 50, "TAX INVOICE", { size: 16, bold: true, align: "center" })
+
+  // Seller on the left, invoice details on the right
+  let y = 85
+  pdf.text(MARGIN, y, invoice.seller.name, { size: 11, bold: true })
+  if (invoice.seller.address) pdf.text(MARGIN, (y += 14), truncate(invoice.seller.address, 60), { size: 9 })
+  pdf.text(MARGIN, (y += 14), `GSTIN: ${invoice.seller.gstin || "Not registered"}`, { size: 9 })
+  if (gst.sellerState) pdf.text(MARGIN, (y += 14), `State: ${gst.sellerState}`, { size: 9 })
+
+  const details = [
+    `Invoice No: ${invoice.invoiceNumber}`,
+    `Invoice Date: ${invoice.invoiceDate.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}`,
+    `Order: #${invoice.orderId.substring(0, 8)}`,
+    `Payment: ${invoice.paymentMethod === "cod" ? "Cash on Delivery" : "Prepaid (Razorpay)"}`,
+  ]
+  details.forEach((detail, index) => pdf.text(RIGHT, 85 + index * 14, detail, { size: 9, align: "right" }))
+
+  // Buyer
+  y = Math.max(y, 85 + details.length * 14) + 20
+  pdf.line(MARGIN, y - 12, RIGHT, y - 12)
+  pdf.text(MARGIN, (y += 4), "Bill to / Ship to", { size: 9, bold: true })
+  pdf.text(MARGIN, (y += 14), invoice.buyer.name, { size: 10, bold: true })
+  invoice.buyer.addressLines.forEach((line) => pdf.text(MARGIN, (y += 13), truncate(line, 80), { size: 9 }))
+  pdf.text(MARGIN, (y += 13), `Phone: ${invoice.buyer.phone}`, { size: 9 })
+  pdf.text(RIGHT, y, `Place of supply: ${gst.placeOfSupply || "-"}`, { size: 9, align: "right" })
+
+  // Line items
+  y = tableHeader(pdf, y + 30)
+  gst.lines.forEach((line, index) => {
+    if (y > LAST_LINE_Y) {
+      pdf.addPage()
+      y = tableHeader(pdf, 60)
+    }
+    const options = { size: 8 }
+    pdf.text(COLUMNS.index, y, String(index + 1), options)
+    pdf.text(COLUMNS.description, y, truncate(line.description, 38), options)
+    pdf.text(COLUMNS.hsn, y, line.hsnCode || "-", options)
+    pdf.text(COLUMNS.quantity, y, String(line.quantity), { ...options, align: "right" })
+    pdf.text(COLUMNS.rate, y, `${line.gstRate}%`, { ...options, align: "right" })
+    pdf.text(COLUMNS.taxable, y, amount(line.taxableValue), { ...options, align: "right" })
+    pdf.text(COLUMNS.cgst, y, amount(line.cgst), { ...options, align: "right" })
+    pdf.text(COLUMNS.sgst, y, amount(line.sgst), { ...options, align: "right" })
+    pdf.text(COLUMNS.igst, y, amount(line.igst), { ...options, align: "right" })
+    pdf.text(COLUMNS.total, y, amount(line.amount), { ...options, align: "right" })
+    y += 16
+  })
+
+  // Totals
+  if (y > LAST_LINE_Y - 90) {
+    pdf.addPage()
+    y = 60
+  }
+  pdf.line(MARGIN, y - 8, RIGHT, y - 8)
+  const totals: [string, number][] = [
+    ["Taxable value", gst.taxableValue],
+    ...(gst.supplyType === "intra_state"
+      ? ([
+          ["CGST", gst.cgst],
+          ["SGST", gst.sgst],
+        ] as [string, number][])
+      : ([["IGST", gst.igst]] as [string, number][])),
+  ]
+  totals.forEach(([label, value]) => {
+    pdf.text(COLUMNS.igst, (y += 6), label, { size: 9, align: "right" })
+    pdf.text(RIGHT, y, amount(value), { size: 9, align: "right" })
+    y += 8
+  })
+  y += 8
+  pdf.text(COLUMNS.igst, y, "Invoice total (Rs.)", { size: 11, bold: true, align: "right" })
+  pdf.text(RIGHT, y, amount(invoice.totalAmount), { size: 11, bold: true, align: "right" })
+
+  pdf.text(MARGIN, y + 40, "Prices are inclusive of GST. This is a computer-generated invoice and needs no signature.", {
+    size: 8,
+  })
+
+  return pdf.toBuffer()
+}
@@ -0,0 +1,57 @@
+import { mkdir, writeFile } from "fs/promises"
+import path from "path"
+import { createSmtpTransport, smtpConfigFromEnv } from "@/lib/server/smtp"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+// One way of delivering email. Adding a provider means implementing this and registering it in
+// `getMailTransport` under the name MAIL_TRANSPORT selects it by.
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// Prints each message to the server log.
+const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`)
+  },
+}
+
+// Writes each message as a JSON file to `dir`, for inspecting what would have been sent.
+function createFileTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true })
+      const sentAt = new Date().toISOString()
+      const filename = `${sentAt.replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.json`
+      await writeFile(path.join(dir, filename), JSON.stringify({ ...message, sentAt }, null, 2))
+    },
+  }
+}
+
+function registeredTransports(): Record<string, () => MailTransport> {
+  return {
+    console: () => consoleTransport,
+    file: () => createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), ".mail")),
+    smtp: () => createSmtpTransport(smtpConfigFromEnv()),
+  }
+}
+
+// The transport MAIL_TRANSPORT names, defaulting to the console.
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || "console"
+  const create = registeredTransports()[name]
+  if (!create) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}"`)
+  }
+  return create()
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({ ...message, from: process.env.MAIL_FROM || "Organixa <no-reply@organixa.com>" })
+}
@@ -0,0 +1,17 @@
+import type { StatusActorRole } from "@/lib/order-history"
+
+export interface StatusActor {
+  actorId: string | null
+  actorRole: StatusActorRole
+  note?: string | null
+}
+
+// Columns to write together with a new `sub_orders.status`. A database trigger copies them into
+// the order's status history (`order_status_events`), with the old and new status.
+export function statusChangedBy(actor: StatusActor) {
+  return {
+    status_changed_by: actor.actorId,
+    status_actor_role: actor.actorRole,
+    status_note: actor.note ?? null,
+  }
+}
@@ -0,0 +1,87 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { statusChangedBy } from "@/lib/server/order-history"
+import { discardUnshippedShipment, parseShipmentDetails, saveShipment } from "@/lib/server/shipments"
+import { courierName, type ShipmentDetails } from "@/lib/shipments"
+import {
+  canTransition,
+  formatOrderStatus,
+  VENDOR_STATUS_UPDATES,
+  type FulfilmentStatus,
+  type UpdateOrderStatusResponse,
+} from "@/lib/order-lifecycle"
+
+export class OrderStatusError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "OrderStatusError"
+    this.status = status
+  }
+}
+
+// Moves a company's sub-order along its fulfilment steps on behalf of the company's owner. Only
+// moves allowed by the order lifecycle go through, so an order can't go back from delivered to
+// preparing, or out of a cancellation. Shipping needs the courier details, which are saved as the
+// sub-order's shipment.
+export async function updateSubOrderStatus(params: {
+  subOrderId: string
+  userId: string
+  status: string
+  note: string | null
+  shipment?: Partial<ShipmentDetails> | null
+}): Promise<UpdateOrderStatusResponse> {
+  if (!(VENDOR_STATUS_UPDATES as string[]).includes(params.status)) {
+    throw new OrderStatusError("That status can't be set from the orders page.")
+  }
+  const nextStatus = params.status as FulfilmentStatus
+
+  const admin = getSupabaseAdmin()
+  const { data: subOrder, error } = await admin
+    .from("sub_orders")
+    .select("id, parent_order_id, company_id, status, companies ( user_id )")
+    .eq("id", params.subOrderId)
+    .maybeSingle()
+  if (error) throw error
+
+  const company = subOrder && (Array.isArray(subOrder.companies) ? subOrder.companies[0] : subOrder.companies)
+  if (!subOrder || company?.user_id !== params.userId) {
+    throw new OrderStatusError("Order not found.", 404)
+  }
+  if (!canTransition(subOrder.status, nextStatus)) {
+    throw new OrderStatusError(
+      `An order that is ${formatOrderStatus(subOrder.status).toLowerCase()} can't be moved to ${formatOrderStatus(nextStatus).toLowerCase()}.`,
+      409,
+    )
+  }
+
+  // The shipment is saved first because the shipped email reads the tracking details from it when
+  // the status changes; it is removed again if the status doesn't change.
+  let note = params.note
+  if (nextStatus === "shipped") {
+    const shipment = parseShipmentDetails(params.shipment)
+    await saveShipment(subOrder, shipment)
+    note ||= `${courierName(shipment.carrier)} ${shipment.trackingNumber}`
+  }
+
+  // Conditional on the status we checked, so a concurrent update or cancellation wins cleanly
+  const { data: updated, error: updateError } = await admin
+    .from("sub_orders")
+    .update({ status: nextStatus, ...statusChangedBy({ actorId: params.userId, actorRole: "vendor", note }) })
+    .eq("id", subOrder.id)
+    .eq("status", subOrder.status)
+    .select("id")
+
+  const moved = !updateError && !!updated && updated.length > 0
+  if (!moved && nextStatus === "shipped") {
+    await discardUnshippedShipment(subOrder.id).catch((discardError) =>
+      console.error(`Error removing the shipment of sub-order ${subOrder.id}:`, discardError),
+    )
+  }
+  if (updateError) throw updateError
+  if (!moved) {
+    throw new OrderStatusError("This order was just updated. Please refresh and try again.", 409)
+  }
+
+  return { subOrderId: subOrder.id, status: nextStatus }
+}
@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from "uuid"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { toOrderItems, toShippingColumns, totalsForLines, type PricedCheckoutLine } from "@/lib/server/checkout"
+import { buildSubOrders, insertSubOrders } from "@/lib/server/sub-orders"
+import { roundCurrency, type CompanyDiscounts } from "@/lib/order-pricing"
+import { releaseStock, reserveStock } from "@/lib/server/stock"
+import { redeemCoupon, type AppliedCoupon } from "@/lib/server/coupons"
+import type { PaymentMethod, ShippingDetails } from "@/lib/checkout"
+
+interface PlaceOrderParams {
+  userId: string
+  lines: PricedCheckoutLine[]
+  shipping: ShippingDetails
+  status: string
+  paymentMethod: PaymentMethod
+  coupon?: AppliedCoupon | null
+  // Discounts that don't come from a coupon, like a subscription's
+  discounts?: CompanyDiscounts
+  subscriptionId?: string | null
+}
+
+// Writes the parent order and its sub-orders and holds the stock for them. Any failure undoes the
+// whole thing, so callers either get a complete order or an error.
+export async function placeOrder({
+  userId,
+  lines,
+  shipping,
+  status,
+  paymentMethod,
+  coupon,
+  discounts,
+  subscriptionId,
+}: PlaceOrderParams) {
+  const orderId = uuidv4()
+  const pricing = { discounts: coupon?.discounts ?? discounts, pincode: shipping.pincode, state: shipping.state }
+  const totals = totalsForLines(lines, pricing)
+  const orderItems = toOrderItems(lines)
+  const subOrders = buildSubOrders(orderId, lines, orderItems, status, pricing)
+
+  const { error: insertError } = await getSupabaseAdmin()
+    .from("orders")
+    .insert([
+      {
+        id: orderId,
+        user_id: userId,
+        total_amount: totals.totalAmount,
+        payment_id: null,
+        order_id: null,
+        signature: null,
+        status,
+        payment_method: paymentMethod,
+        coupon_id: coupon?.couponId ?? null,
+        coupon_code: coupon?.code ?? null,
+        subscription_id: subscriptionId ?? null,
+        discount_amount: totals.discount,
+        tax_amount: roundCurrency(subOrders.reduce((sum, subOrder) => sum + subOrder.tax_amount, 0)),
+        purchase_time: new Date().toISOString(),
+        ...toShippingColumns(shipping),
+        order_items: orderItems,
+      },
+    ])
+
+  if (insertError) throw insertError
+
+  try {
+    await insertSubOrders(subOrders, { actorId: userId, actorRole: "customer" })
+    await reserveStock(orderId, lines)
+    if (coupon) await redeemCoupon(coupon, orderId, userId)
+  } catch (error) {
+    await discardOrder(orderId)
+    throw error
+  }
+
+  return { orderId, totals }
+}
+
+// Hands back any held stock and deletes the order (sub-orders and reservations cascade).
+export async function discardOrder(orderId: string) {
+  try {
+    await releaseStock(orderId)
+  } finally {
+    await getSupabaseAdmin().from("orders").delete().eq("id", orderId)
+  }
+}
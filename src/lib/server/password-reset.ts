@@ -0,0 +1,52 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { deliverOutboxEmails, enqueueEmail } from "@/lib/server/email-outbox"
+
+export class PasswordResetError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "PasswordResetError"
+    this.status = status
+  }
+}
+
+// One reset email per address per minute, however often the form is submitted
+const RESEND_INTERVAL_MS = 60_000
+
+// Emails a password reset link through the outbox and tries to send it right away rather than on
+// the next outbox run. Unknown addresses are ignored without saying so, so the form can't be used
+// to find out who has an account. The link generated here only finds the account: the outbox makes
+// the one that is emailed, so it is never stored.
+export async function requestPasswordReset(email: string, appUrl: string) {
+  const address = email.trim().toLowerCase()
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+    throw new PasswordResetError("Enter a valid email address.")
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: recent, error: recentError } = await admin
+    .from("email_outbox")
+    .select("id")
+    .eq("template", "password_reset")
+    .eq("recipient", address)
+    .gte("created_at", new Date(Date.now() - RESEND_INTERVAL_MS).toISOString())
+    .limit(1)
+  if (recentError) throw recentError
+  if (recent && recent.length > 0) return
+
+  const { data, error } = await admin.auth.admin.generateLink({
+    type: "recovery",
+    email: address,
+    options: { redirectTo: `${appUrl.replace(/\/$/, "")}/reset-password` },
+  })
+  if (error || !data.user) return
+
+  const { data: profile } = await admin.from("user_profiles").select("name").eq("id", data.user.id).maybeSingle()
+  const emailId = await enqueueEmail("password_reset", address, { name: profile?.name || null }, { userId: data.user.id })
+  if (emailId) {
+    await deliverOutboxEmails({ appUrl, ids: [emailId] }).catch((sendError) =>
+      console.error("Could not send the password reset email now; the outbox job will retry:", sendError),
+    )
+  }
+}
@@ -0,0 +1,231 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { AWAITING_PAYMENT_STATUSES, isAwaitingPayment } from "@/lib/order-lifecycle"
+import { setSubOrderStatuses } from "@/lib/server/sub-orders"
+import { commitStock } from "@/lib/server/stock"
+import { markSubOrderRefunded } from "@/lib/server/cancellations"
+import { markReturnRefunded } from "@/lib/server/returns"
+import {
+  fetchRazorpayOrder,
+  paysOrderTotal,
+  type RazorpayPayment,
+  type RazorpayRefund,
+  type RazorpayWebhookEvent,
+} from "@/lib/server/razorpay"
+import { toPaise } from "@/lib/order-pricing"
+
+export type ReconcileOutcome =
+  | "order_confirmed"
+  | "order_created"
+  | "order_payment_failed"
+  | "amount_mismatch"
+  | "order_refunded"
+  | "sub_order_refunded"
+  | "return_refunded"
+  | "partial_refund"
+  | "no_change"
+  | "order_not_found"
+  | "ignored"
+
+export interface ReconcileResult {
+  orderRef: string | null
+  outcome: ReconcileOutcome
+}
+
+interface OrderRow {
+  id: string
+  status: string
+  total_amount: number
+}
+
+async function findOrder(column: "order_id" | "payment_id", value: string): Promise<OrderRow | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("orders")
+    .select("id, status, total_amount")
+    .eq(column, value)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function confirmOrder(order: OrderRow, payment: RazorpayPayment): Promise<ReconcileResult> {
+  if (!isAwaitingPayment(order.status)) {
+    return { orderRef: order.id, outcome: "no_change" }
+  }
+  // Left awaiting payment for support to look into; the event log keeps the payment's amount
+  if (!paysOrderTotal(payment, Number(order.total_amount))) {
+    console.warn(`Payment ${payment.id} does not match the total of order ${order.id}`)
+    return { orderRef: order.id, outcome: "amount_mismatch" }
+  }
+
+  // Conditional on the status so a concurrent verify-route write can't be overwritten.
+  const { data, error } = await getSupabaseAdmin()
+    .from("orders")
+    .update({ status: "confirmed", payment_id: payment.id })
+    .eq("id", order.id)
+    .in("status", AWAITING_PAYMENT_STATUSES)
+    .select("id")
+
+  if (error) throw error
+  if (!data || data.length === 0) return { orderRef: order.id, outcome: "no_change" }
+
+  await setSubOrderStatuses(order.id, "confirmed", `Payment ${payment.id} captured`)
+  await commitStock(order.id)
+  return { orderRef: order.id, outcome: "order_confirmed" }
+}
+
+// The order route inserts the order before checkout opens, so this only runs if that row was lost.
+// The Razorpay order notes carry enough to rebuild a minimal record that support can complete.
+async function createOrderFromPayment(payment: RazorpayPayment): Promise<ReconcileResult> {
+  const razorpayOrder = await fetchRazorpayOrder(payment.order_id as string)
+  const userId = razorpayOrder.notes?.user_id
+  if (!userId) {
+    return { orderRef: null, outcome: "order_not_found" }
+  }
+
+  const orderRef = razorpayOrder.notes?.order_ref || razorpayOrder.receipt || undefined
+  const { data, error } = await getSupabaseAdmin()
+    .from("orders")
+    .insert([
+      {
+        id: orderRef,
+        user_id: userId,
+        total_amount: payment.amount / 100,
+        order_id: payment.order_id,
+        payment_id: payment.id,
+        status: "confirmed",
+        purchase_time: new Date().toISOString(),
+        primary_phone: payment.contact || null,
+        order_items: [],
+      },
+    ])
+    .select("id")
+    .single()
+
+  if (error?.code === "23505") {
+    // Lost a race with the order route or a parallel delivery; reconcile against that row instead.
+    const existing = await findOrder("order_id", payment.order_id as string)
+    return existing ? confirmOrder(existing, payment) : { orderRef: null, outcome: "no_change" }
+  }
+  if (error) throw error
+  return { orderRef: data.id, outcome: "order_created" }
+}
+
+async function handlePaymentCaptured(payment: RazorpayPayment): Promise<ReconcileResult> {
+  if (!payment.order_id) return { orderRef: null, outcome: "ignored" }
+
+  const order = await findOrder("order_id", payment.order_id)
+  return order ? confirmOrder(order, payment) : createOrderFromPayment(payment)
+}
+
+async function handlePaymentFailed(payment: RazorpayPayment): Promise<ReconcileResult> {
+  if (!payment.order_id) return { orderRef: null, outcome: "ignored" }
+
+  const order = await findOrder("order_id", payment.order_id)
+  if (!order) return { orderRef: null, outcome: "order_not_found" }
+  if (order.status !== "pending") return { orderRef: order.id, outcome: "no_change" }
+
+  const { error } = await getSupabaseAdmin()
+    .from("orders")
+    .update({ status: "payment_failed" })
+    .eq("id", order.id)
+    .eq("status", "pending")
+
+  if (error) throw error
+  await setSubOrderStatuses(order.id, "payment_failed", payment.error_description || "Payment failed")
+  return { orderRef: order.id, outcome: "order_payment_failed" }
+}
+
+async function handleRefundProcessed(refund: RazorpayRefund): Promise<ReconcileResult> {
+  const order = await findOrder("payment_id", refund.payment_id)
+  if (!order) return { orderRef: null, outcome: "order_not_found" }
+
+  // Refunds for a cancelled sub-order (see `cancelSubOrder`) settle just that sub-order
+  const { data: subOrder, error: subOrderError } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .select("id")
+    .eq("refund_id", refund.id)
+    .maybeSingle()
+  if (subOrderError) throw subOrderError
+  if (subOrder) {
+    const refunded = await markSubOrderRefunded(refund.id)
+    return { orderRef: order.id, outcome: refunded ? "sub_order_refunded" : "no_change" }
+  }
+
+  // ... and refunds for a returned item settle its return request
+  const { data: returnRequest, error: returnError } = await getSupabaseAdmin()
+    .from("return_requests")
+    .select("id")
+    .eq("refund_id", refund.id)
+    .maybeSingle()
+  if (returnError) throw returnError
+  if (returnRequest) {
+    const refunded = await markReturnRefunded(refund.id)
+    return { orderRef: order.id, outcome: refunded ? "return_refunded" : "no_change" }
+  }
+
+  if (order.status === "refunded") return { orderRef: order.id, outcome: "no_change" }
+  if (refund.amount < toPaise(Number(order.total_amount))) {
+    return { orderRef: order.id, outcome: "partial_refund" }
+  }
+
+  const { error } = await getSupabaseAdmin().from("orders").update({ status: "refunded" }).eq("id", order.id)
+  if (error) throw error
+  await setSubOrderStatuses(order.id, "refunded", `Razorpay refund ${refund.id}`)
+  return { orderRef: order.id, outcome: "order_refunded" }
+}
+
+// Every branch is safe to replay: updates are conditional on the current status, so a redelivered
+// or out-of-order event leaves the order as it is.
+export function reconcileWebhookEvent(event: RazorpayWebhookEvent): Promise<ReconcileResult> {
+  const payment = event.payload.payment?.entity
+  const refund = event.payload.refund?.entity
+
+  switch (event.event) {
+    case "payment.captured":
+      return payment ? handlePaymentCaptured(payment) : Promise.resolve({ orderRef: null, outcome: "ignored" })
+    case "payment.failed":
+      return payment ? handlePaymentFailed(payment) : Promise.resolve({ orderRef: null, outcome: "ignored" })
+    case "refund.processed":
+      return refund ? handleRefundProcessed(refund) : Promise.resolve({ orderRef: null, outcome: "ignored" })
+    default:
+      return Promise.resolve({ orderRef: null, outcome: "ignored" })
+  }
+}
+
+export async function hasPaymentEvent(eventId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("payment_events")
+    .select("id")
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  if (error) throw error
+  return Boolean(data)
+}
+
+export async function recordPaymentEvent(eventId: string, event: RazorpayWebhookEvent, result: ReconcileResult) {
+  const payment = event.payload.payment?.entity
+  const refund = event.payload.refund?.entity
+
+  const { error } = await getSupabaseAdmin()
+    .from("payment_events")
+    .insert([
+      {
+        event_id: eventId,
+        event_type: event.event,
+        razorpay_order_id: payment?.order_id ?? null,
+        razorpay_payment_id: payment?.id ?? refund?.payment_id ?? null,
+        razorpay_refund_id: refund?.id ?? null,
+        order_ref: result.orderRef,
+        amount: refund?.amount ?? payment?.amount ?? null,
+        currency: refund?.currency ?? payment?.currency ?? null,
+        outcome: result.outcome,
+        payload: event,
+        event_created_at: event.created_at ? new Date(event.created_at * 1000).toISOString() : null,
+      },
+    ])
+
+  // A parallel delivery of the same event already logged it.
+  if (error && error.code !== "23505") throw error
+}
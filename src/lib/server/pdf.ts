@@ -0,0 +1,96 @@
+// Small PDF writer for server-generated documents such as tax invoices. It only knows A4 pages, the
+// built-in Helvetica fonts, text and straight lines, which is all an invoice needs. Coordinates are
+// in points from the top-left corner; text is limited to Latin-1.
+
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  align?: "left" | "right" | "center"
+}
+
+// Approximate Helvetica advance widths (per 1000 units of font size); close enough to right-align
+// amounts and centre headings.
+function charWidth(char: string) {
+  if (/[0-9]/.test(char)) return 556
+  if (" .,:;|!'".includes(char)) return 278
+  if ("-()/".includes(char)) return 333
+  if (/[A-Z]/.test(char)) return 667
+  return 500
+}
+
+export function textWidth(value: string, size = 10) {
+  return (Array.from(value).reduce((sum, char) => sum + charWidth(char), 0) * size) / 1000
+}
+
+function encodeText(value: string) {
+  return value
+    .replace(/₹/g, "Rs. ")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1")
+}
+
+const format = (value: number) => Number(value.toFixed(2)).toString()
+
+export class PdfDocument {
+  private pages: string[][] = [[]]
+
+  private get operations() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  text(x: number, y: number, value: string, { size = 10, bold = false, align = "left" }: TextOptions = {}) {
+    const width = textWidth(value, size)
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x
+    this.operations.push(
+      `BT /${bold ? "F2" : "F1"} ${format(size)} Tf ${format(left)} ${format(PAGE_HEIGHT - y)} Td (${encodeText(value)}) Tj ET`,
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) {
+    this.operations.push(
+      `${format(lineWidth)} w ${format(x1)} ${format(PAGE_HEIGHT - y1)} m ${format(x2)} ${format(PAGE_HEIGHT - y2)} l S`,
+    )
+  }
+
+  toBuffer() {
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "", // page tree, filled in once the page object numbers are known
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ]
+
+    const pageRefs = this.pages.map((operations) => {
+      const content = operations.join("\n")
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`)
+      const contentRef = objects.length
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`,
+      )
+      return `${objects.length} 0 R`
+    })
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`
+
+    let output = "%PDF-1.4\n"
+    const offsets = objects.map((object, index) => {
+      const offset = Buffer.byteLength(output, "latin1")
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+
+    const xrefOffset = Buffer.byteLength(output, "latin1")
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, "latin1")
+  }
+}
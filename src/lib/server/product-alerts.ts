@@ -0,0 +1,78 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { sendMail } from "@/lib/server/mail"
+import type { NotificationType } from "@/lib/notifications"
+
+const ALERT_TYPES: NotificationType[] = ["price_drop", "back_in_stock"]
+
+interface PendingAlert {
+  id: string
+  user_id: string
+  title: string
+  body: string
+  link: string | null
+}
+
+export interface AlertEmailSummary {
+  sent: number
+  failed: number
+  skipped: number // no email address on file
+}
+
+// Emails the favorite alerts the products trigger has queued since the last run. Each alert is
+// claimed (emailed_at set) before it is sent, so overlapping runs can't email it twice, and a
+// failed send releases it for the next run. `appUrl` turns the alert's link into an absolute one.
+export async function emailPendingAlerts(appUrl: string, limit = 200): Promise<AlertEmailSummary> {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin
+    .from("notifications")
+    .select("id, user_id, title, body, link")
+    .is("emailed_at", null)
+    .in("type", ALERT_TYPES)
+    .order("created_at", { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  const alerts = (data || []) as PendingAlert[]
+  const userIds = Array.from(new Set(alerts.map((alert) => alert.user_id)))
+  const { data: profiles, error: profilesError } =
+    userIds.length > 0
+      ? await admin.from("user_profiles").select("id, name, email").in("id", userIds)
+      : { data: [], error: null }
+  if (profilesError) throw profilesError
+  const profilesById = new Map((profiles || []).map((profile) => [profile.id, profile]))
+
+  const summary: AlertEmailSummary = { sent: 0, failed: 0, skipped: 0 }
+  for (const alert of alerts) {
+    const { data: claimed, error: claimError } = await admin
+      .from("notifications")
+      .update({ emailed_at: new Date().toISOString() })
+      .eq("id", alert.id)
+      .is("emailed_at", null)
+      .select("id")
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) continue
+
+    const profile = profilesById.get(alert.user_id)
+    if (!profile?.email) {
+      summary.skipped++
+      continue
+    }
+
+    const url = alert.link ? `${appUrl.replace(/\/$/, "")}${alert.link}` : appUrl
+    try {
+      await sendMail({
+        to: profile.email,
+        subject: alert.title,
+        text: `Hi ${profile.name || "there"},\n\n${alert.body}\n\n${url}\n\nYou get this because the product is in your favorites. Turn its alerts off on ${appUrl.replace(/\/$/, "")}/addfav.`,
+      })
+      summary.sent++
+    } catch (sendError) {
+      console.error(`Could not email alert ${alert.id}:`, sendError)
+      await admin.from("notifications").update({ emailed_at: null }).eq("id", alert.id)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
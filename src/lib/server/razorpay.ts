@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { toPaise } from "@/lib/order-pricing"
+
+// RAZORPAY_API_BASE lets local runs point at `npm run stub:razorpay` instead of the live API.
+const RAZORPAY_API_BASE = (process.env.RAZORPAY_API_BASE || "https://api.razorpay.com/v1").replace(/\/$/, "")
+
+// Orders are priced, and Razorpay orders created, in rupees.
+const ORDER_CURRENCY = "INR"
+
+export class RazorpayError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "RazorpayError"
+    this.status = status
+  }
+}
+
+export interface RazorpayOrder {
+  id: string
+  amount: number
+  currency: string
+  receipt: string | null
+  status: string
+  notes?: Record<string, string>
+}
+
+export interface RazorpayPayment {
+  id: string
+  order_id: string | null
+  amount: number
+  currency: string
+  status: "created" | "authorized" | "captured" | "refunded" | "failed"
+  error_description?: string | null
+  email?: string
+  contact?: string
+  notes?: Record<string, string>
+}
+
+export interface RazorpayRefund {
+  id: string
+  payment_id: string
+  amount: number
+  currency: string
+  status: "pending" | "processed" | "failed"
+  notes?: Record<string, string>
+}
+
+export type RazorpayWebhookEventType = "payment.captured" | "payment.failed" | "refund.processed"
+
+export interface RazorpayWebhookEvent {
+  event: RazorpayWebhookEventType | string
+  created_at: number
+  payload: {
+    payment?: { entity: RazorpayPayment }
+    refund?: { entity: RazorpayRefund }
+  }
+}
+
+function getCredentials() {
+  const keyId = process.env.RAZORPAY_KEY_ID
+  const keySecret = process.env.RAZORPAY_KEY_SECRET
+  if (!keyId || !keySecret) {
+    throw new Error("Missing RAZORPAY_KEY_ID or RAZORPAY_KEY_SECRET environment variables.")
+  }
+  return { keyId, keySecret }
+}
+
+export function getRazorpayKeyId() {
+  return getCredentials().keyId
+}
+
+async function razorpayRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { keyId, keySecret } = getCredentials()
+  const response = await fetch(`${RAZORPAY_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`,
+      ...init.headers,
+    },
+    cache: "no-store",
+  })
+
+  const payload = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new RazorpayError(payload?.error?.description || `Razorpay request failed (${response.status})`, response.status)
+  }
+  return payload as T
+}
+
+export function createRazorpayOrder(params: {
+  amount: number
+  currency?: string
+  receipt: string
+  notes?: Record<string, string>
+}) {
+  return razorpayRequest<RazorpayOrder>("/orders", {
+    method: "POST",
+    body: JSON.stringify({ currency: ORDER_CURRENCY, ...params }),
+  })
+}
+
+export function fetchRazorpayOrder(orderId: string) {
+  return razorpayRequest<RazorpayOrder>(`/orders/${encodeURIComponent(orderId)}`)
+}
+
+// Whether a payment is for exactly an order's total. Both the verify route and the webhook check
+// this before marking an order paid.
+export function paysOrderTotal(payment: Pick<RazorpayPayment, "amount" | "currency">, totalAmount: number) {
+  return payment.currency === ORDER_CURRENCY && payment.amount === toPaise(totalAmount)
+}
+
+export function fetchRazorpayPayment(paymentId: string) {
+  return razorpayRequest<RazorpayPayment>(`/payments/${encodeURIComponent(paymentId)}`)
+}
+
+// Refunds part or all of a captured payment; `amount` is in paise.
+export function createRazorpayRefund(paymentId: string, params: { amount: number; notes?: Record<string, string> }) {
+  return razorpayRequest<RazorpayRefund>(`/payments/${encodeURIComponent(paymentId)}/refund`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  })
+}
+
+function safeCompareHex(expected: string, received: string) {
+  const expectedBuffer = Buffer.from(expected, "hex")
+  const receivedBuffer = Buffer.from(received, "hex")
+  return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer)
+}
+
+// Checkout handler signature: HMAC-SHA256 of "<order_id>|<payment_id>" keyed with the API secret.
+export function verifyPaymentSignature(params: { orderId: string; paymentId: string; signature: string }) {
+  const { keySecret } = getCredentials()
+  const expected = createHmac("sha256", keySecret).update(`${params.orderId}|${params.paymentId}`).digest("hex")
+  return safeCompareHex(expected, params.signature)
+}
+
+// Webhooks are signed with the secret configured on the dashboard webhook, not the API key secret.
+export function verifyWebhookSignature(rawBody: string, signature: string) {
+  const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET
+  if (!webhookSecret) {
+    throw new Error("Missing RAZORPAY_WEBHOOK_SECRET environment variable.")
+  }
+  const expected = createHmac("sha256", webhookSecret).update(rawBody).digest("hex")
+  return safeCompareHex(expected, signature)
+}
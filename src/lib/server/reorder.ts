@@ -0,0 +1,98 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import type { OrderItemSnapshot } from "@/lib/server/checkout"
+import type { ReorderedItem, ReorderResponse, SkippedReorderItem } from "@/lib/reorder"
+
+export class ReorderError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "ReorderError"
+    this.status = status
+  }
+}
+
+// Puts the items of a past order back in the customer's cart at today's prices. Items no longer
+// sold or out of stock are skipped, and a short stock caps the quantity. An item already in the
+// cart is topped up to the ordered quantity rather than added twice.
+export async function reorderItems(params: { orderId: string; userId: string }): Promise<ReorderResponse> {
+  const admin = getSupabaseAdmin()
+  const { data: order, error } = await admin
+    .from("orders")
+    .select("id, user_id, order_items")
+    .eq("id", params.orderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!order || order.user_id !== params.userId) {
+    throw new ReorderError("Order not found.", 404)
+  }
+
+  // The same product can appear on more than one line
+  const ordered = new Map<string, { quantity: number; priceAtPurchase: number }>()
+  for (const item of (order.order_items || []) as OrderItemSnapshot[]) {
+    const existing = ordered.get(item.product_id)
+    ordered.set(item.product_id, {
+      quantity: (existing?.quantity || 0) + item.quantity,
+      priceAtPurchase: existing?.priceAtPurchase ?? Number(item.price_at_purchase),
+    })
+  }
+  if (ordered.size === 0) {
+    throw new ReorderError("This order has no items to reorder.")
+  }
+
+  const productIds = Array.from(ordered.keys())
+  const [{ data: products, error: productsError }, { data: cartItems, error: cartError }] = await Promise.all([
+    admin
+      .from("products")
+      .select("id, product_name, discount_price, original_price, is_approved, stock_quantity")
+      .in("id", productIds),
+    admin.from("cart_items").select("id, product_id, quantity").eq("user_id", params.userId).in("product_id", productIds),
+  ])
+  if (productsError) throw productsError
+  if (cartError) throw cartError
+
+  const productsById = new Map((products || []).map((product) => [product.id, product]))
+  const cartByProduct = new Map((cartItems || []).map((item) => [item.product_id, item]))
+
+  const added: ReorderedItem[] = []
+  const skipped: SkippedReorderItem[] = []
+  const inserts: { user_id: string; product_id: string; quantity: number; price_at_add: number }[] = []
+  const updates: { id: string; quantity: number; price_at_add: number }[] = []
+
+  ordered.forEach(({ quantity: orderedQuantity, priceAtPurchase }, productId) => {
+    const product = productsById.get(productId)
+    if (!product || !product.is_approved) {
+      skipped.push({ productId, productName: product?.product_name ?? null, orderedQuantity, reason: "delisted" })
+      return
+    }
+    if (product.stock_quantity <= 0) {
+      skipped.push({ productId, productName: product.product_name, orderedQuantity, reason: "out_of_stock" })
+      return
+    }
+
+    const quantity = Math.min(orderedQuantity, product.stock_quantity)
+    const currentPrice = Number(product.discount_price ?? product.original_price)
+    const cartItem = cartByProduct.get(productId)
+    if (cartItem) {
+      updates.push({ id: cartItem.id, quantity: Math.max(cartItem.quantity, quantity), price_at_add: currentPrice })
+    } else {
+      inserts.push({ user_id: params.userId, product_id: productId, quantity, price_at_add: currentPrice })
+    }
+    added.push({ productId, productName: product.product_name, orderedQuantity, quantity, priceAtPurchase, currentPrice })
+  })
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await admin.from("cart_items").insert(inserts)
+    if (insertError) throw insertError
+  }
+  for (const update of updates) {
+    const { error: updateError } = await admin
+      .from("cart_items")
+      .update({ quantity: update.quantity, price_at_add: update.price_at_add })
+      .eq("id", update.id)
+    if (updateError) throw updateError
+  }
+
+  return { added, skipped }
+}
@@ -0,0 +1,419 @@
+import { v4 as uuidv4 } from "uuid"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { CheckoutError, priceCheckoutItems, type OrderItemSnapshot } from "@/lib/server/checkout"
+import { commitStock, reserveStock } from "@/lib/server/stock"
+import { discardOrder } from "@/lib/server/orders"
+import { statusChangedBy } from "@/lib/server/order-history"
+import { canRequestReturn } from "@/lib/order-lifecycle"
+import { createRazorpayRefund, RazorpayError } from "@/lib/server/razorpay"
+import { roundCurrency, toPaise } from "@/lib/order-pricing"
+import {
+  isWithinReturnWindow,
+  MAX_RETURN_PHOTO_BYTES,
+  MAX_RETURN_PHOTOS,
+  RETURN_ACTIONS,
+  RETURN_PHOTOS_BUCKET,
+  RETURN_WINDOW_DAYS,
+  type ReturnAction,
+  type ReturnRefundStatus,
+  type ReturnRequestSummary,
+  type ReturnStatus,
+  type ReturnType,
+} from "@/lib/returns"
+
+export class ReturnError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "ReturnError"
+    this.status = status
+  }
+}
+
+const PHOTO_EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" }
+
+// Parent order columns copied onto a replacement order, so it ships to the same address.
+const SHIPPING_COLUMNS =
+  "customer_name, primary_phone, secondary_phone, country, state, city, pincode, area, street, house_number, location"
+
+interface ReturnRow {
+  id: string
+  order_id: string
+  sub_order_id: string
+  company_id: string | null
+  user_id: string
+  order_item_id: string
+  product_id: string | null
+  quantity: number
+  type: ReturnType
+  status: ReturnStatus
+  refund_status: ReturnRefundStatus | null
+  refund_id: string | null
+  refund_amount: number | null
+  replacement_order_id: string | null
+}
+
+const pickOne = <T>(value: T | T[] | null) => (Array.isArray(value) ? value[0] ?? null : value)
+
+const toSummary = (row: ReturnRow): ReturnRequestSummary => ({
+  id: row.id,
+  status: row.status,
+  type: row.type,
+  refundStatus: row.refund_status,
+  replacementOrderId: row.replacement_order_id,
+})
+
+function assertPhotos(photos: File[]) {
+  if (photos.length > MAX_RETURN_PHOTOS) {
+    throw new ReturnError(`Attach at most ${MAX_RETURN_PHOTOS} photos.`)
+  }
+  for (const photo of photos) {
+    if (!PHOTO_EXTENSIONS[photo.type]) {
+      throw new ReturnError("Photos must be JPEG, PNG or WebP images.")
+    }
+    if (photo.size > MAX_RETURN_PHOTO_BYTES) {
+      throw new ReturnError(`Each photo must be under ${MAX_RETURN_PHOTO_BYTES / (1024 * 1024)} MB.`)
+    }
+  }
+}
+
+async function uploadPhotos(folder: string, photos: File[]) {
+  const storage = getSupabaseAdmin().storage.from(RETURN_PHOTOS_BUCKET)
+  return Promise.all(
+    photos.map(async (photo) => {
+      const path = `${folder}/${uuidv4()}.${PHOTO_EXTENSIONS[photo.type]}`
+      const { error } = await storage.upload(path, Buffer.from(await photo.arrayBuffer()), { contentType: photo.type })
+      if (error) throw error
+      return path
+    }),
+  )
+}
+
+export async function createReturnRequest(params: {
+  userId: string
+  subOrderId: string
+  orderItemId: string
+  quantity: number
+  type: ReturnType
+  reason: string
+  details: string | null
+  photos: File[]
+}): Promise<ReturnRequestSummary> {
+  const admin = getSupabaseAdmin()
+  const { data: subOrder, error } = await admin
+    .from("sub_orders")
+    .select("id, parent_order_id, company_id, status, delivered_at, order_items, orders ( user_id )")
+    .eq("id", params.subOrderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!subOrder || pickOne(subOrder.orders)?.user_id !== params.userId) {
+    throw new ReturnError("Order not found.", 404)
+  }
+  if (!canRequestReturn(subOrder.status)) {
+    throw new ReturnError("Returns can be requested once the order has been delivered.", 409)
+  }
+  if (!isWithinReturnWindow(subOrder.delivered_at)) {
+    throw new ReturnError(`Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery.`, 409)
+  }
+
+  const item = (subOrder.order_items as OrderItemSnapshot[]).find((entry) => entry.id === params.orderItemId)
+  if (!item) throw new ReturnError("That item is not part of this order.", 404)
+  if (params.quantity > item.quantity) {
+    throw new ReturnError(`You can return at most ${item.quantity} of this item.`)
+  }
+  assertPhotos(params.photos)
+
+  const returnId = uuidv4()
+  const photoPaths = await uploadPhotos(`${params.userId}/${returnId}`, params.photos)
+  const { data: created, error: insertError } = await admin
+    .from("return_requests")
+    .insert([
+      {
+        id: returnId,
+        order_id: subOrder.parent_order_id,
+        sub_order_id: subOrder.id,
+        company_id: subOrder.company_id,
+        user_id: params.userId,
+        order_item_id: item.id,
+        product_id: item.product_id,
+        quantity: params.quantity,
+        type: params.type,
+        reason: params.reason,
+        details: params.details,
+        photo_paths: photoPaths,
+      },
+    ])
+    .select("*")
+    .single()
+
+  if (insertError) {
+    if (photoPaths.length > 0) {
+      await admin.storage.from(RETURN_PHOTOS_BUCKET).remove(photoPaths)
+    }
+    if (insertError.code === "23505") {
+      throw new ReturnError("A return is already open for this item.", 409)
+    }
+    throw insertError
+  }
+  return toSummary(created as ReturnRow)
+}
+
+// What the customer paid for the returned units: their price less their share of the coupon
+// discount on the sub-order. Shipping is not refunded.
+async function refundableAmount(request: ReturnRow) {
+  const { data: subOrder, error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .select("subtotal, discount_amount, order_items")
+    .eq("id", request.sub_order_id)
+    .single()
+
+  if (error) throw error
+  const item = (subOrder.order_items as OrderItemSnapshot[]).find((entry) => entry.id === request.order_item_id)
+  const value = (item?.price_at_purchase ?? 0) * request.quantity
+  const subtotal = Number(subOrder.subtotal)
+  const discountShare = subtotal > 0 ? (Number(subOrder.discount_amount) * value) / subtotal : 0
+  return roundCurrency(Math.max(value - discountShare, 0))
+}
+
+// Moves a return from `received` to `refunded` once its refund has gone through. Safe to repeat.
+export async function markReturnRefunded(refundId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("return_requests")
+    .update({ status: "refunded", refund_status: "processed", resolved_at: new Date().toISOString() })
+    .eq("refund_id", refundId)
+    .eq("status", "received")
+    .select("id")
+
+  if (error) throw error
+  return data?.[0]?.id ?? null
+}
+
+// Expects the request to have been claimed (`refund_status = 'requested'`) by the caller, so two
+// calls can't both refund it. Razorpay rejections are marked `failed` for a retry.
+async function refundReturn(request: ReturnRow): Promise<Partial<ReturnRow>> {
+  const admin = getSupabaseAdmin()
+  const { data: order, error } = await admin
+    .from("orders")
+    .select("payment_method, payment_id")
+    .eq("id", request.order_id)
+    .single()
+  if (error) throw error
+
+  const amount = request.refund_amount ?? (await refundableAmount(request))
+  const settle = async (changes: Partial<ReturnRow> & { resolved_at?: string }) => {
+    const { error: updateError } = await admin
+      .from("return_requests")
+      .update({ refund_amount: amount, ...changes })
+      .eq("id", request.id)
+    if (updateError) throw updateError
+    return changes
+  }
+
+  // Nothing to send back through Razorpay: cash on delivery (the vendor settles it directly) or a free item
+  if (order.payment_method !== "razorpay" || !order.payment_id || amount <= 0) {
+    return settle({
+      status: "refunded",
+      refund_status: amount > 0 ? "manual" : "processed",
+      resolved_at: new Date().toISOString(),
+    })
+  }
+
+  try {
+    const refund = await createRazorpayRefund(order.payment_id, {
+      amount: toPaise(amount),
+      notes: { order_ref: request.order_id, return_request_id: request.id },
+    })
+    await settle({ refund_id: refund.id, refund_status: "pending" })
+    if (refund.status === "processed" && (await markReturnRefunded(refund.id))) {
+      return { status: "refunded", refund_status: "processed" }
+    }
+    return { refund_status: "pending" }
+  } catch (refundError) {
+    if (!(refundError instanceof RazorpayError)) throw refundError
+
+    console.error(`Razorpay refused the refund for return ${request.id}:`, refundError)
+    return settle({ refund_status: "failed" })
+  }
+}
+
+// Ships the returned item again, free of charge, to the original address.
+async function createReplacementOrder(request: ReturnRow): Promise<Partial<ReturnRow>> {
+  if (!request.product_id) {
+    throw new ReturnError("This product is no longer sold, so it can't be replaced. Refund the customer instead.", 409)
+  }
+
+  let lines
+  try {
+    lines = await priceCheckoutItems([{ productId: request.product_id, quantity: request.quantity }])
+  } catch (error) {
+    if (error instanceof CheckoutError) throw new ReturnError(`Can't send a replacement: ${error.message}`, 409)
+    throw error
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: parent, error: parentError } = await admin
+    .from("orders")
+    .select(SHIPPING_COLUMNS)
+    .eq("id", request.order_id)
+    .single()
+  if (parentError) throw parentError
+
+  const orderId = uuidv4()
+  const orderItems: OrderItemSnapshot[] = [
+    {
+      id: uuidv4(),
+      product_id: request.product_id,
+      quantity: request.quantity,
+      price_at_purchase: 0,
+      created_at: new Date().toISOString(),
+    },
+  ]
+  const { error: insertError } = await admin.from("orders").insert([
+    {
+      ...parent,
+      id: orderId,
+      user_id: request.user_id,
+      total_amount: 0,
+      status: "confirmed",
+      payment_method: "replacement",
+      purchase_time: new Date().toISOString(),
+      order_items: orderItems,
+    },
+  ])
+  if (insertError) throw insertError
+
+  // Claim the return with the new order, so a concurrent receive or retry can't send a second one.
+  // `replacement_order_id` references the order, hence the claim comes after the insert; if anything
+  // below fails, deleting the order clears the claim again.
+  const { data: claimed, error: claimError } = await admin
+    .from("return_requests")
+    .update({ replacement_order_id: orderId })
+    .eq("id", request.id)
+    .eq("status", "received")
+    .is("replacement_order_id", null)
+    .select("id")
+  if (claimError || !claimed || claimed.length === 0) {
+    await discardOrder(orderId)
+    if (claimError) throw claimError
+    throw new ReturnError("A replacement for this return is already on its way.", 409)
+  }
+
+  try {
+    const { error: subOrderError } = await admin.from("sub_orders").insert([
+      {
+        parent_order_id: orderId,
+        company_id: request.company_id,
+        status: "confirmed",
+        subtotal: 0,
+        shipping_fee: 0,
+        total_amount: 0,
+        order_items: orderItems,
+        ...statusChangedBy({
+          actorId: null,
+          actorRole: "system",
+          note: `Replacement for return #${request.id.substring(0, 8)}`,
+        }),
+      },
+    ])
+    if (subOrderError) throw subOrderError
+    await reserveStock(orderId, lines)
+    await commitStock(orderId)
+  } catch (error) {
+    await discardOrder(orderId)
+    if (error instanceof CheckoutError) throw new ReturnError(`Can't send a replacement: ${error.message}`, 409)
+    throw error
+  }
+
+  const changes = { status: "replaced" as const, replacement_order_id: orderId }
+  const { error: updateError } = await admin
+    .from("return_requests")
+    .update({ ...changes, resolved_at: new Date().toISOString() })
+    .eq("id", request.id)
+  if (updateError) throw updateError
+  return changes
+}
+
+// Claims the refund (or replacement) for a received return so concurrent calls can't double it.
+async function resolveReturn(request: ReturnRow): Promise<Partial<ReturnRow>> {
+  if (request.type === "replacement") return createReplacementOrder(request)
+
+  const { data, error } = await getSupabaseAdmin()
+    .from("return_requests")
+    .update({ refund_status: "requested" })
+    .eq("id", request.id)
+    .eq("status", "received")
+    .or("refund_status.is.null,refund_status.eq.failed")
+    .select("id")
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new ReturnError("A refund for this return is already in progress.", 409)
+  }
+  return refundReturn(request)
+}
+
+// Vendor actions on a return request, see `RETURN_ACTIONS`. `retry_refund` retries a failed
+// refund, or a failed replacement, of a received return.
+export async function updateReturnRequest(params: {
+  returnId: string
+  userId: string
+  action: ReturnAction
+  note: string | null
+}): Promise<ReturnRequestSummary> {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin
+    .from("return_requests")
+    .select("*, companies ( user_id )")
+    .eq("id", params.returnId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data || pickOne(data.companies)?.user_id !== params.userId) {
+    throw new ReturnError("Return request not found.", 404)
+  }
+  const request = data as ReturnRow
+
+  if (params.action === "retry_refund") {
+    if (request.status !== "received") {
+      throw new ReturnError("Only received returns that haven't been settled can be retried.", 409)
+    }
+    return toSummary({ ...request, ...(await resolveReturn(request)) })
+  }
+
+  const transition = RETURN_ACTIONS[params.action]
+  if (!transition) throw new ReturnError("Unknown action.")
+  if (request.status !== transition.from) {
+    throw new ReturnError("This return was already updated. Please refresh and try again.", 409)
+  }
+
+  const { data: updated, error: updateError } = await admin
+    .from("return_requests")
+    .update({
+      status: transition.to,
+      ...(params.note ? { vendor_note: params.note } : {}),
+      ...(transition.to === "rejected" ? { resolved_at: new Date().toISOString() } : {}),
+    })
+    .eq("id", request.id)
+    .eq("status", transition.from)
+    .select("id")
+
+  if (updateError) throw updateError
+  if (!updated || updated.length === 0) {
+    throw new ReturnError("This return was already updated. Please refresh and try again.", 409)
+  }
+
+  const current = { ...request, status: transition.to as ReturnStatus }
+  if (transition.to !== "received") return toSummary(current)
+
+  // The item is back with the vendor; settle it now. A failure here leaves the return `received`,
+  // from where the vendor can retry.
+  try {
+    return toSummary({ ...current, ...(await resolveReturn(current)) })
+  } catch (resolveError) {
+    if (resolveError instanceof ReturnError) {
+      throw new ReturnError(`Return marked as received. ${resolveError.message}`, resolveError.status)
+    }
+    throw resolveError
+  }
+}
@@ -0,0 +1,177 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { CourierError, getCourierAdapter } from "@/lib/server/couriers"
+import { statusChangedBy } from "@/lib/server/order-history"
+import { canTransition } from "@/lib/order-lifecycle"
+import {
+  COURIERS,
+  courierName,
+  MAX_TRACKING_NUMBER_LENGTH,
+  SHIPMENT_COLUMNS,
+  type Shipment,
+  type ShipmentDetails,
+} from "@/lib/shipments"
+
+export class ShipmentError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "ShipmentError"
+    this.status = status
+  }
+}
+
+// Tracking is fetched from the courier at most this often per shipment; in between, the cached
+// events are returned.
+const TRACKING_REFRESH_INTERVAL_MS = 60 * 1000
+
+const pickOne = <T>(value: T | T[] | null) => (Array.isArray(value) ? value[0] ?? null : value)
+
+// Validates the courier details a vendor enters when marking an order shipped.
+export function parseShipmentDetails(input: Partial<ShipmentDetails> | null | undefined): ShipmentDetails {
+  if (!input || !COURIERS.some((courier) => courier.id === input.carrier)) {
+    throw new ShipmentError("Choose the courier the order was shipped with.")
+  }
+  const trackingNumber = typeof input.trackingNumber === "string" ? input.trackingNumber.trim().toUpperCase() : ""
+  if (!trackingNumber) {
+    throw new ShipmentError("Enter the tracking (AWB) number.")
+  }
+  if (trackingNumber.length > MAX_TRACKING_NUMBER_LENGTH || !/^[A-Z0-9-]+$/.test(trackingNumber)) {
+    throw new ShipmentError("The tracking number can only contain letters, digits and dashes.")
+  }
+
+  const expectedDeliveryDate = input.expectedDeliveryDate || null
+  if (expectedDeliveryDate !== null) {
+    const today = new Date().toISOString().slice(0, 10)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expectedDeliveryDate) || Number.isNaN(Date.parse(expectedDeliveryDate))) {
+      throw new ShipmentError("The expected delivery date is not a valid date.")
+    }
+    if (expectedDeliveryDate < today) {
+      throw new ShipmentError("The expected delivery date can't be in the past.")
+    }
+  }
+
+  return { carrier: input.carrier as string, trackingNumber, expectedDeliveryDate }
+}
+
+// One shipment per sub-order; shipping it again (say, after a correction) replaces the details.
+export async function saveShipment(
+  subOrder: { id: string; parent_order_id: string; company_id: string | null },
+  details: ShipmentDetails,
+) {
+  const { error } = await getSupabaseAdmin()
+    .from("shipments")
+    .upsert(
+      [
+        {
+          order_id: subOrder.parent_order_id,
+          sub_order_id: subOrder.id,
+          company_id: subOrder.company_id,
+          carrier: details.carrier,
+          tracking_number: details.trackingNumber,
+          expected_delivery_date: details.expectedDeliveryDate,
+          tracking_status: null,
+          tracking_events: [],
+          tracking_synced_at: null,
+        },
+      ],
+      { onConflict: "sub_order_id" },
+    )
+  if (error) throw error
+}
+
+// Removes the shipment saved for a sub-order whose move to shipped didn't go through. If the
+// sub-order has shipped after all (a concurrent update won), its shipment stays.
+export async function discardUnshippedShipment(subOrderId: string) {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin.from("sub_orders").select("status").eq("id", subOrderId).maybeSingle()
+  if (error) throw error
+  if (data && (data.status === "shipped" || data.status === "delivered")) return
+
+  const { error: deleteError } = await admin.from("shipments").delete().eq("sub_order_id", subOrderId)
+  if (deleteError) throw deleteError
+}
+
+// Fetches the latest tracking events from the courier for the customer or the vendor. A delivery
+// reported by the courier also marks the sub-order delivered.
+export async function refreshShipmentTracking(params: { shipmentId: string; userId: string }): Promise<Shipment> {
+  const admin = getSupabaseAdmin()
+  const { data, error } = await admin
+    .from("shipments")
+    .select(
+      `${SHIPMENT_COLUMNS}, sub_order_id, sub_orders ( status ), orders ( user_id ), companies ( user_id )`,
+    )
+    .eq("id", params.shipmentId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data || (pickOne(data.orders)?.user_id !== params.userId && pickOne(data.companies)?.user_id !== params.userId)) {
+    throw new ShipmentError("Shipment not found.", 404)
+  }
+  const shipment: Shipment = {
+    id: data.id,
+    carrier: data.carrier,
+    tracking_number: data.tracking_number,
+    expected_delivery_date: data.expected_delivery_date,
+    tracking_status: data.tracking_status,
+    tracking_events: data.tracking_events,
+    tracking_synced_at: data.tracking_synced_at,
+  }
+
+  const adapter = getCourierAdapter(shipment.carrier)
+  if (!adapter) {
+    throw new ShipmentError(`Live tracking isn't available for ${courierName(shipment.carrier)} yet.`, 409)
+  }
+  if (
+    shipment.tracking_synced_at &&
+    Date.now() - new Date(shipment.tracking_synced_at).getTime() < TRACKING_REFRESH_INTERVAL_MS
+  ) {
+    return shipment
+  }
+
+  let tracking
+  try {
+    tracking = await adapter.fetchTracking(shipment.tracking_number)
+  } catch (error) {
+    if (!(error instanceof CourierError)) throw error
+    console.error(`Tracking ${shipment.carrier} ${shipment.tracking_number} failed:`, error)
+    throw new ShipmentError(`${courierName(shipment.carrier)} tracking is unavailable right now. Try again later.`, 502)
+  }
+
+  const refreshed: Shipment = {
+    ...shipment,
+    tracking_status: tracking.status,
+    tracking_events: tracking.events,
+    expected_delivery_date: tracking.expectedDeliveryDate ?? shipment.expected_delivery_date,
+    tracking_synced_at: new Date().toISOString(),
+  }
+  const { error: updateError } = await admin
+    .from("shipments")
+    .update({
+      tracking_status: refreshed.tracking_status,
+      tracking_events: refreshed.tracking_events,
+      expected_delivery_date: refreshed.expected_delivery_date,
+      tracking_synced_at: refreshed.tracking_synced_at,
+    })
+    .eq("id", shipment.id)
+  if (updateError) throw updateError
+
+  const subOrderStatus = pickOne(data.sub_orders)?.status
+  if (tracking.status === "delivered" && subOrderStatus && canTransition(subOrderStatus, "delivered")) {
+    const { error: deliveredError } = await admin
+      .from("sub_orders")
+      .update({
+        status: "delivered",
+        ...statusChangedBy({
+          actorId: null,
+          actorRole: "system",
+          note: `Delivered according to ${courierName(shipment.carrier)}`,
+        }),
+      })
+      .eq("id", data.sub_order_id)
+      .eq("status", subOrderStatus)
+    if (deliveredError) throw deliveredError
+  }
+
+  return refreshed
+}
@@ -0,0 +1,217 @@
+import net from "net"
+import os from "os"
+import tls from "tls"
+import { randomUUID } from "crypto"
+import type { MailMessage, MailTransport } from "@/lib/server/mail"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS from the first byte (usually port 465). Otherwise STARTTLS is used when offered.
+  secure: boolean
+  user?: string
+  pass?: string
+}
+
+export class SmtpError extends Error {
+  code: number | null
+
+  constructor(message: string, code: number | null = null) {
+    super(message)
+    this.name = "SmtpError"
+    this.code = code
+  }
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+const TIMEOUT_MS = 30_000
+
+// One SMTP conversation: sends commands and reads their (possibly multi-line) replies in order.
+class SmtpSession {
+  private socket: net.Socket
+  private buffer = ""
+  private pendingLines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setTimeout(TIMEOUT_MS)
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf8")))
+    socket.on("timeout", () => socket.destroy(new SmtpError("The SMTP server stopped responding.")))
+    socket.on("error", (error) => this.fail(error))
+    socket.on("close", () => this.fail(new SmtpError("The SMTP server closed the connection.")))
+  }
+
+  private receive(data: string) {
+    this.buffer += data
+    let end: number
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      this.pendingLines.push(line.slice(4))
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] === "-") continue
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.pendingLines }
+      this.pendingLines = []
+      if (this.waiter) {
+        this.waiter.resolve(reply)
+        this.waiter = null
+      } else {
+        this.replies.push(reply)
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.waiter?.reject(this.failure)
+    this.waiter = null
+  }
+
+  async read(expected: number[]): Promise<SmtpReply> {
+    const reply =
+      this.replies.shift() ??
+      (await new Promise<SmtpReply>((resolve, reject) => {
+        if (this.failure) return reject(this.failure)
+        this.waiter = { resolve, reject }
+      }))
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${reply.code}: ${reply.lines.join(" ")}`, reply.code)
+    }
+    return reply
+  }
+
+  async command(line: string, expected: number[]) {
+    this.socket.write(`${line}\r\n`)
+    return this.read(expected)
+  }
+
+  async startTls(host: string) {
+    const plain = this.socket
+    plain.removeAllListeners()
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: host }, () => resolve(socket))
+      socket.once("error", reject)
+    })
+    this.attach(secured)
+  }
+
+  close() {
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once("error", reject)
+  })
+}
+
+// "Organixa <no-reply@organixa.com>" -> "no-reply@organixa.com"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+
+// RFC 2047 encoding for header values that aren't plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+
+const base64Lines = (value: string) =>
+  (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n")
+
+function buildMessage(message: MailMessage & { from: string }) {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(message.from).split("@")[1] || os.hostname()}>`,
+    "MIME-Version: 1.0",
+  ]
+  const part = (contentType: string, body: string) =>
+    [`Content-Type: ${contentType}; charset=utf-8`, "Content-Transfer-Encoding: base64", "", base64Lines(body)].join("\r\n")
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text)].join("\r\n")
+  }
+  const boundary = `=_${randomUUID()}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n")
+}
+
+// Sends through an SMTP relay with a fresh connection per message, which is plenty for the outbox
+// job's volume. Supports STARTTLS or implicit TLS and AUTH PLAIN / LOGIN.
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    async send(message) {
+      const session = new SmtpSession(await connect(config))
+      try {
+        await session.read([220])
+        let ehlo = await session.command(`EHLO ${os.hostname()}`, [250])
+        if (!config.secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+          await session.command("STARTTLS", [220])
+          await session.startTls(config.host)
+          ehlo = await session.command(`EHLO ${os.hostname()}`, [250])
+        }
+
+        if (config.user) {
+          const mechanisms = ehlo.lines.find((line) => /^AUTH\b/i.test(line))?.toUpperCase().split(/\s+/) ?? []
+          if (mechanisms.includes("PLAIN") || !mechanisms.includes("LOGIN")) {
+            const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`, "utf8").toString("base64")
+            await session.command(`AUTH PLAIN ${credentials}`, [235])
+          } else {
+            await session.command("AUTH LOGIN", [334])
+            await session.command(Buffer.from(config.user, "utf8").toString("base64"), [334])
+            await session.command(Buffer.from(config.pass ?? "", "utf8").toString("base64"), [235])
+          }
+        }
+
+        await session.command(`MAIL FROM:<${addressOf(message.from)}>`, [250])
+        await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+        await session.command("DATA", [354])
+        // Lines starting with a dot are escaped so they can't end the message early
+        const data = buildMessage(message).replace(/^\./gm, "..")
+        await session.command(`${data}\r\n.`, [250])
+        await session.command("QUIT", [221]).catch(() => undefined)
+      } finally {
+        session.close()
+      }
+    },
+  }
+}
+
+export function smtpConfigFromEnv(): SmtpConfig {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to send mail over SMTP")
+  }
+  const secure = process.env.SMTP_SECURE === "true"
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+  }
+}
@@ -0,0 +1,42 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { CheckoutError, type PricedCheckoutLine } from "@/lib/server/checkout"
+
+// How long checkout may hold stock before an unpaid reservation is handed back.
+export const STOCK_RESERVATION_TTL_SECONDS = Number(process.env.STOCK_RESERVATION_TTL_MINUTES || 15) * 60
+
+export async function reserveStock(orderId: string, lines: PricedCheckoutLine[]) {
+  const { error } = await getSupabaseAdmin().rpc("reserve_stock", {
+    p_order_id: orderId,
+    p_items: lines.map((line) => ({ product_id: line.productId, quantity: line.quantity })),
+    p_ttl_seconds: STOCK_RESERVATION_TTL_SECONDS,
+  })
+
+  if (error?.message.startsWith("insufficient_stock:")) {
+    const productId = error.message.slice("insufficient_stock:".length)
+    const productName = lines.find((line) => line.productId === productId)?.productName || "An item in your order"
+    throw new CheckoutError(`${productName} just sold out. Please update your cart.`, 409)
+  }
+  if (error) throw error
+}
+
+export async function commitStock(orderId: string) {
+  const { error } = await getSupabaseAdmin().rpc("commit_stock_reservation", { p_order_id: orderId })
+  if (error) throw error
+}
+
+export async function releaseStock(orderId: string) {
+  const { error } = await getSupabaseAdmin().rpc("release_stock_reservation", { p_order_id: orderId })
+  if (error) throw error
+}
+
+export async function releaseExpiredStock() {
+  const { data, error } = await getSupabaseAdmin().rpc("release_expired_stock_reservations")
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
+// Puts a cancelled sub-order's items back on sale; a no-op if it was already restocked.
+export async function restockSubOrder(subOrderId: string) {
+  const { error } = await getSupabaseAdmin().rpc("restock_sub_order", { p_sub_order_id: subOrderId })
+  if (error) throw error
+}
@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from "uuid"
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { statusChangedBy, type StatusActor } from "@/lib/server/order-history"
+import {
+  pricingOptionsFor,
+  toPricedLine,
+  type LinePricingParams,
+  type OrderItemSnapshot,
+  type PricedCheckoutLine,
+} from "@/lib/server/checkout"
+import { calculateCompanyTotals, type CompanyOrderTotals } from "@/lib/order-pricing"
+import { calculateSellerGst, type TaxableLine } from "@/lib/gst"
+import { statusesBefore, type OrderStatus } from "@/lib/order-lifecycle"
+
+function gstForCompany(companyLines: PricedCheckoutLine[], totals: CompanyOrderTotals, state: string) {
+  const itemLines = companyLines.map<TaxableLine>((line) => ({
+    description: line.productName,
+    hsnCode: line.hsnCode,
+    gstRate: line.gstRate,
+    quantity: line.quantity,
+    amount: line.unitPrice * line.quantity,
+  }))
+  return calculateSellerGst(itemLines, totals, companyLines[0]?.sellerGstin ?? null, state)
+}
+
+export type SubOrderRow = ReturnType<typeof buildSubOrders>[number]
+
+// One row per company in the cart. The parent `orders` row keeps the customer-facing totals and
+// address; vendors work exclusively on their sub-order.
+export function buildSubOrders(
+  orderId: string,
+  lines: PricedCheckoutLine[],
+  orderItems: OrderItemSnapshot[],
+  status = "pending",
+  pricing: LinePricingParams = {},
+) {
+  const companyByProduct = new Map(lines.map((line) => [line.productId, line.companyId]))
+  return calculateCompanyTotals(lines.map(toPricedLine), pricingOptionsFor(lines, pricing)).map((totals) => {
+    const gst = gstForCompany(
+      lines.filter((line) => line.companyId === totals.companyId),
+      totals,
+      pricing.state || "",
+    )
+    return {
+      id: uuidv4(),
+      parent_order_id: orderId,
+      company_id: totals.companyId,
+      status,
+      subtotal: totals.subtotal,
+      discount_amount: totals.discount,
+      shipping_fee: totals.shippingFee,
+      shipping_zone: totals.shipping.zone,
+      chargeable_weight_kg: totals.shipping.chargeableWeightKg,
+      total_amount: totals.totalAmount,
+      gst_breakdown: gst,
+      tax_amount: gst.totalTax,
+      // Same snapshot entries (and ids) as the parent's order_items
+      order_items: orderItems.filter((item) => companyByProduct.get(item.product_id) === totals.companyId),
+    }
+  })
+}
+
+export async function insertSubOrders(rows: SubOrderRow[], placedBy: StatusActor) {
+  const { error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .insert(rows.map((row) => ({ ...row, ...statusChangedBy(placedBy) })))
+  if (error) throw error
+}
+
+// Payment events apply to the whole order, so every sub-order that can move to `status` follows;
+// the others (say, a cancelled part when the payment is confirmed late) keep theirs. The parent
+// status is rolled up from these rows by a database trigger, and `note` ends up in each
+// sub-order's status history.
+export async function setSubOrderStatuses(orderId: string, status: OrderStatus, note: string) {
+  const { error } = await getSupabaseAdmin()
+    .from("sub_orders")
+    .update({ status, ...statusChangedBy({ actorId: null, actorRole: "system", note }) })
+    .eq("parent_order_id", orderId)
+    .in("status", statusesBefore(status))
+  if (error) throw error
+}
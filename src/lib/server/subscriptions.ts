@@ -0,0 +1,304 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import { assertCodEligible, CheckoutError, priceCheckoutItems } from "@/lib/server/checkout"
+import { discardOrder, placeOrder } from "@/lib/server/orders"
+import { commitStock } from "@/lib/server/stock"
+import { roundCurrency, type CompanyDiscounts } from "@/lib/order-pricing"
+import type { ShippingDetails } from "@/lib/checkout"
+import {
+  isSubscribable,
+  MAX_SUBSCRIPTION_QUANTITY,
+  nextRunDate,
+  SUBSCRIPTION_COLUMNS,
+  SUBSCRIPTION_DISCOUNT_PERCENT,
+  SUBSCRIPTION_FREQUENCIES,
+  toDateString,
+  type CreateSubscriptionRequest,
+  type Subscription,
+  type SubscriptionAction,
+  type SubscriptionFrequency,
+  type SubscriptionRunSummary,
+} from "@/lib/subscriptions"
+
+export class SubscriptionError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "SubscriptionError"
+    this.status = status
+  }
+}
+
+// A saved address as stored in user_profiles.addresses
+interface SavedAddress {
+  id: string
+  name?: string
+  houseNumber: string
+  street: string
+  area: string
+  city: string
+  state: string
+  pincode: string
+  country: string
+  primaryPhone: string
+  secondaryPhone?: string
+  lat?: number
+  lng?: number
+}
+
+interface DueSubscription {
+  id: string
+  user_id: string
+  product_id: string
+  quantity: number
+  frequency: SubscriptionFrequency
+  discount_percent: number
+  shipping: ShippingDetails
+  next_run_on: string
+  run_day: number
+}
+
+async function loadSubscription(subscriptionId: string): Promise<Subscription> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("subscriptions")
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq("id", subscriptionId)
+    .single()
+  if (error) throw error
+  const products = Array.isArray(data.products) ? data.products[0] ?? null : data.products
+  return { ...data, products } as Subscription
+}
+
+export async function createSubscription(
+  params: CreateSubscriptionRequest & { userId: string; now?: Date },
+): Promise<Subscription> {
+  if (!SUBSCRIPTION_FREQUENCIES.includes(params.frequency)) {
+    throw new SubscriptionError("Choose how often you'd like it delivered.")
+  }
+  if (!Number.isInteger(params.quantity) || params.quantity < 1 || params.quantity > MAX_SUBSCRIPTION_QUANTITY) {
+    throw new SubscriptionError(`The quantity must be between 1 and ${MAX_SUBSCRIPTION_QUANTITY}.`)
+  }
+
+  const admin = getSupabaseAdmin()
+  const [{ data: product, error: productError }, { data: profile, error: profileError }] = await Promise.all([
+    admin.from("products").select("id, is_approved, categories").eq("id", params.productId).maybeSingle(),
+    admin.from("user_profiles").select("name, email, addresses").eq("id", params.userId).maybeSingle(),
+  ])
+  if (productError) throw productError
+  if (profileError) throw profileError
+
+  if (!product || !product.is_approved) {
+    throw new SubscriptionError("This product is no longer available.", 404)
+  }
+  if (!isSubscribable(product.categories)) {
+    throw new SubscriptionError("This product isn't available on subscription.", 422)
+  }
+
+  const address = ((profile?.addresses || []) as SavedAddress[]).find((saved) => saved.id === params.addressId)
+  if (!address) {
+    throw new SubscriptionError("Choose one of your saved addresses.")
+  }
+  const shipping: ShippingDetails = {
+    customerName: profile?.name || profile?.email || "",
+    primaryPhone: address.primaryPhone,
+    secondaryPhone: address.secondaryPhone || null,
+    country: address.country,
+    state: address.state,
+    city: address.city,
+    pincode: address.pincode,
+    area: address.area,
+    street: address.street,
+    houseNumber: address.houseNumber,
+    location: { lat: address.lat, lng: address.lng },
+  }
+  if (!shipping.customerName || !shipping.primaryPhone || !shipping.pincode) {
+    throw new SubscriptionError("Add your name and a phone number to this address on your profile first.")
+  }
+
+  const { data: existing, error: existingError } = await admin
+    .from("subscriptions")
+    .select("id")
+    .eq("user_id", params.userId)
+    .eq("product_id", params.productId)
+    .neq("status", "cancelled")
+    .limit(1)
+  if (existingError) throw existingError
+  if (existing && existing.length > 0) {
+    throw new SubscriptionError("You already subscribe to this product. Manage it from your profile.", 409)
+  }
+
+  // The first order is placed on the next scheduler run
+  const startDate = toDateString(params.now ?? new Date())
+  const { data: created, error } = await admin
+    .from("subscriptions")
+    .insert([
+      {
+        user_id: params.userId,
+        product_id: params.productId,
+        quantity: params.quantity,
+        frequency: params.frequency,
+        discount_percent: SUBSCRIPTION_DISCOUNT_PERCENT,
+        address_id: address.id,
+        address_label: address.name || null,
+        shipping,
+        next_run_on: startDate,
+        run_day: Number(startDate.slice(8, 10)),
+      },
+    ])
+    .select("id")
+    .single()
+  if (error) throw error
+
+  return loadSubscription(created.id)
+}
+
+// Pause, resume, skip the next delivery or cancel. A resumed subscription that missed its date
+// runs on the next scheduler run rather than catching up on the missed orders.
+export async function updateSubscription(params: {
+  subscriptionId: string
+  userId: string
+  action: SubscriptionAction
+  now?: Date
+}): Promise<Subscription> {
+  const admin = getSupabaseAdmin()
+  const { data: subscription, error } = await admin
+    .from("subscriptions")
+    .select("id, user_id, status, frequency, next_run_on, run_day")
+    .eq("id", params.subscriptionId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!subscription || subscription.user_id !== params.userId) {
+    throw new SubscriptionError("Subscription not found.", 404)
+  }
+  if (subscription.status === "cancelled") {
+    throw new SubscriptionError("This subscription has been cancelled.", 409)
+  }
+
+  const today = toDateString(params.now ?? new Date())
+  let update: Record<string, unknown>
+  switch (params.action) {
+    case "pause":
+      if (subscription.status !== "active") throw new SubscriptionError("This subscription is already paused.", 409)
+      update = { status: "paused" }
+      break
+    case "resume":
+      if (subscription.status !== "paused") throw new SubscriptionError("This subscription isn't paused.", 409)
+      update = { status: "active", next_run_on: subscription.next_run_on < today ? today : subscription.next_run_on }
+      break
+    case "skip":
+      if (subscription.status !== "active") throw new SubscriptionError("Resume the subscription to skip a delivery.", 409)
+      update = {
+        next_run_on: nextRunDate(subscription.next_run_on, subscription.frequency, subscription.run_day),
+        last_error: null,
+      }
+      break
+    case "cancel":
+      update = { status: "cancelled", cancelled_at: new Date().toISOString() }
+      break
+    default:
+      throw new SubscriptionError("Unknown action.")
+  }
+
+  // Conditional on what was read, so a scheduler run in between isn't overwritten
+  const { data: updated, error: updateError } = await admin
+    .from("subscriptions")
+    .update(update)
+    .eq("id", subscription.id)
+    .eq("status", subscription.status)
+    .eq("next_run_on", subscription.next_run_on)
+    .select("id")
+  if (updateError) throw updateError
+  if (!updated || updated.length === 0) {
+    throw new SubscriptionError("This subscription just changed. Refresh and try again.", 409)
+  }
+
+  return loadSubscription(subscription.id)
+}
+
+// Subscription orders are Cash on Delivery: there is nobody at checkout to pay for them.
+async function placeSubscriptionOrder(subscription: DueSubscription) {
+  const lines = await priceCheckoutItems([{ productId: subscription.product_id, quantity: subscription.quantity }])
+  const discounts: CompanyDiscounts = new Map(
+    lines.map((line) => [
+      line.companyId,
+      roundCurrency((line.unitPrice * line.quantity * Number(subscription.discount_percent)) / 100),
+    ]),
+  )
+  await assertCodEligible(lines, { discounts, pincode: subscription.shipping.pincode })
+
+  const { orderId } = await placeOrder({
+    userId: subscription.user_id,
+    lines,
+    shipping: subscription.shipping,
+    status: "cod_pending",
+    paymentMethod: "cod",
+    discounts,
+    subscriptionId: subscription.id,
+  })
+
+  try {
+    await commitStock(orderId)
+  } catch (error) {
+    await discardOrder(orderId)
+    throw error
+  }
+  return orderId
+}
+
+// Places an order for every active subscription due on or before `now`'s date. Each subscription
+// is moved to its next date before its order is placed, so overlapping runs can't order twice; an
+// order that fails (sold out, COD no longer offered) is recorded on the subscription and that
+// delivery is missed. `now` is a parameter so the job can be run against a fake clock.
+export async function runDueSubscriptions(now = new Date()): Promise<SubscriptionRunSummary> {
+  const admin = getSupabaseAdmin()
+  const today = toDateString(now)
+  const { data, error } = await admin
+    .from("subscriptions")
+    .select("id, user_id, product_id, quantity, frequency, discount_percent, shipping, next_run_on, run_day")
+    .eq("status", "active")
+    .lte("next_run_on", today)
+    .order("next_run_on", { ascending: true })
+
+  if (error) throw error
+
+  const summary: SubscriptionRunSummary = { date: today, placed: [], failed: [] }
+  for (const subscription of (data || []) as DueSubscription[]) {
+    // After downtime, one order and then back on schedule
+    let nextRun = nextRunDate(subscription.next_run_on, subscription.frequency, subscription.run_day)
+    while (nextRun <= today) nextRun = nextRunDate(nextRun, subscription.frequency, subscription.run_day)
+
+    const { data: claimed, error: claimError } = await admin
+      .from("subscriptions")
+      .update({ next_run_on: nextRun, last_run_at: now.toISOString() })
+      .eq("id", subscription.id)
+      .eq("status", "active")
+      .eq("next_run_on", subscription.next_run_on)
+      .select("id")
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) continue
+
+    try {
+      const orderId = await placeSubscriptionOrder(subscription)
+      const { error: recordError } = await admin
+        .from("subscriptions")
+        .update({ last_order_id: orderId, last_error: null })
+        .eq("id", subscription.id)
+      if (recordError) throw recordError
+      summary.placed.push({ subscriptionId: subscription.id, orderId })
+    } catch (error) {
+      if (!(error instanceof CheckoutError)) {
+        console.error(`Subscription ${subscription.id} order failed:`, error)
+      }
+      const message = error instanceof CheckoutError ? error.message : "The order couldn't be placed."
+      const { error: recordError } = await admin
+        .from("subscriptions")
+        .update({ last_error: message })
+        .eq("id", subscription.id)
+      if (recordError) console.error(`Could not record the failure of subscription ${subscription.id}:`, recordError)
+      summary.failed.push({ subscriptionId: subscription.id, error: message })
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,19 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import { supabaseUrl } from "@/lib/supabase"
+
+let adminClient: SupabaseClient | null = null
+
+// Service-role client for route handlers. Bypasses RLS, so it must never be imported from client components.
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) return adminClient
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY environment variable.")
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  return adminClient
+}
@@ -0,0 +1,63 @@
+import { getSupabaseAdmin } from "@/lib/server/supabase-admin"
+import type { SharedWishlistItem, SharedWishlistResponse } from "@/lib/wishlists"
+
+export class WishlistError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "WishlistError"
+    this.status = status
+  }
+}
+
+// The public view of a shared list: its name, the owner's first name and the products still on
+// sale at today's prices. Only items the owner put there count, whatever wishlist_id other rows
+// may claim.
+export async function loadSharedWishlist(shareToken: string): Promise<SharedWishlistResponse> {
+  const admin = getSupabaseAdmin()
+  const { data: wishlist, error } = await admin
+    .from("wishlists")
+    .select("id, user_id, name")
+    .eq("share_token", shareToken)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!wishlist) {
+    throw new WishlistError("This wishlist isn't shared any more.", 404)
+  }
+
+  const [{ data: favorites, error: favoritesError }, { data: owner, error: ownerError }] = await Promise.all([
+    admin
+      .from("favorites")
+      .select(
+        "product_id, products ( product_name, discount_price, original_price, product_photo_urls, stock_quantity, is_approved )",
+      )
+      .eq("wishlist_id", wishlist.id)
+      .eq("user_id", wishlist.user_id)
+      .order("created_at", { ascending: false }),
+    admin.from("user_profiles").select("name").eq("id", wishlist.user_id).maybeSingle(),
+  ])
+  if (favoritesError) throw favoritesError
+  if (ownerError) throw ownerError
+
+  const items: SharedWishlistItem[] = []
+  for (const favorite of favorites || []) {
+    const product = Array.isArray(favorite.products) ? favorite.products[0] : favorite.products
+    if (!product || !product.is_approved) continue
+    items.push({
+      productId: favorite.product_id,
+      productName: product.product_name,
+      price: Number(product.discount_price ?? product.original_price),
+      originalPrice: product.original_price === null ? null : Number(product.original_price),
+      thumbnail: product.product_photo_urls?.[0] || "/placeholder.svg",
+      stockQuantity: product.stock_quantity ?? 0,
+    })
+  }
+
+  return {
+    name: wishlist.name,
+    ownerName: owner?.name?.trim().split(/\s+/)[0] || null,
+    items,
+  }
+}
@@ -0,0 +1,63 @@
+// Shipments and courier tracking, shared by the shipment routes and the order pages.
+
+export interface Courier {
+  id: string
+  name: string
+}
+
+// Couriers a vendor can pick when shipping. Tracking events are fetched for the ones with an adapter
+// in `src/lib/server/couriers.ts`; for the others the order pages show the tracking number only.
+export const COURIERS: Courier[] = [
+  { id: "delhivery", name: "Delhivery" },
+  { id: "bluedart", name: "Blue Dart" },
+  { id: "dtdc", name: "DTDC" },
+  { id: "ecom_express", name: "Ecom Express" },
+  { id: "xpressbees", name: "Xpressbees" },
+  { id: "india_post", name: "India Post" },
+  { id: "own_fleet", name: "Own delivery" },
+  // `npm run stub:courier`, for local runs
+  ...(process.env.NODE_ENV === "production" ? [] : [{ id: "stub", name: "Stub Courier (local)" }]),
+]
+
+export const MAX_TRACKING_NUMBER_LENGTH = 40
+
+export type TrackingStatus = "info_received" | "in_transit" | "out_for_delivery" | "delivered" | "exception"
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  info_received: "Shipment created",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  exception: "Delivery problem",
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus
+  description: string
+  location: string | null
+  occurred_at: string
+}
+
+export interface Shipment {
+  id: string
+  carrier: string
+  tracking_number: string
+  expected_delivery_date: string | null
+  tracking_status: TrackingStatus | null
+  tracking_events: TrackingEvent[]
+  tracking_synced_at: string | null
+}
+
+export const SHIPMENT_COLUMNS =
+  "id, carrier, tracking_number, expected_delivery_date, tracking_status, tracking_events, tracking_synced_at"
+
+export interface ShipmentDetails {
+  carrier: string
+  trackingNumber: string
+  // YYYY-MM-DD
+  expectedDeliveryDate: string | null
+}
+
+export function courierName(carrier: string) {
+  return COURIERS.find((courier) => courier.id === carrier)?.name ?? carrier
+}
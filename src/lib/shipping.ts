@@ -0,0 +1,135 @@
+// Shipping-rate engine. Shared by the cart, the checkout modal and the order routes so every one
+// of them quotes the same fee for the same cart and destination.
+
+export type DeliveryType = "self" | "organiza"
+
+export type ShippingZone = "local" | "regional" | "national" | "remote"
+
+// Shipping settings a company configures on /company/dashboard/settings.
+export interface CompanyShippingSettings {
+  id: string
+  company_name: string
+  delivery_type: DeliveryType
+  pickup_pincode: string | null
+  free_shipping_threshold: number | null // null = never free
+  self_delivery_fee: number | null // flat fee when the company delivers itself
+}
+
+export const SHIPPING_SETTINGS_COLUMNS =
+  "id, company_name, delivery_type, pickup_pincode, free_shipping_threshold, self_delivery_fee"
+
+// Weight and dimensions of one unit, as captured on the product form.
+export interface ParcelSpec {
+  weight: number | null
+  weight_unit: string | null
+  length: number | null
+  width: number | null
+  height: number | null
+  dimension_unit: string | null
+}
+
+export const PARCEL_COLUMNS = "weight, weight_unit, length, width, height, dimension_unit"
+
+export interface ShippingQuote {
+  deliveryType: DeliveryType
+  zone: ShippingZone | null // null for self delivery, which is a flat fee
+  chargeableWeightKg: number
+  fee: number
+  freeShippingThreshold: number | null
+  isFree: boolean
+  isEstimate: boolean // no destination pincode yet, so the farthest zone was assumed
+}
+
+export interface ShippingContext {
+  companies: CompanyShippingSettings[]
+  pincode?: string | null
+}
+
+// Used for companies without saved settings; reproduces the original flat ₹99 / free over ₹1000 rule.
+export const DEFAULT_FREE_SHIPPING_THRESHOLD = 1000
+export const DEFAULT_SELF_DELIVERY_FEE = 99
+
+// Organiza courier rate card: the first weight slab costs `base`, every further slab `perSlab`.
+export const WEIGHT_SLAB_KG = 0.5
+export const VOLUMETRIC_DIVISOR = 5000 // cm³ per kg
+export const ORGANIZA_RATE_CARD: Record<ShippingZone, { base: number; perSlab: number }> = {
+  local: { base: 40, perSlab: 20 },
+  regional: { base: 60, perSlab: 30 },
+  national: { base: 80, perSlab: 40 },
+  remote: { base: 120, perSlab: 60 },
+}
+
+// North-east states (78x, 79x), Jammu & Kashmir / Ladakh (18x, 19x) and the islands (744).
+const REMOTE_PINCODE_PREFIXES = ["78", "79", "18", "19", "744"]
+
+const WEIGHT_TO_KG: Record<string, number> = { kg: 1, g: 0.001, lb: 0.453592, oz: 0.0283495 }
+const LENGTH_TO_CM: Record<string, number> = { cm: 1, m: 100, in: 2.54 }
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+// Pincodes share their first digit within a postal region and their first three within a sorting
+// district, which is close enough to how couriers price distance.
+export function shippingZone(originPincode: string, destinationPincode: string): ShippingZone {
+  const origin = originPincode.replace(/\s+/g, "")
+  const destination = destinationPincode.replace(/\s+/g, "")
+  if (origin.slice(0, 3) === destination.slice(0, 3)) return "local"
+  if (REMOTE_PINCODE_PREFIXES.some((prefix) => destination.startsWith(prefix))) return "remote"
+  if (origin[0] === destination[0]) return "regional"
+  return "national"
+}
+
+// The greater of actual and volumetric weight, as couriers bill it.
+export function chargeableWeightKg(parcels: { quantity: number; parcel?: ParcelSpec | null }[]) {
+  const total = parcels.reduce((sum, { quantity, parcel }) => {
+    if (!parcel) return sum
+    const weightKg = (Number(parcel.weight) || 0) * (WEIGHT_TO_KG[parcel.weight_unit || "kg"] ?? 1)
+    const toCm = LENGTH_TO_CM[parcel.dimension_unit || "cm"] ?? 1
+    const volumeCm3 =
+      (Number(parcel.length) || 0) * toCm * (Number(parcel.width) || 0) * toCm * (Number(parcel.height) || 0) * toCm
+    return sum + Math.max(weightKg, volumeCm3 / VOLUMETRIC_DIVISOR) * quantity
+  }, 0)
+  return Math.round(total * 1000) / 1000
+}
+
+// Quotes one company's part of an order. `goodsValue` is what the buyer pays for the items (after any
+// coupon); it decides whether the company's free-shipping threshold is met.
+export function quoteShipping(
+  company: CompanyShippingSettings | undefined,
+  parcels: { quantity: number; parcel?: ParcelSpec | null }[],
+  goodsValue: number,
+  pincode?: string | null,
+): ShippingQuote {
+  const deliveryType = company?.delivery_type ?? "self"
+  const freeShippingThreshold = company ? company.free_shipping_threshold : DEFAULT_FREE_SHIPPING_THRESHOLD
+  const weightKg = chargeableWeightKg(parcels)
+  const destination = pincode?.trim() || null
+  const isFree = freeShippingThreshold !== null && goodsValue >= Number(freeShippingThreshold)
+
+  let zone: ShippingZone | null = null
+  let fee: number
+  if (deliveryType === "organiza") {
+    zone = destination && company?.pickup_pincode ? shippingZone(company.pickup_pincode, destination) : "national"
+    const rate = ORGANIZA_RATE_CARD[zone]
+    const slabs = Math.max(1, Math.ceil(weightKg / WEIGHT_SLAB_KG))
+    fee = rate.base + (slabs - 1) * rate.perSlab
+  } else {
+    fee = Number(company?.self_delivery_fee ?? DEFAULT_SELF_DELIVERY_FEE)
+  }
+
+  return {
+    deliveryType,
+    zone,
+    chargeableWeightKg: weightKg,
+    fee: isFree ? 0 : roundCurrency(fee),
+    freeShippingThreshold: freeShippingThreshold === null ? null : Number(freeShippingThreshold),
+    isFree,
+    isEstimate: deliveryType === "organiza" && !destination,
+  }
+}
+
+export const SHIPPING_ZONE_LABELS: Record<ShippingZone, string> = {
+  local: "Local",
+  regional: "Within region",
+  national: "National",
+  remote: "Remote area",
+}
@@ -0,0 +1,93 @@
+// Subscribe-and-save. Shared between the subscription routes, the scheduler and the pages.
+
+import type { ProductCategory } from "@/lib/categories"
+import type { ShippingDetails } from "@/lib/checkout"
+
+export const SUBSCRIPTION_FREQUENCIES = ["weekly", "biweekly", "monthly"] as const
+
+export type SubscriptionFrequency = (typeof SUBSCRIPTION_FREQUENCIES)[number]
+
+export const SUBSCRIPTION_FREQUENCY_LABELS: Record<SubscriptionFrequency, string> = {
+  weekly: "Every week",
+  biweekly: "Every 2 weeks",
+  monthly: "Every month",
+}
+
+export type SubscriptionStatus = "active" | "paused" | "cancelled"
+
+export type SubscriptionAction = "pause" | "resume" | "skip" | "cancel"
+
+export const SUBSCRIPTION_DISCOUNT_PERCENT = 5
+export const MAX_SUBSCRIPTION_QUANTITY = 20
+
+// Slugs of the sub-categories of things people run out of and buy again on a schedule.
+export const SUBSCRIBABLE_CATEGORIES = [
+  "organic-staples-grains",
+  "cold-pressed-oils-ghee",
+  "organic-spices-condiments",
+  "natural-sweeteners",
+  "dairy-plant-based-alternatives",
+]
+
+export function isSubscribable(categories: Pick<ProductCategory, "subSlug">[] | null | undefined) {
+  return (categories || []).some((category) => SUBSCRIBABLE_CATEGORIES.includes(category.subSlug))
+}
+
+// Calendar days as YYYY-MM-DD, in UTC like the rest of the order dates.
+export const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+// The run after `date`. Monthly runs are on `runDay`, the day of the month the subscription started
+// on, or the month's last day when it is shorter (31 Jan -> 28 Feb -> 31 Mar).
+export function nextRunDate(date: string, frequency: SubscriptionFrequency, runDay: number) {
+  const next = new Date(`${date}T00:00:00Z`)
+  if (frequency === "monthly") {
+    next.setUTCDate(1)
+    next.setUTCMonth(next.getUTCMonth() + 1)
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate()
+    next.setUTCDate(Math.min(runDay, lastDay))
+  } else {
+    next.setUTCDate(next.getUTCDate() + (frequency === "weekly" ? 7 : 14))
+  }
+  return toDateString(next)
+}
+
+export interface Subscription {
+  id: string
+  product_id: string
+  quantity: number
+  frequency: SubscriptionFrequency
+  status: SubscriptionStatus
+  discount_percent: number
+  address_label: string | null
+  shipping: ShippingDetails
+  next_run_on: string
+  last_order_id: string | null
+  last_run_at: string | null
+  last_error: string | null
+  products: {
+    product_name: string
+    product_photo_urls: string[] | null
+    discount_price: number | null
+    original_price: number
+  } | null
+}
+
+export const SUBSCRIPTION_COLUMNS = `id, product_id, quantity, frequency, status, discount_percent, address_label, shipping, next_run_on,
+  last_order_id, last_run_at, last_error, products ( product_name, product_photo_urls, discount_price, original_price )`
+
+export interface CreateSubscriptionRequest {
+  productId: string
+  quantity: number
+  frequency: SubscriptionFrequency
+  addressId: string
+}
+
+export interface UpdateSubscriptionRequest {
+  action: SubscriptionAction
+}
+
+export interface SubscriptionRunSummary {
+  date: string
+  placed: { subscriptionId: string; orderId: string }[]
+  failed: { subscriptionId: string; error: string }[]
+}
@@ -0,0 +1,38 @@
+// Named wishlists on /addfav and the public read-only view of a shared one.
+
+export const MAX_WISHLIST_NAME_LENGTH = 60
+
+// Favorites with no wishlist_id are the default list, shown under this name
+export const DEFAULT_WISHLIST_NAME = "Favorites"
+
+export interface Wishlist {
+  id: string
+  name: string
+  share_token: string | null
+  created_at: string
+}
+
+export const WISHLIST_COLUMNS = "id, name, share_token, created_at"
+
+export interface SharedWishlistItem {
+  productId: string
+  productName: string
+  price: number // live, from the products table
+  originalPrice: number | null
+  thumbnail: string
+  stockQuantity: number
+}
+
+export interface SharedWishlistResponse {
+  name: string
+  ownerName: string | null // first name only
+  items: SharedWishlistItem[]
+}
+
+export function sharedWishlistPath(shareToken: string) {
+  return `/wishlists/shared/${shareToken}`
+}
+
+export function normalizeWishlistName(name: string) {
+  return name.trim().replace(/\s+/g, " ").slice(0, MAX_WISHLIST_NAME_LENGTH)
+}
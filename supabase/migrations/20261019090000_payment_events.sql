@@ -0,0 +1,29 @@
+-- Razorpay webhook log and the constraints reconciliation relies on.
+
+-- One order row per Razorpay order, so webhook and verify-route writes can't double up.
+create unique index if not exists orders_order_id_key on public.orders (order_id) where order_id is not null;
+create index if not exists orders_payment_id_idx on public.orders (payment_id);
+
+create table if not exists public.payment_events (
+  id uuid primary key default gen_random_uuid(),
+  -- x-razorpay-event-id; Razorpay redelivers with the same id, which is how duplicates are detected.
+  event_id text not null unique,
+  event_type text not null,
+  razorpay_order_id text,
+  razorpay_payment_id text,
+  razorpay_refund_id text,
+  order_ref uuid references public.orders (id) on delete set null,
+  amount integer, -- paise
+  currency text,
+  -- What reconciliation did with the event, e.g. order_confirmed, no_change, order_not_found.
+  outcome text not null,
+  payload jsonb not null,
+  event_created_at timestamptz,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists payment_events_razorpay_order_id_idx on public.payment_events (razorpay_order_id);
+create index if not exists payment_events_order_ref_idx on public.payment_events (order_ref);
+
+-- Written only by the webhook route (service role); no client access.
+alter table public.payment_events enable row level security;
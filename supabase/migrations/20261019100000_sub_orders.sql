@@ -0,0 +1,126 @@
+-- Split orders into one sub-order per company. `orders` stays the customer-facing parent (address,
+-- payment, grand total); each company sees and updates only its own `sub_orders` row.
+
+create table if not exists public.sub_orders (
+  id uuid primary key default gen_random_uuid(),
+  parent_order_id uuid not null references public.orders (id) on delete cascade,
+  company_id uuid references public.companies (id) on delete set null,
+  status text not null default 'pending',
+  subtotal numeric(12, 2) not null default 0,
+  shipping_fee numeric(12, 2) not null default 0,
+  total_amount numeric(12, 2) not null default 0,
+  -- Same shape as orders.order_items, limited to this company's products.
+  order_items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (parent_order_id, company_id)
+);
+
+create index if not exists sub_orders_company_id_idx on public.sub_orders (company_id, created_at desc);
+
+-- Security definer helpers keep the orders <-> sub_orders policies from recursing into each other.
+create or replace function public.is_company_owner(target_company uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from companies where id = target_company and user_id = auth.uid());
+$$;
+
+create or replace function public.owns_order(target_order uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from orders where id = target_order and user_id = auth.uid());
+$$;
+
+alter table public.sub_orders enable row level security;
+
+create policy "Customers can view their sub-orders" on public.sub_orders
+  for select using (public.owns_order(parent_order_id));
+
+create policy "Companies can view their sub-orders" on public.sub_orders
+  for select using (public.is_company_owner(company_id));
+
+create policy "Companies can update their sub-orders" on public.sub_orders
+  for update using (public.is_company_owner(company_id)) with check (public.is_company_owner(company_id));
+
+-- Vendors still need the shipping address on the parent order.
+create policy "Companies can view orders they fulfil" on public.orders
+  for select using (
+    exists (
+      select 1 from public.sub_orders s
+      where s.parent_order_id = orders.id and public.is_company_owner(s.company_id)
+    )
+  );
+
+-- The parent status follows its sub-orders: when they agree it takes that status, otherwise the
+-- least advanced one among those still moving through fulfilment.
+create or replace function public.rollup_order_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  progression text[] := array['pending', 'payment_failed', 'confirmed', 'payment_accepted', 'preparing', 'shipped', 'delivered'];
+  next_status text;
+begin
+  select case
+    when count(distinct status) = 1 then min(status)
+    else progression[min(array_position(progression, status))]
+  end
+  into next_status
+  from sub_orders
+  where parent_order_id = new.parent_order_id;
+
+  if next_status is not null then
+    update orders set status = next_status where id = new.parent_order_id and status is distinct from next_status;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger sub_orders_rollup_status
+  after update of status on public.sub_orders
+  for each row execute function public.rollup_order_status();
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger sub_orders_touch_updated_at
+  before update on public.sub_orders
+  for each row execute function public.touch_updated_at();
+
+alter publication supabase_realtime add table public.sub_orders;
+
+-- Backfill existing orders. Their shipping fee was charged once on the parent and can't be
+-- attributed to a company, so it stays on the parent total only.
+insert into public.sub_orders (parent_order_id, company_id, status, subtotal, shipping_fee, total_amount, order_items, created_at)
+select
+  o.id,
+  p.company_id,
+  o.status,
+  sum((item ->> 'price_at_purchase')::numeric * (item ->> 'quantity')::numeric),
+  0,
+  sum((item ->> 'price_at_purchase')::numeric * (item ->> 'quantity')::numeric),
+  jsonb_agg(item),
+  o.purchase_time
+from public.orders o
+cross join lateral jsonb_array_elements(o.order_items) as item
+join public.products p on p.id = (item ->> 'product_id')::uuid
+group by o.id, p.company_id, o.status, o.purchase_time
+on conflict (parent_order_id, company_id) do nothing;
@@ -0,0 +1,125 @@
+-- Stock is taken from products.stock_quantity when checkout starts (reserve), kept when the
+-- payment is confirmed (commit) and handed back when checkout is abandoned or the hold expires
+-- (release). All functions are called by route handlers with the service role only.
+
+create table if not exists public.stock_reservations (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  status text not null default 'reserved' check (status in ('reserved', 'committed', 'released')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists stock_reservations_order_id_idx on public.stock_reservations (order_id);
+create index if not exists stock_reservations_expiry_idx on public.stock_reservations (expires_at) where status = 'reserved';
+
+alter table public.stock_reservations enable row level security;
+
+create or replace function public.release_expired_stock_reservations()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  released integer;
+begin
+  with expired as (
+    update stock_reservations
+    set status = 'released', updated_at = now()
+    where status = 'reserved' and expires_at < now()
+    returning product_id, quantity
+  ), per_product as (
+    select product_id, sum(quantity) as quantity from expired group by product_id
+  )
+  update products p
+  set stock_quantity = p.stock_quantity + per_product.quantity
+  from per_product
+  where p.id = per_product.product_id;
+
+  get diagnostics released = row_count;
+  return released;
+end;
+$$;
+
+-- p_items: [{"product_id": "...", "quantity": 2}, ...]. Raises `insufficient_stock:<product_id>` and
+-- reserves nothing if any line can't be covered, so two buyers can never both get the last unit.
+create or replace function public.reserve_stock(p_order_id uuid, p_items jsonb, p_ttl_seconds integer default 900)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  line record;
+begin
+  perform release_expired_stock_reservations();
+
+  for line in
+    select (item ->> 'product_id')::uuid as product_id, sum((item ->> 'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items) as item
+    group by 1
+    order by 1 -- fixed lock order so concurrent checkouts can't deadlock
+  loop
+    update products
+    set stock_quantity = stock_quantity - line.quantity
+    where id = line.product_id and stock_quantity >= line.quantity;
+
+    if not found then
+      raise exception 'insufficient_stock:%', line.product_id;
+    end if;
+
+    insert into stock_reservations (order_id, product_id, quantity, expires_at)
+    values (p_order_id, line.product_id, line.quantity, now() + make_interval(secs => p_ttl_seconds));
+  end loop;
+end;
+$$;
+
+-- Called once the payment is confirmed. If the hold already expired and the stock went back on
+-- sale, it is taken again regardless: the customer has paid, so the vendor sees the shortfall
+-- (stock floors at zero) instead of the order silently losing items.
+create or replace function public.commit_stock_reservation(p_order_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update products p
+  set stock_quantity = greatest(p.stock_quantity - r.quantity, 0)
+  from stock_reservations r
+  where r.order_id = p_order_id and r.status = 'released' and r.product_id = p.id;
+
+  update stock_reservations
+  set status = 'committed', updated_at = now()
+  where order_id = p_order_id and status in ('reserved', 'released');
+end;
+$$;
+
+create or replace function public.release_stock_reservation(p_order_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with released as (
+    update stock_reservations
+    set status = 'released', updated_at = now()
+    where order_id = p_order_id and status = 'reserved'
+    returning product_id, quantity
+  )
+  update products p
+  set stock_quantity = p.stock_quantity + released.quantity
+  from released
+  where p.id = released.product_id;
+end;
+$$;
+
+revoke execute on function public.release_expired_stock_reservations() from public, anon, authenticated;
+revoke execute on function public.reserve_stock(uuid, jsonb, integer) from public, anon, authenticated;
+revoke execute on function public.commit_stock_reservation(uuid) from public, anon, authenticated;
+revoke execute on function public.release_stock_reservation(uuid) from public, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Cash on Delivery: per-company opt-in with an order-value ceiling and pincode allow-list.
+
+alter table public.companies
+  add column if not exists cod_enabled boolean not null default false,
+  add column if not exists cod_max_order_value numeric(12, 2),
+  add column if not exists cod_pincodes text[] not null default '{}';
+
+alter table public.orders
+  add column if not exists payment_method text not null default 'razorpay'
+    check (payment_method in ('razorpay', 'cod'));
+
+-- Set by the vendor once the courier has handed over the cash for their part of the order.
+alter table public.sub_orders
+  add column if not exists cod_collected_at timestamptz;
+
+-- COD orders start in `cod_pending`, which sits alongside `confirmed` in the roll-up.
+create or replace function public.rollup_order_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  progression text[] := array['pending', 'payment_failed', 'cod_pending', 'confirmed', 'payment_accepted', 'preparing', 'shipped', 'delivered'];
+  next_status text;
+begin
+  select case
+    when count(distinct status) = 1 then min(status)
+    else progression[min(array_position(progression, status))]
+  end
+  into next_status
+  from sub_orders
+  where parent_order_id = new.parent_order_id;
+
+  if next_status is not null then
+    update orders set status = next_status where id = new.parent_order_id and status is distinct from next_status;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Vendors edit their COD settings from the dashboard.
+drop policy if exists "Companies can update their own record" on public.companies;
+create policy "Companies can update their own record"
+  on public.companies for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,105 @@
+-- Promo codes. A coupon takes a percentage or flat amount off the items it applies to (optionally
+-- only one company's products or one main category), within a validity window, above a minimum
+-- cart value and up to global / per-user usage limits. Coupons are managed with the service role.
+
+create table if not exists public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique check (code = upper(btrim(code))),
+  description text,
+  discount_type text not null check (discount_type in ('percentage', 'flat')),
+  discount_value numeric(12, 2) not null check (discount_value > 0),
+  max_discount numeric(12, 2), -- cap for percentage coupons; null = uncapped
+  min_cart_value numeric(12, 2) not null default 0,
+  usage_limit integer check (usage_limit > 0), -- null = unlimited
+  per_user_limit integer check (per_user_limit > 0), -- null = unlimited
+  starts_at timestamptz,
+  expires_at timestamptz,
+  company_id uuid references public.companies (id) on delete cascade,
+  category text, -- main category name as stored in products.categories[].main
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (discount_type <> 'percentage' or discount_value <= 100)
+);
+
+alter table public.coupons enable row level security;
+
+create table if not exists public.coupon_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons (id) on delete cascade,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  user_id uuid not null,
+  discount_amount numeric(12, 2) not null,
+  created_at timestamptz not null default now(),
+  unique (coupon_id, order_id)
+);
+
+create index if not exists coupon_redemptions_coupon_user_idx on public.coupon_redemptions (coupon_id, user_id);
+
+alter table public.coupon_redemptions enable row level security;
+
+alter table public.orders
+  add column if not exists coupon_id uuid references public.coupons (id) on delete set null,
+  add column if not exists coupon_code text,
+  add column if not exists discount_amount numeric(12, 2) not null default 0;
+
+alter table public.sub_orders
+  add column if not exists discount_amount numeric(12, 2) not null default 0;
+
+-- A redemption uses up the coupon once its order is paid (or placed as COD), and while an unpaid
+-- order still holds its stock. Abandoned, expired, cancelled and refunded orders give the use back.
+create or replace function public.coupon_redemption_counts(p_coupon_id uuid, p_user_id uuid)
+returns table (total integer, by_user integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    count(*)::integer,
+    (count(*) filter (where r.user_id = p_user_id))::integer
+  from coupon_redemptions r
+  join orders o on o.id = r.order_id
+  where r.coupon_id = p_coupon_id
+    and o.status not in ('cancelled', 'refunded')
+    and (
+      o.status not in ('pending', 'payment_failed')
+      or exists (
+        select 1 from stock_reservations s
+        where s.order_id = o.id and s.status = 'reserved' and s.expires_at > now()
+      )
+    );
+$$;
+
+-- Locks the coupon so concurrent checkouts cannot both take its last use.
+create or replace function public.redeem_coupon(p_coupon_id uuid, p_order_id uuid, p_user_id uuid, p_discount numeric)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  coupon coupons%rowtype;
+  used_total integer;
+  used_by_user integer;
+begin
+  select * into coupon from coupons where id = p_coupon_id for update;
+  if not found then
+    raise exception 'coupon_not_found';
+  end if;
+
+  select total, by_user into used_total, used_by_user from coupon_redemption_counts(p_coupon_id, p_user_id);
+
+  if coupon.usage_limit is not null and used_total >= coupon.usage_limit then
+    raise exception 'coupon_usage_limit_reached';
+  end if;
+  if coupon.per_user_limit is not null and used_by_user >= coupon.per_user_limit then
+    raise exception 'coupon_user_limit_reached';
+  end if;
+
+  insert into coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+  values (p_coupon_id, p_order_id, p_user_id, p_discount);
+end;
+$$;
+
+revoke execute on function public.coupon_redemption_counts(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.redeem_coupon(uuid, uuid, uuid, numeric) from public, anon, authenticated;
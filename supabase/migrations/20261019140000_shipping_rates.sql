@@ -0,0 +1,12 @@
+-- Shipping-rate engine inputs. `delivery_type` ('self' | 'organiza') is already set at registration;
+-- these let each company tune its fees. Rates for Organiza delivery live in `src/lib/shipping.ts`.
+
+alter table public.companies
+  add column if not exists pickup_pincode text,
+  add column if not exists free_shipping_threshold numeric(12, 2) default 1000, -- null = never free
+  add column if not exists self_delivery_fee numeric(12, 2) default 99 check (self_delivery_fee >= 0);
+
+-- How each company's shipping fee was worked out, for fulfilment and support.
+alter table public.sub_orders
+  add column if not exists shipping_zone text,
+  add column if not exists chargeable_weight_kg numeric(10, 3);
@@ -0,0 +1,41 @@
+-- GST. Products carry their HSN code and GST rate; every sub-order stores the tax it was charged
+-- (see `src/lib/gst.ts`) and gets an invoice number the first time its invoice is downloaded.
+
+alter table public.products
+  add column if not exists hsn_code text,
+  add column if not exists gst_rate numeric(5, 2) not null default 0
+    check (gst_rate in (0, 5, 12, 18, 28));
+
+alter table public.sub_orders
+  add column if not exists gst_breakdown jsonb,
+  add column if not exists tax_amount numeric(12, 2) not null default 0,
+  add column if not exists invoice_number text unique,
+  add column if not exists invoiced_at timestamptz;
+
+alter table public.orders
+  add column if not exists tax_amount numeric(12, 2) not null default 0;
+
+create sequence if not exists public.invoice_number_seq;
+
+-- Numbers are handed out once per sub-order and never reused: INV-<year>-<000001>.
+create or replace function public.issue_invoice_number(p_sub_order_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  issued text;
+begin
+  select invoice_number into issued from sub_orders where id = p_sub_order_id for update;
+  if issued is not null then
+    return issued;
+  end if;
+
+  issued := 'INV-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('invoice_number_seq')::text, 6, '0');
+  update sub_orders set invoice_number = issued, invoiced_at = now() where id = p_sub_order_id;
+  return issued;
+end;
+$$;
+
+revoke execute on function public.issue_invoice_number(uuid) from public, anon, authenticated;
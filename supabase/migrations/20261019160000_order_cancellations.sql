@@ -0,0 +1,75 @@
+-- Cancellations. A customer can cancel, and a vendor can reject, their part of an order until it
+-- ships; the sub-order's stock goes back on sale and a prepaid amount is refunded via Razorpay.
+
+alter table public.sub_orders
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancelled_by text check (cancelled_by in ('customer', 'vendor')),
+  add column if not exists cancellation_reason text,
+  add column if not exists restocked_at timestamptz,
+  -- not_required: nothing was paid (COD). requested: the refund call is in flight, or was before
+  -- a crash; pending/processed mirror the Razorpay refund; failed refunds are retried on request.
+  add column if not exists refund_status text
+    check (refund_status in ('not_required', 'requested', 'pending', 'processed', 'failed')),
+  add column if not exists refund_id text unique,
+  add column if not exists refund_amount numeric(12, 2);
+
+-- Status history of every sub-order, newest last. Written by route handlers with the service role.
+create table if not exists public.order_status_events (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  sub_order_id uuid references public.sub_orders (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_role text not null check (actor_role in ('customer', 'vendor', 'system')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_events_order_id_idx on public.order_status_events (order_id, created_at);
+create index if not exists order_status_events_sub_order_id_idx on public.order_status_events (sub_order_id, created_at);
+
+alter table public.order_status_events enable row level security;
+
+create policy "Customers can view their order history" on public.order_status_events
+  for select using (public.owns_order(order_id));
+
+create policy "Companies can view the history of their sub-orders" on public.order_status_events
+  for select using (
+    exists (
+      select 1 from public.sub_orders s
+      where s.id = order_status_events.sub_order_id and public.is_company_owner(s.company_id)
+    )
+  );
+
+-- Puts a cancelled sub-order's items back on sale. Runs at most once per sub-order.
+create or replace function public.restock_sub_order(p_sub_order_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  items jsonb;
+begin
+  update sub_orders
+  set restocked_at = now()
+  where id = p_sub_order_id and restocked_at is null
+  returning order_items into items;
+
+  if not found then
+    return;
+  end if;
+
+  update products p
+  set stock_quantity = p.stock_quantity + returned.quantity
+  from (
+    select (item ->> 'product_id')::uuid as product_id, sum((item ->> 'quantity')::integer) as quantity
+    from jsonb_array_elements(items) as item
+    group by 1
+  ) as returned
+  where p.id = returned.product_id;
+end;
+$$;
+
+revoke execute on function public.restock_sub_order(uuid) from public, anon, authenticated;
@@ -0,0 +1,81 @@
+-- Returns and replacements. After delivery a customer can ask to return or replace an item; the
+-- vendor approves, collects it with a reverse pickup, and the request ends in a refund or a free
+-- replacement order. All writes go through the route handlers with the service role.
+
+-- The return window starts at delivery.
+alter table public.sub_orders
+  add column if not exists delivered_at timestamptz;
+
+update public.sub_orders set delivered_at = updated_at where status = 'delivered' and delivered_at is null;
+
+create or replace function public.stamp_sub_order_delivered_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'delivered' and old.status is distinct from 'delivered' then
+    new.delivered_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger sub_orders_stamp_delivered_at
+  before update of status on public.sub_orders
+  for each row execute function public.stamp_sub_order_delivered_at();
+
+-- Replacement orders are free re-shipments of a returned item.
+alter table public.orders drop constraint if exists orders_payment_method_check;
+alter table public.orders
+  add constraint orders_payment_method_check check (payment_method in ('razorpay', 'cod', 'replacement'));
+
+create table if not exists public.return_requests (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  sub_order_id uuid not null references public.sub_orders (id) on delete cascade,
+  company_id uuid references public.companies (id) on delete set null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  order_item_id uuid not null, -- id of the entry in sub_orders.order_items
+  product_id uuid references public.products (id) on delete set null,
+  quantity integer not null check (quantity > 0),
+  type text not null check (type in ('return', 'replacement')),
+  reason text not null,
+  details text,
+  photo_urls text[] not null default '{}',
+  status text not null default 'requested'
+    check (status in ('requested', 'approved', 'rejected', 'pickup_scheduled', 'picked_up', 'received', 'refunded', 'replaced')),
+  vendor_note text,
+  -- Same meaning as on sub_orders; `manual` is a COD refund the vendor settles outside Razorpay.
+  refund_status text check (refund_status in ('requested', 'pending', 'processed', 'failed', 'manual')),
+  refund_id text unique,
+  refund_amount numeric(12, 2),
+  replacement_order_id uuid references public.orders (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+-- One open request per item; a rejected one can be followed by a new request.
+create unique index if not exists return_requests_open_item_key
+  on public.return_requests (sub_order_id, order_item_id) where status <> 'rejected';
+create index if not exists return_requests_user_id_idx on public.return_requests (user_id, created_at desc);
+create index if not exists return_requests_company_id_idx on public.return_requests (company_id, created_at desc);
+
+create trigger return_requests_touch_updated_at
+  before update on public.return_requests
+  for each row execute function public.touch_updated_at();
+
+alter table public.return_requests enable row level security;
+
+create policy "Customers can view their return requests" on public.return_requests
+  for select using (user_id = auth.uid());
+
+create policy "Companies can view return requests for their products" on public.return_requests
+  for select using (public.is_company_owner(company_id));
+
+alter publication supabase_realtime add table public.return_requests;
+
+-- Photos are uploaded by the returns route and shown to the vendor.
+insert into storage.buckets (id, name, public)
+values ('return-photos', 'return-photos', true)
+on conflict (id) do nothing;
@@ -0,0 +1,86 @@
+-- Status history for every sub-order. Each change of `sub_orders.status`, including the insert that
+-- creates it, appends a row to `order_status_events` from a trigger, so direct vendor updates and
+-- bulk payment updates are recorded the same way as cancellations.
+
+-- Who made the latest status change. Route handlers set these alongside `status` (see
+-- `statusChangedBy`); for updates made with a user's session the trigger fills them in itself.
+alter table public.sub_orders
+  add column if not exists status_changed_by uuid references auth.users (id) on delete set null,
+  add column if not exists status_actor_role text not null default 'system'
+    check (status_actor_role in ('customer', 'vendor', 'system')),
+  add column if not exists status_note text;
+
+create or replace function public.stamp_sub_order_status_actor()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    -- Not a transition: keep the details of the last one
+    new.status_changed_by := old.status_changed_by;
+    new.status_actor_role := old.status_actor_role;
+    new.status_note := old.status_note;
+    return new;
+  end if;
+
+  -- A signed-in user can't claim to be someone else
+  if auth.uid() is not null then
+    new.status_changed_by := auth.uid();
+    new.status_actor_role := case
+      when is_company_owner(new.company_id) then 'vendor'
+      when owns_order(new.parent_order_id) then 'customer'
+      else 'system'
+    end;
+    if tg_op = 'UPDATE' and new.status_note is not distinct from old.status_note then
+      new.status_note := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger sub_orders_stamp_status_actor
+  before insert or update on public.sub_orders
+  for each row execute function public.stamp_sub_order_status_actor();
+
+create or replace function public.record_sub_order_status_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into order_status_events (order_id, sub_order_id, from_status, to_status, actor_id, actor_role, note)
+  values (
+    new.parent_order_id,
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    new.status_changed_by,
+    new.status_actor_role,
+    new.status_note
+  );
+
+  return new;
+end;
+$$;
+
+create trigger sub_orders_record_status_event
+  after insert or update of status on public.sub_orders
+  for each row execute function public.record_sub_order_status_event();
+
+-- Orders placed before this have no history; start it from their current status.
+insert into public.order_status_events (order_id, sub_order_id, from_status, to_status, actor_role, created_at)
+select s.parent_order_id, s.id, null, s.status, 'system', s.updated_at
+from public.sub_orders s
+where not exists (select 1 from public.order_status_events e where e.sub_order_id = s.id);
+
+-- The order pages append new events as they happen.
+alter publication supabase_realtime add table public.order_status_events;
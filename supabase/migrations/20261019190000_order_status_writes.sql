@@ -0,0 +1,5 @@
+-- Status changes are checked against the order lifecycle (`src/lib/order-lifecycle.ts`) by the
+-- route handlers, so vendors can no longer write `sub_orders.status` with their own session. The
+-- only column they still update directly is `cod_collected_at`.
+revoke update on public.sub_orders from anon, authenticated;
+grant update (cod_collected_at) on public.sub_orders to authenticated;
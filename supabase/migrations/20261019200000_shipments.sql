@@ -0,0 +1,38 @@
+-- Shipments. A vendor marking their part of an order shipped records the courier, the tracking
+-- (AWB) number and the expected delivery date. Tracking events are fetched from the courier by the
+-- route handlers (see `src/lib/server/couriers.ts`) and cached here for the order pages.
+
+create table if not exists public.shipments (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  sub_order_id uuid not null unique references public.sub_orders (id) on delete cascade,
+  company_id uuid references public.companies (id) on delete set null,
+  carrier text not null,
+  tracking_number text not null,
+  expected_delivery_date date,
+  -- Latest state reported by the courier; null until the first tracking fetch.
+  tracking_status text
+    check (tracking_status in ('info_received', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+  -- [{ "status", "description", "location", "occurred_at" }], oldest first
+  tracking_events jsonb not null default '[]'::jsonb,
+  tracking_synced_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists shipments_order_id_idx on public.shipments (order_id);
+create index if not exists shipments_carrier_tracking_idx on public.shipments (carrier, tracking_number);
+
+create trigger shipments_touch_updated_at
+  before update on public.shipments
+  for each row execute function public.touch_updated_at();
+
+alter table public.shipments enable row level security;
+
+create policy "Customers can view shipments of their orders" on public.shipments
+  for select using (public.owns_order(order_id));
+
+create policy "Companies can view their shipments" on public.shipments
+  for select using (public.is_company_owner(company_id));
+
+alter publication supabase_realtime add table public.shipments;
@@ -0,0 +1,46 @@
+-- Subscribe-and-save. A customer subscribes to a staple (see `SUBSCRIBABLE_CATEGORIES` in
+-- `src/lib/subscriptions.ts`) and the scheduler places a Cash on Delivery order for it, at a
+-- discount, every week, two weeks or month. All writes go through the route handlers and the
+-- scheduler with the service role.
+
+create table if not exists public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  frequency text not null check (frequency in ('weekly', 'biweekly', 'monthly')),
+  status text not null default 'active' check (status in ('active', 'paused', 'cancelled')),
+  -- Fixed when subscribing, so a later change to the standard discount doesn't affect it
+  discount_percent numeric(5, 2) not null check (discount_percent >= 0 and discount_percent < 100),
+  -- The saved address it delivers to (an id from user_profiles.addresses) and a copy of it as
+  -- shipping details, so deleting or editing the saved address doesn't affect it
+  address_id text not null,
+  address_label text,
+  shipping jsonb not null,
+  -- The day the next order is placed; skipping moves it one period on
+  next_run_on date not null,
+  last_order_id uuid references public.orders (id) on delete set null,
+  last_run_at timestamptz,
+  -- Why the last scheduled order couldn't be placed (out of stock, no COD to the pincode, ...)
+  last_error text,
+  cancelled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists subscriptions_user_id_idx on public.subscriptions (user_id);
+create index if not exists subscriptions_due_idx on public.subscriptions (next_run_on) where status = 'active';
+
+create trigger subscriptions_touch_updated_at
+  before update on public.subscriptions
+  for each row execute function public.touch_updated_at();
+
+alter table public.subscriptions enable row level security;
+
+create policy "Customers can view their subscriptions" on public.subscriptions
+  for select using (auth.uid() = user_id);
+
+alter table public.orders
+  add column if not exists subscription_id uuid references public.subscriptions (id) on delete set null;
+
+create index if not exists orders_subscription_id_idx on public.orders (subscription_id);
@@ -0,0 +1,77 @@
+-- Save for later on /cart. A saved item keeps its quantity and accepted price but is out of the
+-- cart, so it isn't checked out or counted in the cart badge. The customer's own session writes
+-- these rows; moving a line either way goes through the functions below so it is never in both
+-- places (or neither) at once.
+
+create table if not exists public.saved_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  price_at_add numeric(12, 2) not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, product_id)
+);
+
+alter table public.saved_items enable row level security;
+
+create policy "Customers manage their saved items" on public.saved_items
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Security invoker: both run as the customer, under the RLS of cart_items and saved_items.
+create or replace function public.save_cart_item_for_later(p_cart_item_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item cart_items%rowtype;
+begin
+  delete from cart_items
+  where id = p_cart_item_id and user_id = auth.uid()
+  returning * into v_item;
+
+  if not found then
+    raise exception 'Cart item % not found', p_cart_item_id;
+  end if;
+
+  insert into saved_items (user_id, product_id, quantity, price_at_add)
+  values (v_item.user_id, v_item.product_id, v_item.quantity, v_item.price_at_add)
+  on conflict (user_id, product_id) do update
+    set quantity = excluded.quantity, price_at_add = excluded.price_at_add, created_at = now();
+end;
+$$;
+
+-- A product that is also in the cart keeps the larger of the two quantities.
+create or replace function public.move_saved_item_to_cart(p_saved_item_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item saved_items%rowtype;
+begin
+  delete from saved_items
+  where id = p_saved_item_id and user_id = auth.uid()
+  returning * into v_item;
+
+  if not found then
+    raise exception 'Saved item % not found', p_saved_item_id;
+  end if;
+
+  update cart_items
+  set quantity = greatest(quantity, v_item.quantity)
+  where user_id = v_item.user_id and product_id = v_item.product_id;
+
+  if not found then
+    insert into cart_items (user_id, product_id, quantity, price_at_add)
+    values (v_item.user_id, v_item.product_id, v_item.quantity, v_item.price_at_add);
+  end if;
+end;
+$$;
+
+alter publication supabase_realtime add table public.saved_items;
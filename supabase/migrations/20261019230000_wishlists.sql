@@ -0,0 +1,34 @@
+-- Named wishlists. `favorites` rows with no wishlist_id make up the default "Favorites" list that
+-- the heart buttons add to; a named list (e.g. "Diwali gifting") is a `wishlists` row and its items
+-- are `favorites` rows pointing at it. Customers manage their own lists from /addfav.
+
+create table if not exists public.wishlists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  -- Set while the list is shared. Anyone with /wishlists/shared/<token> can view the list, read
+  -- only, through the route handler; clearing it revokes the link.
+  share_token text unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists wishlists_user_id_idx on public.wishlists (user_id);
+
+create trigger wishlists_touch_updated_at
+  before update on public.wishlists
+  for each row execute function public.touch_updated_at();
+
+alter table public.wishlists enable row level security;
+
+create policy "Customers manage their wishlists" on public.wishlists
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Deleting a list from /addfav moves its items back to Favorites first; the cascade only matters
+-- when the account itself goes.
+alter table public.favorites
+  add column if not exists wishlist_id uuid references public.wishlists (id) on delete cascade;
+
+create index if not exists favorites_wishlist_id_idx on public.favorites (wishlist_id);
@@ -0,0 +1,88 @@
+-- Price-drop and back-in-stock alerts for favorited products. A trigger on products turns a lower
+-- price, or stock coming back from zero, into a notification for everyone who favorited the
+-- product and left that alert on; `GET /api/cron/product-alerts` then emails them.
+
+alter table public.favorites
+  add column if not exists price_drop_alerts boolean not null default true,
+  add column if not exists back_in_stock_alerts boolean not null default true;
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null check (type in ('price_drop', 'back_in_stock')),
+  title text not null,
+  body text not null,
+  link text, -- app path the notification opens, e.g. /product/<id>
+  product_id uuid references public.products (id) on delete cascade,
+  read_at timestamptz,
+  -- Set when the email job picks the notification up; cleared again if sending fails
+  emailed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id, created_at desc);
+create index if not exists notifications_unemailed_idx on public.notifications (created_at) where emailed_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users can view their notifications" on public.notifications
+  for select using (user_id = auth.uid());
+
+-- Marking read is the only write made with the user's session
+create policy "Users can mark their notifications read" on public.notifications
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create or replace function public.queue_favorite_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old_price numeric := coalesce(old.discount_price, old.original_price);
+  v_new_price numeric := coalesce(new.discount_price, new.original_price);
+begin
+  if not new.is_approved then
+    return new;
+  end if;
+
+  -- A product can sit in more than one of a customer's wishlists; they get one alert
+  if v_new_price < v_old_price then
+    insert into notifications (user_id, type, title, body, link, product_id)
+    select
+      f.user_id,
+      'price_drop',
+      new.product_name || ' is now cheaper',
+      format('Down from ₹%s to ₹%s.', to_char(v_old_price, 'FM999999990.00'), to_char(v_new_price, 'FM999999990.00')),
+      '/product/' || new.id,
+      new.id
+    from favorites f
+    where f.product_id = new.id
+    group by f.user_id
+    having bool_or(f.price_drop_alerts);
+  end if;
+
+  if coalesce(old.stock_quantity, 0) <= 0 and new.stock_quantity > 0 then
+    insert into notifications (user_id, type, title, body, link, product_id)
+    select
+      f.user_id,
+      'back_in_stock',
+      new.product_name || ' is back in stock',
+      format('%s unit(s) available at ₹%s.', new.stock_quantity, to_char(v_new_price, 'FM999999990.00')),
+      '/product/' || new.id,
+      new.id
+    from favorites f
+    where f.product_id = new.id
+    group by f.user_id
+    having bool_or(f.back_in_stock_alerts);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger products_queue_favorite_alerts
+  after update of discount_price, original_price, stock_quantity on public.products
+  for each row execute function public.queue_favorite_alerts();
+
+alter publication supabase_realtime add table public.notifications;
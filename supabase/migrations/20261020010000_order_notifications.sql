@@ -0,0 +1,96 @@
+-- Order notifications for the notification center. Every sub-order status change is already
+-- recorded in order_status_events; a trigger there tells the customer about the steps they care
+-- about and tells the vendor about new and cancelled orders.
+
+alter table public.notifications drop constraint if exists notifications_type_check;
+alter table public.notifications
+  add constraint notifications_type_check
+  check (type in ('price_drop', 'back_in_stock', 'order_update', 'new_order'));
+
+alter table public.notifications
+  add column if not exists order_id uuid references public.orders (id) on delete cascade;
+
+create index if not exists notifications_unread_idx on public.notifications (user_id) where read_at is null;
+
+create or replace function public.notify_order_status_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_customer_id uuid;
+  v_vendor_id uuid;
+  v_company_name text;
+  v_ref text := '#' || left(new.order_id::text, 8);
+  v_title text;
+  v_body text;
+begin
+  select user_id into v_customer_id from orders where id = new.order_id;
+  if new.sub_order_id is not null then
+    select c.user_id, c.company_name into v_vendor_id, v_company_name
+    from sub_orders s
+    join companies c on c.id = s.company_id
+    where s.id = new.sub_order_id;
+  end if;
+
+  -- The customer, unless they made the change themselves
+  if new.actor_role <> 'customer' then
+    case new.to_status
+      when 'confirmed', 'cod_pending' then
+        v_title := 'Order ' || v_ref || ' confirmed';
+        v_body := 'Thanks for your order. We''ll let you know when it ships.';
+      when 'shipped' then
+        v_title := 'Order ' || v_ref || ' has shipped';
+        v_body := coalesce(v_company_name, 'The seller') || ' has sent your items on their way.';
+      when 'delivered' then
+        v_title := 'Order ' || v_ref || ' delivered';
+        v_body := 'Your items from ' || coalesce(v_company_name, 'the seller') || ' have been delivered.';
+      when 'cancelled' then
+        v_title := 'Order ' || v_ref || ' cancelled';
+        v_body := coalesce(v_company_name, 'The seller') || ' cancelled your items'
+          || coalesce(': ' || new.note, '.');
+      when 'refunded' then
+        v_title := 'Refund for order ' || v_ref;
+        v_body := 'Your refund for the items from ' || coalesce(v_company_name, 'the seller') || ' has been processed.';
+      else
+        v_title := null;
+    end case;
+
+    -- A multi-seller order is confirmed once per seller; the customer hears about it once
+    if v_title is not null and v_customer_id is not null and not exists (
+      select 1 from notifications n
+      where n.user_id = v_customer_id and n.order_id = new.order_id and n.title = v_title and n.body = v_body
+    ) then
+      insert into notifications (user_id, type, title, body, link, order_id)
+      values (v_customer_id, 'order_update', v_title, v_body, '/orders/' || new.order_id, new.order_id);
+    end if;
+  end if;
+
+  -- The vendor, about orders to fulfil and orders the customer called off
+  if v_vendor_id is not null then
+    if new.to_status in ('confirmed', 'cod_pending') then
+      insert into notifications (user_id, type, title, body, link, order_id)
+      values (
+        v_vendor_id, 'new_order', 'New order ' || v_ref,
+        case when new.to_status = 'cod_pending' then 'A Cash on Delivery order is ready to prepare.'
+          else 'A paid order is ready to prepare.' end,
+        '/company/dashboard/my-orders', new.order_id
+      );
+    elsif new.to_status = 'cancelled' and new.actor_role = 'customer' then
+      insert into notifications (user_id, type, title, body, link, order_id)
+      values (
+        v_vendor_id, 'order_update', 'Order ' || v_ref || ' cancelled by the customer',
+        coalesce('Reason: ' || new.note, 'Don''t ship it.'),
+        '/company/dashboard/my-orders', new.order_id
+      );
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger order_status_events_notify
+  after insert on public.order_status_events
+  for each row execute function public.notify_order_status_event();
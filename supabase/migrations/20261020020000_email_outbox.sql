@@ -0,0 +1,183 @@
+-- Transactional email. Every email is first written to `email_outbox` — by the triggers below for
+-- order and company events, or by the route handlers (password reset) — and `GET
+-- /api/cron/email-outbox` renders and sends what's pending, retrying failures with a backoff. A sent
+-- row keeps the exact subject and bodies that went out.
+
+create table if not exists public.email_outbox (
+  id uuid primary key default gen_random_uuid(),
+  template text not null check (template in (
+    'order_confirmation', 'order_shipped', 'order_delivered', 'order_cancelled', 'company_approved', 'password_reset'
+  )),
+  recipient text not null,
+  -- The template's props (see `src/lib/server/emails`), camelCased to match them
+  payload jsonb not null default '{}'::jsonb,
+  -- Set for emails that must only go out once, e.g. 'order_shipped:<sub_order_id>'
+  dedupe_key text unique,
+  status text not null default 'pending' check (status in ('pending', 'sending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  -- What was rendered on the last attempt
+  subject text,
+  body_text text,
+  body_html text,
+  sent_at timestamptz,
+  user_id uuid references auth.users (id) on delete set null,
+  order_id uuid references public.orders (id) on delete set null,
+  company_id uuid references public.companies (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists email_outbox_due_idx on public.email_outbox (next_attempt_at)
+  where status in ('pending', 'sending');
+create index if not exists email_outbox_order_id_idx on public.email_outbox (order_id);
+
+create trigger email_outbox_touch_updated_at
+  before update on public.email_outbox
+  for each row execute function public.touch_updated_at();
+
+-- Only the server (service role) reads or writes the outbox
+alter table public.email_outbox enable row level security;
+
+-- [{ "name", "quantity", "unitPrice" }] for an orders.order_items / sub_orders.order_items array
+create or replace function public.email_order_items(p_items jsonb)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'name', coalesce(p.product_name, 'Product'),
+        'quantity', (item ->> 'quantity')::integer,
+        'unitPrice', (item ->> 'price_at_purchase')::numeric
+      )
+      order by ordinality
+    ),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) with ordinality as items (item, ordinality)
+  left join products p on p.id = (item ->> 'product_id')::uuid;
+$$;
+
+create or replace function public.queue_order_status_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+  v_sub_order sub_orders%rowtype;
+  v_email text;
+  v_company_name text;
+  v_shipment shipments%rowtype;
+  v_template text;
+  v_payload jsonb;
+begin
+  select * into v_order from orders where id = new.order_id;
+  select email into v_email from user_profiles where id = v_order.user_id;
+  if v_order.id is null or coalesce(v_email, '') = '' then
+    return new;
+  end if;
+
+  -- One confirmation for the whole order, however many sellers confirm their part
+  if new.to_status in ('confirmed', 'cod_pending') then
+    insert into email_outbox (template, recipient, payload, dedupe_key, user_id, order_id)
+    values (
+      'order_confirmation',
+      v_email,
+      jsonb_build_object(
+        'customerName', v_order.customer_name,
+        'orderId', v_order.id,
+        'items', email_order_items(v_order.order_items),
+        'total', v_order.total_amount,
+        'paymentMethod', v_order.payment_method,
+        'shippingAddress', concat_ws(', ', v_order.house_number, v_order.street, v_order.area, v_order.city,
+          v_order.state || ' - ' || v_order.pincode)
+      ),
+      'order_confirmation:' || v_order.id,
+      v_order.user_id,
+      v_order.id
+    )
+    on conflict (dedupe_key) do nothing;
+    return new;
+  end if;
+
+  -- The rest are about one seller's part of the order. An unpaid order that lapses was never
+  -- confirmed, so its cancellation isn't worth an email.
+  if new.sub_order_id is null or new.to_status not in ('shipped', 'delivered', 'cancelled')
+    or (new.to_status = 'cancelled' and coalesce(new.from_status, 'pending') = 'pending') then
+    return new;
+  end if;
+
+  select * into v_sub_order from sub_orders where id = new.sub_order_id;
+  select company_name into v_company_name from companies where id = v_sub_order.company_id;
+  v_template := 'order_' || new.to_status;
+  v_payload := jsonb_build_object(
+    'customerName', v_order.customer_name,
+    'orderId', v_order.id,
+    'companyName', coalesce(v_company_name, 'The seller'),
+    'items', email_order_items(v_sub_order.order_items),
+    'total', v_sub_order.total_amount
+  );
+
+  if new.to_status = 'shipped' then
+    select * into v_shipment from shipments where sub_order_id = new.sub_order_id;
+    v_payload := v_payload || jsonb_build_object(
+      'carrier', v_shipment.carrier,
+      'trackingNumber', v_shipment.tracking_number,
+      'expectedDeliveryDate', v_shipment.expected_delivery_date
+    );
+  elsif new.to_status = 'cancelled' then
+    v_payload := v_payload || jsonb_build_object(
+      'cancelledBy', new.actor_role,
+      'reason', new.note,
+      'paidOnline', v_order.payment_method <> 'cod'
+    );
+  end if;
+
+  insert into email_outbox (template, recipient, payload, dedupe_key, user_id, order_id, company_id)
+  values (
+    v_template, v_email, v_payload, v_template || ':' || new.sub_order_id,
+    v_order.user_id, v_order.id, v_sub_order.company_id
+  )
+  on conflict (dedupe_key) do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger order_status_events_queue_email
+  after insert on public.order_status_events
+  for each row execute function public.queue_order_status_email();
+
+create or replace function public.queue_company_approved_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_approved and not coalesce(old.is_approved, false) and coalesce(new.email, '') <> '' then
+    insert into email_outbox (template, recipient, payload, dedupe_key, user_id, company_id)
+    values (
+      'company_approved',
+      new.email,
+      jsonb_build_object('companyName', new.company_name, 'contactName', new.contact_person_name),
+      'company_approved:' || new.id,
+      new.user_id,
+      new.id
+    )
+    on conflict (dedupe_key) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger companies_queue_approved_email
+  after update of is_approved on public.companies
+  for each row execute function public.queue_company_approved_email();
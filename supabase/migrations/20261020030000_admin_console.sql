@@ -0,0 +1,222 @@
+-- Admin console. Admins review company registrations and new products from `/admin`; every
+-- decision is written to `admin_audit_log` together with the approval it makes. Make someone an
+-- admin with: insert into public.admins (user_id) values ('<auth user id>');
+
+create table if not exists public.admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.admins enable row level security;
+
+-- Lets the app know whether to show the console; nobody can add themselves
+create policy "Admins can see their own membership" on public.admins
+  for select using (user_id = auth.uid());
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from admins where user_id = auth.uid());
+$$;
+
+-- A company or product that isn't approved is waiting for review while `reviewed_at` is null, and
+-- rejected once it is set.
+alter table public.companies
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null,
+  add column if not exists rejection_reason text;
+
+alter table public.products
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null,
+  add column if not exists rejection_reason text;
+
+create index if not exists companies_review_queue_idx on public.companies (created_at) where not is_approved;
+create index if not exists products_review_queue_idx on public.products (created_at) where not is_approved;
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid references auth.users (id) on delete set null,
+  action text not null check (action in ('approve', 'reject')),
+  target_type text not null check (target_type in ('company', 'product')),
+  target_id uuid not null,
+  -- The company or product name at the time, so the log still reads after a rename or delete
+  target_name text,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_target_idx on public.admin_audit_log (target_type, target_id);
+
+alter table public.admin_audit_log enable row level security;
+
+create policy "Admins can view the audit log" on public.admin_audit_log
+  for select using (public.is_admin());
+
+-- Vendors write their own companies and products rows, so without this they could approve
+-- themselves. Their changes keep the review fields as they were, except that changing a rejected
+-- registration's documents, or a rejected product at all, sends it back for review.
+create or replace function public.guard_company_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.is_approved := false;
+    new.reviewed_at := null;
+    new.reviewed_by := null;
+    new.rejection_reason := null;
+    return new;
+  end if;
+
+  new.is_approved := old.is_approved;
+  new.reviewed_at := old.reviewed_at;
+  new.reviewed_by := old.reviewed_by;
+  new.rejection_reason := old.rejection_reason;
+  if not old.is_approved and old.reviewed_at is not null and (
+    new.certificate_url is distinct from old.certificate_url
+    or new.iso_url is distinct from old.iso_url
+    or new.company_logo_url is distinct from old.company_logo_url
+    or new.company_name is distinct from old.company_name
+    or new.registration_number is distinct from old.registration_number
+    or new.gst_number is distinct from old.gst_number
+  ) then
+    new.reviewed_at := null;
+    new.reviewed_by := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger companies_guard_review
+  before insert or update on public.companies
+  for each row execute function public.guard_company_review();
+
+create or replace function public.guard_product_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.is_approved := false;
+    new.reviewed_at := null;
+    new.reviewed_by := null;
+    new.rejection_reason := null;
+    return new;
+  end if;
+
+  new.is_approved := old.is_approved;
+  new.reviewed_by := old.reviewed_by;
+  new.rejection_reason := old.rejection_reason;
+  new.reviewed_at := case when old.is_approved then old.reviewed_at end;
+  return new;
+end;
+$$;
+
+create trigger products_guard_review
+  before insert or update on public.products
+  for each row execute function public.guard_product_review();
+
+-- Approves or rejects a company or product and logs it, in one transaction. Called by the admin
+-- route handlers, which have already checked that `p_admin_id` is an admin.
+create or replace function public.review_listing(
+  p_admin_id uuid,
+  p_target_type text,
+  p_target_id uuid,
+  p_approve boolean,
+  p_reason text
+)
+returns public.admin_audit_log
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+  v_entry admin_audit_log;
+begin
+  if p_target_type = 'company' then
+    update companies
+    set is_approved = p_approve, reviewed_at = now(), reviewed_by = p_admin_id,
+      rejection_reason = case when p_approve then null else p_reason end
+    where id = p_target_id
+    returning company_name into v_name;
+  elsif p_target_type = 'product' then
+    update products
+    set is_approved = p_approve, reviewed_at = now(), reviewed_by = p_admin_id,
+      rejection_reason = case when p_approve then null else p_reason end
+    where id = p_target_id
+    returning product_name into v_name;
+  else
+    raise exception 'unknown_review_target';
+  end if;
+
+  if not found then
+    raise exception 'review_target_not_found';
+  end if;
+
+  insert into admin_audit_log (admin_id, action, target_type, target_id, target_name, reason)
+  values (p_admin_id, case when p_approve then 'approve' else 'reject' end, p_target_type, p_target_id, v_name, p_reason)
+  returning * into v_entry;
+  return v_entry;
+end;
+$$;
+
+revoke execute on function public.review_listing(uuid, text, uuid, boolean, text) from public, anon, authenticated;
+
+-- Rejected registrations are told why by email, like approved ones are told they can start selling
+alter table public.email_outbox drop constraint if exists email_outbox_template_check;
+alter table public.email_outbox
+  add constraint email_outbox_template_check
+  check (template in (
+    'order_confirmation', 'order_shipped', 'order_delivered', 'order_cancelled',
+    'company_approved', 'company_rejected', 'password_reset'
+  ));
+
+create or replace function public.queue_company_rejected_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not new.is_approved and new.reviewed_at is distinct from old.reviewed_at and new.reviewed_at is not null
+    and coalesce(new.email, '') <> '' then
+    insert into email_outbox (template, recipient, payload, user_id, company_id)
+    values (
+      'company_rejected',
+      new.email,
+      jsonb_build_object(
+        'companyName', new.company_name,
+        'contactName', new.contact_person_name,
+        'reason', new.rejection_reason
+      ),
+      new.user_id,
+      new.id
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger companies_queue_rejected_email
+  after update of reviewed_at on public.companies
+  for each row execute function public.queue_company_rejected_email();
@@ -0,0 +1,204 @@
+-- Category taxonomy. Main categories and their sub-categories used to be hard-coded in the product
+-- form, the shop filters and the home slider (which had drifted apart); admins now manage them in
+-- the console. Slugs never change once created, so products, filters and subscriptions key on them,
+-- while names, icons, order and the active flag can be edited freely.
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  -- null for a main category; sub-categories sit one level below
+  parent_id uuid references public.categories (id) on delete restrict,
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null check (length(trim(name)) > 0),
+  icon text,
+  sort_order integer not null default 0,
+  -- Inactive categories can't be picked for new products and are left out of the shop and slider
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists categories_sibling_name_idx
+  on public.categories (coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+create index if not exists categories_parent_idx on public.categories (parent_id, sort_order);
+
+create trigger categories_touch_updated_at
+  before update on public.categories
+  for each row execute function public.touch_updated_at();
+
+alter table public.categories enable row level security;
+
+-- Changes go through the admin route handlers with the service role
+create policy "Anyone can view active categories" on public.categories
+  for select using (is_active or public.is_admin());
+
+insert into public.categories (slug, name, icon, sort_order) values
+  ('organic-groceries-superfoods', 'Organic Groceries & Superfoods', '🥦', 1),
+  ('herbal-natural-personal-care', 'Herbal & Natural Personal Care', '🧴', 2),
+  ('health-wellness-products', 'Health & Wellness Products', '🌿', 3),
+  ('sustainable-home-eco-friendly-living', 'Sustainable Home & Eco-Friendly Living', '♻️', 4),
+  ('sustainable-fashion-accessories', 'Sustainable Fashion & Accessories', '👕', 5),
+  ('organic-baby-kids-care', 'Organic Baby & Kids Care', '👶', 6),
+  ('organic-pet-care', 'Organic Pet Care', '🐾', 7),
+  ('special-dietary-lifestyle-products', 'Special Dietary & Lifestyle Products', '🥗', 8)
+on conflict (slug) do nothing;
+
+insert into public.categories (parent_id, slug, name, sort_order)
+select main.id, sub.slug, sub.name, sub.sort_order
+from (values
+  ('organic-groceries-superfoods', 'organic-staples-grains', 'Organic Staples & Grains', 1),
+  ('organic-groceries-superfoods', 'cold-pressed-oils-ghee', 'Cold-Pressed Oils & Ghee', 2),
+  ('organic-groceries-superfoods', 'organic-spices-condiments', 'Organic Spices & Condiments', 3),
+  ('organic-groceries-superfoods', 'superfoods-immunity-boosters', 'Superfoods & Immunity Boosters', 4),
+  ('organic-groceries-superfoods', 'natural-sweeteners', 'Natural Sweeteners', 5),
+  ('organic-groceries-superfoods', 'organic-snacks-beverages', 'Organic Snacks & Beverages', 6),
+  ('organic-groceries-superfoods', 'dairy-plant-based-alternatives', 'Dairy & Plant-Based Alternatives', 7),
+  ('herbal-natural-personal-care', 'organic-skincare', 'Organic Skincare', 1),
+  ('herbal-natural-personal-care', 'herbal-haircare', 'Herbal Haircare', 2),
+  ('herbal-natural-personal-care', 'natural-oral-care', 'Natural Oral Care', 3),
+  ('herbal-natural-personal-care', 'chemical-free-cosmetics', 'Chemical-Free Cosmetics', 4),
+  ('herbal-natural-personal-care', 'organic-fragrances', 'Organic Fragrances', 5),
+  ('health-wellness-products', 'ayurvedic-herbal-supplements', 'Ayurvedic & Herbal Supplements', 1),
+  ('health-wellness-products', 'nutritional-supplements', 'Nutritional Supplements', 2),
+  ('health-wellness-products', 'detox-gut-health', 'Detox & Gut Health', 3),
+  ('health-wellness-products', 'immunity-boosters', 'Immunity Boosters', 4),
+  ('health-wellness-products', 'essential-oils-aromatherapy', 'Essential Oils & Aromatherapy', 5),
+  ('sustainable-home-eco-friendly-living', 'organic-cleaning-products', 'Organic Cleaning Products', 1),
+  ('sustainable-home-eco-friendly-living', 'reusable-biodegradable-kitchen-essentials', 'Reusable & Biodegradable Kitchen Essentials', 2),
+  ('sustainable-home-eco-friendly-living', 'organic-gardening', 'Organic Gardening', 3),
+  ('sustainable-home-eco-friendly-living', 'sustainable-home-decor', 'Sustainable Home Décor', 4),
+  ('sustainable-fashion-accessories', 'organic-cotton-hemp-clothing', 'Organic Cotton & Hemp Clothing', 1),
+  ('sustainable-fashion-accessories', 'eco-friendly-footwear', 'Eco-Friendly Footwear', 2),
+  ('sustainable-fashion-accessories', 'bamboo-wooden-accessories', 'Bamboo & Wooden Accessories', 3),
+  ('sustainable-fashion-accessories', 'handmade-sustainable-jewelry', 'Handmade & Sustainable Jewelry', 4),
+  ('organic-baby-kids-care', 'organic-baby-food', 'Organic Baby Food', 1),
+  ('organic-baby-kids-care', 'natural-baby-skincare', 'Natural Baby Skincare', 2),
+  ('organic-baby-kids-care', 'eco-friendly-baby-clothing', 'Eco-Friendly Baby Clothing', 3),
+  ('organic-baby-kids-care', 'non-toxic-toys-accessories', 'Non-Toxic Toys & Accessories', 4),
+  ('organic-pet-care', 'organic-pet-food', 'Organic Pet Food', 1),
+  ('organic-pet-care', 'herbal-grooming-skincare', 'Herbal Grooming & Skincare', 2),
+  ('organic-pet-care', 'natural-pet-supplements', 'Natural Pet Supplements', 3),
+  ('special-dietary-lifestyle-products', 'gluten-free-foods', 'Gluten-Free Foods', 1),
+  ('special-dietary-lifestyle-products', 'vegan-plant-based-alternatives', 'Vegan & Plant-Based Alternatives', 2),
+  ('special-dietary-lifestyle-products', 'keto-low-carb-products', 'Keto & Low-Carb Products', 3),
+  ('special-dietary-lifestyle-products', 'diabetic-friendly-foods', 'Diabetic-Friendly Foods', 4)
+) as sub (parent_slug, slug, name, sort_order)
+join public.categories main on main.slug = sub.parent_slug
+on conflict (slug) do nothing;
+
+-- Names compared loosely, so "Organic Groceries and Superfoods" (the old home slider spelling)
+-- matches "Organic Groceries & Superfoods".
+create or replace function public.category_name_key(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(regexp_replace(lower(trim(coalesce(p_name, ''))), '\s+and\s+', ' & ', 'g'), '\s+', ' ', 'g');
+$$;
+
+-- Rewrites `products.categories` entries as { main, sub, mainSlug, subSlug } with the current
+-- names. Entries are matched by slug when they have one and by name otherwise; anything that
+-- matches no category is kept as it is. Runs as the owner so hidden categories are still found.
+create or replace function public.normalize_product_categories(p_categories jsonb)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_entry jsonb;
+  v_main categories;
+  v_sub categories;
+  v_result jsonb := '[]'::jsonb;
+begin
+  if p_categories is null or jsonb_typeof(p_categories) <> 'array' then
+    return p_categories;
+  end if;
+
+  for v_entry in select value from jsonb_array_elements(p_categories) loop
+    v_main := null;
+    v_sub := null;
+
+    if jsonb_typeof(v_entry) = 'object' then
+      if v_entry ? 'subSlug' then
+        select * into v_sub from categories where slug = v_entry->>'subSlug' and parent_id is not null;
+      end if;
+      if v_sub.id is null and v_entry ? 'sub' then
+        select sub.* into v_sub
+        from categories sub
+        join categories main on main.id = sub.parent_id
+        where category_name_key(sub.name) = category_name_key(v_entry->>'sub')
+        order by (category_name_key(main.name) = category_name_key(v_entry->>'main')) desc
+        limit 1;
+      end if;
+
+      if v_sub.id is not null then
+        select * into v_main from categories where id = v_sub.parent_id;
+      elsif v_entry ? 'mainSlug' then
+        select * into v_main from categories where slug = v_entry->>'mainSlug' and parent_id is null;
+      end if;
+      if v_main.id is null and v_entry ? 'main' then
+        select * into v_main
+        from categories
+        where parent_id is null and category_name_key(name) = category_name_key(v_entry->>'main');
+      end if;
+    end if;
+
+    if v_sub.id is not null then
+      v_entry := jsonb_build_object('main', v_main.name, 'sub', v_sub.name, 'mainSlug', v_main.slug, 'subSlug', v_sub.slug);
+    elsif v_main.id is not null then
+      v_entry := v_entry || jsonb_build_object('main', v_main.name, 'mainSlug', v_main.slug);
+    end if;
+
+    if not v_result @> jsonb_build_array(v_entry) then
+      v_result := v_result || jsonb_build_array(v_entry);
+    end if;
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- Whatever a vendor saves is stored in the normalised shape
+create or replace function public.normalize_product_categories_trigger()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.categories := normalize_product_categories(new.categories);
+  return new;
+end;
+$$;
+
+create trigger products_normalize_categories
+  before insert or update of categories on public.products
+  for each row execute function public.normalize_product_categories_trigger();
+
+update public.products set categories = categories where categories is not null;
+
+-- Products and coupons keep the category names for display, so a rename is copied to them
+create or replace function public.sync_category_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_id is null then
+    update products set categories = categories
+    where categories @> jsonb_build_array(jsonb_build_object('mainSlug', new.slug));
+    update coupons set category = new.name where category = old.name;
+  else
+    update products set categories = categories
+    where categories @> jsonb_build_array(jsonb_build_object('subSlug', new.slug));
+  end if;
+  return new;
+end;
+$$;
+
+create trigger categories_sync_name
+  after update of name on public.categories
+  for each row
+  when (new.name is distinct from old.name)
+  execute function public.sync_category_name();
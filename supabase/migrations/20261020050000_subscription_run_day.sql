@@ -0,0 +1,13 @@
+-- Monthly subscriptions were scheduled from their previous run, so one started on the 31st moved
+-- to the 28th after February and stayed there. The day of the month they started on is now kept
+-- on the subscription and every monthly run is worked out from it.
+
+alter table public.subscriptions
+  add column if not exists run_day smallint check (run_day between 1 and 31);
+
+-- The first run is on the day the customer subscribed
+update public.subscriptions
+set run_day = extract(day from created_at at time zone 'utc')
+where run_day is null;
+
+alter table public.subscriptions alter column run_day set not null;
@@ -0,0 +1,6 @@
+-- The "mark read" policy let customers update every column of their own notifications, so they
+-- could rewrite the title, body or link shown in their bell. `read_at` is the only column the app
+-- writes with the user's session; everything else is written with the service role.
+
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
@@ -0,0 +1,7 @@
+-- Password reset emails used to be queued with their recovery link in the payload and kept their
+-- rendered bodies after sending, leaving working sign-in links readable in the table. Links are
+-- now made when the email is sent and not stored; this removes the ones already there.
+
+update public.email_outbox
+set payload = payload - 'resetUrl', body_text = null, body_html = null
+where template = 'password_reset';
@@ -0,0 +1,34 @@
+-- Return photos show customers' items and parcels, so the bucket is no longer public. Requests
+-- keep the object paths instead of public URLs, and the pages show the photos through signed URLs
+-- that only the customer and the company the return is for can create.
+
+update storage.buckets set public = false where id = 'return-photos';
+
+update public.return_requests
+set photo_urls = array(
+  select regexp_replace(url, '^.*/return-photos/', '')
+  from unnest(photo_urls) with ordinality as photo (url, position)
+  order by position
+)
+where cardinality(photo_urls) > 0;
+
+alter table public.return_requests rename column photo_urls to photo_paths;
+
+-- Uploads and deletes go through the returns route with the service role
+create policy "Customers can view their return photos" on storage.objects
+  for select using (
+    bucket_id = 'return-photos'
+    and exists (
+      select 1 from public.return_requests r
+      where storage.objects.name = any (r.photo_paths) and r.user_id = auth.uid()
+    )
+  );
+
+create policy "Companies can view photos of returns to them" on storage.objects
+  for select using (
+    bucket_id = 'return-photos'
+    and exists (
+      select 1 from public.return_requests r
+      where storage.objects.name = any (r.photo_paths) and public.is_company_owner(r.company_id)
+    )
+  );